@@ -1,8 +1,13 @@
 /**
  * 功能：PDF 文字提取演算法回歸測試 runner
  * 職責：讀取 test-cases.json，對每個案例以 pdfjs-dist + pdfTextExtractCore 跑完整提取管線，
- *       比對提取文字與預期結果，輸出 PASS/FAIL 統計
- * 依賴：pdfjs-dist/legacy（PDF 載入）、pdfTextExtractCore（演算法核心，與生產程式碼共用同一份）
+ *       比對提取文字與預期結果，輸出 PASS/FAIL 統計；另驗證段落重排（reflowText）：
+ *       region 有 expectedReflow 時比對重排結果，reflowCases 為純文字案例（不需 PDF）；
+ *       entityCases 驗證財務數據擷取（extractEntitiesFromText，含不應命中的反例）；
+ *       boilerplateCases 驗證末尾樣板頁判斷（classifyBoilerplatePage，含頁尾引用免責聲明的內容頁）；
+ *       filenameCases 驗證檔名 metadata 解析（parseMetadataFromFilename，預設券商 + 內建證券種子表，與啟動時相同）
+ * 依賴：pdfjs-dist/legacy（PDF 載入）、pdfTextExtractCore（演算法核心，與生產程式碼共用同一份）、financialEntities（財務數據擷取）、
+ *       boilerplatePages（樣板頁判斷）、brokerUtils + securities（檔名解析）
  *
  * 注意：本腳本刻意不 import pdfTextExtract.ts（該檔依賴 react-pdf，無法在 Node.js 環境執行），
  *       而是直接呼叫 pdfTextExtractCore 的純函式，複製相同的提取管線（Phase 0~2.75+3）
@@ -10,7 +15,7 @@
  * 用法（在 pdfextract-ai/pdf/ 目錄下執行）：
  *   npx tsx run-extraction-tests.ts              # 執行全部案例
  *   npx tsx run-extraction-tests.ts --verbose    # 同時顯示完整提取文字內容
- *   npx tsx run-extraction-tests.ts --filter 5371   # 只跑 id 或 name 含關鍵字的案例
+ *   npx tsx run-extraction-tests.ts --filter 5371   # 只跑 id 或 name 含關鍵字的案例（含各純文字案例）
  *   npx tsx run-extraction-tests.ts --update     # 將實際結果寫回 test-cases.json 作為新基準
  */
 
@@ -31,9 +36,21 @@ import {
   enforceMinVerticalGap,
   applyDescenderCompensation,
   extractTextFromBbox,
+  reflowText,
   isWingdingsFont,
   sanitizeWingdings,
 } from '../src/lib/pdfTextExtractCore';
+import { extractEntitiesFromText } from '../src/lib/financialEntities';
+import { classifyBoilerplatePage } from '../src/lib/boilerplatePages';
+import {
+  DEFAULT_BROKER_ALIAS_GROUPS,
+  DEFAULT_BROKER_SKIP_MAP,
+  buildBrokerAliasMap,
+  parseMetadataFromFilename,
+} from '../src/lib/brokerUtils';
+import { buildSecurityIndex, parseSecuritiesCsv } from '../src/lib/securities';
+import { BUNDLED_SECURITIES_CSV } from '../src/lib/securitiesSeed';
+import type { BoilerplateKind, FinancialEntity } from '../src/lib/types';
 
 const SCRIPT_DIR = dirname(fileURLToPath(import.meta.url));
 const CASES_FILE = join(SCRIPT_DIR, 'test-cases.json');
@@ -47,6 +64,8 @@ interface RegionCase {
   inputBbox: [number, number, number, number];
   /** 預期提取文字，與生產環境一致 */
   expectedText: string;
+  /** 預期段落重排結果（選填；有值時一併比對 reflowText(實際文字)） */
+  expectedReflow?: string;
   /** 已知問題說明（不影響 PASS/FAIL 判定，僅供參考） */
   note?: string;
 }
@@ -59,10 +78,46 @@ interface TestCase {
   regions: RegionCase[];
 }
 
+/** 段落重排純文字案例：input 經 reflowText 後應等於 expected */
+interface ReflowCase {
+  id: string;
+  name: string;
+  input: string;
+  expected: string;
+}
+
+/** 財務數據擷取純文字案例：input 擷取結果經 formatEntity 後應等於 expected（空陣列 = 不應擷取到任何數據） */
+interface EntityCase {
+  id: string;
+  name: string;
+  input: string;
+  expected: string[];
+}
+
+/** 樣板頁判斷純文字案例：input（單頁文字層）經 classifyBoilerplatePage 後的類型應等於 expected（null = 內容頁） */
+interface BoilerplateCase {
+  id: string;
+  name: string;
+  input: string;
+  expected: Exclude<BoilerplateKind, 'blank'> | null;
+}
+
+/** 檔名解析案例：input（檔名）經 parseMetadataFromFilename 後的 date / code / broker 應等於 expected（未解析到的欄位省略） */
+interface FilenameCase {
+  id: string;
+  name: string;
+  input: string;
+  expected: { date?: string; code?: string; broker?: string };
+}
+
 interface TestCasesFile {
   version: string;
   description: string;
   cases: TestCase[];
+  reflowCases?: ReflowCase[];
+  entityCases?: EntityCase[];
+  boilerplateCases?: BoilerplateCase[];
+  filenameCases?: FilenameCase[];
 }
 
 interface RegionResult {
@@ -71,6 +126,8 @@ interface RegionResult {
   pass: boolean;
   actual: string;
   expected: string;
+  /** 段落重排比對（僅 region 有 expectedReflow 時） */
+  reflow?: { pass: boolean; actual: string; expected: string };
   hitsCount: number;
   note?: string;
 }
@@ -244,6 +301,11 @@ function buildDiff(actual: string, expected: string): string {
   return `     長度不同（實際 ${a.length}，預期 ${e.length}）`;
 }
 
+/** 財務數據摘要：種類 指標=數值單位 @期間 (增減率描述的指標) */
+function formatEntity(e: FinancialEntity): string {
+  return `${e.kind} ${e.label}=${e.value}${e.unit ?? ''}${e.period ? ` @${e.period}` : ''}${e.subject ? ` (${e.subject})` : ''}`;
+}
+
 // ──────────────────────────── 執行 ──────────────────────────────
 
 async function runCase(tc: TestCase): Promise<CaseResult> {
@@ -261,12 +323,18 @@ async function runCase(tc: TestCase): Promise<CaseResult> {
     const regionResults: RegionResult[] = tc.regions.map((r, i) => {
       const actual = normalize(extracted[i]?.text ?? '');
       const expected = normalize(r.expectedText);
+      const reflow = r.expectedReflow === undefined ? undefined : (() => {
+        const reflowActual = normalize(reflowText(actual));
+        const reflowExpected = normalize(r.expectedReflow);
+        return { pass: reflowActual === reflowExpected, actual: reflowActual, expected: reflowExpected };
+      })();
       return {
         regionId: r.regionId,
         label: r.label,
-        pass: actual === expected,
+        pass: actual === expected && (reflow?.pass ?? true),
         actual,
         expected,
+        reflow,
         hitsCount: extracted[i]?.hitsCount ?? 0,
         note: r.note,
       };
@@ -294,9 +362,15 @@ async function main() {
 
   const fixture = JSON.parse(readFileSync(CASES_FILE, 'utf-8')) as TestCasesFile;
   let cases = fixture.cases;
+  const matchesFilter = (c: { id: string; name: string }) => !filterKey || c.id.includes(filterKey) || c.name.includes(filterKey);
+  const reflowCases = (fixture.reflowCases ?? []).filter(matchesFilter);
+  const entityCases = (fixture.entityCases ?? []).filter(matchesFilter);
+  const boilerplateCases = (fixture.boilerplateCases ?? []).filter(matchesFilter);
+  const filenameCases = (fixture.filenameCases ?? []).filter(matchesFilter);
   if (filterKey) {
-    cases = cases.filter(c => c.id.includes(filterKey) || c.name.includes(filterKey));
-    if (cases.length === 0) {
+    cases = cases.filter(matchesFilter);
+    const textCaseCount = reflowCases.length + entityCases.length + boilerplateCases.length + filenameCases.length;
+    if (cases.length === 0 && textCaseCount === 0) {
       console.log(`⚠️ 找不到包含「${filterKey}」的案例`);
       return;
     }
@@ -331,6 +405,9 @@ async function main() {
       const updatedRegions = tc.regions.map((r, i) => ({
         ...r,
         expectedText: result.regionResults[i]?.actual ?? r.expectedText,
+        ...(r.expectedReflow !== undefined && {
+          expectedReflow: result.regionResults[i]?.reflow?.actual ?? r.expectedReflow,
+        }),
       }));
       updatedCases.push({ ...tc, regions: updatedRegions });
     } else {
@@ -348,6 +425,10 @@ async function main() {
 
       if (!rr.pass) {
         console.log(buildDiff(rr.actual, rr.expected));
+        if (rr.reflow && !rr.reflow.pass) {
+          console.log(`     🔁 段落重排結果不符`);
+          console.log(buildDiff(rr.reflow.actual, rr.reflow.expected));
+        }
         if (verbose || true) {
           // 失敗時一定顯示完整內容方便 debug
           if (rr.actual) {
@@ -370,6 +451,88 @@ async function main() {
     if (!result.pass) totalCaseFail++;
   }
 
+  // 段落重排純文字案例（不需 PDF）
+  let totalReflowFail = 0;
+  const updatedReflowCases = new Map<string, string>();
+  if (reflowCases.length > 0) {
+    console.log(`\n🔁 段落重排案例   (${reflowCases.length} 個)`);
+    for (const rc of reflowCases) {
+      const actual = normalize(reflowText(rc.input));
+      const pass = actual === normalize(rc.expected);
+      console.log(`${pass ? '  ✅' : '  ❌'} ${rc.id} — ${rc.name}`);
+      if (!pass) {
+        console.log(buildDiff(actual, rc.expected));
+        totalReflowFail++;
+      } else if (verbose) {
+        actual.split('\n').forEach(l => console.log(`     │ ${l}`));
+      }
+      if (updateMode) updatedReflowCases.set(rc.id, actual);
+    }
+  }
+
+  // 財務數據擷取純文字案例（不需 PDF）
+  let totalEntityFail = 0;
+  const updatedEntityCases = new Map<string, string[]>();
+  if (entityCases.length > 0) {
+    console.log(`\n💹 財務數據擷取案例   (${entityCases.length} 個)`);
+    for (const ec of entityCases) {
+      const actual = extractEntitiesFromText(ec.input, 1, 1).map(formatEntity);
+      const pass = JSON.stringify(actual) === JSON.stringify(ec.expected);
+      console.log(`${pass ? '  ✅' : '  ❌'} ${ec.id} — ${ec.name}`);
+      if (!pass) {
+        console.log(`     實際: ${JSON.stringify(actual)}`);
+        console.log(`     預期: ${JSON.stringify(ec.expected)}`);
+        totalEntityFail++;
+      } else if (verbose) {
+        actual.forEach(l => console.log(`     │ ${l}`));
+      }
+      if (updateMode) updatedEntityCases.set(ec.id, actual);
+    }
+  }
+
+  // 樣板頁判斷純文字案例（不需 PDF）
+  let totalBoilerplateFail = 0;
+  const updatedBoilerplateCases = new Map<string, BoilerplateCase['expected']>();
+  if (boilerplateCases.length > 0) {
+    console.log(`\n📜 樣板頁判斷案例   (${boilerplateCases.length} 個)`);
+    for (const bc of boilerplateCases) {
+      const verdict = classifyBoilerplatePage(bc.input);
+      const actual = verdict?.kind ?? null;
+      const pass = actual === bc.expected;
+      console.log(`${pass ? '  ✅' : '  ❌'} ${bc.id} — ${bc.name}`);
+      if (!pass) {
+        console.log(`     實際: ${actual}${verdict ? `（${verdict.reasons.join('；')}）` : ''}`);
+        console.log(`     預期: ${bc.expected}`);
+        totalBoilerplateFail++;
+      } else if (verbose && verdict) {
+        verdict.reasons.forEach(l => console.log(`     │ ${l}`));
+      }
+      if (updateMode) updatedBoilerplateCases.set(bc.id, actual);
+    }
+  }
+
+  // 檔名解析純文字案例（預設券商與內建證券種子表，與啟動時相同）
+  let totalFilenameFail = 0;
+  const updatedFilenameCases = new Map<string, FilenameCase['expected']>();
+  if (filenameCases.length > 0) {
+    console.log(`\n📁 檔名解析案例   (${filenameCases.length} 個)`);
+    const knownBrokers = Object.keys(DEFAULT_BROKER_SKIP_MAP);
+    const aliasMap = buildBrokerAliasMap(DEFAULT_BROKER_ALIAS_GROUPS);
+    const seedIndex = buildSecurityIndex(parseSecuritiesCsv(BUNDLED_SECURITIES_CSV), false);
+    for (const fc of filenameCases) {
+      const { date, code, broker } = parseMetadataFromFilename(fc.input, knownBrokers, aliasMap, seedIndex);
+      const actual = { ...(date && { date }), ...(code && { code }), ...(broker && { broker }) };
+      const pass = JSON.stringify(actual) === JSON.stringify(fc.expected);
+      console.log(`${pass ? '  ✅' : '  ❌'} ${fc.id} — ${fc.name}`);
+      if (!pass) {
+        console.log(`     實際: ${JSON.stringify(actual)}`);
+        console.log(`     預期: ${JSON.stringify(fc.expected)}`);
+        totalFilenameFail++;
+      }
+      if (updateMode) updatedFilenameCases.set(fc.id, actual);
+    }
+  }
+
   // 摘要
   const totalRegion = totalRegionPass + totalRegionFail;
   console.log(`\n${LINE}`);
@@ -379,16 +542,57 @@ async function main() {
     console.log(`❌ ${totalRegionFail} 個 region 失敗  (共 ${totalRegion} 個)`);
     console.log(`   案例失敗：${totalCaseFail}/${cases.length}`);
   }
+  if (reflowCases.length > 0) {
+    console.log(totalReflowFail === 0
+      ? `✅ 段落重排全部通過  ${reflowCases.length}/${reflowCases.length} 個案例`
+      : `❌ 段落重排 ${totalReflowFail} 個案例失敗  (共 ${reflowCases.length} 個)`);
+  }
+  if (entityCases.length > 0) {
+    console.log(totalEntityFail === 0
+      ? `✅ 財務數據擷取全部通過  ${entityCases.length}/${entityCases.length} 個案例`
+      : `❌ 財務數據擷取 ${totalEntityFail} 個案例失敗  (共 ${entityCases.length} 個)`);
+  }
+  if (boilerplateCases.length > 0) {
+    console.log(totalBoilerplateFail === 0
+      ? `✅ 樣板頁判斷全部通過  ${boilerplateCases.length}/${boilerplateCases.length} 個案例`
+      : `❌ 樣板頁判斷 ${totalBoilerplateFail} 個案例失敗  (共 ${boilerplateCases.length} 個)`);
+  }
+  if (filenameCases.length > 0) {
+    console.log(totalFilenameFail === 0
+      ? `✅ 檔名解析全部通過  ${filenameCases.length}/${filenameCases.length} 個案例`
+      : `❌ 檔名解析 ${totalFilenameFail} 個案例失敗  (共 ${filenameCases.length} 個)`);
+  }
 
   // --update：回寫 JSON
   if (updateMode) {
-    const updated: TestCasesFile = { ...fixture, cases: updatedCases };
+    const updated: TestCasesFile = {
+      ...fixture,
+      // --filter 時只更新有跑的案例，其餘保留原樣
+      cases: fixture.cases.map(tc => updatedCases.find(u => u.id === tc.id) ?? tc),
+      ...(fixture.reflowCases && {
+        reflowCases: fixture.reflowCases.map(rc => ({ ...rc, expected: updatedReflowCases.get(rc.id) ?? rc.expected })),
+      }),
+      ...(fixture.entityCases && {
+        entityCases: fixture.entityCases.map(ec => ({ ...ec, expected: updatedEntityCases.get(ec.id) ?? ec.expected })),
+      }),
+      ...(fixture.boilerplateCases && {
+        boilerplateCases: fixture.boilerplateCases.map(bc => ({
+          ...bc,
+          expected: updatedBoilerplateCases.has(bc.id) ? updatedBoilerplateCases.get(bc.id)! : bc.expected,
+        })),
+      }),
+      ...(fixture.filenameCases && {
+        filenameCases: fixture.filenameCases.map(fc => ({ ...fc, expected: updatedFilenameCases.get(fc.id) ?? fc.expected })),
+      }),
+    };
     writeFileSync(CASES_FILE, JSON.stringify(updated, null, 2), 'utf-8');
     console.log(`\n📝 已將實際結果更新至 test-cases.json（作為新基準）`);
   }
 
   console.log('');
-  if (totalRegionFail > 0) process.exit(1);
+  if (totalRegionFail > 0 || totalReflowFail > 0 || totalEntityFail > 0 || totalBoilerplateFail > 0 || totalFilenameFail > 0) {
+    process.exit(1);
+  }
 }
 
 main().catch(e => {
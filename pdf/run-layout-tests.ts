@@ -0,0 +1,244 @@
+/**
+ * 功能：版面分析（無 AI 區域提案）離線評估 runner
+ * 職責：讀取 test-cases.json，對每個案例以 pdfjs-dist + pdfTextExtractCore.proposeLayoutBlocks 提出段落區塊，
+ *       與案例中 AI 標註的 inputBbox 比對，輸出每個 region 的文字覆蓋率、最佳 IoU 與多餘提案數
+ * 依賴：pdfjs-dist/legacy（PDF 載入）、pdfTextExtractCore（演算法核心，與生產程式碼共用同一份）
+ *
+ * 判定：region 內文字項（中心點落在 inputBbox 內）有 ≥ MIN_COVERAGE 被提案區塊涵蓋 → PASS
+ *       IoU 與多餘提案僅供參考（AI 框常含標題與多段，提案以段落為單位，IoU 天生偏低）
+ *
+ * 用法（在 pdfextract-ai/pdf/ 目錄下執行）：
+ *   npx tsx run-layout-tests.ts                # 執行全部案例
+ *   npx tsx run-layout-tests.ts --verbose      # 同時列出所有提案區塊
+ *   npx tsx run-layout-tests.ts --filter 5371  # 只跑 id 或 name 含關鍵字的案例
+ */
+
+// @ts-ignore — legacy build 沒有獨立 TS 宣告
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { readFileSync, existsSync, readdirSync } from 'fs';
+import { join, dirname, basename } from 'path';
+import { fileURLToPath } from 'url';
+
+import {
+  type NormTextItem,
+  type LayoutBlock,
+  NORMALIZED_MAX,
+  proposeLayoutBlocks,
+  isWingdingsFont,
+  sanitizeWingdings,
+} from '../src/lib/pdfTextExtractCore';
+
+const SCRIPT_DIR = dirname(fileURLToPath(import.meta.url));
+const CASES_FILE = join(SCRIPT_DIR, 'test-cases.json');
+
+/** region 文字覆蓋率門檻 */
+const MIN_COVERAGE = 0.9;
+
+type Bbox = [number, number, number, number];
+
+/** 本腳本用到的 pdfjs 頁面 API（legacy build 無型別宣告） */
+interface PdfPage {
+  getViewport(params: { scale: number }): { width: number; height: number };
+  getTextContent(): Promise<{ items: object[]; styles: Record<string, { fontFamily: string }> }>;
+  getOperatorList(): Promise<unknown>;
+  commonObjs: { get(name: string): { name?: string } | undefined };
+}
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  fontName?: string;
+}
+
+const loadDocument = getDocument as (src: { data: Uint8Array }) => {
+  promise: Promise<{ getPage(pageNum: number): Promise<PdfPage> }>;
+};
+
+// ──────────────────────────── Types ─────────────────────────────
+
+interface RegionCase {
+  regionId: number;
+  label: string;
+  inputBbox: Bbox;
+}
+
+interface TestCase {
+  id: string;
+  name: string;
+  pdfFile: string;
+  page: number;
+  regions: RegionCase[];
+}
+
+interface RegionScore {
+  regionId: number;
+  label: string;
+  coverage: number;
+  bestIoU: number;
+  itemCount: number;
+  pass: boolean;
+}
+
+// ──────────────────────────── PDF 輔助 ───────────────────────────
+
+/** 解析 PDF 路徑（支援模糊比對，解決 PowerShell 中文編碼問題） */
+function resolvePdfPath(pdfFile: string): string {
+  const direct = join(SCRIPT_DIR, pdfFile);
+  if (existsSync(direct)) return direct;
+
+  const keyword = basename(pdfFile, '.pdf').slice(0, 4);
+  const match = readdirSync(SCRIPT_DIR).find(f => f.endsWith('.pdf') && f.includes(keyword));
+  if (match) return join(SCRIPT_DIR, match);
+
+  throw new Error(`找不到 PDF 檔案：${pdfFile}`);
+}
+
+/** 建立 NormTextItem 陣列（含 Wingdings 字型偵測與替換，與 pdfTextExtract.ts 邏輯相同） */
+async function buildTextItems(page: PdfPage): Promise<NormTextItem[]> {
+  const viewport = page.getViewport({ scale: 1 });
+  const { width: vw, height: vh } = viewport;
+  const textContent = await page.getTextContent();
+  const styles = textContent.styles as Record<string, { fontFamily: string }>;
+
+  const wingdingsFonts = new Set<string>();
+  for (const [fontName, style] of Object.entries(styles)) {
+    if (style.fontFamily && isWingdingsFont(style.fontFamily)) wingdingsFonts.add(fontName);
+  }
+  if (wingdingsFonts.size === 0) {
+    try {
+      await page.getOperatorList();
+      for (const fontName of Object.keys(styles)) {
+        try {
+          const fontObj = page.commonObjs.get(fontName);
+          if (fontObj?.name && isWingdingsFont(fontObj.name)) wingdingsFonts.add(fontName);
+        } catch { /* 個別字型可能未 resolve，跳過 */ }
+      }
+    } catch { /* getOperatorList 失敗時靜默降級 */ }
+  }
+
+  const textItems: NormTextItem[] = [];
+  for (const item of textContent.items) {
+    if (!('transform' in item) || !('str' in item)) continue;
+    const ti = item as PdfTextItem;
+    if (!ti.str.trim()) continue;
+
+    let str = ti.str;
+    if (ti.fontName && wingdingsFonts.has(ti.fontName)) str = sanitizeWingdings(str);
+    if (!str.trim()) continue;
+
+    const normX = (ti.transform[4] / vw) * NORMALIZED_MAX;
+    const normY = ((vh - ti.transform[5] - ti.height) / vh) * NORMALIZED_MAX;
+    const normW = (ti.width / vw) * NORMALIZED_MAX;
+    const normH = (ti.height / vh) * NORMALIZED_MAX;
+    textItems.push({ str, normX, normY, normW, normH, normBaseline: normY + normH });
+  }
+  return textItems;
+}
+
+// ──────────────────────────── 評分 ──────────────────────────────
+
+function iou(a: Bbox, b: Bbox): number {
+  const ix = Math.max(0, Math.min(a[2], b[2]) - Math.max(a[0], b[0]));
+  const iy = Math.max(0, Math.min(a[3], b[3]) - Math.max(a[1], b[1]));
+  const inter = ix * iy;
+  const union = (a[2] - a[0]) * (a[3] - a[1]) + (b[2] - b[0]) * (b[3] - b[1]) - inter;
+  return union > 0 ? inter / union : 0;
+}
+
+function containsPoint(b: Bbox, x: number, y: number): boolean {
+  return x >= b[0] && x <= b[2] && y >= b[1] && y <= b[3];
+}
+
+/** 文字項中心點（baseline 與 top 之間） */
+function center(ti: NormTextItem): [number, number] {
+  return [ti.normX + ti.normW / 2, (ti.normY + ti.normBaseline) / 2];
+}
+
+function scoreRegion(region: RegionCase, textItems: NormTextItem[], blocks: LayoutBlock[]): RegionScore {
+  const inside = textItems.filter(ti => containsPoint(region.inputBbox, ...center(ti)));
+  const covered = inside.filter(ti => blocks.some(b => containsPoint(b.bbox, ...center(ti))));
+  const coverage = inside.length > 0 ? covered.length / inside.length : 0;
+  const bestIoU = blocks.reduce((best, b) => Math.max(best, iou(region.inputBbox, b.bbox)), 0);
+  return {
+    regionId: region.regionId,
+    label: region.label,
+    coverage,
+    bestIoU,
+    itemCount: inside.length,
+    pass: coverage >= MIN_COVERAGE,
+  };
+}
+
+// ──────────────────────────── Main ──────────────────────────────
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const filterIdx = args.findIndex(a => a === '--filter');
+  const filterKey = filterIdx >= 0 ? args[filterIdx + 1] : null;
+
+  const fixture = JSON.parse(readFileSync(CASES_FILE, 'utf-8')) as { cases: TestCase[] };
+  let cases = fixture.cases;
+  if (filterKey) {
+    cases = cases.filter(c => c.id.includes(filterKey) || c.name.includes(filterKey));
+    if (cases.length === 0) {
+      console.log(`⚠️ 找不到包含「${filterKey}」的案例`);
+      return;
+    }
+  }
+
+  const LINE = '─'.repeat(62);
+  console.log(`\n🧱 版面分析離線評估   (${cases.length} 個案例，覆蓋率門檻 ${MIN_COVERAGE * 100}%)\n${LINE}`);
+
+  let regionPass = 0;
+  let regionFail = 0;
+  let extraTotal = 0;
+
+  for (let ci = 0; ci < cases.length; ci++) {
+    const tc = cases[ci];
+    let textItems: NormTextItem[];
+    try {
+      const pdfData = new Uint8Array(readFileSync(resolvePdfPath(tc.pdfFile)));
+      const doc = await loadDocument({ data: pdfData }).promise;
+      textItems = await buildTextItems(await doc.getPage(tc.page));
+    } catch (e) {
+      console.log(`\n❌ [${ci + 1}/${cases.length}] ${tc.id} — ${tc.name}\n   💥 執行錯誤：${String(e)}`);
+      regionFail += tc.regions.length;
+      continue;
+    }
+
+    const blocks = proposeLayoutBlocks(textItems);
+    const scores = tc.regions.map(r => scoreRegion(r, textItems, blocks));
+    // 多餘提案：與任何 AI 框都不重疊的區塊（可能是 AI 排除的圖表說明、風險因子等）
+    const extra = blocks.filter(b => !tc.regions.some(r => iou(r.inputBbox, b.bbox) > 0));
+    extraTotal += extra.length;
+
+    const casePass = scores.every(s => s.pass);
+    console.log(`\n${casePass ? '✅' : '❌'} [${ci + 1}/${cases.length}] ${tc.id} — ${tc.name}`);
+    console.log(`   PDF: ${tc.pdfFile}  第 ${tc.page} 頁  提案 ${blocks.length} 個（多餘 ${extra.length}）`);
+    for (const s of scores) {
+      console.log(
+        `${s.pass ? '  ✅' : '  ❌'} r${s.regionId} 「${s.label}」  覆蓋 ${(s.coverage * 100).toFixed(0)}%` +
+        ` (${s.itemCount} items)  最佳 IoU ${s.bestIoU.toFixed(2)}`
+      );
+      if (s.pass) regionPass++; else regionFail++;
+    }
+    if (verbose) {
+      blocks.forEach((b, i) => {
+        console.log(`     #${i + 1} [${b.bbox.map(Math.round).join(', ')}] ${b.lineCount} 行  「${b.text.split('\n')[0].slice(0, 24)}」`);
+      });
+    }
+  }
+
+  const total = regionPass + regionFail;
+  console.log(`\n${LINE}`);
+  console.log(`${regionFail === 0 ? '✅' : '❌'} 覆蓋通過 ${regionPass}/${total} 個 region，多餘提案共 ${extraTotal} 個\n`);
+  if (regionFail > 0) process.exit(1);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
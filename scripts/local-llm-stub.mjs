@@ -0,0 +1,65 @@
+/**
+ * 最小 OpenAI 相容端點 stub，用來在沒有 GPU / Ollama 的環境驗證本機模型 provider。
+ * 用法：node scripts/local-llm-stub.mjs [port]（預設 11435）
+ *       再設 LOCAL_LLM_BASE_URL=http://localhost:11435/v1（或設定面板「本機模型端點」），
+ *       模型選單會出現「stub-vision (本機)」。
+ * 行為：GET /v1/models 回傳固定模型；POST /v1/chat/completions 依 prompt 判斷是頁面分析（回 bbox JSON）
+ *       或區域識別（回 Markdown 表格），並附上 usage。每次請求印出 model 與圖片大小，方便確認請求確實到達本機。
+ */
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2]) || 11435;
+
+const ANALYSIS_REPLY = JSON.stringify({
+  hasAnalysis: true,
+  date: '2025/01/01',
+  code: '2330',
+  report: 'stub',
+  // Gemini 原生格式 [y1, x1, y2, x2]，與雲端模型一致
+  regions: [{ id: 1, bbox: [120, 80, 480, 920], label: 'stub 區域' }],
+});
+
+const RECOGNIZE_REPLY = '| 項目 | 數值 |\n| --- | --- |\n| stub | 1 |';
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/v1/models') {
+    sendJson(res, 200, { object: 'list', data: [{ id: 'stub-vision', object: 'model' }] });
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      let body;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        sendJson(res, 400, { error: { message: 'invalid JSON' } });
+        return;
+      }
+      const parts = body.messages?.[0]?.content ?? [];
+      const prompt = parts.find((p) => p.type === 'text')?.text ?? '';
+      const imageUrl = parts.find((p) => p.type === 'image_url')?.image_url?.url ?? '';
+      const isAnalysis = /座標|bbox|regions/i.test(prompt);
+      console.log(`[local-llm-stub] ${body.model} ${isAnalysis ? 'analyze' : 'recognize'} (image ${Math.round(imageUrl.length / 1024)} KB)`);
+      sendJson(res, 200, {
+        id: 'stub',
+        object: 'chat.completion',
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: isAnalysis ? ANALYSIS_REPLY : RECOGNIZE_REPLY } }],
+        usage: { prompt_tokens: Math.round(prompt.length / 2), completion_tokens: 40 },
+      });
+    });
+    return;
+  }
+
+  sendJson(res, 404, { error: { message: `no route for ${req.method} ${req.url}` } });
+}).listen(port, () => {
+  console.log(`[local-llm-stub] listening on http://localhost:${port}/v1`);
+});
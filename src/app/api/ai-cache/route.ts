@@ -0,0 +1,114 @@
+/**
+ * 功能：伺服器端 AI 回應快取 API（選用）
+ * 職責：GET 讀取 / POST 寫入內容定址的 AI 回應快取，讓多位使用者共用同一份分析結果；
+ *       寫入需設定上傳密碼（與 /api/settings 相同，開發模式免密碼），並限制大小、依種類驗證內容後才落地
+ * 依賴：Node.js fs、serverSettings.ts（verifySettingsPassword）、analysisSchema.ts（validatePageAnalysis）、
+ *       環境變數 AI_CACHE_SERVER（設為 1 啟用）+ SETTINGS_DIR（快取存於 SETTINGS_DIR/ai-cache/）
+ *
+ * GET /api/ai-cache?key=<sha256> → { enabled, writable, hit, value? }
+ * POST /api/ai-cache { key, kind, value }（header x-settings-password）→ { success }
+ * 未啟用時 GET 回 { enabled: false }，前端據此停止查詢；writable 表示帶來的密碼可寫入，前端據此決定是否 POST；
+ * key 限 64 位 hex，防止路徑穿越
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import path from 'path';
+import { verifySettingsPassword } from '@/lib/serverSettings';
+import { validatePageAnalysis } from '@/lib/analysisSchema';
+
+const KEY_PATTERN = /^[a-f0-9]{64}$/;
+/** POST body 上限（單頁分析結果 / 識別文字遠小於此值） */
+const MAX_BODY_BYTES = 256 * 1024;
+const PASSWORD_HEADER = 'x-settings-password';
+
+function isEnabled(): boolean {
+  const flag = process.env.AI_CACHE_SERVER;
+  return flag === '1' || flag === 'true';
+}
+
+/** 快取檔案路徑（以 key 前 2 碼分目錄，避免單一目錄檔案過多） */
+function getCachePath(key: string): string {
+  const dir = process.env.SETTINGS_DIR || './data';
+  return path.resolve(dir, 'ai-cache', key.slice(0, 2), `${key}.json`);
+}
+
+/**
+ * 依快取種類驗證內容；通過回傳 null，否則回傳錯誤訊息
+ * analyze：需完整通過 PageAnalysis 驗證且無任何 region 被夾回 / 丟棄（畸形結果不共用）；recognize：需為字串
+ */
+function validateCacheValue(kind: unknown, value: unknown): string | null {
+  if (kind === 'recognize') return typeof value === 'string' ? null : '識別結果需為字串';
+  if (kind !== 'analyze') return 'kind 需為 analyze 或 recognize';
+  const { value: validated, issues, regionRepairs } = validatePageAnalysis(value);
+  if (!validated) return `分析結果格式不正確：${issues.map((i) => `${i.path || '(root)'} ${i.message}`).join('；')}`;
+  if (regionRepairs.clamped > 0 || regionRepairs.dropped > 0) return '分析結果含超出範圍或畸形的 bbox';
+  return null;
+}
+
+/** GET /api/ai-cache — 查詢快取 */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isEnabled()) return NextResponse.json({ enabled: false, writable: false, hit: false });
+
+  const writable = verifySettingsPassword(request.headers.get(PASSWORD_HEADER)) === null;
+  const key = request.nextUrl.searchParams.get('key') ?? '';
+  if (!KEY_PATTERN.test(key)) {
+    return NextResponse.json({ enabled: true, writable, hit: false, error: 'key 格式不正確' }, { status: 400 });
+  }
+
+  try {
+    const filePath = getCachePath(key);
+    if (!fs.existsSync(filePath)) return NextResponse.json({ enabled: true, writable, hit: false });
+    const value = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return NextResponse.json({ enabled: true, writable, hit: true, value });
+  } catch (err) {
+    const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.error(`[AiCacheRoute][${timestamp}] ❌ Failed to read cache ${key}:`, err);
+    return NextResponse.json({ enabled: true, writable, hit: false });
+  }
+}
+
+/** POST /api/ai-cache — 寫入快取（需密碼驗證，開發模式免密碼） */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isEnabled()) return NextResponse.json({ success: false, enabled: false });
+
+  const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
+  const authError = verifySettingsPassword(request.headers.get(PASSWORD_HEADER));
+  if (authError) {
+    return NextResponse.json({ success: false, error: authError.error }, { status: authError.status });
+  }
+
+  const declaredLength = Number(request.headers.get('content-length') ?? 0);
+  if (declaredLength > MAX_BODY_BYTES) {
+    return NextResponse.json({ success: false, error: '快取內容過大' }, { status: 413 });
+  }
+
+  try {
+    // content-length 可能缺省（chunked），讀完後再以實際位元組數檢查一次
+    const raw = await request.text();
+    if (Buffer.byteLength(raw, 'utf-8') > MAX_BODY_BYTES) {
+      return NextResponse.json({ success: false, error: '快取內容過大' }, { status: 413 });
+    }
+    const { key, kind, value } = JSON.parse(raw);
+    if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+      return NextResponse.json({ success: false, error: '快取格式不正確' }, { status: 400 });
+    }
+    const invalid = validateCacheValue(kind, value);
+    if (invalid) {
+      console.warn(`[AiCacheRoute][${timestamp}] ⚠️ Rejected ${kind} cache ${key.slice(0, 12)}…: ${invalid}`);
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 });
+    }
+
+    const filePath = getCachePath(key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(value), 'utf-8');
+    console.log(`[AiCacheRoute][${timestamp}] 💾 Cached ${key.slice(0, 12)}…`);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: '快取格式不正確' }, { status: 400 });
+    }
+    console.error(`[AiCacheRoute][${timestamp}] ❌ Failed to write cache:`, err);
+    return NextResponse.json({ success: false, error: '寫入快取失敗' }, { status: 500 });
+  }
+}
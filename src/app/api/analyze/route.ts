@@ -1,81 +1,34 @@
 /**
- * 功能：AI 分析端點（Gemini / OpenRouter 雙分支）
- * 職責：接收 PDF 頁面圖片 + Prompt，依模型類型呼叫對應 API，回傳標註區域與券商名（report）
- * 依賴：@google/generative-ai（Gemini）、fetch（OpenRouter Chat Completions）
+ * 功能：AI 分析端點
+ * 職責：接收 PDF 頁面圖片 + Prompt，經 provider 註冊表呼叫對應模型，回傳標註區域與券商名（report）
+ * 依賴：aiProviders.ts（依 model ID 解析 Gemini / OpenRouter 等 provider）、analysisSchema.ts（JSON 修復 + 驗證）
  *       前端傳入的 apiKey（Gemini）或 openRouterApiKey（OpenRouter），fallback 到環境變數
- * 推理：Gemini Flash 用 thinkingBudget: 0；Pro 系列用最小值 128；OpenRouter 無需 thinkingConfig
+ * 限流：rateLimiter 依金鑰 + 模型排隊（RPM / 同時請求數），排隊逾時回 503 queueTimeout；取得名額後的回應附 queue（等待時間 / 排隊深度）
+ * 錯誤：429 → rateLimited；排隊逾時 → 503 queueTimeout；模型輸出修復後仍不合 schema → 422 invalidOutput + validationErrors（單一 region 出錯只丟棄該 region）；其餘 → 500
+ * 輸入：image 預設為 JPEG；mimeType = application/pdf 時為單頁 PDF（僅 modelSupportsPdfInput 的模型接受，否則 400）
+ * 情境：前端另傳 fileName（僅模擬模型用來選 fixture）
+ * 用量：成功與 422 皆回傳 usage（provider 回報的 input/output tokens），供前端累計費用
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { NextRequest, NextResponse } from 'next/server';
-import { AnalyzeResponse } from '@/lib/types';
+import { AnalyzeResponse, TokenUsage } from '@/lib/types';
+import { resolveProvider, isRateLimitError } from '@/lib/aiProviders';
+import { acquireSlot, reportUpstreamRateLimit } from '@/lib/rateLimiter';
+import { parsePageAnalysis, sanitizeResponseFieldMap } from '@/lib/analysisSchema';
+import { DEFAULT_RESPONSE_FIELD_MAP, modelSupportsPdfInput } from '@/lib/constants';
 
-/** Pro 系列模型強制 thinking（無法設 thinkingBudget: 0）—— 用名稱 pattern 判斷，避免硬編碼 Set 與動態探測漂移 */
-function needsThinking(modelId: string): boolean {
-  return /pro/i.test(modelId);
-}
-
-type GenConfig = Parameters<InstanceType<typeof GoogleGenerativeAI>['getGenerativeModel']>[0]['generationConfig'];
-
-/** 依模型回傳最低推理程度：Pro 系列用 128，其餘用 0（關閉） */
-function getThinkingConfigMinimal(modelId: string): NonNullable<GenConfig> {
-  const budget = needsThinking(modelId) ? 128 : 0;
-  return { thinkingConfig: { thinkingBudget: budget } } as NonNullable<GenConfig>;
-}
-
-/** 判斷是否為 OpenRouter 模型（model ID 含 "/" 即為 OpenRouter 格式，如 qwen/qwen3.5-9b） */
-function isOpenRouterModel(modelId: string): boolean {
-  return modelId.includes('/');
-}
-
-/** 呼叫 OpenRouter Chat Completions API，回傳模型生成的文字內容 */
-async function callOpenRouter(modelId: string, apiKey: string, prompt: string, imageBase64: string): Promise<string> {
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: modelId,
-      reasoning: { effort: 'minimal' },
-      messages: [{
-        role: 'user',
-        content: [
-          { type: 'text', text: prompt },
-          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } },
-        ],
-      }],
-    }),
-  });
-
-  if (response.status === 429) {
-    throw Object.assign(new Error('Rate limit exceeded'), { status: 429 });
-  }
-
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => '');
-    throw new Error(`OpenRouter API error ${response.status}: ${errorText}`);
-  }
-
-  const data = await response.json();
-  // choices[0].message.content 可能是字串或陣列（部分模型）
-  const content = data.choices?.[0]?.message?.content;
-  if (typeof content === 'string') return content;
-  if (Array.isArray(content)) {
-    return content
-      .filter((c: { type: string }) => c.type === 'text')
-      .map((c: { text: string }) => c.text)
-      .join('');
-  }
-  throw new Error('OpenRouter: unexpected response format');
-}
+/** 前端可送出的頁面輸入格式 */
+const PAGE_MIME_TYPES = ['image/jpeg', 'application/pdf'] as const;
+type PageMimeType = (typeof PAGE_MIME_TYPES)[number];
 
 export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeResponse>> {
   const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
 
   try {
-    const { image, prompt, page, model: modelId, apiKey: clientApiKey, openRouterApiKey: clientOrKey } = await request.json();
+    const {
+      image, mimeType: rawMimeType, prompt, page, model: modelId, apiKey: clientApiKey, openRouterApiKey: clientOrKey,
+      responseFieldMap, fileName,
+    } = await request.json();
 
     if (!image || !prompt) {
       console.error(`[AnalyzeRoute][${timestamp}] ❌ Missing image or prompt`);
@@ -88,108 +41,120 @@ export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeRe
     const selectedModel = modelId || 'gemini-2.5-flash';
     const imageSizeKB = Math.round((image.length * 3) / 4 / 1024);
 
-    let responseText: string;
+    const mimeType: PageMimeType = rawMimeType ?? 'image/jpeg';
+    if (!PAGE_MIME_TYPES.includes(mimeType) || (mimeType === 'application/pdf' && !modelSupportsPdfInput(selectedModel))) {
+      console.error(`[AnalyzeRoute][${timestamp}] ❌ Unsupported input ${mimeType} for ${selectedModel}`);
+      return NextResponse.json(
+        { success: false, error: `此模型不支援 ${mimeType} 輸入` },
+        { status: 400 }
+      );
+    }
 
-    if (isOpenRouterModel(selectedModel)) {
-      // === OpenRouter 分支 ===
-      const orApiKey = clientOrKey || process.env.OPENROUTER_API_KEY;
-      if (!orApiKey) {
-        console.error(`[AnalyzeRoute][${timestamp}] ❌ OpenRouter API key not configured`);
-        return NextResponse.json(
-          { success: false, error: '請先設定 OpenRouter API 金鑰' },
-          { status: 400 }
-        );
-      }
+    const provider = resolveProvider(selectedModel);
+    const providerKey = provider.resolveApiKey({ apiKey: clientApiKey, openRouterApiKey: clientOrKey });
+    if (!providerKey) {
+      console.error(`[AnalyzeRoute][${timestamp}] ❌ ${provider.label} API key not configured`);
+      return NextResponse.json(
+        { success: false, error: provider.missingKeyMessage },
+        { status: 400 }
+      );
+    }
 
-      console.log(`[AnalyzeRoute][${timestamp}] 📄 Analyzing page ${page} with ${selectedModel} via OpenRouter (image: ${imageSizeKB} KB)...`);
+    console.log(`[AnalyzeRoute][${timestamp}] 📄 Analyzing page ${page} with ${selectedModel} via ${provider.label} (${mimeType === 'application/pdf' ? 'pdf' : 'image'}: ${imageSizeKB} KB)...`);
 
-      try {
-        responseText = await callOpenRouter(selectedModel, orApiKey, prompt, image);
-      } catch (err) {
-        const errObj = err as { status?: number; message?: string };
-        if (errObj.status === 429 || (errObj.message ?? '').includes('429')) {
-          const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
-          console.log(`[AnalyzeRoute][${ts2}] ⚠️ ${selectedModel} rate limited (429)`);
-          return NextResponse.json(
-            { success: false, error: 'Rate limit exceeded', rateLimited: true },
-            { status: 429 }
-          );
-        }
-        throw err;
-      }
-    } else {
-      // === Gemini 分支 ===
-      const apiKey = clientApiKey || process.env.GEMINI_API_KEY;
-      if (!apiKey || apiKey === 'YOUR_GEMINI_API_KEY_HERE') {
-        console.error(`[AnalyzeRoute][${timestamp}] ❌ GEMINI_API_KEY not configured`);
+    // 伺服器端限流：同金鑰 + 同模型的請求排隊，超出 RPM / 同時請求數時等待而非失敗
+    const ticket = await acquireSlot(providerKey, selectedModel, request.signal);
+    if (!ticket) {
+      const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
+      console.log(`[AnalyzeRoute][${ts2}] ⚠️ Page ${page}: server queue timeout or client aborted (${selectedModel})`);
+      return NextResponse.json(
+        { success: false, error: '伺服器排隊逾時', queueTimeout: true },
+        { status: 503 }
+      );
+    }
+    const { queue } = ticket;
+    if (queue.waitMs >= 1000) {
+      const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
+      console.log(`[AnalyzeRoute][${ts2}] ⏳ Page ${page}: queued ${queue.waitMs}ms (depth ${queue.depth})`);
+    }
+
+    let responseText: string;
+    let usage: TokenUsage | undefined;
+    try {
+      const result = await provider.generate({
+        modelId: selectedModel,
+        apiKey: providerKey,
+        prompt,
+        imageBase64: image,
+        mimeType,
+        minimalReasoning: true,
+        context: { fileName: typeof fileName === 'string' ? fileName : undefined, page },
+      });
+      responseText = result.text;
+      usage = result.usage;
+    } catch (err) {
+      if (isRateLimitError(err)) {
+        const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
+        console.log(`[AnalyzeRoute][${ts2}] ⚠️ ${selectedModel} rate limited (429)`);
+        reportUpstreamRateLimit(providerKey, selectedModel);
         return NextResponse.json(
-          { success: false, error: '請先設定 Gemini API 金鑰' },
-          { status: 400 }
+          { success: false, error: 'Rate limit exceeded', rateLimited: true, queue },
+          { status: 429 }
         );
       }
+      throw err;
+    } finally {
+      ticket.release();
+    }
 
-      console.log(`[AnalyzeRoute][${timestamp}] 📄 Analyzing page ${page} with ${selectedModel} (image: ${imageSizeKB} KB)...`);
-
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const contentParts = [
-        prompt,
-        { inlineData: { mimeType: 'image/jpeg', data: image } },
-      ];
+    // 容錯解析（code block / 尾逗號 / 單引號 / 截斷）+ 欄位映射（如 stock → code）+ schema 驗證
+    // 前端未傳映射時用預設映射（舊版前端 / 外部呼叫）
+    const fieldMap = responseFieldMap ? sanitizeResponseFieldMap(responseFieldMap) : DEFAULT_RESPONSE_FIELD_MAP;
+    const parsed = parsePageAnalysis(responseText, fieldMap);
+    const repairNote = parsed.repairs.length > 0 ? ` (repaired: ${parsed.repairs.join(', ')})` : '';
 
-      try {
-        const modelObj = genAI.getGenerativeModel({
-          model: selectedModel,
-          generationConfig: getThinkingConfigMinimal(selectedModel),
-        });
-        const result = await modelObj.generateContent(contentParts);
-        responseText = result.response.text();
-      } catch (err) {
-        const errMsg = err instanceof Error ? err.message : String(err);
-        if (errMsg.includes('429')) {
-          const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
-          console.log(`[AnalyzeRoute][${ts2}] ⚠️ ${selectedModel} rate limited (429)`);
-          return NextResponse.json(
-            { success: false, error: 'Rate limit exceeded', rateLimited: true },
-            { status: 429 }
-          );
-        }
-        throw err;
-      }
+    if (!parsed.ok) {
+      console.warn(
+        `[AnalyzeRoute][${timestamp}] 🧩 Page ${page}: invalid model output${repairNote}: ${parsed.issues.map((i) => `${i.path || '(root)'} ${i.message}`).join('; ')}`
+      );
+      return NextResponse.json(
+        { success: false, error: '模型輸出格式錯誤', invalidOutput: true, validationErrors: parsed.issues, usage, queue },
+        { status: 422 }
+      );
     }
 
-    // 嘗試解析 JSON — 可能被 markdown code block 包裹
-    let jsonStr = responseText.trim();
-    const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim();
+    const { value } = parsed;
+    if (parsed.issues.length > 0) {
+      console.warn(
+        `[AnalyzeRoute][${timestamp}] 🧩 Page ${page}: region fixes: ${parsed.issues.map((i) => `${i.path} ${i.message}`).join('; ')}`
+      );
     }
-
-    const parsed = JSON.parse(jsonStr);
-
+    const usageNote = usage ? `, tokens=${usage.inputTokens}/${usage.outputTokens}` : '';
     console.log(
-      `[AnalyzeRoute][${timestamp}] ✅ Page ${page}: hasAnalysis=${parsed.hasAnalysis}, regions=${parsed.regions?.length ?? 0}${parsed.date ? `, date=${parsed.date}` : ''}${parsed.code ? `, code=${parsed.code}` : ''}${parsed.report ? `, report=${parsed.report}` : ''}`
+      `[AnalyzeRoute][${timestamp}] ✅ Page ${page}: hasAnalysis=${value.hasAnalysis}, regions=${value.regions.length}${value.date ? `, date=${value.date}` : ''}${value.code ? `, code=${value.code}` : ''}${value.report ? `, report=${value.report}` : ''}${usageNote}${repairNote}`
     );
 
     return NextResponse.json({
       success: true,
       data: {
         page,
-        hasAnalysis: parsed.hasAnalysis ?? false,
-        date: parsed.date ?? undefined,
-        code: parsed.code ?? undefined,
-        report: parsed.report ?? undefined,
-        regions: (parsed.regions ?? []).map((r: Record<string, unknown>, i: number) => {
+        hasAnalysis: value.hasAnalysis,
+        date: value.date,
+        code: value.code,
+        report: value.report,
+        regions: value.regions.map((r, i) => {
           // Gemini 原生 bbox 格式為 [y1, x1, y2, x2]，轉換為前端使用的 [x1, y1, x2, y2]
-          const raw = (r.bbox as number[]) ?? [0, 0, 0, 0];
-          const bbox = [raw[1], raw[0], raw[3], raw[2]]; // [y1,x1,y2,x2] → [x1,y1,x2,y2]
+          const raw = r.bbox;
           return {
             id: r.id ?? i + 1,
-            bbox,
+            bbox: [raw[1], raw[0], raw[3], raw[2]] as [number, number, number, number],
             label: r.label ?? `區域 ${i + 1}`,
             text: '', // 文字由前端根據 bbox 從 PDF 文字層提取
           };
         }),
       },
+      usage,
+      queue,
     });
   } catch (error) {
     console.error(`[AnalyzeRoute][${timestamp}] ❌ Error:`, error);
@@ -1,14 +1,18 @@
 /**
  * 功能：模型動態探測 API
- * 職責：並行呼叫 Google models.list + OpenRouter pricing API，篩選/排序/合併後回傳可用模型列表
- * 依賴：Google Generative AI REST API、OpenRouter REST API
+ * 職責：並行呼叫 Google models.list + OpenRouter pricing API + 本機端點 /models，篩選/排序/合併後回傳可用模型列表；
+ *       MOCK_AI 啟用時附加離線模擬模型
+ * 依賴：Google Generative AI REST API、OpenRouter REST API、aiProviders.ts（本機端點解析與探測）、mockAi.ts（模擬模型列表）
  *
  * POST /api/models { apiKey } → { models: ModelChoice[] | null, error?: string }
  * apiKey 優先級：前端傳入 > 環境變數 GEMINI_API_KEY
- * Google 失敗 → 整體失敗（回 null）；OpenRouter 失敗 → 模型列表正常但無定價
+ * Google 失敗 → 整體失敗（回 null）；OpenRouter 失敗 → 模型列表正常但無定價；本機端點失敗 → 略過本機模型
+ * 未提供 apiKey 但有設定本機端點或啟用模擬模型 → 只回傳本機 / 模擬模型（內網部署與 CI 不需 Google 金鑰）
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveLocalBaseUrl, discoverLocalModels } from '@/lib/aiProviders';
+import { isMockAiEnabled, listMockModels } from '@/lib/mockAi';
 
 /** 前端消費的模型資訊 */
 export interface ModelChoice {
@@ -49,13 +53,31 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     const body = await request.json();
     const key = body.apiKey || process.env.GEMINI_API_KEY;
-    if (!key) {
+    const localBaseUrl = resolveLocalBaseUrl();
+    const mockModels: ModelChoice[] = isMockAiEnabled() ? listMockModels().map(m => ({ ...m, thinking: false })) : [];
+    if (!key && !localBaseUrl && mockModels.length === 0) {
       return NextResponse.json(
         { models: null, error: '未提供 API Key' },
         { status: 400 },
       );
     }
 
+    // 本機端點探測（容錯：失敗只略過本機模型）
+    const localModelsPromise: Promise<ModelChoice[]> = localBaseUrl
+      ? discoverLocalModels(localBaseUrl)
+        .then(list => list.map(m => ({ ...m, thinking: false })))
+        .catch(err => {
+          console.warn(`[ModelsRoute][${timestamp}] ⚠️ 本機端點模型探測失敗 (${localBaseUrl}):`, err);
+          return [];
+        })
+      : Promise.resolve([]);
+
+    if (!key) {
+      const localModels = await localModelsPromise;
+      console.log(`[ModelsRoute][${timestamp}] ✅ 無 Gemini 金鑰：本機 ${localModels.length} 個、模擬 ${mockModels.length} 個模型`);
+      return NextResponse.json({ models: [...localModels, ...mockModels] });
+    }
+
     // 並行：Google models.list + OpenRouter pricing
     const [googleResult, pricingResult] = await Promise.allSettled([
       fetch(
@@ -126,15 +148,20 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       console.warn(`[ModelsRoute][${timestamp}] ⚠️ OpenRouter 定價查詢失敗:`, pricingResult.reason);
     }
 
-    // 合併定價 + 排序
-    const models: ModelChoice[] = discovered
-      .map(m => {
-        const pr = pricing.get(m.id);
-        return pr ? { ...m, priceInput: pr.priceInput, priceOutput: pr.priceOutput } : m;
-      })
-      .sort((a, b) => modelSortCompare(a.id, b.id));
+    // 合併定價 + 排序（本機 / 模擬模型附加在 Gemini 之後）
+    const localModels = await localModelsPromise;
+    const models: ModelChoice[] = [
+      ...discovered
+        .map(m => {
+          const pr = pricing.get(m.id);
+          return pr ? { ...m, priceInput: pr.priceInput, priceOutput: pr.priceOutput } : m;
+        })
+        .sort((a, b) => modelSortCompare(a.id, b.id)),
+      ...localModels,
+      ...mockModels,
+    ];
 
-    console.log(`[ModelsRoute][${timestamp}] ✅ 探測到 ${models.length} 個模型，${pricing.size} 個有定價`);
+    console.log(`[ModelsRoute][${timestamp}] ✅ 探測到 ${models.length} 個模型（本機 ${localModels.length}、模擬 ${mockModels.length}），${pricing.size} 個有定價`);
     return NextResponse.json({ models });
   } catch (err) {
     console.error(`[ModelsRoute][${timestamp}] ❌ 模型探測異常:`, err);
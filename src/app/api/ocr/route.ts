@@ -0,0 +1,66 @@
+/**
+ * 功能：本機 OCR 識別端點
+ * 職責：接收裁切後的圖片 + 引擎 id，經 OCR 引擎註冊表識別，回傳純文字；另提供引擎清單與可用狀態
+ * 依賴：ocrEngines.ts（Tesseract 等本機引擎）
+ *
+ * GET  /api/ocr → { success, engines: OcrEngineChoice[] }
+ * POST /api/ocr { image, engine, page?, regionId? } → { success, text?, error? }
+ * 不經 rateLimiter：本機引擎沒有上游配額，並行度由前端 batchSize 控制
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OcrEngineChoice, listOcrEngines, resolveOcrEngine } from '@/lib/ocrEngines';
+
+interface OcrResponse {
+  success: boolean;
+  text?: string;
+  error?: string;
+  engines?: OcrEngineChoice[];
+}
+
+/** GET /api/ocr — 列出 OCR 引擎（含此伺服器是否可用） */
+export async function GET(): Promise<NextResponse<OcrResponse>> {
+  return NextResponse.json({ success: true, engines: await listOcrEngines() });
+}
+
+/** POST /api/ocr — 以指定引擎識別圖片 */
+export async function POST(request: NextRequest): Promise<NextResponse<OcrResponse>> {
+  const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
+
+  try {
+    const { image, engine: engineId, page, regionId } = await request.json();
+
+    if (!image || typeof engineId !== 'string') {
+      console.error(`[OcrRoute][${timestamp}] ❌ Missing image or engine`);
+      return NextResponse.json({ success: false, error: '缺少圖片或 OCR 引擎' }, { status: 400 });
+    }
+
+    const engine = resolveOcrEngine(engineId);
+    if (!engine) {
+      return NextResponse.json({ success: false, error: `未知的 OCR 引擎：${engineId}` }, { status: 400 });
+    }
+    if (!(await engine.isAvailable())) {
+      console.error(`[OcrRoute][${timestamp}] ❌ ${engine.label} not available on this server`);
+      return NextResponse.json({ success: false, error: `伺服器未安裝 ${engine.label}` }, { status: 503 });
+    }
+
+    const imageSizeKB = Math.round((image.length * 3) / 4 / 1024);
+    console.log(`[OcrRoute][${timestamp}] 🔍 OCR page ${page} region ${regionId} with ${engine.label} (image: ${imageSizeKB} KB)...`);
+
+    const text = await engine.recognize({ imageBase64: image });
+
+    const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.log(`[OcrRoute][${ts2}] ✅ Page ${page} region ${regionId}: ${text.length} chars recognized`);
+
+    return NextResponse.json({ success: true, text });
+  } catch (error) {
+    console.error(`[OcrRoute][${timestamp}] ❌ Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '未知錯誤',
+      },
+      { status: 500 }
+    );
+  }
+}
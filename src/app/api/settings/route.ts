@@ -10,19 +10,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
+import { getSettingsPath, verifySettingsPassword } from '@/lib/serverSettings';
 
 /** 允許同步的設定欄位白名單（排除 apiKey） */
 const ALLOWED_KEYS = [
-  'prompt', 'tablePrompt', 'model', 'batchSize', 'skipLastPages',
-  'brokerSkipMap', 'brokerAliasGroups', 'fileListWidth', 'leftWidth', 'rightWidth',
+  'prompt', 'tablePrompt', 'responseFieldMap', 'model', 'ensembleModel', 'pdfInputModels', 'batchSize', 'skipLastPages',
+  'brokerSkipMap', 'brokerAliasGroups', 'glyphMapRules', 'filenameRules', 'fileListWidth', 'leftWidth', 'rightWidth',
+  'localBaseUrl', 'ocrEngine',
 ] as const;
 
-/** 取得設定檔案完整路徑 */
-function getSettingsPath(): string {
-  const dir = process.env.SETTINGS_DIR || './data';
-  return path.resolve(dir, 'settings.json');
-}
-
 /** GET /api/settings — 讀取伺服器端設定 */
 export async function GET(): Promise<NextResponse> {
   const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
@@ -56,28 +52,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const body = await request.json();
     const { password, settings } = body;
 
-    // 開發模式跳過密碼驗證（next dev 自動設定 NODE_ENV=development）
-    const isDev = process.env.NODE_ENV === 'development';
-    if (!isDev) {
-      const serverPassword = process.env.SETTINGS_PASSWORD;
-
-      // 環境變數未設定 → 功能未啟用
-      if (!serverPassword) {
-        console.warn(`[SettingsRoute][${timestamp}] ⚠️ SETTINGS_PASSWORD not configured`);
-        return NextResponse.json(
-          { success: false, error: '伺服器未設定 SETTINGS_PASSWORD，上傳功能未啟用' },
-          { status: 503 }
-        );
-      }
-
-      // 密碼驗證
-      if (!password || password !== serverPassword) {
-        console.warn(`[SettingsRoute][${timestamp}] ❌ Invalid password attempt`);
-        return NextResponse.json(
-          { success: false, error: '密碼錯誤' },
-          { status: 401 }
-        );
-      }
+    // 密碼驗證（開發模式跳過）
+    const authError = verifySettingsPassword(password);
+    if (authError) {
+      if (authError.status === 503) console.warn(`[SettingsRoute][${timestamp}] ⚠️ SETTINGS_PASSWORD not configured`);
+      else console.warn(`[SettingsRoute][${timestamp}] ❌ Invalid password attempt`);
+      return NextResponse.json({ success: false, error: authError.error }, { status: authError.status });
     }
 
     // 驗證 settings 是物件
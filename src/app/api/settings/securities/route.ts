@@ -0,0 +1,70 @@
+/**
+ * 功能：證券主檔管理 API
+ * 職責：GET 讀取證券主檔（伺服器已上傳的 securities.csv，否則內建種子表）；
+ *       POST 上傳 CSV 取代主檔（需密碼驗證，開發模式免密碼），更新代號清單不需重新部署
+ * 依賴：Node.js fs、serverSettings.ts（路徑、密碼驗證）、securities.ts（CSV 解析）、securitiesSeed.ts
+ *
+ * GET  /api/settings/securities → { success, data: SecurityEntry[], source: 'uploaded' | 'bundled' }
+ * POST /api/settings/securities { password, csv } → { success, count?, error? }
+ * 檔案路徑：SETTINGS_DIR/securities.csv（預設 ./data/securities.csv）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import path from 'path';
+import { getSettingsFilePath, verifySettingsPassword } from '@/lib/serverSettings';
+import { formatSecuritiesCsv, parseSecuritiesCsv } from '@/lib/securities';
+import { BUNDLED_SECURITIES_CSV } from '@/lib/securitiesSeed';
+
+const SECURITIES_FILE = 'securities.csv';
+
+/** GET /api/settings/securities — 讀取證券主檔 */
+export async function GET(): Promise<NextResponse> {
+  const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
+
+  try {
+    const filePath = getSettingsFilePath(SECURITIES_FILE);
+    if (!fs.existsSync(filePath)) {
+      return NextResponse.json({ success: true, data: parseSecuritiesCsv(BUNDLED_SECURITIES_CSV), source: 'bundled' });
+    }
+    const data = parseSecuritiesCsv(fs.readFileSync(filePath, 'utf-8'));
+    console.log(`[SecuritiesRoute][${timestamp}] ✅ ${data.length} securities loaded from ${filePath}`);
+    return NextResponse.json({ success: true, data, source: 'uploaded' });
+  } catch (err) {
+    console.error(`[SecuritiesRoute][${timestamp}] ❌ Failed to read securities:`, err);
+    return NextResponse.json({ success: false, error: '讀取證券主檔失敗' }, { status: 500 });
+  }
+}
+
+/** POST /api/settings/securities — 上傳 CSV 取代證券主檔 */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
+
+  try {
+    const { password, csv } = await request.json();
+
+    const authError = verifySettingsPassword(password);
+    if (authError) {
+      console.warn(`[SecuritiesRoute][${timestamp}] ❌ Upload rejected: ${authError.error}`);
+      return NextResponse.json({ success: false, error: authError.error }, { status: authError.status });
+    }
+
+    if (typeof csv !== 'string') {
+      return NextResponse.json({ success: false, error: '缺少 CSV 內容' }, { status: 400 });
+    }
+    const entries = parseSecuritiesCsv(csv);
+    if (entries.length === 0) {
+      return NextResponse.json({ success: false, error: 'CSV 中沒有可辨識的代號（需含 code / 代號 欄位）' }, { status: 400 });
+    }
+
+    const filePath = getSettingsFilePath(SECURITIES_FILE);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, formatSecuritiesCsv(entries), 'utf-8');
+    console.log(`[SecuritiesRoute][${timestamp}] ✅ ${entries.length} securities saved to ${filePath}`);
+
+    return NextResponse.json({ success: true, count: entries.length });
+  } catch (err) {
+    console.error(`[SecuritiesRoute][${timestamp}] ❌ Failed to save securities:`, err);
+    return NextResponse.json({ success: false, error: '儲存證券主檔失敗' }, { status: 500 });
+  }
+}
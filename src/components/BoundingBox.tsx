@@ -1,7 +1,8 @@
 /**
  * 功能：可拖動、可調整大小的標註框
- * 職責：在 PDF 頁面上渲染單一 bounding box，支援拖動移動、拖角/拖邊改大小（縮小 re-resizable 預設手柄命中區）、hover 互動
- * 依賴：react-rnd、types.ts、constants.ts
+ * 職責：在 PDF 頁面上渲染單一 bounding box，支援拖動移動、拖角/拖邊改大小（縮小 re-resizable 預設手柄命中區）、hover 互動、
+ *       交叉比對模式的模型一致性標記（✓✓ / ?）、文字層提取低信心標記（⚠ 分數）
+ * 依賴：react-rnd、types.ts、constants.ts、pdfTextExtractCore.ts（信心門檻）
  */
 
 'use client';
@@ -10,6 +11,7 @@ import { useRef, useState, useCallback, useEffect } from 'react';
 import { Rnd, type HandleStyles } from 'react-rnd';
 import { Region } from '@/lib/types';
 import { getBoxColor, EMPTY_BOX_COLOR, NORMALIZED_MAX } from '@/lib/constants';
+import { isLowConfidence } from '@/lib/pdfTextExtractCore';
 
 interface BoundingBoxProps {
   region: Region;
@@ -28,8 +30,8 @@ interface BoundingBoxProps {
   onUpdate: (newBbox: [number, number, number, number]) => void;
   /** 刪除此 region */
   onRemove: () => void;
-  /** 雙擊此 region（截圖送 AI 識別） */
-  onDoubleClick: () => void;
+  /** 雙擊此 region（先從文字層重建表格，失敗才截圖送 AI 識別；Shift+雙擊直接送 AI） */
+  onDoubleClick: (skipTextLayer: boolean) => void;
   /** 單擊此 region（觸發右欄滾動） */
   onClick?: () => void;
   /** 是否顯示校正前的 bbox */
@@ -264,7 +266,7 @@ export default function BoundingBox({
         }}
         onDoubleClick={(e) => {
           e.stopPropagation();
-          onDoubleClick();
+          onDoubleClick(e.shiftKey);
         }}
       >
         {/* 按鈕 hover 延伸區：透明區塊從框右邊緣延伸到按鈕，消除 hover 間隙 */}
@@ -302,6 +304,30 @@ export default function BoundingBox({
           {debugCopied ? '✓' : '⎘'}
         </button>
 
+        {/* 交叉比對標記：兩個模型都框到 ✓✓、只有一方框到 ?（低信心，建議人工確認） */}
+        {region.agreement && (
+          <div
+            className={`absolute top-0.5 left-2 px-1 rounded text-[9px] leading-3 font-bold text-white z-20 select-none ${
+              region.agreement.level === 'agreed' ? 'bg-green-500/85' : 'bg-amber-500/90'
+            }`}
+            title={region.agreement.level === 'agreed'
+              ? `${region.agreement.models.join(' + ')} 皆偵測到${region.agreement.iou != null ? `（IoU ${region.agreement.iou.toFixed(2)}）` : ''}`
+              : `僅 ${region.agreement.models.join(', ')} 偵測到（低信心）`}
+          >
+            {region.agreement.level === 'agreed' ? '✓✓' : '?'}
+          </div>
+        )}
+
+        {/* 文字層提取低信心：顯示分數，hover 看扣分原因（灰框本身已表示無文字，不重複標記） */}
+        {!isEmpty && isLowConfidence(region.confidence) && (
+          <div
+            className="absolute bottom-0.5 left-2 px-1 rounded text-[9px] leading-3 font-bold text-white bg-orange-500/90 z-20 select-none"
+            title={`提取信心 ${region.confidence!.score}：${region.confidence!.reasons.join('、')}`}
+          >
+            ⚠ {region.confidence!.score}
+          </div>
+        )}
+
         {/* 四角 resize 手柄提示 */}
         <div
           className="absolute -top-1 -left-1 w-2.5 h-2.5 rounded-full"
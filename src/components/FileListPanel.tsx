@@ -1,14 +1,19 @@
 /**
  * 功能：最左側檔案列表面板（全域控制中心）
  * 職責：顯示已匯入的所有 PDF 檔案、狀態圖示、點擊切換目前檢視的檔案、刪除檔案、
- *       全域分析控制 toggle 按鈕（暫停分析 / 繼續分析 / 全部重新分析）
- * 依賴：types.ts (FileEntry)
+ *       全域分析控制 toggle 按鈕（暫停分析 / 繼續分析 / 全部重新分析）、AI 回應快取命中統計、
+ *       per-file 與本次工作階段的 token 用量 / 估算費用、伺服器端限流排隊狀態、metadata 未解決衝突標示
+ * 依賴：types.ts (FileEntry)、usageCost.ts（費用估算）、metadataConsensus.ts（衝突偵測）、boilerplatePages.ts（有效忽略頁數）
  */
 
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { FileEntry } from '@/lib/types';
+import { FileEntry, UsageByModel, ServerQueueInfo } from '@/lib/types';
+import { ModelPricing, estimateCost, formatCost, formatUsageSummary } from '@/lib/usageCost';
+import { describeConflict, findUnresolvedConflicts } from '@/lib/metadataConsensus';
+import { SecurityIndex } from '@/lib/securities';
+import { lookupFileSkip } from '@/lib/boilerplatePages';
 
 interface FileListPanelProps {
   files: FileEntry[];
@@ -28,21 +33,28 @@ interface FileListPanelProps {
   onExportAll: () => void;
   /** 匯出全部的進行狀態 */
   exportAllState: 'idle' | 'loading' | 'done';
-  /** 匯出全部的結果（成功/失敗筆數與錯誤訊息） */
-  exportAllResult: { success: number; failed: number; errors: string[] } | null;
+  /** 匯出全部的結果（成功/失敗筆數與錯誤訊息、略過的檔案與原因） */
+  exportAllResult: { success: number; failed: number; errors: string[]; skipped: string[] } | null;
   /** 重置匯出全部狀態 */
   onExportAllReset: () => void;
+  /** AI 回應快取命中 / 未命中次數（本次工作階段累計） */
+  cacheStats: { hits: number; misses: number };
+  /** 清空本機 AI 回應快取 */
+  onClearAiCache: () => Promise<void>;
+  /** token 用量（本次工作階段累計） */
+  sessionUsage: UsageByModel;
+  /** 模型定價表（估算費用用） */
+  modelPricing: ModelPricing;
+  /** 最近一次伺服器排隊資訊（分析中且有排隊時顯示） */
+  serverQueue: ServerQueueInfo | null;
+  /** 證券主檔索引（衝突計分時主檔查無的代號降權） */
+  securityIndex: SecurityIndex;
 }
 
 /** 計算單檔實際要分析的頁數（numPages - effectiveSkip） */
 function getPagesToAnalyze(entry: FileEntry, brokerSkipMap: Record<string, number>, skipLastPages: number): number {
-  // 優先用 report（原始名如「凱基(一般報告)」）查 skipMap，找不到才用 selectedBroker（canonical 名），
-  // 與 useFileManager.lookupBrokerSkip 邏輯一致
-  const skipFromReport = entry.report && brokerSkipMap[entry.report] !== undefined
-    ? brokerSkipMap[entry.report] : undefined;
-  const skipFromBroker = entry.selectedBroker && brokerSkipMap[entry.selectedBroker] !== undefined
-    ? brokerSkipMap[entry.selectedBroker] : undefined;
-  const effectiveSkip = skipFromReport ?? skipFromBroker ?? skipLastPages;
+  // 文字層偵測到的末尾樣板頁優先，否則查券商忽略頁數（與 useFileManager 分析時使用的值一致）
+  const effectiveSkip = lookupFileSkip(entry, brokerSkipMap) ?? skipLastPages;
   return Math.max(1, entry.numPages - effectiveSkip);
 }
 
@@ -104,6 +116,12 @@ export default function FileListPanel({
   exportAllState,
   exportAllResult,
   onExportAllReset,
+  cacheStats,
+  onClearAiCache,
+  sessionUsage,
+  modelPricing,
+  serverQueue,
+  securityIndex,
 }: FileListPanelProps) {
   const listRef = useRef<HTMLDivElement>(null);
   const activeItemRef = useRef<HTMLLIElement>(null);
@@ -183,19 +201,27 @@ export default function FileListPanel({
               <button
                 onClick={onExportAllReset}
                 className={`px-1.5 py-0.5 text-[13px] rounded transition-colors cursor-pointer min-w-[38px] ${
-                  exportAllResult.failed === 0
-                    ? 'text-green-600 hover:bg-green-50'
-                    : 'text-red-500 hover:bg-red-50'
+                  exportAllResult.failed > 0
+                    ? 'text-red-500 hover:bg-red-50'
+                    : exportAllResult.skipped.length > 0
+                      ? 'text-amber-600 hover:bg-amber-50'
+                      : 'text-green-600 hover:bg-green-50'
                 }`}
                 title={
-                  exportAllResult.failed === 0
+                  exportAllResult.failed === 0 && exportAllResult.skipped.length === 0
                     ? `成功匯出 ${exportAllResult.success} 筆`
-                    : `成功 ${exportAllResult.success} 筆，失敗 ${exportAllResult.failed} 筆\n${exportAllResult.errors.join('\n')}`
+                    : [
+                      `成功 ${exportAllResult.success} 筆，失敗 ${exportAllResult.failed} 筆，略過 ${exportAllResult.skipped.length} 筆`,
+                      ...exportAllResult.errors,
+                      ...exportAllResult.skipped.map((s) => `略過 ${s}`),
+                    ].join('\n')
                 }
               >
-                {exportAllResult.failed === 0
-                  ? `✓ ${exportAllResult.success}筆`
-                  : `✗ ${exportAllResult.failed}筆失敗`
+                {exportAllResult.failed > 0
+                  ? `✗ ${exportAllResult.failed}筆失敗`
+                  : exportAllResult.skipped.length > 0
+                    ? `⚠ 略過${exportAllResult.skipped.length}筆`
+                    : `✓ ${exportAllResult.success}筆`
                 }
               </button>
             )}
@@ -213,8 +239,8 @@ export default function FileListPanel({
       {/* 全域狀態欄 + 分析控制 toggle 按鈕 */}
       {files.length > 0 && (
         <div className="px-3 py-2 border-b border-gray-200 flex-shrink-0 space-y-2">
-          {/* 全域合計統計 */}
-          <div className="flex gap-1 text-center">
+          {/* 全域合計統計（2x2：進度 / 總頁數 / 快取命中 / 本次花費） */}
+          <div className="grid grid-cols-2 gap-1 text-center">
             <div className="rounded-md bg-green-50 py-1.5 px-2 flex-1">
               <div className="text-lg font-extrabold text-green-600">
                 {totalCompleted}<span className="mx-0.5">/</span>{totalToAnalyze}
@@ -225,7 +251,44 @@ export default function FileListPanel({
               <div className="text-lg font-extrabold text-blue-600">{totalPages}</div>
               <div className="text-[9px] text-blue-500">總頁數</div>
             </div>
+            <div
+              className="rounded-md bg-violet-50 py-1.5 px-2 flex-1"
+              title={`AI 回應快取：命中 ${cacheStats.hits} 次、未命中 ${cacheStats.misses} 次（頁碼按鈕 Shift+點擊可略過快取重跑）`}
+            >
+              <div className="text-lg font-extrabold text-violet-600">
+                {cacheStats.hits}<span className="mx-0.5">/</span>{cacheStats.hits + cacheStats.misses}
+              </div>
+              <div className="text-[9px] text-violet-500">
+                快取命中
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm('清空本機 AI 回應快取？之後相同頁面會重新呼叫 AI（伺服器端共用快取不受影響）')) void onClearAiCache();
+                  }}
+                  className="ml-1 underline hover:text-violet-700 cursor-pointer"
+                  title="清空本機 AI 回應快取"
+                >
+                  清除
+                </button>
+              </div>
+            </div>
+            <div
+              className="rounded-md bg-amber-50 py-1.5 px-2 flex-1"
+              title={`本次工作階段：${formatUsageSummary(sessionUsage, modelPricing)}（+ 表示部分模型查無定價，未計入）`}
+            >
+              <div className="text-lg font-extrabold text-amber-600">{formatCost(estimateCost(sessionUsage, modelPricing))}</div>
+              <div className="text-[9px] text-amber-500">本次花費</div>
+            </div>
           </div>
+          {/* 伺服器端限流排隊（最近一次請求的等待時間 / 前方請求數） */}
+          {isAnalyzing && serverQueue && (serverQueue.waitMs > 0 || serverQueue.depth > 0) && (
+            <div
+              className="text-[11px] text-gray-500 text-center"
+              title="伺服器依 API 金鑰 + 模型限制每分鐘請求數與同時請求數，超出時排隊等待"
+            >
+              ⏳ 伺服器排隊：前方 {serverQueue.depth} 個，等待 {(serverQueue.waitMs / 1000).toFixed(1)}s
+            </div>
+          )}
           {/* toggle 按鈕 */}
           <button
             onClick={onToggleAnalysis}
@@ -246,6 +309,7 @@ export default function FileListPanel({
           <ul className="py-1">
             {files.map((entry, idx) => {
               const isActive = entry.id === activeFileId;
+              const conflicts = findUnresolvedConflicts(entry, securityIndex);
               return (
                 <li key={entry.id} ref={isActive ? activeItemRef : undefined}>
                   <button
@@ -270,6 +334,19 @@ export default function FileListPanel({
                           : entry.status === 'error' ? '失敗'
                           : ''
                         }
+                        {entry.usage && (
+                          <span className="ml-1.5 text-amber-500" title={formatUsageSummary(entry.usage, modelPricing)}>
+                            {formatCost(estimateCost(entry.usage, modelPricing))}
+                          </span>
+                        )}
+                        {conflicts.length > 0 && (
+                          <span
+                            className="ml-1.5 text-amber-600"
+                            title={conflicts.map(({ field, consensus }) => describeConflict(field, consensus)).join('\n')}
+                          >
+                            ⚠ 衝突
+                          </span>
+                        )}
                       </p>
                     </div>
                     <span
@@ -0,0 +1,79 @@
+/**
+ * 功能：財務數據面板（右欄頂部，可收合）
+ * 職責：依種類分組列出當前檔案從 region 文字擷取的營收、利潤率、EPS、目標價、評等、QoQ / YoY 與期間標籤；
+ *       點擊數據跳到來源文字框；切換匯出時是否附上結構化數據
+ * 依賴：financialEntities.ts（種類名稱、數值格式）、types.ts
+ */
+
+'use client';
+
+import { FinancialEntity, FinancialEntityKind } from '@/lib/types';
+import { FINANCIAL_ENTITY_KIND_LABELS, formatFinancialEntityValue } from '@/lib/financialEntities';
+
+interface FinancialEntityPanelProps {
+  entities: FinancialEntity[];
+  /** 點擊數據 → 跳到來源文字框（regionKey 格式 "page-regionId"） */
+  onSelect: (regionKey: string) => void;
+  /** 匯出時是否附上數據 */
+  exportEntities?: boolean;
+  /** 切換匯出附上數據 */
+  onExportEntitiesChange?: (value: boolean) => void;
+}
+
+export default function FinancialEntityPanel({
+  entities,
+  onSelect,
+  exportEntities = false,
+  onExportEntitiesChange,
+}: FinancialEntityPanelProps) {
+  // 依 FINANCIAL_ENTITY_KIND_LABELS 的順序分組，組內保持頁碼 / 右欄順序
+  const groups = (Object.keys(FINANCIAL_ENTITY_KIND_LABELS) as FinancialEntityKind[])
+    .map((kind) => ({ kind, items: entities.filter((e) => e.kind === kind) }))
+    .filter((g) => g.items.length > 0);
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-2.5 text-xs">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="font-semibold text-gray-600">財務數據（{entities.length}）</span>
+        {onExportEntitiesChange && (
+          <label className="flex items-center gap-1 text-gray-500 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={exportEntities}
+              onChange={(e) => onExportEntitiesChange(e.target.checked)}
+              className="cursor-pointer"
+            />
+            匯出時附上
+          </label>
+        )}
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-gray-400">未偵測到營收、EPS、目標價等數據</p>
+      ) : (
+        <div className="space-y-1.5">
+          {groups.map(({ kind, items }) => (
+            <div key={kind}>
+              <div className="text-[10px] font-medium text-gray-400 mb-0.5">{FINANCIAL_ENTITY_KIND_LABELS[kind]}</div>
+              {items.map((entity, i) => (
+                <button
+                  key={`${entity.page}-${entity.regionId}-${i}`}
+                  onClick={() => onSelect(`${entity.page}-${entity.regionId}`)}
+                  title={`第 ${entity.page} 頁：${entity.raw}`}
+                  className="w-full flex items-center gap-2 px-1.5 py-0.5 rounded text-left hover:bg-white cursor-pointer"
+                >
+                  <span className="w-12 flex-shrink-0 text-gray-400">{entity.period ?? '—'}</span>
+                  <span className="flex-1 truncate text-gray-600">
+                    {entity.subject ? `${entity.subject} ${entity.label}` : entity.label}
+                  </span>
+                  <span className="flex-shrink-0 font-medium text-gray-800 tabular-nums">{formatFinancialEntityValue(entity)}</span>
+                  <span className="w-7 flex-shrink-0 text-right text-[10px] text-gray-400">p.{entity.page}</span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,21 +14,34 @@
 
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import type { pdfjs } from 'react-pdf';
 import PdfUploader from './PdfUploader';
 import TextPanel from './TextPanel';
 import FileListPanel from './FileListPanel';
 import FolderPanel from './FolderPanel';
-import { Region } from '@/lib/types';
-import { DEFAULT_PROMPT, DEFAULT_TABLE_PROMPT } from '@/lib/constants';
+import { MetadataField, Region, RegionOrderMode, TextFormat } from '@/lib/types';
+import { DEFAULT_PROMPT, DEFAULT_TABLE_PROMPT, DEFAULT_RESPONSE_FIELD_MAP, isLayoutModel, modelHasKey } from '@/lib/constants';
+import { sanitizeResponseFieldMap } from '@/lib/analysisSchema';
+import { buildModelPricing } from '@/lib/usageCost';
 import { DEFAULT_BROKER_ALIAS_GROUPS, DEFAULT_BROKER_SKIP_MAP } from '@/lib/brokerUtils';
-import { DEFAULT_MODEL, GEMINI_MODELS, isOpenRouterModel } from './PdfUploader';
+import { DEFAULT_MODEL, GEMINI_MODELS } from './PdfUploader';
 import type { ModelChoice } from '@/app/api/models/route';
+import type { OcrEngineChoice } from '@/lib/ocrEngines';
 import useFileManager from '@/hooks/useFileManager';
 import usePanelResize from '@/hooks/usePanelResize';
-import { extractTextForRegions } from '@/lib/pdfTextExtract';
+import { extractTextForRegions, detectRunningLines, setGlyphMapRules, scanUnmappedGlyphs } from '@/lib/pdfTextExtract';
+import { DEFAULT_GLYPH_MAP_RULES, GlyphMapRule, sanitizeGlyphMapRules } from '@/lib/glyphMap';
+import { FilenameRule, sanitizeFilenameRules } from '@/lib/filenameRules';
+import { sortRegionsByReadingOrder } from '@/lib/readingOrder';
+import { reflowText } from '@/lib/pdfTextExtractCore';
+import { extractFinancialEntities } from '@/lib/financialEntities';
+import { METADATA_FIELD_LABELS, describeConflict, findUnresolvedConflicts } from '@/lib/metadataConsensus';
+import { SecurityEntry, buildSecurityIndex, parseSecuritiesCsv, sanitizeSecurities } from '@/lib/securities';
+import { BUNDLED_SECURITIES_CSV } from '@/lib/securitiesSeed';
+import { lookupFileSkip } from '@/lib/boilerplatePages';
+import { rememberAiCacheWritePassword } from '@/lib/aiCache';
 
 // PdfViewer 以 next/dynamic 拆成獨立 chunk：它是唯一靜態載入 react-pdf 算繪元件（Document/Page）者，
 // 拆出後 react-pdf+pdfjs（~605KB）不進殼層 critical chunk，待首個 PdfViewer 掛載才載入（與殼層並行）。
@@ -86,10 +99,38 @@ export default function PDFExtractApp() {
     const cfg = loadConfig();
     return typeof cfg.tablePrompt === 'string' ? cfg.tablePrompt : DEFAULT_TABLE_PROMPT;
   });
+  // AI 回應欄位映射（模型 JSON key → PageAnalysis 欄位，與 prompt 一起同步到伺服器）
+  const [responseFieldMap, setResponseFieldMap] = useState<Record<string, string>>(() => {
+    const cfg = loadConfig();
+    if (typeof cfg.responseFieldMap === 'object' && cfg.responseFieldMap !== null) {
+      return sanitizeResponseFieldMap(cfg.responseFieldMap);
+    }
+    return { ...DEFAULT_RESPONSE_FIELD_MAP };
+  });
+  // 符號字型 / PUA 字元替換規則（文字層提取時套用，與 prompt 一起同步到伺服器）
+  const [glyphMapRules, setGlyphMapRulesState] = useState<GlyphMapRule[]>(() => {
+    const cfg = loadConfig();
+    const rules = sanitizeGlyphMapRules(cfg.glyphMapRules);
+    return rules.length > 0 ? rules : DEFAULT_GLYPH_MAP_RULES;
+  });
+  // 自訂檔名解析規則（上傳時先於內建規則套用，同步到伺服器）
+  const [filenameRules, setFilenameRules] = useState<FilenameRule[]>(() => sanitizeFilenameRules(loadConfig().filenameRules));
   const [model, setModel] = useState(() => {
     const cfg = loadConfig();
     return typeof cfg.model === 'string' ? cfg.model : DEFAULT_MODEL;
   });
+  // 交叉比對模型（空字串 = 關閉；設定後每頁同時送主模型與此模型，regions 以 IoU 合併）
+  const [ensembleModel, setEnsembleModel] = useState(() => {
+    const cfg = loadConfig();
+    return typeof cfg.ensembleModel === 'string' ? cfg.ensembleModel : '';
+  });
+  // 改送單頁 PDF（而非 JPEG）的模型清單（依模型開關；僅 modelSupportsPdfInput 的模型生效）
+  const [pdfInputModels, setPdfInputModels] = useState<string[]>(() => {
+    const cfg = loadConfig();
+    return Array.isArray(cfg.pdfInputModels)
+      ? (cfg.pdfInputModels as unknown[]).filter((v): v is string => typeof v === 'string')
+      : [];
+  });
   const [batchSize, setBatchSize] = useState(() => {
     const cfg = loadConfig();
     return typeof cfg.batchSize === 'number' ? cfg.batchSize : DEFAULT_BATCH_SIZE;
@@ -108,6 +149,40 @@ export default function PDFExtractApp() {
     const cfg = loadConfig();
     return typeof cfg.openRouterApiKey === 'string' ? cfg.openRouterApiKey : '';
   });
+  // 本機 OpenAI 相容端點 base URL（同步到伺服器設定，由伺服器端呼叫；持久化到 localStorage）
+  const [localBaseUrl, setLocalBaseUrl] = useState(() => {
+    const cfg = loadConfig();
+    return typeof cfg.localBaseUrl === 'string' ? cfg.localBaseUrl : '';
+  });
+  // 本機 OCR 引擎（空字串 = 關閉；空文字 / 亂碼區域先 OCR，失敗才送 AI）與伺服器上可用的引擎
+  const [ocrEngine, setOcrEngine] = useState(() => {
+    const cfg = loadConfig();
+    return typeof cfg.ocrEngine === 'string' ? cfg.ocrEngine : '';
+  });
+  const [ocrEngineChoices, setOcrEngineChoices] = useState<OcrEngineChoice[]>([]);
+  // 證券主檔（啟動時從 /api/settings/securities 載入；載入前用內建種子表）
+  const [securities, setSecurities] = useState<SecurityEntry[]>(() => parseSecuritiesCsv(BUNDLED_SECURITIES_CSV));
+  const [securitiesSource, setSecuritiesSource] = useState<'uploaded' | 'bundled'>('bundled');
+  // 內建種子表只收常用代號：僅供名稱反查，不標示未知代號（否則多數上市櫃代號都會被當成未知而降權）
+  const securityIndex = useMemo(
+    () => buildSecurityIndex(securities, securitiesSource === 'uploaded'),
+    [securities, securitiesSource],
+  );
+  // 匯出時是否合併折行（段落重排；僅影響匯出內容，不改動提取文字，持久化到 localStorage）
+  const [exportReflow, setExportReflow] = useState(() => {
+    const cfg = loadConfig();
+    return cfg.exportReflow === true;
+  });
+  // 匯出時是否附上財務數據（營收 / EPS / 目標價等結構化欄位 entities，持久化到 localStorage）
+  const [exportEntities, setExportEntities] = useState(() => {
+    const cfg = loadConfig();
+    return cfg.exportEntities === true;
+  });
+  // 右欄顯示 / 匯出的文字格式（純文字 / Markdown，持久化到 localStorage）
+  const [textFormat, setTextFormat] = useState<TextFormat>(() => {
+    const cfg = loadConfig();
+    return cfg.textFormat === 'markdown' ? 'markdown' : 'plain';
+  });
   // 動態模型列表（從 /api/models 探測，fallback seed = GEMINI_MODELS）
   const [modelChoices, setModelChoices] = useState<ModelChoice[]>(() => {
     try {
@@ -117,6 +192,8 @@ export default function PDFExtractApp() {
     return GEMINI_MODELS.map(m => ({ id: m.id, label: m.label, thinking: /pro/i.test(m.id) }));
   });
   const [isRefreshingModels, setIsRefreshingModels] = useState(false);
+  // 模型定價表（供 token 用量估算費用）
+  const modelPricing = useMemo(() => buildModelPricing(modelChoices), [modelChoices]);
   // 券商 → 忽略末尾頁數映射（持久化到 localStorage）
   const [brokerSkipMap, setBrokerSkipMap] = useState<Record<string, number>>(() => {
     const cfg = loadConfig();
@@ -154,7 +231,7 @@ export default function PDFExtractApp() {
   const [exportSingleState, setExportSingleState] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [exportSingleError, setExportSingleError] = useState('');
   const [exportAllState, setExportAllState] = useState<'idle' | 'loading' | 'done'>('idle');
-  const [exportAllResult, setExportAllResult] = useState<{ success: number; failed: number; errors: string[] } | null>(null);
+  const [exportAllResult, setExportAllResult] = useState<{ success: number; failed: number; errors: string[]; skipped: string[] } | null>(null);
 
   // === useFileManager Hook（檔案生命週期 + 分析流程）===
   const {
@@ -171,11 +248,19 @@ export default function PDFExtractApp() {
     handleStop, handleReanalyze, handleReanalyzePage, handleRegionDoubleClick,
     analyzingPagesMap, queuedPagesMap, cancelQueuedPage,
     analysisFileIdRef,
-    handleStopFile, handleReanalyzeFile, triggerQueueProcessing,
+    handleStopFile, handleReanalyzeFile, triggerQueueProcessing, cacheStats, handleClearAiCache, sessionUsage, serverQueue,
     selectFileMetadata, addFileMetadataCandidate, removeFileMetadataCandidate, clearFileMetadataCandidates,
+    setFileRegionOrder,
     mountedFileIds,
   } = useFileManager({
     prompt, tablePrompt, model, batchSize, skipLastPages, brokerSkipMap, brokerAliasGroups, apiKey, openRouterApiKey,
+    responseFieldMap,
+    // 交叉比對模型缺金鑰時視同關閉（避免每頁都對第二個模型重試到失敗）
+    ensembleModel: ensembleModel && modelHasKey(ensembleModel, apiKey, openRouterApiKey) ? ensembleModel : '',
+    pdfInputModels,
+    ocrEngine,
+    securityIndex,
+    filenameRules,
   });
 
   // === usePanelResize Hook（四欄分界線拖動）===
@@ -188,17 +273,37 @@ export default function PDFExtractApp() {
   // === 自動儲存配置到 localStorage ===
   useEffect(() => { saveConfig({ prompt }); }, [prompt]);
   useEffect(() => { saveConfig({ tablePrompt }); }, [tablePrompt]);
+  useEffect(() => { saveConfig({ responseFieldMap }); }, [responseFieldMap]);
+  useEffect(() => { saveConfig({ glyphMapRules }); }, [glyphMapRules]);
+  useEffect(() => { saveConfig({ filenameRules }); }, [filenameRules]);
   useEffect(() => { saveConfig({ model }); }, [model]);
+  useEffect(() => { saveConfig({ ensembleModel }); }, [ensembleModel]);
+  useEffect(() => { saveConfig({ pdfInputModels }); }, [pdfInputModels]);
   useEffect(() => { saveConfig({ batchSize }); }, [batchSize]);
   useEffect(() => { saveConfig({ skipLastPages }); }, [skipLastPages]);
   useEffect(() => { saveConfig({ brokerSkipMap }); }, [brokerSkipMap]);
   useEffect(() => { saveConfig({ brokerAliasGroups }); }, [brokerAliasGroups]);
   useEffect(() => { saveConfig({ apiKey }); }, [apiKey]);
   useEffect(() => { saveConfig({ openRouterApiKey }); }, [openRouterApiKey]);
+  useEffect(() => { saveConfig({ localBaseUrl }); }, [localBaseUrl]);
+  useEffect(() => { saveConfig({ ocrEngine }); }, [ocrEngine]);
+  useEffect(() => { saveConfig({ exportReflow }); }, [exportReflow]);
+  useEffect(() => { saveConfig({ exportEntities }); }, [exportEntities]);
+  useEffect(() => { saveConfig({ textFormat }); }, [textFormat]);
   useEffect(() => { saveConfig({ fileListWidth }); }, [fileListWidth]);
   useEffect(() => { saveConfig({ leftWidth }); }, [leftWidth]);
   useEffect(() => { saveConfig({ rightWidth }); }, [rightWidth]);
 
+  // 字元替換規則變更 → 更新文字層提取模組（之後的提取 / 重新提取才生效，已提取的文字不回溯）
+  useEffect(() => { setGlyphMapRules(glyphMapRules); }, [glyphMapRules]);
+
+  // 設定面板「掃描未對應符號」：以目前規則掃描目前頁面的文字層
+  const handleScanGlyphs = useCallback(async () => {
+    const pdfDoc = pdfDocRef.current;
+    if (!pdfDoc) return [];
+    return scanUnmappedGlyphs(await pdfDoc.getPage(currentPage));
+  }, [pdfDocRef, currentPage]);
+
   // 切換活躍檔案時重置單篇匯出狀態，避免舊的成功/失敗狀態誤導
   useEffect(() => {
     setExportSingleState('idle');
@@ -214,7 +319,19 @@ export default function PDFExtractApp() {
         const d = json.data;
         if (typeof d.prompt === 'string') setPrompt(d.prompt);
         if (typeof d.tablePrompt === 'string') setTablePrompt(d.tablePrompt);
+        if (typeof d.responseFieldMap === 'object' && d.responseFieldMap !== null) {
+          setResponseFieldMap(sanitizeResponseFieldMap(d.responseFieldMap));
+        }
+        if (Array.isArray(d.glyphMapRules)) {
+          const rules = sanitizeGlyphMapRules(d.glyphMapRules);
+          if (rules.length > 0) setGlyphMapRulesState(rules);
+        }
+        if (Array.isArray(d.filenameRules)) setFilenameRules(sanitizeFilenameRules(d.filenameRules));
         if (typeof d.model === 'string') setModel(d.model);
+        if (typeof d.ensembleModel === 'string') setEnsembleModel(d.ensembleModel);
+        if (Array.isArray(d.pdfInputModels)) {
+          setPdfInputModels((d.pdfInputModels as unknown[]).filter((v): v is string => typeof v === 'string'));
+        }
         if (typeof d.batchSize === 'number') setBatchSize(d.batchSize);
         if (typeof d.skipLastPages === 'number') setSkipLastPages(d.skipLastPages);
         if (typeof d.brokerSkipMap === 'object' && d.brokerSkipMap !== null) {
@@ -228,6 +345,8 @@ export default function PDFExtractApp() {
               .filter(Boolean)
           );
         }
+        if (typeof d.localBaseUrl === 'string') setLocalBaseUrl(d.localBaseUrl);
+        if (typeof d.ocrEngine === 'string') setOcrEngine(d.ocrEngine);
         if (typeof d.fileListWidth === 'number') setFileListWidth(d.fileListWidth);
         if (typeof d.leftWidth === 'number') setLeftWidth(d.leftWidth);
         if (typeof d.rightWidth === 'number') setRightWidth(d.rightWidth);
@@ -239,22 +358,39 @@ export default function PDFExtractApp() {
       });
 
     // 模型探測（stale-while-revalidate：先用 localStorage 快取渲染，背景 fetch 更新）
+    // 無 Gemini 金鑰時也探測：伺服器端可能設有本機端點（環境變數）或啟用模擬模型，無任何來源時回 400 並略過
     const currentApiKey = loadConfig().apiKey as string || '';
-    if (currentApiKey) {
-      fetch('/api/models', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ apiKey: currentApiKey }),
+    fetch('/api/models', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ apiKey: currentApiKey }),
+    })
+      .then(r => r.json())
+      .then(json => {
+        if (json.models && Array.isArray(json.models) && json.models.length > 0) {
+          setModelChoices(json.models);
+          try { localStorage.setItem(MODEL_CACHE_KEY, JSON.stringify(json.models)); } catch { /* ignore */ }
+        }
       })
-        .then(r => r.json())
-        .then(json => {
-          if (json.models && Array.isArray(json.models) && json.models.length > 0) {
-            setModelChoices(json.models);
-            try { localStorage.setItem(MODEL_CACHE_KEY, JSON.stringify(json.models)); } catch { /* ignore */ }
-          }
-        })
-        .catch(() => { /* 探測失敗靜默，繼續用快取/seed */ });
-    }
+      .catch(() => { /* 探測失敗靜默，繼續用快取/seed */ });
+
+    // OCR 引擎探測（伺服器是否安裝 tesseract 等）
+    fetch('/api/ocr')
+      .then(r => r.json())
+      .then(json => {
+        if (json.success && Array.isArray(json.engines)) setOcrEngineChoices(json.engines);
+      })
+      .catch(() => { /* 探測失敗靜默，選單只有「關閉」 */ });
+
+    // 證券主檔（伺服器上傳的完整清單）
+    fetch('/api/settings/securities')
+      .then(r => r.json())
+      .then(json => {
+        if (!json.success) return;
+        setSecurities(sanitizeSecurities(json.data));
+        setSecuritiesSource(json.source === 'uploaded' ? 'uploaded' : 'bundled');
+      })
+      .catch(() => { /* 載入失敗靜默，繼續用內建種子表 */ });
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -277,8 +413,8 @@ export default function PDFExtractApp() {
     if (!password) return;
 
     const settings = {
-      prompt, tablePrompt, model, batchSize, skipLastPages, brokerSkipMap,
-      brokerAliasGroups,
+      prompt, tablePrompt, responseFieldMap, model, ensembleModel, pdfInputModels, batchSize, skipLastPages, brokerSkipMap,
+      brokerAliasGroups, glyphMapRules, filenameRules, localBaseUrl, ocrEngine,
       fileListWidth, leftWidth, rightWidth,
     };
 
@@ -290,6 +426,8 @@ export default function PDFExtractApp() {
       });
       const json = await res.json();
       if (json.success) {
+        // 同一組密碼也用於寫入伺服器端 AI 回應快取（僅存於記憶體）
+        rememberAiCacheWritePassword(password);
         alert('設定已上傳到伺服器！');
       } else {
         alert(`上傳失敗：${json.error || '未知錯誤'}`);
@@ -297,7 +435,36 @@ export default function PDFExtractApp() {
     } catch {
       alert('上傳失敗：無法連線到伺服器');
     }
-  }, [prompt, tablePrompt, model, batchSize, skipLastPages, brokerSkipMap, brokerAliasGroups, fileListWidth, leftWidth, rightWidth]);
+  }, [prompt, tablePrompt, responseFieldMap, model, ensembleModel, pdfInputModels, batchSize, skipLastPages, brokerSkipMap, brokerAliasGroups, glyphMapRules, filenameRules, localBaseUrl, ocrEngine, fileListWidth, leftWidth, rightWidth]);
+
+  // === 上傳證券主檔 CSV 到伺服器（取代伺服器主檔）===
+  const handleUploadSecurities = useCallback(async (csv: string) => {
+    const entries = parseSecuritiesCsv(csv);
+    if (entries.length === 0) {
+      alert('CSV 中沒有可辨識的代號（需含 code / 代號 欄位）');
+      return;
+    }
+    const password = window.prompt(`請輸入上傳密碼（證券主檔 ${entries.length} 筆）`);
+    if (!password) return;
+
+    try {
+      const res = await fetch('/api/settings/securities', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password, csv }),
+      });
+      const json = await res.json();
+      if (json.success) {
+        setSecurities(entries);
+        setSecuritiesSource('uploaded');
+        alert(`證券主檔已上傳到伺服器（${json.count} 筆）`);
+      } else {
+        alert(`上傳失敗：${json.error || '未知錯誤'}`);
+      }
+    } catch {
+      alert('上傳失敗：無法連線到伺服器');
+    }
+  }, []);
 
   // === DEVMODE: 任何設定改動後 5 秒自動上傳到伺服器（免密碼） ===
   useEffect(() => {
@@ -305,8 +472,8 @@ export default function PDFExtractApp() {
 
     const timer = setTimeout(async () => {
       const settings = {
-        prompt, tablePrompt, model, batchSize, skipLastPages, brokerSkipMap,
-        brokerAliasGroups,
+        prompt, tablePrompt, responseFieldMap, model, ensembleModel, pdfInputModels, batchSize, skipLastPages, brokerSkipMap,
+        brokerAliasGroups, glyphMapRules, filenameRules, localBaseUrl, ocrEngine,
         fileListWidth, leftWidth, rightWidth,
       };
       try {
@@ -326,7 +493,7 @@ export default function PDFExtractApp() {
     }, 5000);
 
     return () => clearTimeout(timer);
-  }, [prompt, tablePrompt, model, batchSize, skipLastPages, brokerSkipMap, brokerAliasGroups, fileListWidth, leftWidth, rightWidth]);
+  }, [prompt, tablePrompt, responseFieldMap, model, ensembleModel, pdfInputModels, batchSize, skipLastPages, brokerSkipMap, brokerAliasGroups, glyphMapRules, filenameRules, localBaseUrl, ocrEngine, fileListWidth, leftWidth, rightWidth]);
 
   // === 切換活躍檔案 ===
   const handleSelectFile = useCallback((fileId: string) => {
@@ -390,10 +557,11 @@ export default function PDFExtractApp() {
       });
 
       try {
-        if (!pdfDocRef.current) return;
-        const pdfPage = await pdfDocRef.current.getPage(page);
+        const pdfDoc = pdfDocRef.current;
+        if (!pdfDoc) return;
+        const pdfPage = await pdfDoc.getPage(page);
         const tempRegion: Region = { id: regionId, bbox: newBbox, label: '', text: '' };
-        const [extracted] = await extractTextForRegions(pdfPage, [tempRegion]);
+        const [extracted] = await extractTextForRegions(pdfPage, [tempRegion], await detectRunningLines(pdfDoc));
 
         updateActiveFileRegions((prev) => {
           const updated = new Map(prev);
@@ -401,7 +569,9 @@ export default function PDFExtractApp() {
           if (regions) {
             const updatedRegions = regions.map((r) =>
               // 若正在 AI 識別中（text 以 ⏳ 開頭），不覆蓋
-              r.id === regionId && !r.text?.startsWith('⏳') ? { ...r, text: extracted.text, _debug: extracted._debug } : r
+              r.id === regionId && !r.text?.startsWith('⏳')
+                ? { ...r, text: extracted.text, markdown: extracted.markdown, textSource: extracted.textSource, confidence: extracted.confidence, _debug: extracted._debug }
+                : r
             );
             updated.set(page, updatedRegions);
           }
@@ -466,6 +636,11 @@ export default function PDFExtractApp() {
       updateActiveFileRegions((prev) => {
         const updated = new Map(prev);
         const existing = updated.get(page) || [];
+        // 版面順序模式：新框依閱讀順序歸位
+        if (currentFile?.regionOrder === 'layout') {
+          updated.set(page, sortRegionsByReadingOrder([...existing, newRegion]));
+          return updated;
+        }
         const [nx1, ny1] = bbox;
         let insertIdx = existing.length;
         for (let i = 0; i < existing.length; i++) {
@@ -486,15 +661,18 @@ export default function PDFExtractApp() {
       setScrollToTextKey(`${page}-${newId}`);
 
       try {
-        if (!pdfDocRef.current) return;
-        const pdfPage = await pdfDocRef.current.getPage(page);
-        const [extracted] = await extractTextForRegions(pdfPage, [newRegion]);
+        const pdfDoc = pdfDocRef.current;
+        if (!pdfDoc) return;
+        const pdfPage = await pdfDoc.getPage(page);
+        const [extracted] = await extractTextForRegions(pdfPage, [newRegion], await detectRunningLines(pdfDoc));
         updateActiveFileRegions((prev) => {
           const updated = new Map(prev);
           const regions = updated.get(page);
           if (regions) {
             updated.set(page, regions.map((r) =>
-              r.id === newId ? { ...r, text: extracted.text, _debug: extracted._debug } : r
+              r.id === newId
+                ? { ...r, text: extracted.text, markdown: extracted.markdown, textSource: extracted.textSource, confidence: extracted.confidence, _debug: extracted._debug }
+                : r
             ));
           }
           return updated;
@@ -518,6 +696,12 @@ export default function PDFExtractApp() {
     });
   }, [updateActiveFileRegions]);
 
+  // === 切換當前檔案的 region 排序模式（AI 順序 / 版面順序）===
+  const handleRegionOrderChange = useCallback((mode: RegionOrderMode) => {
+    const fileId = activeFileIdRef.current;
+    if (fileId) setFileRegionOrder(fileId, mode);
+  }, [setFileRegionOrder, activeFileIdRef]);
+
   // === 使用者手動編輯 region 文字 ===
   const handleRegionTextChange = useCallback((page: number, regionId: number, newText: string) => {
     updateActiveFileRegions((prev) => {
@@ -525,7 +709,7 @@ export default function PDFExtractApp() {
       const regions = updated.get(page);
       if (regions) {
         updated.set(page, regions.map((r) =>
-          r.id === regionId ? { ...r, text: newText, userModified: true } : r
+          r.id === regionId ? { ...r, text: newText, markdown: undefined, textSource: undefined, confidence: undefined, userModified: true } : r
         ));
       }
       return updated;
@@ -534,13 +718,15 @@ export default function PDFExtractApp() {
     console.log(`[PDFExtractApp][${ts}] ✏️ Region ${regionId} text edited on page ${page}`);
   }, [updateActiveFileRegions]);
 
-  // === 匯出報告：組合提取文字內容 ===
-  const buildExportContent = (pageRegionsMap: Map<number, Region[]>): string => {
+  // === 匯出報告：組合提取文字內容（頁碼遞增；頁內依右欄順序，即檔案排序模式的結果 + 手動拖曳）===
+  // format = markdown 時用 region 的 Markdown 呈現（無則用純文字）；reflow = true 時逐 region 合併折行（段落重排），原始 region 文字不變
+  const buildExportContent = (pageRegionsMap: Map<number, Region[]>, format: TextFormat, reflow: boolean): string => {
     const lines: string[] = [];
     for (const [, regions] of Array.from(pageRegionsMap.entries()).sort(([a], [b]) => a - b)) {
       for (const r of regions) {
         if (r.text?.trim()) {
-          lines.push(r.text);
+          const text = format === 'markdown' ? r.markdown ?? r.text : r.text;
+          lines.push(reflow ? reflowText(text) : text);
           lines.push('');
         }
       }
@@ -553,7 +739,7 @@ export default function PDFExtractApp() {
     if (!file.selectedCode || !file.selectedBroker || !file.selectedDate) {
       throw new Error('請先確認股票代號、券商名、日期');
     }
-    const content = buildExportContent(file.pageRegions);
+    const content = buildExportContent(file.pageRegions, textFormat, exportReflow);
     // API 要求 YYYY-MM-DD 格式，UI 可能存為 YYYY/MM/DD，統一轉換
     const dateForApi = file.selectedDate.replace(/\//g, '-');
     const res = await fetch('/api/export-report', {
@@ -566,6 +752,7 @@ export default function PDFExtractApp() {
         date: dateForApi,
         content,
         info: content,
+        ...(exportEntities && { entities: extractFinancialEntities(file.pageRegions) }),
       }),
     });
     const data = await res.json();
@@ -596,9 +783,9 @@ export default function PDFExtractApp() {
       console.error(`[PDFExtractApp][${ts}] ❌ 匯出失敗: ${activeFile.name} — ${msg}`);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeFile]);
+  }, [activeFile, textFormat, exportReflow, exportEntities]);
 
-  // === 匯出全部報告（依序處理有內容的檔案）===
+  // === 匯出全部報告（依序處理有內容的檔案；缺欄位或 metadata 有未解決衝突的檔案略過並列出原因）===
   const handleExportAll = useCallback(async () => {
     const targets = files.filter((f) => f.pageRegions.size > 0);
     if (targets.length === 0) return;
@@ -607,7 +794,21 @@ export default function PDFExtractApp() {
     const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
     let success = 0;
     const errors: string[] = [];
+    const skipped: string[] = [];
     for (const file of targets) {
+      const selected: Record<MetadataField, string | undefined> = {
+        date: file.selectedDate, code: file.selectedCode, broker: file.selectedBroker,
+      };
+      const missing = (Object.keys(selected) as MetadataField[]).filter((field) => !selected[field]);
+      const conflicts = findUnresolvedConflicts(file, securityIndex);
+      if (missing.length > 0 || conflicts.length > 0) {
+        const reason = missing.length > 0
+          ? `缺少${missing.map((field) => METADATA_FIELD_LABELS[field]).join('、')}`
+          : conflicts.map(({ field, consensus }) => describeConflict(field, consensus)).join('；');
+        skipped.push(`${file.name}: ${reason}`);
+        console.warn(`[PDFExtractApp][${ts}] ⏭️ 匯出全部 - 略過: ${file.name} — ${reason}`);
+        continue;
+      }
       try {
         await callExportAPI(file);
         success++;
@@ -619,9 +820,12 @@ export default function PDFExtractApp() {
       }
     }
     setExportAllState('done');
-    setExportAllResult({ success, failed: errors.length, errors });
+    setExportAllResult({ success, failed: errors.length, errors, skipped });
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [files]);
+  }, [files, textFormat, exportReflow, exportEntities, securityIndex]);
+
+  // === 當前檔案的財務數據（由 region 文字衍生，文字變動即重算）===
+  const financialEntities = useMemo(() => extractFinancialEntities(pageRegions), [pageRegions]);
 
   // === 點擊文字框 → 滾動 PDF 到對應框 ===
   const handleClickRegion = useCallback((regionKey: string) => {
@@ -686,7 +890,7 @@ export default function PDFExtractApp() {
       );
       if (droppedFiles.length > 0) {
         // 依目前選擇的模型判斷有效金鑰是否已設定
-        const hasKey = isOpenRouterModel(model) ? !!openRouterApiKey : !!apiKey;
+        const hasKey = modelHasKey(model, apiKey, openRouterApiKey);
         // 無金鑰 → 強制 idle（不觸發分析）
         if (!hasKey) {
           handleFilesUpload(droppedFiles, 'idle');
@@ -774,7 +978,7 @@ export default function PDFExtractApp() {
   const handlePasteZoneClick = useCallback(async (zone: 'left' | 'center' | 'right') => {
     if (!pasteSource || pasteLoading) return;
     // 無金鑰時一律僅加入列表（idle）；有金鑰才依區域決定 active/background/idle
-    const hasKey = isOpenRouterModel(model) ? !!openRouterApiKey : !!apiKey;
+    const hasKey = modelHasKey(model, apiKey, openRouterApiKey);
     const mode = !hasKey ? 'idle' : zone === 'left' ? 'active' : zone === 'right' ? 'idle' : 'background';
 
     setPasteLoading(true);
@@ -841,7 +1045,7 @@ export default function PDFExtractApp() {
 
   // === 全域分析 toggle handler（FileListPanel 用）===
   const handleToggleAnalysis = useCallback(() => {
-    const hasKey = isOpenRouterModel(model) ? !!openRouterApiKey : !!apiKey;
+    const hasKey = modelHasKey(model, apiKey, openRouterApiKey);
     if (!hasKey && !isAnalyzing) return; // 無金鑰時不允許啟動分析
     if (isAnalyzing) {
       // 全域暫停
@@ -891,11 +1095,7 @@ export default function PDFExtractApp() {
   );
 
   const activeBroker = activeFile?.selectedBroker || activeFile?.report || '';
-  const activeRawReport = activeFile?.report || '';
-  const effectiveSkipForActive =
-    (activeRawReport && brokerSkipMap[activeRawReport] !== undefined) ? brokerSkipMap[activeRawReport]
-    : (activeBroker && brokerSkipMap[activeBroker] !== undefined) ? brokerSkipMap[activeBroker]
-    : skipLastPages;
+  const effectiveSkipForActive = lookupFileSkip(activeFile, brokerSkipMap) ?? skipLastPages;
 
   return (
     <div
@@ -1073,7 +1273,7 @@ export default function PDFExtractApp() {
       <div className="h-full flex-shrink-0 flex flex-col" style={{ width: fileListWidth }}>
         <FolderPanel
           onImport={handleFolderImport}
-          hasKey={isOpenRouterModel(model) ? !!openRouterApiKey : !!apiKey}
+          hasKey={modelHasKey(model, apiKey, openRouterApiKey)}
         />
         <div className="flex-1 min-h-0">
         <FileListPanel
@@ -1090,6 +1290,12 @@ export default function PDFExtractApp() {
           exportAllState={exportAllState}
           exportAllResult={exportAllResult}
           onExportAllReset={() => { setExportAllState('idle'); setExportAllResult(null); }}
+          cacheStats={cacheStats}
+          onClearAiCache={handleClearAiCache}
+          sessionUsage={sessionUsage}
+          modelPricing={modelPricing}
+          serverQueue={serverQueue}
+          securityIndex={securityIndex}
         />
         </div>
       </div>
@@ -1104,8 +1310,19 @@ export default function PDFExtractApp() {
           onPromptChange={setPrompt}
           tablePrompt={tablePrompt}
           onTablePromptChange={setTablePrompt}
+          responseFieldMap={responseFieldMap}
+          onResponseFieldMapChange={setResponseFieldMap}
+          glyphMapRules={glyphMapRules}
+          onGlyphMapRulesChange={setGlyphMapRulesState}
+          onScanGlyphs={handleScanGlyphs}
+          filenameRules={filenameRules}
+          onFilenameRulesChange={setFilenameRules}
           model={model}
           onModelChange={setModel}
+          ensembleModel={ensembleModel}
+          onEnsembleModelChange={setEnsembleModel}
+          pdfInputModels={pdfInputModels}
+          onPdfInputModelsChange={setPdfInputModels}
           batchSize={batchSize}
           onBatchSizeChange={setBatchSize}
           skipLastPages={skipLastPages}
@@ -1114,11 +1331,16 @@ export default function PDFExtractApp() {
           onApiKeyChange={setApiKey}
           openRouterApiKey={openRouterApiKey}
           onOpenRouterApiKeyChange={setOpenRouterApiKey}
+          localBaseUrl={localBaseUrl}
+          onLocalBaseUrlChange={setLocalBaseUrl}
+          ocrEngine={ocrEngine}
+          onOcrEngineChange={setOcrEngine}
+          ocrEngineChoices={ocrEngineChoices}
           isAnalyzing={activeFile?.status === 'processing'}
           progress={{ current: activeFile?.pageRegions?.size ?? 0, total: Math.max(1, numPages - effectiveSkipForActive) }}
           numPages={numPages}
           onReanalyze={() => {
-            const hasKey = isOpenRouterModel(model) ? !!openRouterApiKey : !!apiKey;
+            const hasKey = modelHasKey(model, apiKey, openRouterApiKey);
             if (!activeFileId || !activeFile || !hasKey) return;
             // 若檔案已有券商名且在 brokerSkipMap 中有設定，優先使用券商特定值
             handleReanalyzeFile(Math.max(1, numPages - effectiveSkipForActive), activeFileId, activeFile.url);
@@ -1136,6 +1358,7 @@ export default function PDFExtractApp() {
           selectedDate={activeFile?.selectedDate ?? ''}
           selectedCode={activeFile?.selectedCode ?? ''}
           selectedBroker={activeBroker}
+          confirmedMetadata={activeFile?.confirmedMetadata ?? []}
           onSelectMetadata={(field, value) => {
             if (!activeFileId) return;
             selectFileMetadata(activeFileId, field, value);
@@ -1157,11 +1380,17 @@ export default function PDFExtractApp() {
           brokerAliasGroups={brokerAliasGroups}
           onBrokerAliasGroupsChange={setBrokerAliasGroups}
           activeFileStatus={activeFile?.status}
+          fileUsage={activeFile?.usage}
+          sessionUsage={sessionUsage}
+          modelPricing={modelPricing}
           onUploadSettings={handleUploadSettings}
+          securityIndex={securityIndex}
+          securitiesSource={securitiesSource}
+          onUploadSecurities={handleUploadSecurities}
           modelChoices={modelChoices}
           onRefreshModels={() => {
             const key = apiKey || openRouterApiKey;
-            if (!key || isRefreshingModels) return;
+            if (isRefreshingModels) return;
             setIsRefreshingModels(true);
             fetch('/api/models', {
               method: 'POST',
@@ -1173,8 +1402,8 @@ export default function PDFExtractApp() {
                 if (json.models && Array.isArray(json.models) && json.models.length > 0) {
                   setModelChoices(json.models);
                   try { localStorage.setItem(MODEL_CACHE_KEY, JSON.stringify(json.models)); } catch { /* ignore */ }
-                  // 若當前模型不在新列表中 → fallback
-                  if (!json.models.some((m: ModelChoice) => m.id === model)) {
+                  // 若當前模型不在新列表中 → fallback（版面分析為前端固定選項，不在探測列表中）
+                  if (!isLayoutModel(model) && !json.models.some((m: ModelChoice) => m.id === model)) {
                     setModel(json.models[0]?.id || DEFAULT_MODEL);
                   }
                 }
@@ -1230,10 +1459,12 @@ export default function PDFExtractApp() {
                 onRegionAdd={handleRegionAdd}
                 getGlobalColorOffset={fileGetGlobalColorOffset}
                 scrollToRegionKey={isActive ? scrollTarget : null}
-                onReanalyzePage={(pageNum: number) => {
-                  const hasKey = isOpenRouterModel(model) ? !!openRouterApiKey : !!apiKey;
-                  if (hasKey) handleReanalyzePage(pageNum, file.id);
+                onReanalyzePage={(pageNum: number, bypassCache?: boolean) => {
+                  const hasKey = modelHasKey(model, apiKey, openRouterApiKey);
+                  if (hasKey) handleReanalyzePage(pageNum, file.id, bypassCache);
                 }}
+                pageUsage={file.pageUsage}
+                modelPricing={modelPricing}
                 analyzingPages={fileAnalyzingPages}
                 queuedPages={fileQueuedPages}
                 onCancelQueuedPage={(pageNum: number) => cancelQueuedPage(file.id, pageNum)}
@@ -1241,15 +1472,16 @@ export default function PDFExtractApp() {
                 showOriginalBbox={showOriginalBbox}
                 onToggleOriginalBbox={() => setShowOriginalBbox(prev => !prev)}
                 onBboxClick={handleBboxClick}
-                onRegionDoubleClick={(page: number, regionId: number) => {
-                  const hasKey = isOpenRouterModel(model) ? !!openRouterApiKey : !!apiKey;
+                onRegionDoubleClick={(page: number, regionId: number, skipTextLayer?: boolean) => {
+                  const hasKey = modelHasKey(model, apiKey, openRouterApiKey);
                   if (!hasKey) return;
                   const region = file.pageRegions.get(page)?.find((r) => r.id === regionId);
                   if (region) {
-                    handleRegionDoubleClick(page, region, file.id);
+                    handleRegionDoubleClick(page, region, file.id, skipTextLayer);
                   }
                 }}
                 fileName={file.name}
+                skippedPages={file.skippedPages}
               />
             </div>
           );
@@ -1270,11 +1502,20 @@ export default function PDFExtractApp() {
           onClickRegion={handleClickRegion}
           onRegionRemove={handleRegionRemove}
           onReorderRegions={handleReorderRegions}
+          regionOrder={activeFile?.regionOrder ?? 'ai'}
+          onRegionOrderChange={handleRegionOrderChange}
           onRegionTextChange={handleRegionTextChange}
           scrollToRegionKey={scrollToTextKey}
           onExportReport={handleExportSingle}
           exportState={exportSingleState}
           exportError={exportSingleError}
+          exportReflow={exportReflow}
+          onExportReflowChange={setExportReflow}
+          textFormat={textFormat}
+          onTextFormatChange={setTextFormat}
+          financialEntities={financialEntities}
+          exportEntities={exportEntities}
+          onExportEntitiesChange={setExportEntities}
         />
       </div>
     </div>
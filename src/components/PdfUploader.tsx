@@ -1,8 +1,12 @@
 /**
  * 功能：左側設定面板（per-file 狀態顯示）
- * 職責：識別文字框 Prompt、識別表格/圖表 Prompt、模型選擇、API 金鑰設定（popover）、
- *       券商忽略末尾頁數設定、券商名映射清單設定、活躍檔案的進度顯示（已完成/分析頁數/總頁數/券商名）、per-file 停止/重新分析按鈕
- * 依賴：react (useState, useRef, useEffect)、types.ts (FileEntry)
+ * 職責：識別文字框 Prompt、AI 回應欄位映射、識別表格/圖表 Prompt、模型選擇、API 金鑰設定（popover）、
+ *       頁面輸入格式（JPEG / 單頁 PDF，依模型）、交叉比對模型選擇（模型選單固定附加「文字層版面分析」）、券商忽略末尾頁數設定、券商名映射清單設定、活躍檔案的進度顯示（已完成/分析頁數/總頁數/券商名）、per-file 停止/重新分析按鈕、
+ *       活躍檔案與本次工作階段的 token 用量 / 估算費用、本機 OCR 引擎選擇、符號字型 / PUA 字元替換規則編輯與目前頁面未對應符號掃描、
+ *       股票代號依證券主檔標示公司名稱 / 未知代號、證券主檔 CSV 上傳、自訂檔名解析規則編輯與即時檔名測試、
+ *       候選值跨頁共識（衝突欄位標示 ⚠ 與各候選的來源頁碼）
+ * 依賴：react (useState, useRef, useEffect)、types.ts (FileEntry)、usageCost.ts（費用估算）、glyphMap.ts（字元替換規則）、securities.ts（證券主檔）、
+ *       filenameRules.ts + brokerUtils.ts（檔名規則與解析預覽）、metadataConsensus.ts（共識 / 衝突）
  *
  * 注意：PDF 上傳功能已移至全頁面拖放（PDFExtractApp），此面板不再處理檔案上傳
  * 注意：isAnalyzing 語意為活躍檔案是否在跑（activeFile.status === 'processing'），非全域分析狀態
@@ -12,8 +16,20 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { FileEntry, MetadataCandidate } from '@/lib/types';
+import { FileEntry, MetadataCandidate, MetadataField, UsageByModel } from '@/lib/types';
 import type { ModelChoice } from '@/app/api/models/route';
+import {
+  LAYOUT_MODEL_ID, LAYOUT_MODEL_LABEL, isLayoutModel, isLocalModel, isMockModel, modelHasKey, modelSupportsPdfInput,
+} from '@/lib/constants';
+import { formatResponseFieldMap, parseResponseFieldMapText } from '@/lib/analysisSchema';
+import { GlyphMapRule, addGlyphMapEntry, formatGlyphMapRules, parseGlyphMapText } from '@/lib/glyphMap';
+import type { UnmappedGlyph } from '@/lib/pdfTextExtract';
+import type { OcrEngineChoice } from '@/lib/ocrEngines';
+import { SecurityIndex, isUnknownSecurityCode, lookupSecurity, securityDisplayName } from '@/lib/securities';
+import { FilenameRule, formatFilenameRules, parseFilenameRulesText } from '@/lib/filenameRules';
+import { buildBrokerAliasMap, parseMetadataFromFilename } from '@/lib/brokerUtils';
+import { METADATA_SOURCE_LABELS, computeFieldConsensus, describeConflict, formatPageList } from '@/lib/metadataConsensus';
+import { ModelPricing, estimateCost, formatCost, formatUsageSummary } from '@/lib/usageCost';
 
 /** Gemini 模型選項（含 OpenRouter 模型） */
 export const GEMINI_MODELS = [
@@ -26,9 +42,9 @@ export const GEMINI_MODELS = [
 
 export const DEFAULT_MODEL = 'gemini-3-flash-preview';
 
-/** 判斷是否為 OpenRouter 模型（model ID 含 "/" 即為 OpenRouter 格式） */
+/** 判斷是否為 OpenRouter 模型（model ID 含 "/" 即為 OpenRouter 格式；本機端點 local: 與模擬 mock: 前綴除外） */
 export function isOpenRouterModel(modelId: string): boolean {
-  return modelId.includes('/');
+  return !isLocalModel(modelId) && !isMockModel(modelId) && modelId.includes('/');
 }
 
 interface PdfUploaderProps {
@@ -36,8 +52,25 @@ interface PdfUploaderProps {
   onPromptChange: (prompt: string) => void;
   tablePrompt: string;
   onTablePromptChange: (prompt: string) => void;
+  /** AI 回應欄位映射（模型 JSON key → PageAnalysis 欄位，如 stock → code） */
+  responseFieldMap: Record<string, string>;
+  onResponseFieldMapChange: (map: Record<string, string>) => void;
+  /** 符號字型 / PUA 字元替換規則（文字層提取時套用） */
+  glyphMapRules: GlyphMapRule[];
+  onGlyphMapRulesChange: (rules: GlyphMapRule[]) => void;
+  /** 掃描目前頁面未對應的符號字元 */
+  onScanGlyphs: () => Promise<UnmappedGlyph[]>;
+  /** 自訂檔名解析規則（先於內建規則套用） */
+  filenameRules: FilenameRule[];
+  onFilenameRulesChange: (rules: FilenameRule[]) => void;
   model: string;
   onModelChange: (model: string) => void;
+  /** 交叉比對模型（空字串 = 關閉） */
+  ensembleModel: string;
+  onEnsembleModelChange: (model: string) => void;
+  /** 改送單頁 PDF（而非 JPEG）的模型 ID 清單 */
+  pdfInputModels: string[];
+  onPdfInputModelsChange: (models: string[]) => void;
   batchSize: number;
   onBatchSizeChange: (size: number) => void;
   skipLastPages: number;
@@ -48,6 +81,14 @@ interface PdfUploaderProps {
   /** OpenRouter API 金鑰（用於 OpenRouter 模型如 Qwen） */
   openRouterApiKey: string;
   onOpenRouterApiKeyChange: (key: string) => void;
+  /** 本機 OpenAI 相容端點 base URL（同步到伺服器設定，由伺服器端呼叫） */
+  localBaseUrl: string;
+  onLocalBaseUrlChange: (url: string) => void;
+  /** 本機 OCR 引擎 id（空字串 = 關閉） */
+  ocrEngine: string;
+  onOcrEngineChange: (engine: string) => void;
+  /** 伺服器上的 OCR 引擎（GET /api/ocr 探測） */
+  ocrEngineChoices: OcrEngineChoice[];
   isAnalyzing: boolean;
   progress: { current: number; total: number };
   /** PDF 總頁數 */
@@ -71,6 +112,8 @@ interface PdfUploaderProps {
   selectedCode: string;
   /** 已確認券商 */
   selectedBroker: string;
+  /** 使用者手動確認過的欄位（不顯示衝突） */
+  confirmedMetadata: MetadataField[];
   /** 點擊候選值後確認該值 */
   onSelectMetadata: (field: 'date' | 'code' | 'broker', value: string) => void;
   /** 手動新增候選值 */
@@ -89,8 +132,20 @@ interface PdfUploaderProps {
   onBrokerAliasGroupsChange: (groups: string[]) => void;
   /** 活躍檔案的狀態（用於按鈕判斷：processing/queued→停止分析，其餘→重新分析） */
   activeFileStatus?: FileEntry['status'];
+  /** 活躍檔案的累計 token 用量 */
+  fileUsage?: UsageByModel;
+  /** token 用量（本次工作階段累計） */
+  sessionUsage: UsageByModel;
+  /** 模型定價表（估算費用用） */
+  modelPricing: ModelPricing;
   /** 上傳當前設定到伺服器 */
   onUploadSettings: () => void;
+  /** 證券主檔索引（驗證股票代號、顯示公司名稱） */
+  securityIndex: SecurityIndex;
+  /** 證券主檔來源：uploaded = 伺服器已上傳的 CSV；bundled = 內建種子表 */
+  securitiesSource: 'uploaded' | 'bundled';
+  /** 上傳證券主檔 CSV 到伺服器 */
+  onUploadSecurities: (csv: string) => void;
   /** 動態模型列表（從 /api/models 探測） */
   modelChoices?: ModelChoice[];
   /** 觸發重新探測模型 */
@@ -104,8 +159,19 @@ export default function PdfUploader({
   onPromptChange,
   tablePrompt,
   onTablePromptChange,
+  responseFieldMap,
+  onResponseFieldMapChange,
+  glyphMapRules,
+  onGlyphMapRulesChange,
+  onScanGlyphs,
+  filenameRules,
+  onFilenameRulesChange,
   model,
   onModelChange,
+  ensembleModel,
+  onEnsembleModelChange,
+  pdfInputModels,
+  onPdfInputModelsChange,
   batchSize,
   onBatchSizeChange,
   skipLastPages,
@@ -114,6 +180,11 @@ export default function PdfUploader({
   onApiKeyChange,
   openRouterApiKey,
   onOpenRouterApiKeyChange,
+  localBaseUrl,
+  onLocalBaseUrlChange,
+  ocrEngine,
+  onOcrEngineChange,
+  ocrEngineChoices,
   isAnalyzing,
   progress,
   numPages,
@@ -129,6 +200,7 @@ export default function PdfUploader({
   selectedDate,
   selectedCode,
   selectedBroker,
+  confirmedMetadata,
   onSelectMetadata,
   onAddMetadataCandidate,
   onRemoveMetadataCandidate,
@@ -138,7 +210,13 @@ export default function PdfUploader({
   brokerAliasGroups,
   onBrokerAliasGroupsChange,
   activeFileStatus,
+  fileUsage,
+  sessionUsage,
+  modelPricing,
   onUploadSettings,
+  securityIndex,
+  securitiesSource,
+  onUploadSecurities,
   modelChoices,
   onRefreshModels,
   isRefreshingModels,
@@ -151,6 +229,67 @@ export default function PdfUploader({
   // popover fixed 定位座標（避免被父層 overflow 截斷）
   const [apiKeyPos, setApiKeyPos] = useState<{ top: number; left: number }>({ top: 0, left: 0 });
 
+  // 回應欄位映射編輯草稿（逐字輸入時不即時 parse，失焦才套用，避免未打完的行被丟棄）
+  const [fieldMapDraft, setFieldMapDraft] = useState(() => formatResponseFieldMap(responseFieldMap));
+  useEffect(() => { setFieldMapDraft(formatResponseFieldMap(responseFieldMap)); }, [responseFieldMap]);
+
+  // 字元替換規則編輯草稿（同上，失焦才套用）與未對應符號掃描結果（null = 尚未掃描）
+  const [glyphMapDraft, setGlyphMapDraft] = useState(() => formatGlyphMapRules(glyphMapRules));
+  useEffect(() => { setGlyphMapDraft(formatGlyphMapRules(glyphMapRules)); }, [glyphMapRules]);
+  const [unmappedGlyphs, setUnmappedGlyphs] = useState<UnmappedGlyph[] | null>(null);
+  const [isScanningGlyphs, setIsScanningGlyphs] = useState(false);
+
+  const handleScanGlyphs = async () => {
+    setIsScanningGlyphs(true);
+    try {
+      setUnmappedGlyphs(await onScanGlyphs());
+    } catch (e) {
+      console.warn('[PdfUploader] ⚠️ 未對應符號掃描失敗', e);
+      setUnmappedGlyphs([]);
+    } finally {
+      setIsScanningGlyphs(false);
+    }
+  };
+
+  // 「加入」：以目前替換結果為預設值加進規則（草稿中仍可修改），並從清單移除
+  const handleAddGlyph = (glyph: UnmappedGlyph) => {
+    onGlyphMapRulesChange(addGlyphMapEntry(parseGlyphMapText(glyphMapDraft), glyph.font, glyph.codepoint, glyph.replacement));
+    setUnmappedGlyphs((prev) => prev?.filter((g) => g !== glyph) ?? null);
+  };
+
+  // 檔名規則編輯草稿（失焦才套用）與測試檔名（預設帶入目前檔名）；預覽即時以草稿規則解析
+  const [filenameRulesDraft, setFilenameRulesDraft] = useState(() => formatFilenameRules(filenameRules));
+  useEffect(() => { setFilenameRulesDraft(formatFilenameRules(filenameRules)); }, [filenameRules]);
+  const [filenameTest, setFilenameTest] = useState('');
+  const filenameTestValue = filenameTest || fileName || '';
+  const draftFilenameRules = parseFilenameRulesText(filenameRulesDraft);
+  const filenamePreview = filenameTestValue
+    ? parseMetadataFromFilename(
+      filenameTestValue,
+      Object.keys(brokerSkipMap),
+      buildBrokerAliasMap(brokerAliasGroups),
+      securityIndex,
+      draftFilenameRules,
+    )
+    : null;
+
+  // 證券主檔 CSV 檔案選擇
+  const securitiesFileRef = useRef<HTMLInputElement>(null);
+  const handleSecuritiesFile = async (file: File | undefined) => {
+    if (!file) return;
+    onUploadSecurities(await file.text());
+    if (securitiesFileRef.current) securitiesFileRef.current.value = '';
+  };
+
+  // 股票代號對照證券主檔（主檔為空時不標示；內建種子表查無時不標示為未知）
+  const securityTitle = (code: string): { title: string; unknown: boolean } | null => {
+    if (securityIndex.byCode.size === 0) return null;
+    const entry = lookupSecurity(securityIndex, code);
+    if (entry) return { title: `${entry.code} ${securityDisplayName(entry)}（${entry.market}）`, unknown: false };
+    return isUnknownSecurityCode(securityIndex, code) ? { title: '證券主檔中查無此代號', unknown: true } : null;
+  };
+  const selectedSecurity = selectedCode ? lookupSecurity(securityIndex, selectedCode) : undefined;
+
   // OpenRouter API 金鑰 popover 狀態
   const [orKeyOpen, setOrKeyOpen] = useState(false);
   const [orKeyInput, setOrKeyInput] = useState(openRouterApiKey);
@@ -306,10 +445,23 @@ export default function PdfUploader({
     const minW = Math.max(52, chipsTotalW + 24);
 
     const inputId = `meta-input-${field}`;
+    const consensus = computeFieldConsensus(
+      candidates,
+      field === 'code' ? (value) => isUnknownSecurityCode(securityIndex, value) : undefined,
+    );
+    const showConflict = consensus.conflict && !confirmedMetadata.includes(field);
 
     return (
       <div style={{ flex: `${grow} 1 auto`, minWidth: `${minW}px` }}>
-        <span className="text-[11px] leading-4 font-medium text-gray-500 mb-1 block">{label}</span>
+        <span className="text-[11px] leading-4 font-medium text-gray-500 mb-1 block">
+          {label}
+          {showConflict && (
+            <span className="font-normal text-amber-600" title={`${describeConflict(field, consensus)}\n點選候選值確認`}> ⚠ 衝突</span>
+          )}
+          {field === 'code' && selectedSecurity && (
+            <span className="font-normal text-gray-400"> · {securityDisplayName(selectedSecurity)}</span>
+          )}
+        </span>
         {/* eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions */}
         <div
           className="flex items-center gap-1 border border-gray-300 rounded-lg bg-white px-2 py-1.5 min-h-[34px] cursor-text focus-within:ring-1 focus-within:ring-inset focus-within:ring-indigo-500"
@@ -320,8 +472,11 @@ export default function PdfUploader({
               {candidates.map((candidate, idx) => {
                 const candidateNorm = normalizeValue(candidate.value).toLowerCase();
                 const isSelected = !!candidateNorm && candidateNorm === selectedNorm;
+                const security = field === 'code' ? securityTitle(candidate.value) : null;
                 const sourceStyles = candidate.source === 'filename'
                   ? { unselected: 'bg-indigo-50 border-indigo-500 hover:bg-indigo-100 text-indigo-700', selected: 'bg-indigo-500 text-white border border-indigo-500' }
+                  : candidate.source === 'textlayer'
+                    ? { unselected: 'bg-sky-50 border-sky-500 hover:bg-sky-100 text-sky-700', selected: 'bg-sky-500 text-white border border-sky-500' }
                   : candidate.source === 'ai'
                     ? { unselected: 'bg-[#1EAE98]/10 border-[#1EAE98] hover:bg-[#1EAE98]/20 text-[#0D7A6B]', selected: 'bg-[#1EAE98] text-white border border-[#1EAE98]' }
                     : { unselected: 'bg-[#ed4242]/10 border-[#ed4242] hover:bg-[#ed4242]/20 text-[#b82e2e]', selected: 'bg-[#ed4242] text-white border border-[#ed4242]' };
@@ -331,6 +486,10 @@ export default function PdfUploader({
                     id={`meta-chip-${field}-${isSelected ? 'selected' : 'unselected'}-${idx}`}
                     type="button"
                     onClick={(e) => { e.stopPropagation(); onSelectMetadata(field, candidate.value); }}
+                    title={[
+                      security?.title,
+                      METADATA_SOURCE_LABELS[candidate.source] + (candidate.pages?.length ? ` · AI p.${formatPageList(candidate.pages)}` : ''),
+                    ].filter(Boolean).join('\n')}
                     className={`inline-flex items-center px-1.5 py-[2px] text-[12px] rounded-md transition-colors cursor-pointer whitespace-nowrap flex-shrink-0 ${
                       isSelected
                         ? sourceStyles.selected
@@ -338,6 +497,7 @@ export default function PdfUploader({
                     }`}
                   >
                     <span>{candidate.value}</span>
+                    {security?.unknown && <span className="ml-0.5 text-amber-500">⚠</span>}
                   </button>
                 );
               })}
@@ -430,6 +590,13 @@ export default function PdfUploader({
                 }}
               />
             </div>
+            {/* token 用量 / 估算費用（+ 表示部分模型查無定價，未計入） */}
+            <div className="text-[11px] leading-4 text-gray-500 space-y-0.5">
+              <div>本檔：{fileUsage ? formatUsageSummary(fileUsage, modelPricing) : '尚無用量'}</div>
+              <div title={formatUsageSummary(sessionUsage, modelPricing)}>
+                本次工作階段：{formatCost(estimateCost(sessionUsage, modelPricing))}
+              </div>
+            </div>
           </div>
         )}
 
@@ -555,6 +722,7 @@ export default function PdfUploader({
                   if (m.thinking) label += ' \u{1F9E0}';
                   return <option key={m.id} value={m.id}>{label}</option>;
                 })}
+                <option value={LAYOUT_MODEL_ID}>{LAYOUT_MODEL_LABEL}</option>
               </select>
               <svg className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
@@ -577,8 +745,8 @@ export default function PdfUploader({
               </button>
             </div>
           )}
-          {/* Gemini API 金鑰按鈕（僅非 OpenRouter 模型顯示） */}
-          {!isOpenRouterModel(model) && (
+          {/* Gemini API 金鑰按鈕（僅 Gemini 模型顯示） */}
+          {!isOpenRouterModel(model) && !isLocalModel(model) && !isMockModel(model) && !isLayoutModel(model) && (
             <div className="flex-shrink-0">
               <button
                 ref={apiKeyBtnRef}
@@ -631,8 +799,19 @@ export default function PdfUploader({
           )}
         </div>
 
-        {/* API 金鑰未設定提示（依目前選擇的模型顯示對應提示） */}
-        {isOpenRouterModel(model) ? (
+        {/* API 金鑰未設定提示（依目前選擇的模型顯示對應提示；模擬模型與版面分析不需金鑰） */}
+        {isMockModel(model) || isLayoutModel(model) ? null : isLocalModel(model) ? (
+          !localBaseUrl && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-2">
+              <svg className="w-4 h-4 text-amber-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008H12v-.008z" />
+              </svg>
+              <p className="text-[13px] leading-5 text-amber-700">
+                請先設定下方「本機模型端點」並上傳設定（或由伺服器設定 LOCAL_LLM_BASE_URL）
+              </p>
+            </div>
+          )
+        ) : isOpenRouterModel(model) ? (
           !openRouterApiKey && (
             <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-2">
               <svg className="w-4 h-4 text-amber-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -656,6 +835,89 @@ export default function PdfUploader({
           )
         )}
 
+        {/* 頁面輸入格式（依目前模型記憶）：單頁 PDF 保留文字向量，小字不因 JPEG 壓縮而糊，僅 Gemini 支援 */}
+        <div>
+          <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">頁面輸入格式（此模型）</label>
+          <div className="relative">
+            <select
+              value={modelSupportsPdfInput(model) && pdfInputModels.includes(model) ? 'pdf' : 'image'}
+              onChange={(e) => {
+                const others = pdfInputModels.filter((m) => m !== model);
+                onPdfInputModelsChange(e.target.value === 'pdf' ? [...others, model] : others);
+              }}
+              disabled={!modelSupportsPdfInput(model)}
+              className="w-full appearance-none pl-2.5 pr-7 py-1.5 text-[13px] leading-5 border border-gray-300 rounded-lg bg-gray-50 text-gray-800 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent cursor-pointer disabled:text-gray-400 disabled:cursor-not-allowed"
+              title={modelSupportsPdfInput(model) ? undefined : '此模型僅支援圖片輸入'}
+            >
+              <option value="image">JPEG 影像（預設）</option>
+              <option value="pdf">單頁 PDF 原檔（小字較清楚）</option>
+            </select>
+            <svg className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+            </svg>
+          </div>
+        </div>
+
+        {/* 交叉比對模型：每頁同時送兩個模型，兩者都框到的區域標 ✓✓，只有一方框到的標 ? */}
+        <div>
+          <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">交叉比對模型（費用約為兩倍）</label>
+          <div className="relative">
+            <select
+              value={ensembleModel}
+              onChange={(e) => onEnsembleModelChange(e.target.value)}
+              className="w-full appearance-none pl-2.5 pr-7 py-1.5 text-[13px] leading-5 border border-gray-300 rounded-lg bg-gray-50 text-gray-800 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent cursor-pointer"
+            >
+              <option value="">（關閉）</option>
+              {(modelChoices ?? GEMINI_MODELS.map(m => ({ id: m.id, label: m.label })))
+                .filter((m) => m.id !== model)
+                .map((m) => <option key={m.id} value={m.id}>{m.label}</option>)}
+              {!isLayoutModel(model) && <option value={LAYOUT_MODEL_ID}>{LAYOUT_MODEL_LABEL}（檢查 AI 框）</option>}
+            </select>
+            <svg className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+            </svg>
+          </div>
+          {ensembleModel && ensembleModel !== model && !modelHasKey(ensembleModel, apiKey, openRouterApiKey) && (
+            <p className="mt-1 text-[11px] leading-4 text-amber-600">此模型尚未設定 API 金鑰，交叉比對暫不生效</p>
+          )}
+        </div>
+
+        {/* 本機 OCR：空文字 / 亂碼（CID）區域先以伺服器上的 OCR 引擎識別，失敗才送 AI */}
+        <div>
+          <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">本機 OCR（空白 / 亂碼區域優先）</label>
+          <div className="relative">
+            <select
+              value={ocrEngine}
+              onChange={(e) => onOcrEngineChange(e.target.value)}
+              className="w-full appearance-none pl-2.5 pr-7 py-1.5 text-[13px] leading-5 border border-gray-300 rounded-lg bg-gray-50 text-gray-800 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent cursor-pointer"
+            >
+              <option value="">（關閉）</option>
+              {ocrEngineChoices.map((e) => (
+                <option key={e.id} value={e.id}>{e.available ? e.label : `${e.label}（伺服器未安裝）`}</option>
+              ))}
+              {ocrEngine && !ocrEngineChoices.some((e) => e.id === ocrEngine) && <option value={ocrEngine}>{ocrEngine}</option>}
+            </select>
+            <svg className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+            </svg>
+          </div>
+          {ocrEngine && ocrEngineChoices.some((e) => e.id === ocrEngine && !e.available) && (
+            <p className="mt-1 text-[11px] leading-4 text-amber-600">伺服器未安裝此引擎，識別會直接改送 AI</p>
+          )}
+        </div>
+
+        {/* 本機 OpenAI 相容端點（Ollama / vLLM / LM Studio），伺服器端讀取共享設定呼叫 */}
+        <div>
+          <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">本機模型端點（OpenAI 相容，上傳設定後生效）</label>
+          <input
+            type="text"
+            value={localBaseUrl}
+            onChange={(e) => onLocalBaseUrlChange(e.target.value.trim())}
+            placeholder="例：http://localhost:11434/v1"
+            className="w-full px-2.5 py-1.5 text-[13px] leading-5 border border-gray-300 rounded-lg bg-gray-50 text-gray-800 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </div>
+
         {/* 並行分析數 + 忽略末尾頁數 */}
         <div className="flex gap-2 items-end">
           <div className="flex-1">
@@ -797,6 +1059,23 @@ export default function PdfUploader({
           />
         </div>
 
+        {/* AI 回應欄位映射（Prompt 改輸出 key 時不需改程式） */}
+        <div>
+          <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">回應欄位映射（每行：模型 key = 欄位）</label>
+          <textarea
+            value={fieldMapDraft}
+            onChange={(e) => setFieldMapDraft(e.target.value)}
+            onBlur={() => {
+              const next = parseResponseFieldMapText(fieldMapDraft);
+              onResponseFieldMapChange(next);
+              setFieldMapDraft(formatResponseFieldMap(next));
+            }}
+            className="w-full h-[4.5rem] p-2.5 py-2 text-[13px] font-mono border border-gray-300 rounded-lg resize-y focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent bg-gray-50 text-gray-800 leading-relaxed"
+            placeholder={'stock = code\nprovider = report'}
+            title="可用欄位：hasAnalysis、date、code、report、regions；region 內欄位加 regions. 前綴（如 regions.box = regions.bbox）"
+          />
+        </div>
+
         {/* 識別表格/圖表 Prompt（雙擊框時使用） */}
         <div>
           <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">識別表格/圖表 Prompt</label>
@@ -804,8 +1083,113 @@ export default function PdfUploader({
             value={tablePrompt}
             onChange={(e) => onTablePromptChange(e.target.value)}
             className="w-full h-[9rem] p-2.5 py-2 text-[13px] border border-gray-300 rounded-lg resize-y focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent bg-gray-50 text-gray-800 leading-relaxed"
-            placeholder="雙擊框框時，截圖該區域送 AI 所用的 Prompt..."
+            placeholder="雙擊框框且文字層無法重建表格時（或 Shift+雙擊），截圖該區域送 AI 所用的 Prompt..."
+          />
+        </div>
+
+        {/* 符號字型 / PUA 字元替換規則（[字型名稱正則] 區段 + 碼位 = 替換字元） */}
+        <div>
+          <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">符號字型 / PUA 字元映射</label>
+          <textarea
+            value={glyphMapDraft}
+            onChange={(e) => setGlyphMapDraft(e.target.value)}
+            onBlur={() => {
+              const next = parseGlyphMapText(glyphMapDraft);
+              onGlyphMapRulesChange(next);
+              setGlyphMapDraft(formatGlyphMapRules(next));
+            }}
+            className="w-full h-[9rem] p-2.5 py-2 text-[13px] font-mono border border-gray-300 rounded-lg resize-y focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent bg-gray-50 text-gray-800 leading-relaxed"
+            placeholder={'[wingdings|webdings] fallback=■\nU+006E = ■\n[*]\nU+F06E = ■'}
+            title="[字型名稱正則] 開始一個區段（不分大小寫，* = 所有字型；fallback = 未列出字元的替換值），其下每行：碼位 = 替換字元（碼位可寫 U+F06E、0xF06E 或字元本身）。變更後重新提取的文字才套用"
+          />
+          <button
+            type="button"
+            onClick={handleScanGlyphs}
+            disabled={!hasFile || isScanningGlyphs}
+            className="mt-1 text-[11px] text-indigo-500 hover:text-indigo-700 cursor-pointer disabled:text-gray-300 disabled:cursor-not-allowed"
+          >
+            {isScanningGlyphs ? '掃描中...' : '掃描目前頁面未對應符號'}
+          </button>
+          {unmappedGlyphs && (
+            unmappedGlyphs.length === 0 ? (
+              <div className="text-[11px] text-gray-400">目前頁面沒有未對應的符號字元</div>
+            ) : (
+              <div className="mt-1 max-h-40 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {unmappedGlyphs.map((g) => (
+                  <div key={`${g.font}|${g.codepoint}`} className="flex items-center gap-2 px-2 py-1 text-[11px]" title={g.sample}>
+                    <span className="font-mono text-gray-700 flex-shrink-0">{g.codepoint}</span>
+                    <span className="text-gray-800 flex-shrink-0">{g.char} → {g.replacement || '∅'}</span>
+                    <span className="text-gray-400 truncate flex-1" title={g.font}>{g.font} ×{g.count}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleAddGlyph(g)}
+                      className="text-indigo-500 hover:text-indigo-700 cursor-pointer flex-shrink-0"
+                    >
+                      加入
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+
+        {/* 自訂檔名解析規則（名稱 | 日期格式 | 正則，具名群組 date / code / broker）+ 即時測試 */}
+        <div>
+          <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">
+            檔名解析規則{draftFilenameRules.length > 0 && <span className="font-normal text-gray-400">（{draftFilenameRules.length} 條）</span>}
+          </label>
+          <textarea
+            value={filenameRulesDraft}
+            onChange={(e) => setFilenameRulesDraft(e.target.value)}
+            onBlur={() => {
+              onFilenameRulesChange(draftFilenameRules);
+              setFilenameRulesDraft(formatFilenameRules(draftFilenameRules));
+            }}
+            className="w-full h-[6rem] p-2.5 py-2 text-[12px] font-mono border border-gray-300 rounded-lg resize-y focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent bg-gray-50 text-gray-800 leading-relaxed"
+            placeholder={'台新 | ROC | ^(?<code>\\d{4})[^_]*_(?<date>\\d{7})_(?<broker>台新)$'}
+            title="每行一條：名稱 | 日期格式（AD / ROC / YYMMDD / MMDDYYYY）| 正則。正則比對去除 .pdf 的檔名（不分大小寫），具名群組 date / code / broker 擷取欄位；依序比對，第一條符合者生效，未擷取的欄位交回內建規則。正則無效或沒有具名群組的行會被略過"
+          />
+          <input
+            type="text"
+            value={filenameTest}
+            onChange={(e) => setFilenameTest(e.target.value)}
+            placeholder={fileName || '輸入檔名測試規則'}
+            className="w-full mt-1 px-2 py-1 text-[12px] border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 bg-white text-gray-800"
           />
+          {filenamePreview && (
+            <div className="mt-1 text-[11px] leading-4 text-gray-500">
+              <span className={filenamePreview.rule ? 'text-indigo-600' : 'text-gray-400'}>
+                {filenamePreview.rule ? `規則「${filenamePreview.rule}」` : '內建規則'}
+              </span>
+              {' → '}日期 {filenamePreview.date || '—'} · 代號 {filenamePreview.code || '—'} · 券商 {filenamePreview.broker || '—'}
+            </div>
+          )}
+        </div>
+
+        {/* 證券主檔（股票代號驗證 / 公司名稱反查；CSV 上傳到伺服器，全員共用） */}
+        <div>
+          <label className="text-[11px] leading-4 font-medium text-gray-500 mb-1.5 block">證券主檔</label>
+          <div className="flex items-center gap-2 text-[11px]">
+            <span className="text-gray-500 flex-1">
+              {securityIndex.byCode.size} 筆{securitiesSource === 'bundled' ? '（內建常用代號）' : '（伺服器）'}
+            </span>
+            <button
+              type="button"
+              onClick={() => securitiesFileRef.current?.click()}
+              className="text-indigo-500 hover:text-indigo-700 cursor-pointer"
+              title="CSV 欄位：code, market（TWSE / TPEx / US）, name_zh, name_en；上傳後取代伺服器主檔"
+            >
+              上傳 CSV
+            </button>
+            <input
+              ref={securitiesFileRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleSecuritiesFile(e.target.files?.[0])}
+            />
+          </div>
         </div>
 
         {/* 上傳設定到伺服器 */}
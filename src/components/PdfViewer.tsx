@@ -1,8 +1,8 @@
 /**
  * 功能：中間 PDF 顯示面板（連續頁面模式）
- * 職責：將所有 PDF 頁面依序往下排列顯示、每頁疊加可互動的 bounding boxes、每頁右側顯示分析/排隊/重跑按鈕、
- *       右上角保存按鈕（截圖 + Debug JSON 匯出）
- * 依賴：react-pdf、BoundingBox 組件、types.ts、/api/save-page-export（後端存檔）
+ * 職責：將所有 PDF 頁面依序往下排列顯示、每頁疊加可互動的 bounding boxes、每頁右側顯示分析/排隊/重跑按鈕（tooltip 含本頁 token 用量）、
+ *       右上角保存按鈕（截圖 + Debug JSON 匯出）、文字層偵測略過的末尾樣板頁標示略過原因
+ * 依賴：react-pdf、BoundingBox 組件、types.ts、usageCost.ts、boilerplatePages.ts、/api/save-page-export（後端存檔）
  */
 
 'use client';
@@ -11,8 +11,10 @@ import { useState, useRef, useCallback, useEffect, useMemo, MouseEvent as ReactM
 import { Document, Page, pdfjs } from 'react-pdf';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import BoundingBox from './BoundingBox';
-import { Region } from '@/lib/types';
+import { Region, SkippedPage, UsageByModel } from '@/lib/types';
 import { NORMALIZED_MAX, BOX_COLORS, PDF_WORKER_SRC } from '@/lib/constants';
+import { ModelPricing, formatUsageSummary } from '@/lib/usageCost';
+import { BOILERPLATE_KIND_LABELS } from '@/lib/boilerplatePages';
 
 // 設定 PDF.js worker（同源 serve）。放此模組頂層而非殼層：PdfViewer 由 PDFExtractApp 以 next/dynamic
 // 拆成獨立 chunk，故 react-pdf+pdfjs 與此 worker 設定都不進殼層 critical chunk。
@@ -45,10 +47,14 @@ interface PdfViewerProps {
   getGlobalColorOffset: (page: number) => number;
   /** 要滾動到的 regionKey（格式 "page-regionId"），變化時觸發 scrollIntoView */
   scrollToRegionKey: string | null;
-  /** 重新分析單頁 */
-  onReanalyzePage: (page: number) => void;
-  /** 雙擊框框 → 截圖送 AI 識別 */
-  onRegionDoubleClick: (page: number, regionId: number) => void;
+  /** 各頁累計 token 用量（頁碼按鈕 tooltip 顯示） */
+  pageUsage?: Record<number, UsageByModel>;
+  /** 模型定價表（估算費用用） */
+  modelPricing?: ModelPricing;
+  /** 重新分析單頁（bypassCache：Shift+點擊，略過 AI 回應快取） */
+  onReanalyzePage: (page: number, bypassCache?: boolean) => void;
+  /** 雙擊框框 → 文字層重建表格 / 截圖送 AI 識別（skipTextLayer：Shift+雙擊，直接送 AI） */
+  onRegionDoubleClick: (page: number, regionId: number, skipTextLayer?: boolean) => void;
   /** 單擊框框 → 觸發右欄滾動到對應文字 */
   onBboxClick?: (regionKey: string) => void;
   /** 正在分析中的頁碼集合（按鈕顯示旋轉動畫） */
@@ -65,6 +71,8 @@ interface PdfViewerProps {
   onToggleOriginalBbox: () => void;
   /** 目前顯示的 PDF 檔名（用於匯出時命名） */
   fileName?: string;
+  /** 文字層偵測為末尾樣板頁而略過分析的頁面（頁碼標籤下方顯示略過原因） */
+  skippedPages?: SkippedPage[];
 }
 
 export default function PdfViewer({
@@ -80,6 +88,8 @@ export default function PdfViewer({
   getGlobalColorOffset,
   scrollToRegionKey,
   onReanalyzePage,
+  pageUsage,
+  modelPricing,
   onRegionDoubleClick,
   analyzingPages,
   queuedPages,
@@ -89,8 +99,10 @@ export default function PdfViewer({
   onToggleOriginalBbox,
   onBboxClick,
   fileName,
+  skippedPages,
 }: PdfViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const skippedByPage = useMemo(() => new Map((skippedPages ?? []).map((s) => [s.page, s])), [skippedPages]);
   const [pageWidth, setPageWidth] = useState(600);
 
   // 追蹤最新 hoveredRegionId，供 BoundingBox 延遲 onHoverEnd 判斷「目前 hover 的是否還是自己」
@@ -748,6 +760,7 @@ export default function PdfViewer({
               const placeholderHeight = pageWidth * ratio;
 
               const isPageHovered = hoveredPage === pageNum;
+              const skipped = skippedByPage.get(pageNum);
 
               return (
                 <div
@@ -763,6 +776,14 @@ export default function PdfViewer({
                   <div className="absolute -top-0 left-0 bg-gray-700/70 text-white text-xs px-2 py-0.5 rounded-br z-10 pointer-events-none select-none">
                     {pageNum} / {numPages}
                   </div>
+                  {skipped && (
+                    <div
+                      className="absolute top-5 left-0 bg-amber-500/80 text-white text-xs px-2 py-0.5 rounded-r z-10 select-none cursor-help"
+                      title={`略過分析（${BOILERPLATE_KIND_LABELS[skipped.kind]}）\n${skipped.reasons.join('\n')}`}
+                    >
+                      已略過：{BOILERPLATE_KIND_LABELS[skipped.kind]}
+                    </div>
+                  )}
 
                   {/* 保存按鈕（右上角）— 儲存截圖 + Debug JSON */}
                   <button
@@ -836,15 +857,18 @@ export default function PdfViewer({
                             ? 'bg-amber-200 text-amber-700 border-amber-400 hover:bg-amber-500 hover:text-white hover:border-amber-500'
                             : 'bg-white text-gray-500 border-gray-200 hover:bg-blue-500 hover:text-white hover:border-blue-500';
                         const statusTitle = hasAiRegions
-                          ? `第 ${pageNum} 頁（AI 已完成）- 點擊重跑`
+                          ? `第 ${pageNum} 頁（AI 已完成）- 點擊重跑，Shift+點擊略過快取`
                           : hasOnlyUserRegions
-                            ? `第 ${pageNum} 頁（手動畫框）- 點擊重跑`
-                            : `重新分析第 ${pageNum} 頁`;
+                            ? `第 ${pageNum} 頁（手動畫框）- 點擊重跑，Shift+點擊略過快取`
+                            : `重新分析第 ${pageNum} 頁（Shift+點擊略過快取）`;
+                        const usageNote = pageUsage?.[pageNum]
+                          ? `\n本頁用量：${formatUsageSummary(pageUsage[pageNum], modelPricing ?? {})}`
+                          : '';
                         return (
                       <button
-                        onClick={() => onReanalyzePage(pageNum)}
+                        onClick={(e) => onReanalyzePage(pageNum, e.shiftKey)}
                         className={`w-9 h-9 rounded-full shadow-md border flex items-center justify-center hover:shadow-lg active:scale-90 transition-all duration-150 cursor-pointer ${statusColor}`}
-                        title={statusTitle}
+                        title={statusTitle + usageNote}
                       >
                         <svg className="w-4.5 h-4.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
                           <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -940,7 +964,7 @@ export default function PdfViewer({
                             onClick={() => onBboxClick?.(regionKey)}
                             onUpdate={(newBbox) => onRegionUpdate(pageNum, region.id, newBbox)}
                             onRemove={() => onRegionRemove(pageNum, region.id)}
-                            onDoubleClick={() => onRegionDoubleClick(pageNum, region.id)}
+                            onDoubleClick={(skipTextLayer) => onRegionDoubleClick(pageNum, region.id, skipTextLayer)}
                             showOriginalBbox={showOriginalBbox}
                             pageNumber={pageNum}
                           />
@@ -1011,7 +1035,8 @@ export default function PdfViewer({
           <div>Alt ×2：刪除 該頁的框</div>
           <div className="mt-1.5 pt-1.5 border-t border-gray-600 font-semibold mb-1">滑鼠操作</div>
           <div>空白處拖 曳：畫新框</div>
-          <div>左鍵 雙擊框：AI 重新辨識</div>
+          <div>左鍵 雙擊框：表格重建 / AI 重新辨識</div>
+          <div>Shift+雙擊框：直接 AI 辨識</div>
           <div>右鍵 雙擊框：刪除框</div>
         </div>
       </div>
@@ -1,17 +1,27 @@
 /**
  * 功能：右側文字面板
  * 職責：顯示所有頁面的分析文字，按頁碼+順序排列，支援 hover 高亮互動、複製全文、
- *       刪除單一區域（同步刪除中間欄框）、拖曳調整同頁區域順序、
- *       Markdown 表格自動渲染（可切換回原始 MD）、per-region 字型大小調整、
- *       點擊文字區進入編輯模式（純文字/Raw MD 用 textarea；高度以 useLayoutEffect 對齊內容，避免較 <p> 突增）
- * 依賴：types.ts、constants.ts
+ *       刪除單一區域（同步刪除中間欄框）、拖曳調整同頁區域順序、切換排序模式（AI 順序 / 版面順序，per-file）、
+ *       Markdown 表格自動渲染（可切換回原始 MD）、純文字 / Markdown 顯示切換（標題、項目符號、粗體強調）、per-region 字型大小調整、
+ *       點擊文字區進入編輯模式（純文字/Raw MD 用 textarea；高度以 useLayoutEffect 對齊內容，避免較 <p> 突增）、
+ *       非文字層來源的 region（本機 OCR / AI 識別）於標籤旁標示來源、文字層提取低信心標示分數並可逐一跳到下一個低信心區域、
+ *       財務數據面板（營收 / EPS / 目標價等，點擊跳到來源文字框）
+ * 依賴：types.ts、constants.ts、pdfTextExtractCore.ts（信心門檻）、FinancialEntityPanel.tsx
  */
 
 'use client';
 
-import React, { useRef, useEffect, useLayoutEffect, useCallback, useState } from 'react';
-import { Region } from '@/lib/types';
+import React, { useRef, useEffect, useLayoutEffect, useCallback, useMemo, useState } from 'react';
+import { FinancialEntity, Region, RegionOrderMode, RegionTextSource, TextFormat } from '@/lib/types';
 import { getBoxColor, EMPTY_BOX_COLOR } from '@/lib/constants';
+import { isLowConfidence } from '@/lib/pdfTextExtractCore';
+import FinancialEntityPanel from './FinancialEntityPanel';
+
+/** 文字來源標籤（文字層為預設來源，不標示） */
+const TEXT_SOURCE_BADGES: Partial<Record<RegionTextSource, { label: string; title: string; className: string }>> = {
+  ocr: { label: 'OCR', title: '文字由本機 OCR 識別（可能有錯字）', className: 'border-amber-300 text-amber-600 bg-amber-50' },
+  ai: { label: 'AI', title: '文字由 AI 截圖識別', className: 'border-indigo-300 text-indigo-600 bg-indigo-50' },
+};
 
 // ── Markdown 表格解析 ──────────────────────────────────────────────────────
 
@@ -78,6 +88,40 @@ function parseTextSegments(text: string): Segment[] {
   return segments;
 }
 
+// ── Markdown 呈現（文字層提取的標題 / 項目符號 / 粗體強調）────────────────────
+
+const HEADING_LINE_RE = /^(#{2,3}) (.*)$/;
+
+/** 行內 **強調** 轉為 <strong> */
+function renderInlineEmphasis(line: string): React.ReactNode[] {
+  return line.split(/(\*\*[^*]+\*\*)/).map((part, i) =>
+    part.length > 4 && part.startsWith('**') && part.endsWith('**')
+      ? <strong key={i}>{part.slice(2, -2)}</strong>
+      : <React.Fragment key={i}>{part}</React.Fragment>
+  );
+}
+
+/** Region.markdown 逐行渲染：## / ### 標題加粗、「- 」項目顯示為 •、還原行首跳脫字元 */
+function renderMarkdownLines(markdown: string): React.ReactNode[] {
+  return markdown.split('\n').map((raw, i, arr) => {
+    const heading = HEADING_LINE_RE.exec(raw);
+    const line = raw.replace(/^\\([#>])/, '$1');
+    const content = heading
+      ? (
+        <span className={heading[1].length === 2 ? 'font-bold text-[1.15em]' : 'font-semibold'}>
+          {renderInlineEmphasis(heading[2])}
+        </span>
+      )
+      : renderInlineEmphasis(line.startsWith('- ') ? `• ${line.slice(2)}` : line);
+    return (
+      <React.Fragment key={i}>
+        {content}
+        {i < arr.length - 1 && <br />}
+      </React.Fragment>
+    );
+  });
+}
+
 const DEFAULT_FONT_SIZE = 13;
 const DEFAULT_TABLE_FONT_SIZE = 11;
 
@@ -105,6 +149,10 @@ interface TextPanelProps {
   onRegionRemove: (page: number, regionId: number) => void;
   /** 重新排序某頁的 regions */
   onReorderRegions: (page: number, reorderedRegions: Region[]) => void;
+  /** 當前檔案的 region 排序模式 */
+  regionOrder: RegionOrderMode;
+  /** 切換排序模式（重排所有頁） */
+  onRegionOrderChange: (mode: RegionOrderMode) => void;
   /** 使用者手動編輯 region 文字後寫回 */
   onRegionTextChange: (page: number, regionId: number, newText: string) => void;
   /** 從 PdfViewer 點擊 BoundingBox 時滾動到對應文字框（regionKey 格式 "page-regionId"） */
@@ -115,6 +163,20 @@ interface TextPanelProps {
   exportState?: 'idle' | 'loading' | 'success' | 'error';
   /** 匯出錯誤訊息 */
   exportError?: string;
+  /** 匯出時是否合併折行（段落重排，單篇與全部匯出共用） */
+  exportReflow?: boolean;
+  /** 切換匯出段落重排 */
+  onExportReflowChange?: (reflow: boolean) => void;
+  /** 顯示 / 複製 / 匯出的文字格式 */
+  textFormat?: TextFormat;
+  /** 切換文字格式 */
+  onTextFormatChange?: (format: TextFormat) => void;
+  /** 當前檔案擷取的財務數據（financialEntities.ts） */
+  financialEntities?: FinancialEntity[];
+  /** 匯出時是否附上財務數據 */
+  exportEntities?: boolean;
+  /** 切換匯出附上財務數據 */
+  onExportEntitiesChange?: (value: boolean) => void;
 }
 
 export default function TextPanel({
@@ -126,11 +188,20 @@ export default function TextPanel({
   onClickRegion,
   onRegionRemove,
   onReorderRegions,
+  regionOrder,
+  onRegionOrderChange,
   onRegionTextChange,
   scrollToRegionKey,
   onExportReport,
   exportState = 'idle',
   exportError = '',
+  exportReflow = false,
+  onExportReflowChange,
+  textFormat = 'plain',
+  onTextFormatChange,
+  financialEntities,
+  exportEntities = false,
+  onExportEntitiesChange,
 }: TextPanelProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const regionRefs = useRef<Map<string, HTMLDivElement>>(new Map());
@@ -139,6 +210,9 @@ export default function TextPanel({
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [copiedAll, setCopiedAll] = useState(false);
 
+  // === 財務數據面板展開 ===
+  const [showEntities, setShowEntities] = useState(false);
+
   // === Markdown 表格切換（per-region：在 set 中 = 顯示原始 MD）===
   const [rawMarkdownRegions, setRawMarkdownRegions] = useState<Set<string>>(new Set());
 
@@ -301,6 +375,33 @@ export default function TextPanel({
 
   // 路徑 2（已移除）：Hover PdfViewer BoundingBox 不再自動滾動右欄，僅點擊才觸發滾動
 
+  // === 低信心導覽：依顯示順序（頁碼 → 頁內順序）列出有文字但提取信心低的 region ===
+  const orderedRegionKeys = useMemo(() => Array.from(pageRegions.entries())
+    .sort(([a], [b]) => a - b)
+    .flatMap(([page, regions]) => regions.map((r) => ({ key: `${page}-${r.id}`, region: r }))), [pageRegions]);
+  const lowConfidenceKeys = useMemo(() => orderedRegionKeys
+    .filter(({ region }) => region.text?.trim() && isLowConfidence(region.confidence))
+    .map(({ key }) => key), [orderedRegionKeys]);
+  const lastLowConfidenceKeyRef = useRef<string | null>(null);
+
+  // 聚焦指定 region：中欄滾到框、高亮、右欄滾到文字框（低信心導覽、財務數據面板共用）
+  const focusRegion = useCallback((key: string) => {
+    onClickRegion(key);
+    onHover(key);
+    scrollToRegion(key);
+  }, [onClickRegion, onHover, scrollToRegion]);
+
+  // 從目前 hover（或上次跳到）的 region 往後找下一個低信心 region，到底繞回第一個
+  const handleJumpToNextLowConfidence = useCallback(() => {
+    if (lowConfidenceKeys.length === 0) return;
+    const fromKey = hoveredRegionId ?? lastLowConfidenceKeyRef.current;
+    const fromPos = fromKey ? orderedRegionKeys.findIndex(({ key }) => key === fromKey) : -1;
+    const key = lowConfidenceKeys.find((k) => orderedRegionKeys.findIndex(({ key: o }) => o === k) > fromPos)
+      ?? lowConfidenceKeys[0];
+    lastLowConfidenceKeyRef.current = key;
+    focusRegion(key);
+  }, [lowConfidenceKeys, orderedRegionKeys, hoveredRegionId, focusRegion]);
+
 
   // 複製全部文字到剪貼簿
   const handleCopyAll = useCallback(() => {
@@ -310,7 +411,7 @@ export default function TextPanel({
     for (const [, regions] of sortedPages) {
       for (const region of regions) {
         if (region.text) {
-          lines.push(region.text);
+          lines.push(textFormat === 'markdown' ? region.markdown ?? region.text : region.text);
           lines.push('');
         }
       }
@@ -321,7 +422,7 @@ export default function TextPanel({
       setCopiedAll(true);
       setTimeout(() => setCopiedAll(false), 1500);
     });
-  }, [pageRegions]);
+  }, [pageRegions, textFormat]);
 
   // === 文字編輯 handlers ===
 
@@ -439,6 +540,81 @@ export default function TextPanel({
         <h2 className="text-sm font-semibold text-gray-700">提取文字</h2>
         {hasContent && (
           <div className="flex items-center gap-1.5">
+            {/* 排序模式切換（AI 回傳順序 / 版面閱讀順序） */}
+            <div className="flex items-center rounded-md border border-gray-300 overflow-hidden text-xs">
+              {(['ai', 'layout'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => onRegionOrderChange(mode)}
+                  title={mode === 'ai' ? '依 AI 回傳順序排列' : '依欄位、由上到下與跨欄標題推斷閱讀順序'}
+                  className={`px-2 py-1.5 cursor-pointer transition-colors ${
+                    regionOrder === mode ? 'bg-gray-700 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {mode === 'ai' ? 'AI 順序' : '版面順序'}
+                </button>
+              ))}
+            </div>
+
+            {/* 文字格式切換（純文字 / 文字層推斷的 Markdown 標題與強調） */}
+            {onTextFormatChange && (
+              <div className="flex items-center rounded-md border border-gray-300 overflow-hidden text-xs">
+                {(['plain', 'markdown'] as const).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => onTextFormatChange(format)}
+                    title={format === 'plain' ? '顯示與匯出原始提取文字' : '依字級 / 粗體標出標題、項目符號與強調（Markdown）'}
+                    className={`px-2 py-1.5 cursor-pointer transition-colors ${
+                      textFormat === format ? 'bg-gray-700 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {format === 'plain' ? '文字' : 'MD'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* 財務數據面板切換 */}
+            {financialEntities && (
+              <button
+                onClick={() => setShowEntities((v) => !v)}
+                title="從文字擷取營收、利潤率、EPS、目標價、評等與 QoQ / YoY"
+                className={`text-xs font-medium px-2 py-1.5 rounded-md border transition-colors cursor-pointer ${
+                  showEntities
+                    ? 'border-gray-700 bg-gray-700 text-white'
+                    : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                數據 {financialEntities.length}
+              </button>
+            )}
+
+            {/* 跳到下一個低信心 region（文字層提取可能有誤，建議人工檢查） */}
+            {lowConfidenceKeys.length > 0 && (
+              <button
+                onClick={handleJumpToNextLowConfidence}
+                title="跳到下一個提取信心低的區域（框校正幅度大、分欄不明確、亂碼等）"
+                className="text-xs font-medium px-2 py-1.5 rounded-md border border-orange-300 bg-orange-50 text-orange-700 hover:bg-orange-100 transition-colors cursor-pointer"
+              >
+                ⚠ 低信心 {lowConfidenceKeys.length}
+              </button>
+            )}
+
+            {/* 匯出段落重排切換（合併 PDF 折行；僅影響匯出內容） */}
+            {onExportReport && onExportReflowChange && (
+              <button
+                onClick={() => onExportReflowChange(!exportReflow)}
+                title={exportReflow ? '匯出時合併折行（段落重排）：開啟' : '匯出時保留原始換行'}
+                className={`text-xs font-medium px-2 py-1.5 rounded-md border transition-colors cursor-pointer ${
+                  exportReflow
+                    ? 'border-indigo-400 bg-indigo-50 text-indigo-700'
+                    : 'border-gray-300 bg-white text-gray-500 hover:bg-gray-100'
+                }`}
+              >
+                ¶ 重排
+              </button>
+            )}
+
             {/* 匯出單篇按鈕（複製全部的左邊） */}
             {onExportReport && (
               <button
@@ -518,7 +694,16 @@ export default function TextPanel({
             <p className="text-xs text-gray-300 mt-1">上傳 PDF 後自動分析</p>
           </div>
         ) : (
-          sortedPages.map(([page, regions]) => {
+          <>
+          {showEntities && financialEntities && (
+            <FinancialEntityPanel
+              entities={financialEntities}
+              onSelect={focusRegion}
+              exportEntities={exportEntities}
+              onExportEntitiesChange={onExportEntitiesChange}
+            />
+          )}
+          {sortedPages.map(([page, regions]) => {
             if (regions.length === 0) return null;
 
             return (
@@ -659,6 +844,26 @@ export default function TextPanel({
                             )}
                             {!region.label && <span className="flex-1" />}
 
+                            {/* 文字來源（OCR / AI） */}
+                            {region.textSource && TEXT_SOURCE_BADGES[region.textSource] && (
+                              <span
+                                className={`flex-shrink-0 text-[10px] px-1 py-px rounded border leading-none select-none ${TEXT_SOURCE_BADGES[region.textSource]!.className}`}
+                                title={TEXT_SOURCE_BADGES[region.textSource]!.title}
+                              >
+                                {TEXT_SOURCE_BADGES[region.textSource]!.label}
+                              </span>
+                            )}
+
+                            {/* 文字層提取低信心分數（hover 看扣分原因） */}
+                            {!isEmpty && isLowConfidence(region.confidence) && (
+                              <span
+                                className="flex-shrink-0 text-[10px] px-1 py-px rounded border leading-none select-none border-orange-300 text-orange-600 bg-orange-50"
+                                title={`提取信心 ${region.confidence!.score}：${region.confidence!.reasons.join('、')}`}
+                              >
+                                ⚠ {region.confidence!.score}
+                              </span>
+                            )}
+
                             {/* 字型大小 − size + */}
                             <div
                               className="flex items-center gap-0.5 flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -949,7 +1154,8 @@ export default function TextPanel({
                           );
                         }
 
-                        // 純文字或原始 MD 模式 — 正常顯示
+                        // 純文字或原始 MD 模式 — 正常顯示（Markdown 格式且有文字層 Markdown 時渲染標題 / 強調；編輯仍改純文字）
+                        const markdown = textFormat === 'markdown' ? region.markdown : undefined;
                         return (
                           <p
                             className="text-gray-800 leading-relaxed break-words cursor-text"
@@ -975,18 +1181,20 @@ export default function TextPanel({
                               const timer = textClickTimerRef.current.get(regionKey);
                               if (timer) { clearTimeout(timer); textClickTimerRef.current.delete(regionKey); }
                               if (region.text) {
-                                navigator.clipboard.writeText(region.text);
+                                navigator.clipboard.writeText(markdown ?? region.text);
                                 setCopiedKey(regionKey);
                                 setTimeout(() => setCopiedKey(null), 1200);
                               }
                             }}
                           >
-                            {region.text?.split('\n').map((line, i, arr) => (
-                              <React.Fragment key={i}>
-                                {line}
-                                {i < arr.length - 1 && <br />}
-                              </React.Fragment>
-                            ))}
+                            {markdown
+                              ? renderMarkdownLines(markdown)
+                              : region.text?.split('\n').map((line, i, arr) => (
+                                <React.Fragment key={i}>
+                                  {line}
+                                  {i < arr.length - 1 && <br />}
+                                </React.Fragment>
+                              ))}
                           </p>
                         );
                       })()}
@@ -1016,7 +1224,8 @@ export default function TextPanel({
                   )}
               </div>
             );
-          })
+          })}
+          </>
         )}
       </div>
 
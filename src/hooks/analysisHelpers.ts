@@ -1,23 +1,39 @@
 /**
  * 功能：PDF 分析核心純函式工具模組
- * 職責：PDF 頁面渲染、API 呼叫（含失敗自動重試最多 2 次、429 速率限制等 10s 重試 + 連 2 次退回 Flash、前端傳入 apiKey）、分析結果合併（回傳空文字 region 清單）、
+ * 職責：PDF 頁面渲染、API 呼叫（含失敗自動重試最多 2 次、模型輸出格式錯誤立即重試最多 2 次、429 速率限制等 10s 重試 + 連 2 次退回 Flash、前端傳入 apiKey）、分析結果合併（回傳空文字 region 清單）、
+ *       原生 PDF 輸入模式（extractPageAsPdf：pdf-lib 提取單頁 PDF 取代 JPEG，依模型開關，支援的模型見 modelSupportsPdfInput）、
  *       頁面 canvas 渲染與區域裁切（renderPageCanvas + cropRegionFromCanvas，支援同頁多 region 複用同一 canvas）、
- *       區域截圖裁切、區域識別 API、date/code/report metadata 候選值更新、
+ *       區域截圖裁切、區域識別 API（雙擊識別先以 rebuildTableFromTextLayer 從文字層重建表格，失敗才送 AI）、date/code/report metadata 候選值更新、
  *       畸形 bbox 偵測（isMalformedBbox：座標反轉或極端長形）
- * 依賴：pdfjs、types、constants、pdfTextExtract、brokerUtils、cidDetect（亂碼偵測）
+ *       本機端點模型（local: 前綴）429 不退回雲端模型；離線模擬模型（mock: 前綴）退回模擬版備援模型、不走快取（+cache 旗標除外）
+ *       AI 回應快取（analyzePageWithRetry / recognizeRegionWithRetry 呼叫前查快取、成功後寫入；可 bypass；含畸形 / NaN bbox 的結果不寫入也不採用）、
+ *       token 用量回報（每次 API 回應帶 usage 即透過 onUsage 回報實際使用的模型與用量，含重試）、
+ *       雙模型交叉比對（analyzePageEnsemble：同圖送兩個模型，IoU 配對合併 regions 並標記 agreement）、
+ *       伺服器端限流排隊資訊廣播（回應帶 queue 即通知 subscribeServerQueue 的訂閱者；排隊逾時 queueTimeout 直接重新排隊，不觸發全域暫停與模型退回）、
+ *       文字層版面分析（analyzePageByLayout：layout:text 虛擬模型不呼叫 AI，可作主模型或交叉比對模型）、
+ *       閱讀順序（mergePageResult 依檔案的 regionOrder 在提取文字後排序該頁 regions）、
+ *       本機 OCR（ocrRegion 呼叫 /api/ocr；recognizeRegionText 為亂碼 / 空文字區域先走 OCR、失敗才送 AI，並回傳文字來源）
+ * 依賴：pdfjs、types、constants、pdfTextExtract / pdfTextExtractCore（文字提取、跨頁重複行排除、表格重建）、readingOrder（閱讀順序）、brokerUtils、cidDetect（亂碼偵測）、aiCache（回應快取）
  *
  * 重要設計：
  * - 所有函式皆為純函式（不依賴 React state），接受 isSessionValid callback 作為參數
  * - 可獨立單元測試
- * - 共用型別：FileRegionsUpdater、FileReportUpdater、FileProgressUpdater、SessionValidator
+ * - 共用型別：FileRegionsUpdater、FileReportUpdater、FileProgressUpdater、FileUsageUpdater、UsageRecorder、SessionValidator
  */
 
 import type { pdfjs } from 'react-pdf';
-import { Region } from '@/lib/types';
-import { RENDER_SCALE, JPEG_QUALITY, NORMALIZED_MAX } from '@/lib/constants';
-import { extractTextForRegions } from '@/lib/pdfTextExtract';
+import type { PDFDocument } from 'pdf-lib';
+import { MetadataCandidate, Region, RegionAgreement, RegionOrderMode, RegionTextSource, PageAnalysis, AnalysisValidationIssue, TokenUsage, ServerQueueInfo } from '@/lib/types';
+import {
+  RENDER_SCALE, JPEG_QUALITY, NORMALIZED_MAX, MOCK_MODEL_PREFIX, isCacheableModel, isLocalModel, isMockModel, isLayoutModel,
+  modelSupportsPdfInput,
+} from '@/lib/constants';
+import { extractTextForRegions, extractTableGrid, extractLayoutBlocks, detectRunningLines } from '@/lib/pdfTextExtract';
+import { tableGridToMarkdown, readableCharRatio } from '@/lib/pdfTextExtractCore';
+import { sortRegionsByReadingOrder } from '@/lib/readingOrder';
 import { isCompleteDate, shouldIgnoreBroker } from '@/lib/brokerUtils';
 import { isCidPassthrough } from '@/lib/cidDetect';
+import { AiCacheOptions, computeAiCacheKey, lookupAiCache, storeAiCache } from '@/lib/aiCache';
 
 /** 判定文字是否為亂碼（CID passthrough、錯誤編碼等），應觸發 AI 識別
  *  可讀字元：CJK、ASCII 可列印、常用標點。若可讀比例過低則視為亂碼 */
@@ -25,16 +41,7 @@ function isGarbledText(str: string): boolean {
   const t = str.trim();
   if (!t || t.length < 4) return false;
   if (isCidPassthrough(t)) return true;
-  let readable = 0;
-  for (let i = 0; i < t.length; i++) {
-    const cp = t.codePointAt(i)!;
-    if (cp >= 0x4e00 && cp <= 0x9fff) readable++;
-    else if (cp >= 0x20 && cp <= 0x7e) readable++;
-    else if (cp >= 0x3000 && cp <= 0x303f) readable++;
-    else if (cp >= 0xff00 && cp <= 0xffef) readable++;
-    else if (cp >= 0x2000 && cp <= 0x206f) readable++; // 通用標點
-  }
-  return readable / t.length < 0.35;
+  return readableCharRatio(t) < 0.35;
 }
 
 /** 判定 bbox 是否為畸形框（座標反轉或極端長形），AI 產出此類框時應退回重跑該頁
@@ -58,6 +65,11 @@ export function hasNaNBbox(bbox: [number, number, number, number]): boolean {
   return bbox.some((v) => !isFinite(v));
 }
 
+/** 結果是否含畸形或 NaN bbox（processTask 會退回重跑的結果，不可寫入 / 採用快取） */
+export function hasSuspectBbox(regions: Region[], isPortrait: boolean): boolean {
+  return regions.some((r) => hasNaNBbox(r.bbox) || isMalformedBbox(r.bbox, isPortrait));
+}
+
 // === API 失敗重試設定 ===
 export const MAX_RETRIES = 2; // 最多重試 2 次（總共 3 次嘗試）
 export const RETRY_BASE_DELAY_MS = 1500; // 首次重試等待 1.5 秒，之後遞增
@@ -67,9 +79,19 @@ export const MAX_MALFORMED_RETRIES = 5;
 export const RATE_LIMIT_DELAY_MS = 10_000;
 /** 429 連續命中次數上限（安全閥），超過即放棄 */
 export const MAX_RATE_LIMIT_RETRIES = 4;
+/** 伺服器排隊逾時（503 queueTimeout）重新排隊次數上限；伺服器已排隊等待過，不另設暫停 */
+export const MAX_QUEUE_TIMEOUT_RETRIES = 2;
 /** 429 連續 2 次後退回的模型 */
 export const RATE_LIMIT_FALLBACK_MODEL = 'gemini-3-flash-preview';
 
+/** 依原模型決定 429 退回的模型：本機端點不退回（內網部署不可讓報告離開網路，回傳 null）；
+ *  模擬模型退回模擬版備援模型（離線測試不打真實 API） */
+export function rateLimitFallbackFor(modelId: string): string | null {
+  if (isLocalModel(modelId)) return null;
+  if (isMockModel(modelId)) return `${MOCK_MODEL_PREFIX}${RATE_LIMIT_FALLBACK_MODEL}`;
+  return RATE_LIMIT_FALLBACK_MODEL;
+}
+
 // === 全域 429 速率限制暫停（模組級 singleton，所有 worker 共享）===
 // 任一 worker 遇到 429 → 設定暫停時間戳 → 其他 worker 在下一次 API 呼叫前等待
 let _rateLimitResumeAt = 0;
@@ -87,6 +109,18 @@ async function waitForGlobalRateLimit() {
   }
 }
 
+// === 伺服器端排隊資訊（模組級訂閱：所有 worker 的 API 回應都回報，UI 只需訂閱一次）===
+const _serverQueueListeners = new Set<(info: ServerQueueInfo) => void>();
+/** 訂閱伺服器端限流排隊資訊（回傳取消訂閱函式） */
+export function subscribeServerQueue(listener: (info: ServerQueueInfo) => void): () => void {
+  _serverQueueListeners.add(listener);
+  return () => { _serverQueueListeners.delete(listener); };
+}
+function reportServerQueue(info: ServerQueueInfo | undefined) {
+  if (!info) return;
+  _serverQueueListeners.forEach((l) => l(info));
+}
+
 /** 檔案級 regions 更新器：直接寫入 files 陣列（Single Source of Truth） */
 export type FileRegionsUpdater = (
   targetFileId: string,
@@ -96,10 +130,10 @@ export type FileRegionsUpdater = (
 /** 檔案級 report 更新器：更新指定檔案的券商名 */
 export type FileReportUpdater = (targetFileId: string, report: string) => void;
 
-/** 檔案級 metadata 更新器：追加 date/code/broker 候選值（來源通常為 AI） */
+/** 檔案級 metadata 更新器：追加 date/code/broker 候選值（來源通常為 AI；page = 回傳該值的頁碼，供跨頁共識計分） */
 export type FileMetadataUpdater = (
   targetFileId: string,
-  patch: { date?: string; code?: string; broker?: string; source: 'filename' | 'ai' | 'manual' },
+  patch: { date?: string; code?: string; broker?: string; source: MetadataCandidate['source']; page?: number },
 ) => void;
 
 /** per-file 分析進度更新器：設定絕對值或增減量 */
@@ -114,6 +148,12 @@ export type FileProgressUpdater = (
   },
 ) => void;
 
+/** 檔案級 token 用量累加器：記錄到指定檔案的指定頁（區域識別計入所屬頁） */
+export type FileUsageUpdater = (targetFileId: string, pageNum: number, modelId: string, usage: TokenUsage) => void;
+
+/** 單次 API 呼叫的用量回報（modelId 為實際送出的模型，429 退回時與請求模型不同） */
+export type UsageRecorder = (modelId: string, usage: TokenUsage) => void;
+
 /** Session 有效性檢查函式型別 */
 export type SessionValidator = (sessionId: number) => boolean;
 
@@ -171,8 +211,129 @@ export async function renderPageToImage(
   }
 }
 
-// === 分析單頁（含失敗自動重試 + 429 速率限制特殊處理）===
-// 429 處理：等 10 秒重試同模型；連續 2 次 429 → 該頁退回 RATE_LIMIT_FALLBACK_MODEL，其他頁不影響
+// === 將 PDF 單頁提取為獨立 PDF（原生 PDF 輸入模式）===
+
+/** 送模型的頁面輸入：JPEG 影像或單頁 PDF（base64，不含 data: 前綴） */
+export interface PageInput {
+  data: string;
+  mimeType: 'image/jpeg' | 'application/pdf';
+  /** 直式頁面（畸形 bbox 判定門檻依方向不同） */
+  isPortrait: boolean;
+}
+
+// pdf-lib 解析結果快取（同一份 PDF 多頁並行提取時只 load 一次；pdfDoc 銷毀後隨 GC 回收）
+const _pdfLibDocCache = new WeakMap<pdfjs.PDFDocumentProxy, Promise<PDFDocument>>();
+
+/** 以 pdf-lib 將指定頁提取為單頁 PDF（保留文字與向量，不點陣化，小字不糊）。
+ *  MediaBox 改設為 CropBox：pdfjs viewport 以 CropBox 為準，模型端若依 MediaBox 渲染，歸一化 bbox 會與文字層座標錯位 */
+export async function extractPageAsPdf(
+  pageNum: number,
+  pdfDoc: pdfjs.PDFDocumentProxy,
+  sessionId: number,
+  isSessionValid: SessionValidator,
+): Promise<string | null> {
+  if (!isSessionValid(sessionId)) return null;
+
+  const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
+  console.log(`[analysisHelpers][${timestamp}] 📄 Extracting page ${pageNum} as PDF...`);
+
+  try {
+    // 動態載入 pdf-lib：僅啟用 PDF 輸入的使用者才下載
+    const { PDFDocument: PdfLibDocument } = await import('pdf-lib');
+    let srcPromise = _pdfLibDocCache.get(pdfDoc);
+    if (!srcPromise) {
+      srcPromise = pdfDoc.getData().then((bytes) => PdfLibDocument.load(bytes, { ignoreEncryption: true }));
+      srcPromise.catch(() => _pdfLibDocCache.delete(pdfDoc));
+      _pdfLibDocCache.set(pdfDoc, srcPromise);
+    }
+    const src = await srcPromise;
+    if (!isSessionValid(sessionId)) return null;
+
+    const single = await PdfLibDocument.create();
+    const [page] = await single.copyPages(src, [pageNum - 1]);
+    const crop = page.getCropBox();
+    page.setMediaBox(crop.x, crop.y, crop.width, crop.height);
+    single.addPage(page);
+    const base64 = await single.saveAsBase64();
+
+    const sizeKB = Math.round((base64.length * 3) / 4 / 1024);
+    const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.log(`[analysisHelpers][${ts2}] 📐 Page ${pageNum} PDF: ${sizeKB} KB`);
+    return base64;
+  } catch (e) {
+    // document 已銷毀 → 靜默返回 null
+    if (!isSessionValid(sessionId) || String(e).includes('sendWithPromise')) {
+      const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
+      console.log(`[analysisHelpers][${ts2}] ⚠️ PDF extraction cancelled for page ${pageNum} (file switched or aborted)`);
+      return null;
+    }
+    throw e;
+  }
+}
+
+/** 此模型是否以單頁 PDF 送出（使用者對該模型開啟且模型支援） */
+export function usesPdfInput(modelId: string, pdfInputModels?: string[]): boolean {
+  return !!pdfInputModels?.includes(modelId) && modelSupportsPdfInput(modelId);
+}
+
+/** 準備頁面輸入：asPdf 時提取單頁 PDF（提取失敗如加密 PDF → 退回 JPEG），否則渲染 JPEG */
+async function preparePageInput(
+  pageNum: number,
+  pdfDoc: pdfjs.PDFDocumentProxy,
+  sessionId: number,
+  isSessionValid: SessionValidator,
+  asPdf: boolean,
+): Promise<PageInput | null> {
+  const viewport = (await pdfDoc.getPage(pageNum)).getViewport({ scale: 1 });
+  const isPortrait = viewport.width < viewport.height;
+  if (asPdf) {
+    try {
+      const data = await extractPageAsPdf(pageNum, pdfDoc, sessionId, isSessionValid);
+      return data ? { data, mimeType: 'application/pdf', isPortrait } : null;
+    } catch (e) {
+      const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+      console.warn(`[analysisHelpers][${ts}] ⚠️ Page ${pageNum}: PDF 提取失敗，改送 JPEG:`, e);
+    }
+  }
+  const data = await renderPageToImage(pageNum, pdfDoc, sessionId, isSessionValid);
+  return data ? { data, mimeType: 'image/jpeg', isPortrait } : null;
+}
+
+/** 文字層版面分析單頁（不呼叫 AI、不渲染頁面）：段落區塊轉為 regions，亂碼區塊（無法不靠 AI 識別）略過；
+ *  不產生 date/code/report，metadata 仍來自檔名解析 */
+export async function analyzePageByLayout(
+  pageNum: number,
+  pdfDoc: pdfjs.PDFDocumentProxy,
+  sessionId: number,
+  isSessionValid: SessionValidator,
+): Promise<PageAnalysis | null> {
+  if (!isSessionValid(sessionId)) return null;
+  try {
+    const pdfPage = await pdfDoc.getPage(pageNum);
+    const blocks = await extractLayoutBlocks(pdfPage);
+    if (!isSessionValid(sessionId)) return null;
+    const regions: Region[] = blocks
+      .filter((b) => !isGarbledText(b.text))
+      .map((b, i) => ({
+        id: i + 1,
+        bbox: b.bbox.map((v) => Math.round(v)) as [number, number, number, number],
+        label: b.text.split('\n')[0].trim().slice(0, 8) || `段落 ${i + 1}`,
+        text: '',
+      }));
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.log(`[analysisHelpers][${ts}] 🧱 Page ${pageNum}: layout analysis → ${regions.length} region(s)${regions.length < blocks.length ? ` (${blocks.length - regions.length} garbled skipped)` : ''}`);
+    return { page: pageNum, hasAnalysis: regions.length > 0, regions };
+  } catch (e) {
+    if (isSessionValid(sessionId)) console.warn(`[analysisHelpers] ⚠️ Layout analysis failed for page ${pageNum}`, e);
+    return null;
+  }
+}
+
+// === 分析單頁（含失敗自動重試 + 429 速率限制特殊處理 + 回應快取）===
+// 429 處理：等 10 秒重試同模型；連續 2 次 429 → 該頁退回 rateLimitFallbackFor(模型)，其他頁不影響
+// 快取：key = 圖片 + prompt + 模型 + responseFieldMap；退回模型產生的結果不寫入（避免以備援模型結果冒充原模型）
+// 輸入：pdfInputModels 含此模型（且模型支援）時送單頁 PDF，否則送 JPEG；兩者 bbox 皆為頁面（CropBox）歸一化座標
+// 版面分析（layout:text）不送 API，改由 analyzePageByLayout 處理
 export async function analyzePageWithRetry(
   pageNum: number,
   promptText: string,
@@ -182,13 +343,60 @@ export async function analyzePageWithRetry(
   isSessionValid: SessionValidator,
   apiKey?: string,
   openRouterApiKey?: string,
-) {
-  const imageBase64 = await renderPageToImage(pageNum, pdfDoc, sessionId, isSessionValid);
-  if (!imageBase64) return null;
+  responseFieldMap?: Record<string, string>,
+  cache?: AiCacheOptions,
+  onUsage?: UsageRecorder,
+  fileName?: string,
+  pdfInputModels?: string[],
+): Promise<PageAnalysis | null> {
+  if (isLayoutModel(modelId)) return analyzePageByLayout(pageNum, pdfDoc, sessionId, isSessionValid);
+  const input = await preparePageInput(pageNum, pdfDoc, sessionId, isSessionValid, usesPdfInput(modelId, pdfInputModels));
+  if (!input) return null;
+  return requestPageAnalysis(
+    input, pageNum, promptText, modelId, sessionId, isSessionValid,
+    apiKey, openRouterApiKey, responseFieldMap, cache, onUsage, fileName,
+  );
+}
+
+/** 送出已準備的頁面輸入做分析（快取 + 重試 + 429 處理）；analyzePageWithRetry 與 analyzePageEnsemble 共用，
+ *  ensemble 只渲染一次頁面，兩個模型輸入格式相同時共用同一份輸入 */
+async function requestPageAnalysis(
+  input: PageInput,
+  pageNum: number,
+  promptText: string,
+  modelId: string,
+  sessionId: number,
+  isSessionValid: SessionValidator,
+  apiKey?: string,
+  openRouterApiKey?: string,
+  responseFieldMap?: Record<string, string>,
+  cache?: AiCacheOptions,
+  onUsage?: UsageRecorder,
+  fileName?: string,
+): Promise<PageAnalysis | null> {
+  // 模擬模型不走快取：模擬情境（429 / 畸形 bbox）需每次實際打到 provider（+cache 旗標除外）
+  const cacheKey = !isCacheableModel(modelId) ? null : await computeAiCacheKey('analyze', {
+    image: input.data, prompt: promptText, model: modelId, extra: responseFieldMap ?? null,
+  });
+  if (cacheKey && !cache?.bypass) {
+    const cached = await lookupAiCache<PageAnalysis>(cacheKey);
+    // 舊版寫入的畸形 / NaN bbox 結果視為 miss（重新呼叫後以新結果覆蓋）
+    const usable = cached && !hasSuspectBbox(cached.regions, input.isPortrait) ? cached : null;
+    cache?.onResult?.(usable !== null);
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    if (usable) {
+      console.log(`[analysisHelpers][${ts}] 💾 Page ${pageNum}: cache hit (${usable.regions.length} regions)`);
+      return usable;
+    }
+    if (cached) console.warn(`[analysisHelpers][${ts}] 💾 Page ${pageNum}: cached result has malformed bbox, ignored`);
+    if (!isSessionValid(sessionId)) return null;
+  }
 
   let currentModel = modelId;
   let rateLimitHits = 0;
   let errorRetries = 0;
+  let invalidOutputRetries = 0;
+  let queueTimeouts = 0;
 
   while (true) {
     if (!isSessionValid(sessionId)) return null;
@@ -200,8 +408,8 @@ export async function analyzePageWithRetry(
     const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
 
     try {
-      if (errorRetries > 0 || rateLimitHits > 0) {
-        console.log(`[analysisHelpers][${timestamp}] 🔄 Page ${pageNum} retry (errors: ${errorRetries}, 429s: ${rateLimitHits}, model: ${currentModel})...`);
+      if (errorRetries > 0 || rateLimitHits > 0 || invalidOutputRetries > 0 || queueTimeouts > 0) {
+        console.log(`[analysisHelpers][${timestamp}] 🔄 Page ${pageNum} retry (errors: ${errorRetries}, invalid: ${invalidOutputRetries}, 429s: ${rateLimitHits}, queue timeouts: ${queueTimeouts}, model: ${currentModel})...`);
       } else {
         console.log(`[analysisHelpers][${timestamp}] 📤 Sending page ${pageNum} to API (model: ${currentModel})...`);
       }
@@ -210,33 +418,52 @@ export async function analyzePageWithRetry(
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          image: imageBase64,
+          image: input.data,
+          ...(input.mimeType !== 'image/jpeg' ? { mimeType: input.mimeType } : {}),
           prompt: promptText,
           page: pageNum,
           model: currentModel,
           ...(apiKey ? { apiKey } : {}),
           ...(openRouterApiKey ? { openRouterApiKey } : {}),
+          ...(responseFieldMap ? { responseFieldMap } : {}),
+          ...(fileName ? { fileName } : {}),
         }),
       });
 
       const result = await response.json();
+      if (result.usage) onUsage?.(currentModel, result.usage);
+      reportServerQueue(result.queue);
 
       if (result.success) {
         if (currentModel !== modelId) {
           console.log(`[analysisHelpers][${timestamp}] ✅ Page ${pageNum}: ${result.data.regions.length} regions found (fallback: ${currentModel})`);
         } else {
           console.log(`[analysisHelpers][${timestamp}] ✅ Page ${pageNum}: ${result.data.regions.length} regions found`);
+          // 含畸形 / NaN bbox 的結果會被 processTask 退回重跑，不寫入快取（否則重跑與之後的分析都會命中同一份壞結果）
+          if (cacheKey && !hasSuspectBbox(result.data.regions, input.isPortrait)) void storeAiCache('analyze', cacheKey, result.data);
         }
         return result.data;
       }
 
+      // 伺服器排隊逾時：本機限流預算不足而非上游 429，直接重新排隊（不觸發全域暫停、不退回模型）
+      if (result.queueTimeout) {
+        queueTimeouts++;
+        if (queueTimeouts > MAX_QUEUE_TIMEOUT_RETRIES) {
+          console.error(`[analysisHelpers][${timestamp}] ❌ Page ${pageNum}: 伺服器排隊逾時超過 ${MAX_QUEUE_TIMEOUT_RETRIES} 次，放棄`);
+          return null;
+        }
+        console.log(`[analysisHelpers][${timestamp}] ⏳ Page ${pageNum}: 伺服器排隊逾時，重新排隊 (${queueTimeouts}/${MAX_QUEUE_TIMEOUT_RETRIES})`);
+        continue;
+      }
+
       // 429 速率限制：設定全域暫停 + per-page 計數決定是否退回模型
       if (result.rateLimited) {
         rateLimitHits++;
         setGlobalRateLimitPause();
-        if (rateLimitHits >= 2 && currentModel !== RATE_LIMIT_FALLBACK_MODEL) {
-          console.log(`[analysisHelpers][${timestamp}] 🔀 Page ${pageNum}: 連續 ${rateLimitHits} 次 429，退回 ${RATE_LIMIT_FALLBACK_MODEL}`);
-          currentModel = RATE_LIMIT_FALLBACK_MODEL;
+        const fallbackModel = rateLimitFallbackFor(modelId);
+        if (rateLimitHits >= 2 && fallbackModel && currentModel !== fallbackModel) {
+          console.log(`[analysisHelpers][${timestamp}] 🔀 Page ${pageNum}: 連續 ${rateLimitHits} 次 429，退回 ${fallbackModel}`);
+          currentModel = fallbackModel;
         }
         if (rateLimitHits > MAX_RATE_LIMIT_RETRIES) {
           console.error(`[analysisHelpers][${timestamp}] ❌ Page ${pageNum}: 429 超過 ${MAX_RATE_LIMIT_RETRIES} 次，放棄`);
@@ -246,6 +473,17 @@ export async function analyzePageWithRetry(
         continue; // 下一輪迴圈開頭的 waitForGlobalRateLimit() 會等
       }
 
+      // 模型輸出修復後仍不合 schema：非暫時性網路問題，立即重跑（模型輸出有隨機性），不做退避等待
+      if (result.invalidOutput) {
+        invalidOutputRetries++;
+        const issues = (result.validationErrors ?? []) as AnalysisValidationIssue[];
+        console.warn(
+          `[analysisHelpers][${timestamp}] 🧩 Page ${pageNum}: 模型輸出格式錯誤 (${invalidOutputRetries}/${MAX_RETRIES + 1}): ${issues.map((i) => `${i.path || '(root)'} ${i.message}`).join('; ')}`
+        );
+        if (invalidOutputRetries > MAX_RETRIES) return null;
+        continue;
+      }
+
       // 一般錯誤
       errorRetries++;
       console.error(`[analysisHelpers][${timestamp}] ❌ Page ${pageNum} failed (error ${errorRetries}/${MAX_RETRIES + 1}):`, result.error);
@@ -267,7 +505,139 @@ export async function analyzePageWithRetry(
   }
 }
 
+// === 雙模型交叉比對（ensemble）===
+/** 兩框 IoU 達此門檻即視為同一區域 */
+export const ENSEMBLE_IOU_THRESHOLD = 0.5;
+
+/** 計算兩個 bbox 的 IoU（交集 / 聯集），座標格式 [x1, y1, x2, y2] */
+export function computeIoU(a: [number, number, number, number], b: [number, number, number, number]): number {
+  const ix = Math.max(0, Math.min(a[2], b[2]) - Math.max(a[0], b[0]));
+  const iy = Math.max(0, Math.min(a[3], b[3]) - Math.max(a[1], b[1]));
+  const inter = ix * iy;
+  const areaA = Math.max(0, a[2] - a[0]) * Math.max(0, a[3] - a[1]);
+  const areaB = Math.max(0, b[2] - b[0]) * Math.max(0, b[3] - b[1]);
+  const union = areaA + areaB - inter;
+  return union > 0 ? inter / union : 0;
+}
+
+/** 合併兩個模型的 regions：IoU 貪婪配對（由高到低），配對成功者保留主模型的框並標 agreed，
+ *  未配對者各自保留並標 single（低信心）。以主模型順序為主（多欄版面不能單純依座標排序），
+ *  次模型獨有的區域插在「次模型順序中前一個已配對區域」之後，最後重新編號 */
+export function reconcileEnsembleRegions(
+  primary: Region[],
+  secondary: Region[],
+  primaryModel: string,
+  secondaryModel: string,
+): Region[] {
+  const pairs: { i: number; j: number; iou: number }[] = [];
+  primary.forEach((p, i) => {
+    secondary.forEach((s, j) => {
+      const iou = computeIoU(p.bbox, s.bbox);
+      if (iou >= ENSEMBLE_IOU_THRESHOLD) pairs.push({ i, j, iou });
+    });
+  });
+  pairs.sort((a, b) => b.iou - a.iou);
+
+  const primaryIou = new Map<number, number>(); // primary index → iou
+  const secondaryToPrimary = new Map<number, number>(); // secondary index → primary index
+  for (const { i, j, iou } of pairs) {
+    if (primaryIou.has(i) || secondaryToPrimary.has(j)) continue;
+    primaryIou.set(i, iou);
+    secondaryToPrimary.set(j, i);
+  }
+
+  // 次模型獨有區域的插入位置（key = 前一個已配對的主模型 index，-1 = 最前面）
+  const single = (model: string): RegionAgreement => ({ level: 'single', models: [model] });
+  const inserts = new Map<number, Region[]>();
+  let anchor = -1;
+  secondary.forEach((r, j) => {
+    const i = secondaryToPrimary.get(j);
+    if (i !== undefined) {
+      anchor = i;
+      return;
+    }
+    inserts.set(anchor, [...(inserts.get(anchor) ?? []), { ...r, agreement: single(secondaryModel) }]);
+  });
+
+  const merged: Region[] = [...(inserts.get(-1) ?? [])];
+  primary.forEach((r, i) => {
+    const iou = primaryIou.get(i);
+    const agreement: RegionAgreement = iou !== undefined
+      ? { level: 'agreed', models: [primaryModel, secondaryModel], iou: Math.round(iou * 100) / 100 }
+      : single(primaryModel);
+    merged.push({ ...r, agreement }, ...(inserts.get(i) ?? []));
+  });
+  return merged.map((r, idx) => ({ ...r, id: idx + 1 }));
+}
+
+/** 雙模型分析單頁：渲染一次（兩模型輸入格式不同時各自準備），兩個模型並行送出，regions 以 IoU 合併（在 mergePageResult 提取文字之前）。
+ *  metadata（date/code/report）以主模型優先；任一模型失敗則退回另一模型的結果（不標 agreement） */
+export async function analyzePageEnsemble(
+  pageNum: number,
+  promptText: string,
+  modelId: string,
+  secondaryModelId: string,
+  pdfDoc: pdfjs.PDFDocumentProxy,
+  sessionId: number,
+  isSessionValid: SessionValidator,
+  apiKey?: string,
+  openRouterApiKey?: string,
+  responseFieldMap?: Record<string, string>,
+  cache?: AiCacheOptions,
+  onUsage?: UsageRecorder,
+  fileName?: string,
+  pdfInputModels?: string[],
+): Promise<PageAnalysis | null> {
+  // 兩個模型輸入格式相同時只準備一次；不同時（如主模型 PDF、次模型僅支援圖片）各自準備；版面分析不需頁面輸入
+  const primaryPdf = usesPdfInput(modelId, pdfInputModels);
+  const secondaryPdf = usesPdfInput(secondaryModelId, pdfInputModels);
+  const primaryInput = isLayoutModel(modelId)
+    ? null
+    : await preparePageInput(pageNum, pdfDoc, sessionId, isSessionValid, primaryPdf);
+  if (!primaryInput && !isLayoutModel(modelId)) return null;
+  const secondaryInput = isLayoutModel(secondaryModelId)
+    ? null
+    : primaryInput && primaryPdf === secondaryPdf
+      ? primaryInput
+      : await preparePageInput(pageNum, pdfDoc, sessionId, isSessionValid, secondaryPdf);
+  if (!secondaryInput && !isLayoutModel(secondaryModelId)) return null;
+
+  const [primary, secondary] = await Promise.all([
+    [primaryInput, modelId] as const,
+    [secondaryInput, secondaryModelId] as const,
+  ].map(([input, m]) =>
+    input
+      ? requestPageAnalysis(
+        input, pageNum, promptText, m, sessionId, isSessionValid,
+        apiKey, openRouterApiKey, responseFieldMap, cache, onUsage, fileName,
+      )
+      : analyzePageByLayout(pageNum, pdfDoc, sessionId, isSessionValid)
+  ));
+
+  const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+  if (!primary || !secondary) {
+    if (isSessionValid(sessionId) && (primary || secondary)) {
+      const failed = primary ? secondaryModelId : modelId;
+      console.warn(`[analysisHelpers][${ts}] ⚠️ Page ${pageNum}: ensemble model ${failed} failed, using single-model result`);
+    }
+    return primary ?? secondary;
+  }
+
+  const regions = reconcileEnsembleRegions(primary.regions, secondary.regions, modelId, secondaryModelId);
+  const agreed = regions.filter((r) => r.agreement?.level === 'agreed').length;
+  console.log(`[analysisHelpers][${ts}] 🤝 Page ${pageNum}: ensemble ${primary.regions.length} + ${secondary.regions.length} → ${regions.length} regions (${agreed} agreed, ${regions.length - agreed} single)`);
+  return {
+    page: primary.page,
+    hasAnalysis: regions.length > 0 && (primary.hasAnalysis || secondary.hasAnalysis),
+    date: primary.date || secondary.date,
+    code: primary.code || secondary.code,
+    report: primary.report || secondary.report,
+    regions,
+  };
+}
+
 /** 處理單頁分析結果：提取文字 + merge 到 pageRegions + 儲存券商名
+ *  regionOrder = layout 時 merge 後依閱讀順序排序（含保留的 userModified regions）；ai 維持模型回傳順序
  *  回傳空文字 region 清單（含 bbox），供呼叫端決定是否自動 AI 識別
  *  注意：空 region 的 bbox 用於後續 cropRegionFromCanvas，呼叫端用 bbox 比對來更新 state */
 // 傳入 pdfDoc 快照 + sessionId + targetFileId
@@ -281,6 +651,7 @@ export async function mergePageResult(
   updateFileRegions: FileRegionsUpdater,
   updateFileReport: FileReportUpdater,
   updateFileMetadata?: FileMetadataUpdater,
+  regionOrder: RegionOrderMode = 'ai',
 ): Promise<Region[]> {
   const useDate = result.date && isCompleteDate(result.date);
   const useBroker = result.report && !shouldIgnoreBroker(result.report);
@@ -290,6 +661,7 @@ export async function mergePageResult(
       code: result.code,
       broker: useBroker ? result.report : undefined,
       source: 'ai',
+      page: pageNum,
     });
   }
 
@@ -318,7 +690,9 @@ export async function mergePageResult(
   try {
     const pdfPage = await pdfDoc.getPage(pageNum);
     if (!isSessionValid(sessionId)) return [];
-    regionsWithText = await extractTextForRegions(pdfPage, result.regions);
+    const runningLines = await detectRunningLines(pdfDoc);
+    if (!isSessionValid(sessionId)) return [];
+    regionsWithText = await extractTextForRegions(pdfPage, result.regions, runningLines);
   } catch (e) {
     // document 已銷毀時不要噴錯
     if (!isSessionValid(sessionId)) return [];
@@ -334,8 +708,8 @@ export async function mergePageResult(
     const t = r.text?.trim() ?? '';
     if (!t) toRecognize.push(r);
     else if (isGarbledText(t)) {
-      toRecognize.push({ ...r, text: '' }); // 亂碼清空文字，顯示為灰框並送 AI 識別
-      regionsToMerge = regionsToMerge.map((x) => (x === r ? { ...r, text: '' } : x));
+      toRecognize.push({ ...r, text: '', markdown: undefined, textSource: undefined }); // 亂碼清空文字，顯示為灰框並送 AI 識別
+      regionsToMerge = regionsToMerge.map((x) => (x === r ? { ...r, text: '', markdown: undefined, textSource: undefined } : x));
     }
   }
   if (toRecognize.length > 0) {
@@ -357,7 +731,8 @@ export async function mergePageResult(
       id: maxExistingId + i + 1,
       userModified: false,
     }));
-    updated.set(pageNum, [...userRegions, ...aiRegions]);
+    const merged = [...userRegions, ...aiRegions];
+    updated.set(pageNum, regionOrder === 'layout' ? sortRegionsByReadingOrder(merged) : merged);
     return updated;
   };
   updateFileRegions(targetFileId, mergeUpdater);
@@ -449,8 +824,25 @@ export async function cropRegionToBase64(
   return { base64, width, height, sizeKB };
 }
 
-/** 呼叫 /api/recognize 識別區域內容（含失敗自動重試 + 429 速率限制特殊處理）
- *  429 處理：等 10 秒重試同模型；連續 2 次 429 → 退回 RATE_LIMIT_FALLBACK_MODEL */
+/**
+ * 從 PDF 文字層重建區域內的表格（不呼叫 AI），成功時回傳 Markdown 表格
+ * 文字層無法組成格線（少於 2 欄 / 2 列、欄位對不齊、段落文字）或格內文字為亂碼時回傳 null，由呼叫端改送 AI 識別
+ */
+export async function rebuildTableFromTextLayer(
+  pdfDoc: pdfjs.PDFDocumentProxy,
+  page: number,
+  region: Region,
+): Promise<string | null> {
+  const pdfPage = await pdfDoc.getPage(page);
+  const grid = await extractTableGrid(pdfPage, region.bbox);
+  if (!grid) return null;
+  if (isGarbledText(grid.rows.flat().join(''))) return null;
+  return tableGridToMarkdown(grid);
+}
+
+/** 呼叫 /api/recognize 識別區域內容（含失敗自動重試 + 429 速率限制特殊處理 + 回應快取）
+ *  429 處理：等 10 秒重試同模型；連續 2 次 429 → 退回 rateLimitFallbackFor(模型)
+ *  快取：key = 裁切圖 + prompt + 模型；退回模型的結果不寫入 */
 export async function recognizeRegionWithRetry(
   base64: string,
   promptText: string,
@@ -459,20 +851,37 @@ export async function recognizeRegionWithRetry(
   regionId: number,
   apiKey?: string,
   openRouterApiKey?: string,
+  cache?: AiCacheOptions,
+  onUsage?: UsageRecorder,
+  fileName?: string,
 ): Promise<{ success: boolean; text?: string; error?: string }> {
+  const cacheKey = !isCacheableModel(modelId)
+    ? null
+    : await computeAiCacheKey('recognize', { image: base64, prompt: promptText, model: modelId });
+  if (cacheKey && !cache?.bypass) {
+    const cached = await lookupAiCache<string>(cacheKey);
+    cache?.onResult?.(cached !== null);
+    if (cached) {
+      const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+      console.log(`[analysisHelpers][${ts}] 💾 Region p${page}r${regionId}: cache hit`);
+      return { success: true, text: cached };
+    }
+  }
+
   let lastError = '';
   let currentModel = modelId;
   let rateLimitHits = 0;
   let errorRetries = 0;
+  let queueTimeouts = 0;
 
   while (true) {
     // 全域 429 暫停：任一 worker 觸發後，所有 worker 送出前都會等
     await waitForGlobalRateLimit();
 
     try {
-      if (errorRetries > 0 || rateLimitHits > 0) {
+      if (errorRetries > 0 || rateLimitHits > 0 || queueTimeouts > 0) {
         const retryTs = new Date().toLocaleTimeString('en-US', { hour12: false });
-        console.log(`[analysisHelpers][${retryTs}] 🔄 Region p${page}r${regionId} retry (errors: ${errorRetries}, 429s: ${rateLimitHits}, model: ${currentModel})...`);
+        console.log(`[analysisHelpers][${retryTs}] 🔄 Region p${page}r${regionId} retry (errors: ${errorRetries}, 429s: ${rateLimitHits}, queue timeouts: ${queueTimeouts}, model: ${currentModel})...`);
       }
 
       const response = await fetch('/api/recognize', {
@@ -486,22 +895,36 @@ export async function recognizeRegionWithRetry(
           regionId,
           ...(apiKey ? { apiKey } : {}),
           ...(openRouterApiKey ? { openRouterApiKey } : {}),
+          ...(fileName ? { fileName } : {}),
         }),
       });
       const result = await response.json();
+      if (result.usage) onUsage?.(currentModel, result.usage);
+      reportServerQueue(result.queue);
 
       if (result.success && result.text) {
+        if (cacheKey && currentModel === modelId) void storeAiCache('recognize', cacheKey, result.text);
         return { success: true, text: result.text };
       }
 
+      // 伺服器排隊逾時：直接重新排隊（不觸發全域暫停、不退回模型）
+      if (result.queueTimeout) {
+        queueTimeouts++;
+        if (queueTimeouts > MAX_QUEUE_TIMEOUT_RETRIES) {
+          return { success: false, error: `伺服器排隊逾時超過 ${MAX_QUEUE_TIMEOUT_RETRIES} 次` };
+        }
+        continue;
+      }
+
       // 429 速率限制：設定全域暫停 + per-region 計數決定是否退回模型
       if (result.rateLimited) {
         rateLimitHits++;
         setGlobalRateLimitPause();
-        if (rateLimitHits >= 2 && currentModel !== RATE_LIMIT_FALLBACK_MODEL) {
+        const fallbackModel = rateLimitFallbackFor(modelId);
+        if (rateLimitHits >= 2 && fallbackModel && currentModel !== fallbackModel) {
           const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
-          console.log(`[analysisHelpers][${ts}] 🔀 Region p${page}r${regionId}: 連續 ${rateLimitHits} 次 429，退回 ${RATE_LIMIT_FALLBACK_MODEL}`);
-          currentModel = RATE_LIMIT_FALLBACK_MODEL;
+          console.log(`[analysisHelpers][${ts}] 🔀 Region p${page}r${regionId}: 連續 ${rateLimitHits} 次 429，退回 ${fallbackModel}`);
+          currentModel = fallbackModel;
         }
         if (rateLimitHits > MAX_RATE_LIMIT_RETRIES) {
           return { success: false, error: `429 超過 ${MAX_RATE_LIMIT_RETRIES} 次` };
@@ -528,3 +951,60 @@ export async function recognizeRegionWithRetry(
     }
   }
 }
+
+/** 呼叫 /api/ocr 以本機 OCR 引擎識別區域（不重試：本機引擎失敗多為未安裝或圖片問題，重試無益）
+ *  識別結果為空或亂碼視為失敗，由呼叫端決定是否改送 AI */
+export async function ocrRegion(
+  base64: string,
+  engineId: string,
+  page: number,
+  regionId: number,
+): Promise<{ success: boolean; text?: string; error?: string }> {
+  try {
+    const response = await fetch('/api/ocr', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ image: base64, engine: engineId, page, regionId }),
+    });
+    const result = await response.json();
+    if (!result.success) return { success: false, error: result.error || '未知錯誤' };
+    const text = typeof result.text === 'string' ? result.text.trim() : '';
+    if (!text) return { success: false, error: 'OCR 未識別出文字' };
+    if (isGarbledText(text)) return { success: false, error: 'OCR 結果為亂碼' };
+    return { success: true, text };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : '未知錯誤' };
+  }
+}
+
+/** 區域識別（亂碼 / 空文字區域自動識別用）：ocrEngine 非空時先走本機 OCR，失敗才送 AI（recognizeRegionWithRetry）；
+ *  版面分析模式（layout:text）不呼叫 AI，OCR 失敗或未設定即回傳失敗。成功時附 source 供 Region.textSource */
+export async function recognizeRegionText(
+  base64: string,
+  ocrEngine: string,
+  promptText: string,
+  modelId: string,
+  page: number,
+  regionId: number,
+  apiKey?: string,
+  openRouterApiKey?: string,
+  cache?: AiCacheOptions,
+  onUsage?: UsageRecorder,
+  fileName?: string,
+): Promise<{ success: boolean; text?: string; error?: string; source?: RegionTextSource }> {
+  let ocrError = '';
+  if (ocrEngine) {
+    const ocr = await ocrRegion(base64, ocrEngine, page, regionId);
+    if (ocr.success) return { ...ocr, source: 'ocr' };
+    ocrError = ocr.error ?? '';
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.log(`[analysisHelpers][${ts}] 🔤 Region p${page}r${regionId}: OCR 失敗（${ocrError}）${isLayoutModel(modelId) ? '' : '，改送 AI'}`);
+  }
+  if (isLayoutModel(modelId)) {
+    return { success: false, error: ocrError ? `OCR ${ocrError}` : '版面分析模式不呼叫 AI（可在設定啟用本機 OCR）' };
+  }
+  const result = await recognizeRegionWithRetry(
+    base64, promptText, modelId, page, regionId, apiKey, openRouterApiKey, cache, onUsage, fileName,
+  );
+  return result.success ? { ...result, source: 'ai' } : result;
+}
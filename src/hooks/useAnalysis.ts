@@ -1,7 +1,7 @@
 /**
  * 功能：PDF 頁面分析核心邏輯 Custom Hook
  * 職責：跨檔案 worker pool 並行分析、空文字 region 自動 AI 識別（統一隊列）、單頁重送、佇列頁面取消、per-file 停止（不影響 pool）、per-file analyzingPagesMap、整合雙擊識別、券商校正後動態恢復被省略頁面
- * 依賴：react、pdfjs、types、analysisHelpers（含 cropRegionToBase64/recognizeRegionWithRetry）、useRegionRecognize
+ * 依賴：react、pdfjs、types、analysisHelpers（含 cropRegionToBase64/recognizeRegionText）、useRegionRecognize
  *
  * 重要設計：
  * - 所有非同步操作都傳入 pdfDoc 快照 + sessionId，避免切換檔案後存取已銷毀的 PDF document
@@ -14,25 +14,37 @@
  * - 統一隊列：空文字 region 的識別任務統一插入 worker pool 的 taskQueue 前端（插隊），與頁面分析共用 batchSize 並行度
  * - addRecognizeTasksRef：pool 跑中時，handleReanalyzePage 的識別任務也注入同一隊列；pool 沒跑時用分批 Promise.all（此時只有它在呼叫 API，batchSize 自然有效）
  * - 雙擊區域識別委託給 useRegionRecognize hook，isAnalyzing 合併兩者狀態
+ * - AI 回應快取：所有 analyze/recognize 呼叫回報命中與否到 cacheStats；單頁重送可 bypassCache（連同該頁的識別任務）
+ * - 交叉比對模式：ensembleModel 非空（且與主模型不同）時改呼叫 analyzePageEnsemble，regions 在提取文字前以 IoU 合併
+ * - 頁面輸入格式：pdfInputModels 列出的模型改送單頁 PDF（由 analysisHelpers 依實際送出的模型判斷）
+ * - token 用量：所有 analyze/recognize 呼叫透過 makeUsageRecorder 同時寫入檔案（per-file + per-page）與 sessionUsage（本次工作階段）
+ * - 本機 OCR：ocrEngine 非空時，空文字 / 亂碼 region 的自動識別先走 OCR（recognizeRegionText），失敗才送 AI；結果記錄 textSource
+ * - 伺服器排隊：訂閱 analysisHelpers 回報的最近一次 queue 資訊（伺服器端限流的等待時間 / 排隊深度），供進度 UI 顯示
  */
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import type { pdfjs } from 'react-pdf';
 import { getPdfjs } from '@/lib/pdfjsLazy';
-import { Region } from '@/lib/types';
+import { Region, RegionOrderMode, UsageByModel, ServerQueueInfo } from '@/lib/types';
+import { addUsage } from '@/lib/usageCost';
+import { clearAiCache } from '@/lib/persistence';
 import {
   FileRegionsUpdater,
   FileReportUpdater,
   FileMetadataUpdater,
   FileProgressUpdater,
+  FileUsageUpdater,
+  UsageRecorder,
   analyzePageWithRetry,
+  analyzePageEnsemble,
   mergePageResult,
   cropRegionToBase64,
-  recognizeRegionWithRetry,
+  recognizeRegionText,
   isMalformedBbox,
   MAX_MALFORMED_RETRIES,
   hasNaNBbox,
   MAX_RETRIES,
+  subscribeServerQueue,
 } from './analysisHelpers';
 import useRegionRecognize from './useRegionRecognize';
 
@@ -46,6 +58,8 @@ interface UseAnalysisOptions {
   updateFileMetadata: FileMetadataUpdater;
   /** 更新指定檔案的 per-file 分析進度 */
   updateFileProgress: FileProgressUpdater;
+  /** 累加指定檔案指定頁的 token 用量 */
+  updateFileUsage: FileUsageUpdater;
   prompt: string;
   tablePrompt: string;
   model: string;
@@ -54,8 +68,20 @@ interface UseAnalysisOptions {
   apiKey: string;
   /** OpenRouter API 金鑰（用於 OpenRouter 模型如 Qwen） */
   openRouterApiKey: string;
+  /** AI 回應欄位映射（模型 JSON key → PageAnalysis 欄位） */
+  responseFieldMap: Record<string, string>;
+  /** 交叉比對模型（空字串 = 關閉；設定後每頁同時送主模型與此模型，regions 以 IoU 合併） */
+  ensembleModel: string;
+  /** 改送單頁 PDF（而非 JPEG）的模型 ID 清單 */
+  pdfInputModels: string[];
+  /** 本機 OCR 引擎 id（空字串 = 關閉；空文字 / 亂碼 region 先以 OCR 識別，失敗才送 AI） */
+  ocrEngine: string;
   /** 按需載入指定檔案的 PDFDocumentProxy（快取 miss 時用）*/
   loadPdfDoc: (fileId: string) => Promise<pdfjs.PDFDocumentProxy | null>;
+  /** 取得指定檔案的檔名（隨 API 請求送出，供模擬模型選 fixture） */
+  getFileName: (fileId: string) => string | undefined;
+  /** 取得指定檔案的 region 排序模式（頁面分析 merge 時套用） */
+  getRegionOrder: (fileId: string) => RegionOrderMode;
 }
 
 export default function useAnalysis({
@@ -64,13 +90,20 @@ export default function useAnalysis({
   updateFileReport,
   updateFileMetadata,
   updateFileProgress,
+  updateFileUsage,
   prompt,
   tablePrompt,
   model,
   batchSize,
   apiKey,
   openRouterApiKey,
+  responseFieldMap,
+  ensembleModel,
+  pdfInputModels,
+  ocrEngine,
   loadPdfDoc,
+  getFileName,
+  getRegionOrder,
 }: UseAnalysisOptions) {
   const [batchIsAnalyzing, setBatchIsAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState({ current: 0, total: 0 });
@@ -86,7 +119,7 @@ export default function useAnalysis({
   // 動態插入頁面到 worker pool 的 taskQueue（由 analyzeAllPages closure 內設定，外部透過此 ref 呼叫）
   const addPagesToQueueRef = useRef<((fileId: string, pageNums: number[]) => void) | null>(null);
   // 動態插入識別任務到 worker pool 的 taskQueue（pool 跑中時，handleReanalyzePage 的識別任務注入同一隊列）
-  const addRecognizeTasksRef = useRef<((fileId: string, pageNum: number, regions: Region[], pdfDoc: pdfjs.PDFDocumentProxy) => void) | null>(null);
+  const addRecognizeTasksRef = useRef<((fileId: string, pageNum: number, regions: Region[], pdfDoc: pdfjs.PDFDocumentProxy, bypassCache?: boolean) => void) | null>(null);
 
   // 用來在分析被中斷時標記
   const abortRef = useRef(false);
@@ -100,6 +133,46 @@ export default function useAnalysis({
   const analysisFileIdRef = useRef<string | null>(null);
   // 是否由使用者主動停止（用於區分 stopped vs done 狀態）
   const stoppedByUserRef = useRef(false);
+  // 回應欄位映射（ref：跑中的 worker pool 也讀到最新映射，不必重建 analyzeAllPages）
+  const responseFieldMapRef = useRef(responseFieldMap);
+  responseFieldMapRef.current = responseFieldMap;
+  // 交叉比對模型（ref：同 responseFieldMapRef，跑中的 pool 也讀到最新設定）
+  const ensembleModelRef = useRef(ensembleModel);
+  ensembleModelRef.current = ensembleModel;
+  // PDF 輸入模型清單（ref：同上）
+  const pdfInputModelsRef = useRef(pdfInputModels);
+  pdfInputModelsRef.current = pdfInputModels;
+  // 本機 OCR 引擎（ref：同上）
+  const ocrEngineRef = useRef(ocrEngine);
+  ocrEngineRef.current = ocrEngine;
+  // AI 回應快取命中統計（本次工作階段累計，供進度 UI 顯示）
+  const [cacheStats, setCacheStats] = useState({ hits: 0, misses: 0 });
+
+  /** 記錄一次快取查詢結果 */
+  const recordCacheResult = useCallback((hit: boolean) => {
+    setCacheStats((prev) => (hit ? { ...prev, hits: prev.hits + 1 } : { ...prev, misses: prev.misses + 1 }));
+  }, []);
+
+  /** 清空本機 AI 回應快取（伺服器端快取不受影響）並歸零命中統計 */
+  const handleClearAiCache = useCallback(async () => {
+    await clearAiCache();
+    setCacheStats({ hits: 0, misses: 0 });
+  }, []);
+  // token 用量（本次工作階段累計，依模型分組；重新整理後歸零，per-file 用量則隨 session 持久化）
+  const [sessionUsage, setSessionUsage] = useState<UsageByModel>({});
+
+  /** 建立指定檔案指定頁的用量回報器（同時累加到檔案與本次工作階段） */
+  const makeUsageRecorder = useCallback(
+    (fileId: string, pageNum: number): UsageRecorder => (modelId, usage) => {
+      updateFileUsage(fileId, pageNum, modelId, usage);
+      setSessionUsage((prev) => addUsage(prev, modelId, usage));
+    },
+    [updateFileUsage]
+  );
+
+  // 伺服器排隊狀態（最近一次 analyze/recognize 回應附帶的 queue；未啟用限流或未排隊時 waitMs / depth 為 0）
+  const [serverQueue, setServerQueue] = useState<ServerQueueInfo | null>(null);
+  useEffect(() => subscribeServerQueue(setServerQueue), []);
 
   /** 檢查 session 是否仍有效 */
   const isSessionValid = useCallback((sessionId: number) => {
@@ -139,8 +212,11 @@ export default function useAnalysis({
     updateFileProgress,
     tablePrompt,
     model,
+    ocrEngine,
     apiKey,
     openRouterApiKey,
+    makeUsageRecorder,
+    getFileName,
   });
 
   // 合併分析狀態：批次分析 或 區域識別 任一進行中即為 true
@@ -201,7 +277,8 @@ export default function useAnalysis({
 
       // === 跨檔案 worker pool 資料結構 ===
       // recognizeRegion 有值 = 區域識別任務（插隊到 queue 前端，與頁面分析共用 worker pool）
-      const taskQueue: { fileId: string; pageNum: number; recognizeRegion?: Region }[] = [];
+      // bypassCache：來自略過快取的單頁重送（識別時也不查快取），或畸形 / NaN bbox 退回重跑的頁面分析
+      const taskQueue: { fileId: string; pageNum: number; recognizeRegion?: Region; bypassCache?: boolean }[] = [];
       const pdfDocMap = new Map<string, pdfjs.PDFDocumentProxy>();
       const totalPerFile = new Map<string, number>();
       const completedPerFile = new Map<string, number>();
@@ -320,7 +397,7 @@ export default function useAnalysis({
       };
 
       // === 動態注入識別任務到 worker pool（handleReanalyzePage 用）===
-      addRecognizeTasksRef.current = (fileId: string, pageNum: number, regions: Region[], pdfDoc: pdfjs.PDFDocumentProxy) => {
+      addRecognizeTasksRef.current = (fileId: string, pageNum: number, regions: Region[], pdfDoc: pdfjs.PDFDocumentProxy, bypassCache?: boolean) => {
         if (!isSessionValid(sessionId)) return;
 
         // 確保 pdfDoc 可用（檔案可能已被 pool 標為完成並銷毀 pdfDocMap 中的 doc）
@@ -332,7 +409,7 @@ export default function useAnalysis({
         fileCompletedSet.delete(fileId);
 
         // 插入識別任務到 queue 前端（插隊）
-        const recognizeTasks = regions.map((r) => ({ fileId, pageNum, recognizeRegion: r }));
+        const recognizeTasks = regions.map((r) => ({ fileId, pageNum, recognizeRegion: r, bypassCache }));
         taskQueue.unshift(...recognizeTasks);
 
         // 更新計數
@@ -479,7 +556,7 @@ export default function useAnalysis({
         a[0] === b[0] && a[1] === b[1] && a[2] === b[2] && a[3] === b[3];
 
       // === 處理單一任務（頁面分析 或 區域識別）===
-      const processTask = async (task: { fileId: string; pageNum: number; recognizeRegion?: Region }) => {
+      const processTask = async (task: { fileId: string; pageNum: number; recognizeRegion?: Region; bypassCache?: boolean }) => {
         const { fileId, pageNum } = task;
         if (!isSessionValid(sessionId)) return;
 
@@ -509,7 +586,11 @@ export default function useAnalysis({
             const arTs = new Date().toLocaleTimeString('en-US', { hour12: false });
             console.log(`[useAnalysis][${arTs}] 📐 Auto-recognize region bbox=[${regionBbox}]: ${width}x${height}px, ${sizeKB} KB`);
 
-            const recognizeResult = await recognizeRegionWithRetry(base64, tablePromptText, modelId, pageNum, region.id, apiKeyText, openRouterApiKeyText);
+            const recognizeResult = await recognizeRegionText(
+              base64, ocrEngineRef.current, tablePromptText, modelId, pageNum, region.id, apiKeyText, openRouterApiKeyText,
+              { bypass: task.bypassCache, onResult: recordCacheResult }, makeUsageRecorder(fileId, pageNum),
+              getFileName(fileId),
+            );
 
             if (!isSessionValid(sessionId)) return;
 
@@ -519,7 +600,9 @@ export default function useAnalysis({
                 const rs = updated.get(pageNum);
                 if (rs) {
                   updated.set(pageNum, rs.map((r) =>
-                    bboxEq(r.bbox, regionBbox) && !r.userModified ? { ...r, text: recognizeResult.text!, userModified: true } : r
+                    bboxEq(r.bbox, regionBbox) && !r.userModified
+                      ? { ...r, text: recognizeResult.text!, textSource: recognizeResult.source, confidence: undefined, userModified: true }
+                      : r
                   ));
                 }
                 return updated;
@@ -586,7 +669,18 @@ export default function useAnalysis({
         });
         addAnalyzingPage(fileId, pageNum);
 
-        const result = await analyzePageWithRetry(pageNum, promptText, modelId, pdfDoc, sessionId, isSessionValid, apiKeyText, openRouterApiKeyText);
+        const ensembleModelId = ensembleModelRef.current;
+        const result = ensembleModelId && ensembleModelId !== modelId
+          ? await analyzePageEnsemble(
+            pageNum, promptText, modelId, ensembleModelId, pdfDoc, sessionId, isSessionValid, apiKeyText, openRouterApiKeyText,
+            responseFieldMapRef.current, { bypass: task.bypassCache, onResult: recordCacheResult }, makeUsageRecorder(fileId, pageNum),
+            getFileName(fileId), pdfInputModelsRef.current,
+          )
+          : await analyzePageWithRetry(
+            pageNum, promptText, modelId, pdfDoc, sessionId, isSessionValid, apiKeyText, openRouterApiKeyText,
+            responseFieldMapRef.current, { bypass: task.bypassCache, onResult: recordCacheResult }, makeUsageRecorder(fileId, pageNum),
+            getFileName(fileId), pdfInputModelsRef.current,
+          );
 
         // 分析完成，移除標記
         removeAnalyzingPage(fileId, pageNum);
@@ -604,7 +698,8 @@ export default function useAnalysis({
             const retryCount = malformedRetryMap.get(retryKey) || 0;
             if (retryCount < MAX_MALFORMED_RETRIES) {
               malformedRetryMap.set(retryKey, retryCount + 1);
-              taskQueue.unshift({ fileId, pageNum });
+              // 略過快取重跑：否則重跑會再命中同一份結果（舊版快取或 ensemble 另一模型的快取）
+              taskQueue.unshift({ fileId, pageNum, bypassCache: true });
               setQueuedPagesMap((prev) => {
                 const nm = new Map(prev);
                 const s = new Set(nm.get(fileId) || []);
@@ -632,7 +727,8 @@ export default function useAnalysis({
             const retryCount = malformedRetryMap.get(retryKey) || 0;
             if (retryCount < MAX_RETRIES) {
               malformedRetryMap.set(retryKey, retryCount + 1);
-              taskQueue.unshift({ fileId, pageNum });
+              // 略過快取重跑：否則重跑會再命中同一份結果（舊版快取或 ensemble 另一模型的快取）
+              taskQueue.unshift({ fileId, pageNum, bypassCache: true });
               setQueuedPagesMap((prev) => {
                 const nm = new Map(prev);
                 const s = new Set(nm.get(fileId) || []);
@@ -663,6 +759,7 @@ export default function useAnalysis({
             updateFileRegions,
             updateFileReport,
             updateFileMetadata,
+            getRegionOrder(fileId),
           );
 
           // === 空文字 region → 插入識別任務到 queue 前端（插隊，與頁面分析並行處理）===
@@ -734,7 +831,7 @@ export default function useAnalysis({
         console.log(`[useAnalysis][${endTimestamp}] 🏁 All analysis complete (session=${sessionId}).`);
       }
     },
-    [updateFileRegions, updateFileReport, updateFileMetadata, updateFileProgress, isSessionValid, addAnalyzingPage, removeAnalyzingPage]
+    [updateFileRegions, updateFileReport, updateFileMetadata, updateFileProgress, isSessionValid, addAnalyzingPage, removeAnalyzingPage, recordCacheResult, makeUsageRecorder, getFileName, getRegionOrder]
   );
 
   // === 停止分析 ===
@@ -831,8 +928,9 @@ export default function useAnalysis({
   // === 重新分析單頁（修正：支援多頁同時重送，計數會累加而非覆蓋）===
   // 單頁重送一定是活躍檔案，由外部傳入 targetFileId
   // 如果該頁在佇列中，先從佇列移除（標記 skipped），避免批次迴圈重複處理
+  // bypassCache：略過 AI 回應快取強制重新呼叫（新結果仍寫回快取），該頁的識別任務一併略過
   const handleReanalyzePage = useCallback(
-    async (pageNum: number, targetFileId: string) => {
+    async (pageNum: number, targetFileId: string, bypassCache = false) => {
       if (!targetFileId) return;
 
 
@@ -885,7 +983,7 @@ export default function useAnalysis({
       }
 
       const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
-      console.log(`[useAnalysis][${ts}] 🔄 Re-analyzing page ${pageNum}...`);
+      console.log(`[useAnalysis][${ts}] 🔄 Re-analyzing page ${pageNum}${bypassCache ? ' (bypass cache)' : ''}...`);
 
       // 重置 abort 標記（切檔時 invalidateSession 會設為 true，單頁重送需要恢復）
       abortRef.current = false;
@@ -905,7 +1003,18 @@ export default function useAnalysis({
       // 標記此頁正在分析（per-file）
       addAnalyzingPage(targetFileId, pageNum);
 
-      const result = await analyzePageWithRetry(pageNum, prompt, model, pdfDoc, sessionId, isSessionValid, apiKey, openRouterApiKey);
+      const cacheOptions = { bypass: bypassCache, onResult: recordCacheResult };
+      const recordUsage = makeUsageRecorder(targetFileId, pageNum);
+      const ensembleModelId = ensembleModelRef.current;
+      const result = ensembleModelId && ensembleModelId !== model
+        ? await analyzePageEnsemble(
+          pageNum, prompt, model, ensembleModelId, pdfDoc, sessionId, isSessionValid, apiKey, openRouterApiKey,
+          responseFieldMapRef.current, cacheOptions, recordUsage, getFileName(targetFileId), pdfInputModelsRef.current,
+        )
+        : await analyzePageWithRetry(
+          pageNum, prompt, model, pdfDoc, sessionId, isSessionValid, apiKey, openRouterApiKey,
+          responseFieldMapRef.current, cacheOptions, recordUsage, getFileName(targetFileId), pdfInputModelsRef.current,
+        );
 
       // 完成：累加 current，而非直接設定
       setAnalysisProgress((prev) => ({
@@ -930,6 +1039,7 @@ export default function useAnalysis({
           updateFileRegions,
           updateFileReport,
           updateFileMetadata,
+          getRegionOrder(targetFileId),
         );
 
         // === 空文字 region → 識別任務進入隊列 ===
@@ -960,7 +1070,7 @@ export default function useAnalysis({
             injectedToPool = true;
             const arTs = new Date().toLocaleTimeString('en-US', { hour12: false });
             console.log(`[useAnalysis][${arTs}] 🔍 Injecting ${emptyRegions.length} recognize task(s) from re-analyzed page ${pageNum} into pool queue`);
-            addRecognizeTasksRef.current(targetFileId, pageNum, emptyRegions, pdfDoc);
+            addRecognizeTasksRef.current(targetFileId, pageNum, emptyRegions, pdfDoc, bypassCache);
           } else {
             // === Pool 沒在跑：用分批 Promise.all（此時只有這裡在呼叫 API，batchSize 自然有效）===
             const arTs = new Date().toLocaleTimeString('en-US', { hour12: false });
@@ -983,7 +1093,10 @@ export default function useAnalysis({
                 const arTs2 = new Date().toLocaleTimeString('en-US', { hour12: false });
                 console.log(`[useAnalysis][${arTs2}] 📐 Auto-recognize region bbox=[${regionBbox}]: ${width}x${height}px, ${sizeKB} KB`);
 
-                const recognizeResult = await recognizeRegionWithRetry(base64, tablePrompt, model, pageNum, region.id, apiKey, openRouterApiKey);
+                const recognizeResult = await recognizeRegionText(
+                  base64, ocrEngineRef.current, tablePrompt, model, pageNum, region.id, apiKey, openRouterApiKey, cacheOptions, recordUsage,
+                  getFileName(targetFileId),
+                );
 
                 if (!isSessionValid(sessionId)) return;
 
@@ -993,7 +1106,9 @@ export default function useAnalysis({
                     const rs = updated.get(pageNum);
                     if (rs) {
                       updated.set(pageNum, rs.map((r) =>
-                        bboxEq2(r.bbox, regionBbox) && !r.userModified ? { ...r, text: recognizeResult.text!, userModified: true } : r
+                        bboxEq2(r.bbox, regionBbox) && !r.userModified
+                          ? { ...r, text: recognizeResult.text!, textSource: recognizeResult.source, confidence: undefined, userModified: true }
+                          : r
                       ));
                     }
                     return updated;
@@ -1066,7 +1181,7 @@ export default function useAnalysis({
         }
       }
     },
-    [prompt, model, tablePrompt, batchSize, apiKey, openRouterApiKey, pdfDocRef, updateFileRegions, updateFileReport, updateFileMetadata, updateFileProgress, isSessionValid, queuedPagesMap, addAnalyzingPage, removeAnalyzingPage, loadPdfDoc]
+    [prompt, model, tablePrompt, batchSize, apiKey, openRouterApiKey, pdfDocRef, updateFileRegions, updateFileReport, updateFileMetadata, updateFileProgress, isSessionValid, queuedPagesMap, addAnalyzingPage, removeAnalyzingPage, loadPdfDoc, recordCacheResult, makeUsageRecorder, getFileName, getRegionOrder]
   );
 
   return {
@@ -1097,5 +1212,13 @@ export default function useAnalysis({
     initialSkipRef,
     /** 動態插入頁面到佇列（券商校正後恢復被省略頁面） */
     addPagesToQueueRef,
+    /** AI 回應快取命中 / 未命中次數（本次工作階段累計） */
+    cacheStats,
+    /** 清空本機 AI 回應快取 */
+    handleClearAiCache,
+    /** token 用量（本次工作階段累計，依模型分組） */
+    sessionUsage,
+    /** 最近一次伺服器排隊資訊（等待時間 / 前方請求數） */
+    serverQueue,
   };
 }
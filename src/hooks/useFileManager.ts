@@ -2,8 +2,13 @@
  * 功能：多檔案生命週期管理 Custom Hook
  * 職責：管理 files[] 狀態（唯一資料來源）、PDF 預載快取、分析佇列協調、檔案上傳（三模式：背景跑/當前頁並跑/僅加入列表）/刪除/清空、
  *       整合 useAnalysis hook、PDF Document 載入回呼、分析完成收尾、mountedFileIds 衍生計算、券商映射正規化、
- *       per-file 停止（handleStopFile）、重新分析排隊制（handleReanalyzeFile + priorityFileIdRef）
- * 依賴：react、react-pdf (pdfjs)、useAnalysis hook、brokerUtils、persistence (IndexedDB)
+ *       per-file 停止（handleStopFile）、重新分析排隊制（handleReanalyzeFile + priorityFileIdRef）、per-file / per-page token 用量累計、
+ *       per-file region 排序模式（setFileRegionOrder：AI 順序 / 版面閱讀順序，切換時重排所有頁）、
+ *       股票代號以證券主檔驗證（檔名公司名稱反查代號、AI / 手動輸入的公司名稱轉代號、已選未知代號時改選主檔代號）、
+ *       檔名解析先套用使用者自訂檔名規則、上傳後於 AI 分析前從首頁文字層預填 metadata 候選（來源 textlayer）、
+ *       metadata 跨頁共識（候選值記錄 AI 回傳頁碼，信心達門檻自動選取；使用者手動確認的欄位不再自動改選）、
+ *       上傳後從文字層偵測末尾樣板頁決定略過頁數（未偵測到時退回券商忽略頁數）
+ * 依賴：react、react-pdf (pdfjs)、useAnalysis hook、brokerUtils、filenameRules、textLayerMetadata、metadataConsensus、boilerplatePages、securities、readingOrder、persistence (IndexedDB)
  *
  * 重要設計：
  * - files 陣列是唯一資料來源（Single Source of Truth），每個 FileEntry 擁有自己的 pageRegions
@@ -16,9 +21,18 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import type { pdfjs } from 'react-pdf';
 import { getPdfjs } from '@/lib/pdfjsLazy';
-import { Region, FileEntry, MetadataCandidate } from '@/lib/types';
-import { FileProgressUpdater } from '@/hooks/analysisHelpers';
+import { Region, FileEntry, MetadataCandidate, MetadataField, UsageByModel, ServerQueueInfo, RegionOrderMode } from '@/lib/types';
+import { modelHasKey } from '@/lib/constants';
+import { addUsage } from '@/lib/usageCost';
+import { applyRegionOrder } from '@/lib/readingOrder';
+import { FileProgressUpdater, FileUsageUpdater } from '@/hooks/analysisHelpers';
 import { buildBrokerAliasMap, normalizeBrokerByAlias, parseMetadataFromFilename } from '@/lib/brokerUtils';
+import { SecurityIndex, isUnknownSecurityCode, resolveSecurity } from '@/lib/securities';
+import { FilenameRule } from '@/lib/filenameRules';
+import { extractMetadataFromText } from '@/lib/textLayerMetadata';
+import { CONSENSUS_AUTO_SELECT_THRESHOLD, computeFieldConsensus } from '@/lib/metadataConsensus';
+import { readPageText } from '@/lib/pdfTextExtract';
+import { BOILERPLATE_SCAN_MAX_PAGES, detectTrailingBoilerplate, lookupFileSkip } from '@/lib/boilerplatePages';
 import useAnalysis from '@/hooks/useAnalysis';
 import { saveSession, loadSession, savePdfBlob, deletePdfBlob, clearAll as clearAllPersistence } from '@/lib/persistence';
 
@@ -41,23 +55,33 @@ function generateFileId(): string {
   return `file-${Date.now()}-${++_fileIdCounter}`;
 }
 
-type MetadataField = 'date' | 'code' | 'broker';
-
 function normalizeMetaValue(value: string): string {
   return value.trim();
 }
 
+/** 追加候選值；同值已存在時只累計 AI 回傳頁碼（保留最先出現的來源） */
 function appendMetaCandidate(
   prev: MetadataCandidate[] | undefined,
   rawValue: string | undefined,
   source: MetadataCandidate['source'],
+  page?: number,
 ): MetadataCandidate[] {
   const value = normalizeMetaValue(rawValue || '');
   const base = prev ?? [];
   if (!value) return base;
-  const existed = base.some((c) => normalizeMetaValue(c.value).toLowerCase() === value.toLowerCase());
-  if (existed) return base;
-  return [...base, { value, source }];
+  const idx = base.findIndex((c) => normalizeMetaValue(c.value).toLowerCase() === value.toLowerCase());
+  if (idx >= 0) {
+    const existing = base[idx];
+    if (page === undefined || existing.pages?.includes(page)) return base;
+    return base.map((c, i) => (i === idx ? { ...c, pages: [...(c.pages ?? []), page] } : c));
+  }
+  return [...base, { value, source, ...(page !== undefined && { pages: [page] }) }];
+}
+
+/** 加入 / 移除使用者已確認欄位 */
+function withConfirmed(confirmed: MetadataField[] | undefined, field: MetadataField, on: boolean): MetadataField[] {
+  const rest = (confirmed ?? []).filter((f) => f !== field);
+  return on ? [...rest, field] : rest;
 }
 
 function removeMetaCandidate(
@@ -77,17 +101,6 @@ function getFieldKeys(field: MetadataField): {
   return { candidates: 'brokerCandidates', selected: 'selectedBroker' };
 }
 
-/** 查找券商忽略末尾頁數：優先用原始名稱（如「凱基(一般報告)」），找不到才用已映射名稱 */
-function lookupBrokerSkip(
-  entry: FileEntry | null | undefined,
-  skipMap: Record<string, number>,
-): number | undefined {
-  if (!entry) return undefined;
-  if (entry.report && skipMap[entry.report] !== undefined) return skipMap[entry.report];
-  if (entry.selectedBroker && skipMap[entry.selectedBroker] !== undefined) return skipMap[entry.selectedBroker];
-  return undefined;
-}
-
 // === Hook 輸入介面 ===
 interface UseFileManagerOptions {
   prompt: string;
@@ -101,6 +114,18 @@ interface UseFileManagerOptions {
   apiKey: string;
   /** OpenRouter API 金鑰（用於 OpenRouter 模型如 Qwen） */
   openRouterApiKey: string;
+  /** AI 回應欄位映射（模型 JSON key → PageAnalysis 欄位） */
+  responseFieldMap: Record<string, string>;
+  /** 交叉比對模型（空字串 = 關閉） */
+  ensembleModel: string;
+  /** 改送單頁 PDF（而非 JPEG）的模型 ID 清單 */
+  pdfInputModels: string[];
+  /** 本機 OCR 引擎 id（空字串 = 關閉） */
+  ocrEngine: string;
+  /** 證券主檔索引（空主檔 = 不驗證代號） */
+  securityIndex: SecurityIndex;
+  /** 自訂檔名解析規則（先於內建規則套用） */
+  filenameRules: FilenameRule[];
 }
 
 // === Hook 輸出介面 ===
@@ -133,8 +158,8 @@ export interface FileManagerResult {
   error: string | null;
   handleStop: () => void;
   handleReanalyze: (numPages: number, targetFileId: string, fileUrl: string) => void;
-  handleReanalyzePage: (pageNum: number, fileId: string) => void;
-  handleRegionDoubleClick: (page: number, region: Region, fileId: string) => void;
+  handleReanalyzePage: (pageNum: number, fileId: string, bypassCache?: boolean) => void;
+  handleRegionDoubleClick: (page: number, region: Region, fileId: string, skipTextLayer?: boolean) => void;
   analyzingPagesMap: Map<string, Set<number>>;
   queuedPagesMap: Map<string, Set<number>>;
   cancelQueuedPage: (fileId: string, pageNum: number) => void;
@@ -145,6 +170,14 @@ export interface FileManagerResult {
   handleReanalyzeFile: (numPages: number, targetFileId: string, fileUrl: string) => void;
   /** 觸發佇列處理（將 queued 檔案開始分析） */
   triggerQueueProcessing: () => void;
+  /** AI 回應快取命中 / 未命中次數 */
+  cacheStats: { hits: number; misses: number };
+  /** 清空本機 AI 回應快取 */
+  handleClearAiCache: () => Promise<void>;
+  /** token 用量（本次工作階段累計，依模型分組） */
+  sessionUsage: UsageByModel;
+  /** 最近一次伺服器排隊資訊（伺服器端限流的等待時間 / 前方請求數） */
+  serverQueue: ServerQueueInfo | null;
   /** 設定指定欄位為已確認值（不刪除其他候選值） */
   selectFileMetadata: (fileId: string, field: MetadataField, value: string) => void;
   /** 新增指定欄位候選值（手動輸入） */
@@ -153,6 +186,8 @@ export interface FileManagerResult {
   removeFileMetadataCandidate: (fileId: string, field: MetadataField, value: string) => void;
   /** 清空指定欄位所有候選值 */
   clearFileMetadataCandidates: (fileId: string, field: MetadataField) => void;
+  /** 切換指定檔案的 region 排序模式，並依新模式重排所有已分析頁 */
+  setFileRegionOrder: (fileId: string, mode: RegionOrderMode) => void;
 
   // Derived
   mountedFileIds: Set<string>;
@@ -168,6 +203,12 @@ export default function useFileManager({
   brokerAliasGroups,
   apiKey,
   openRouterApiKey,
+  responseFieldMap,
+  ensembleModel,
+  pdfInputModels,
+  ocrEngine,
+  securityIndex,
+  filenameRules,
 }: UseFileManagerOptions): FileManagerResult {
   // === 多檔案狀態 ===
   const [files, setFiles] = useState<FileEntry[]>([]);
@@ -232,14 +273,84 @@ export default function useFileManager({
     return normalizeBrokerByAlias(raw, brokerAliasMapRef.current)?.trim() || '';
   }, []);
 
+  // === 證券主檔 ref（檔名解析 / 代號正規化在 callback 內讀最新值）===
+  const securityIndexRef = useRef(securityIndex);
+  useEffect(() => {
+    securityIndexRef.current = securityIndex;
+  }, [securityIndex]);
+  const filenameRulesRef = useRef(filenameRules);
+  useEffect(() => {
+    filenameRulesRef.current = filenameRules;
+  }, [filenameRules]);
+
+  /** 代號正規化：主檔中的代號或公司名稱（AI 常回傳「聯發科」）轉成主檔代號，查無則原樣保留 */
+  const normalizeStockCode = useCallback((raw: string): string => {
+    return resolveSecurity(securityIndexRef.current, raw)?.code ?? raw;
+  }, []);
+
+  /** 代號是否為主檔查無的未知代號（主檔為空時一律視為已知） */
+  const isUnknownStockCode = useCallback((code: string | undefined): boolean => {
+    return isUnknownSecurityCode(securityIndexRef.current, code);
+  }, []);
+
   // cancelQueuedPage 來自 useAnalysis（在 updateFileReport 之後才可用），用 ref 橋接
   const cancelQueuedPageRef = useRef<(fid: string, p: number) => void>(() => {});
   // 防止同一檔案重複恢復被省略頁面（多頁回傳同一券商名時只執行一次）
   const brokerPagesRestoredRef = useRef<Set<string>>(new Set());
 
+  /** 依新的忽略末尾頁數調整已啟動分析的排隊頁面（與分析啟動時實際使用的 skip 值比較）
+   *  - newSkip > initialSkip → 取消多餘排隊頁面
+   *  - newSkip < initialSkip → 恢復被省略的頁面（插隊到佇列正確位置）
+   *  onlyIfStarted：尚未啟動分析的檔案不調整（啟動時由 lookupFileSkip 取得新的 skip）
+   */
+  const adjustTrailingSkip = useCallback(
+    (targetFileId: string, numPages: number, newSkip: number, onlyIfStarted = false) => {
+      if (onlyIfStarted && !initialSkipRef.current.has(targetFileId)) return;
+      // 使用分析啟動時實際的 effectiveSkip（而非全域預設值），正確處理「檔名誤判券商」的情況
+      const usedSkip = initialSkipRef.current.get(targetFileId) ?? skipLastPagesRef.current;
+      const oldPages = Math.max(1, numPages - usedSkip);
+      const newPages = Math.max(1, numPages - newSkip);
+      const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+      console.log(
+        `[useFileManager][${ts}] 📏 Trailing skip for ${targetFileId}: newSkip=${newSkip}, initialSkip=${usedSkip}, globalDefault=${skipLastPagesRef.current}`
+      );
+
+      // 若需分析更少頁面（newSkip > initialSkip），取消多餘排隊頁面
+      if (newPages < oldPages) {
+        for (let p = newPages + 1; p <= oldPages; p++) {
+          cancelQueuedPageRef.current(targetFileId, p);
+        }
+        console.log(
+          `[useFileManager][${ts}] ⏭️ Cancelled queued pages ${newPages + 1}–${oldPages} for file ${targetFileId}`
+        );
+      }
+
+      // 若需分析更多頁面（newSkip < initialSkip），恢復被省略的頁面到佇列
+      if (newPages > oldPages && !brokerPagesRestoredRef.current.has(targetFileId)) {
+        brokerPagesRestoredRef.current.add(targetFileId);
+        const pagesToAdd: number[] = [];
+        for (let p = oldPages + 1; p <= newPages; p++) {
+          pagesToAdd.push(p);
+        }
+        if (addPagesToQueueRef.current) {
+          addPagesToQueueRef.current(targetFileId, pagesToAdd);
+          console.log(
+            `[useFileManager][${ts}] ➕ Restored pages ${oldPages + 1}–${newPages} to queue for file ${targetFileId}`
+          );
+        } else {
+          console.warn(
+            `[useFileManager][${ts}] ⚠️ Cannot restore pages ${oldPages + 1}–${newPages}: worker pool already finished`
+          );
+        }
+        // 更新 initialSkipRef 為新的 skip（避免後續重複計算差異）
+        initialSkipRef.current.set(targetFileId, newSkip);
+      }
+    },
+    []
+  );
+
   /** 更新指定檔案的券商名（report），並依券商特定忽略末尾頁數調整排隊頁面
-   *  - brokerSkip > initialSkip → 取消多餘排隊頁面
-   *  - brokerSkip < initialSkip → 恢復被省略的頁面（插隊到佇列正確位置）
+   *  文字層已偵測到末尾樣板頁的檔案以偵測結果為準，不再套用券商忽略頁數
    */
   const updateFileReport = useCallback(
     (targetFileId: string, report: string) => {
@@ -260,86 +371,113 @@ export default function useFileManager({
       const brokerSkip = brokerSkipMapRef.current[rawReport] ?? brokerSkipMapRef.current[canonicalReport];
       if (brokerSkip !== undefined) {
         const file = filesRef.current.find((f) => f.id === targetFileId);
-        if (file && file.numPages > 0) {
-          // 使用分析啟動時實際的 effectiveSkip（而非全域預設值），正確處理「檔名誤判券商」的情況
-          const usedSkip = initialSkipRef.current.get(targetFileId) ?? skipLastPagesRef.current;
-          const oldPages = Math.max(1, file.numPages - usedSkip);
-          const newPages = Math.max(1, file.numPages - brokerSkip);
+        if (file && file.numPages > 0 && !file.skippedPages?.length) {
           const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
           console.log(
-            `[useFileManager][${ts}] 🏢 Broker "${report}" detected (brokerSkip=${brokerSkip}, initialSkip=${usedSkip}, globalDefault=${skipLastPagesRef.current})`
+            `[useFileManager][${ts}] 🏢 Broker "${report}" detected (brokerSkip=${brokerSkip})`
           );
-
-          // 若需分析更少頁面（brokerSkip > initialSkip），取消多餘排隊頁面
-          if (newPages < oldPages) {
-            for (let p = newPages + 1; p <= oldPages; p++) {
-              cancelQueuedPageRef.current(targetFileId, p);
-            }
-            console.log(
-              `[useFileManager][${ts}] ⏭️ Cancelled queued pages ${newPages + 1}–${oldPages} for file ${targetFileId}`
-            );
-          }
-
-          // 若需分析更多頁面（brokerSkip < initialSkip），恢復被省略的頁面到佇列
-          if (newPages > oldPages && !brokerPagesRestoredRef.current.has(targetFileId)) {
-            brokerPagesRestoredRef.current.add(targetFileId);
-            const pagesToAdd: number[] = [];
-            for (let p = oldPages + 1; p <= newPages; p++) {
-              pagesToAdd.push(p);
-            }
-            if (addPagesToQueueRef.current) {
-              addPagesToQueueRef.current(targetFileId, pagesToAdd);
-              console.log(
-                `[useFileManager][${ts}] ➕ Restored pages ${oldPages + 1}–${newPages} to queue for file ${targetFileId}`
-              );
-            } else {
-              console.warn(
-                `[useFileManager][${ts}] ⚠️ Cannot restore pages ${oldPages + 1}–${newPages}: worker pool already finished`
-              );
-            }
-            // 更新 initialSkipRef 為新的 brokerSkip（避免後續重複計算差異）
-            initialSkipRef.current.set(targetFileId, brokerSkip);
-          }
+          adjustTrailingSkip(targetFileId, file.numPages, brokerSkip);
         }
       }
     },
-    [normalizeBrokerName]
+    [normalizeBrokerName, adjustTrailingSkip]
   );
 
   /** 追加指定檔案的 metadata 候選值（date/code/broker） */
   const updateFileMetadata = useCallback(
     (
       targetFileId: string,
-      patch: { date?: string; code?: string; broker?: string; source: MetadataCandidate['source'] },
+      patch: { date?: string; code?: string; broker?: string; source: MetadataCandidate['source']; page?: number },
     ) => {
+      const page = patch.source === 'ai' ? patch.page : undefined;
       setFiles((prev) =>
         prev.map((f) => {
           if (f.id !== targetFileId) return f;
 
           const nextDateCandidates = patch.date
-            ? appendMetaCandidate(f.dateCandidates, patch.date, patch.source)
+            ? appendMetaCandidate(f.dateCandidates, patch.date, patch.source, page)
             : f.dateCandidates;
-          const nextCodeCandidates = patch.code
-            ? appendMetaCandidate(f.codeCandidates, patch.code, patch.source)
+          const code = patch.code ? normalizeStockCode(normalizeMetaValue(patch.code)) : '';
+          const nextCodeCandidates = code
+            ? appendMetaCandidate(f.codeCandidates, code, patch.source, page)
             : f.codeCandidates;
           const nextBrokerCandidates = patch.broker
-            ? appendMetaCandidate(f.brokerCandidates, normalizeBrokerName(patch.broker), patch.source)
+            ? appendMetaCandidate(f.brokerCandidates, normalizeBrokerName(patch.broker), patch.source, page)
             : f.brokerCandidates;
 
+          // 使用者已確認的欄位維持原值；否則共識信心達門檻時改選共識值，未達門檻沿用原本的先到先選
+          const confirmed = f.confirmedMetadata ?? [];
+          const pick = (field: MetadataField, candidates: MetadataCandidate[] | undefined, current: string | undefined, fallback: string) => {
+            if (confirmed.includes(field)) return current ?? '';
+            const consensus = computeFieldConsensus(candidates ?? [], field === 'code' ? isUnknownStockCode : undefined);
+            return consensus.value && consensus.confidence >= CONSENSUS_AUTO_SELECT_THRESHOLD ? consensus.value : fallback;
+          };
+
           return {
             ...f,
             dateCandidates: nextDateCandidates,
             codeCandidates: nextCodeCandidates,
             brokerCandidates: nextBrokerCandidates,
-            selectedDate: f.selectedDate || normalizeMetaValue(patch.date || ''),
-            selectedCode: f.selectedCode || normalizeMetaValue(patch.code || ''),
-            selectedBroker: f.selectedBroker || normalizeBrokerName(patch.broker),
+            selectedDate: pick('date', nextDateCandidates, f.selectedDate, f.selectedDate || normalizeMetaValue(patch.date || '')),
+            // 已選代號為主檔查無的未知代號、而新候選在主檔中 → 改選主檔代號
+            selectedCode: pick(
+              'code', nextCodeCandidates, f.selectedCode,
+              f.selectedCode && !(isUnknownStockCode(f.selectedCode) && code && !isUnknownStockCode(code)) ? f.selectedCode : code,
+            ),
+            selectedBroker: pick('broker', nextBrokerCandidates, f.selectedBroker, f.selectedBroker || normalizeBrokerName(patch.broker)),
             report: patch.broker ? (patch.broker.trim() || f.report) : f.report,
           };
         })
       );
     },
-    [normalizeBrokerName]
+    [normalizeBrokerName, normalizeStockCode, isUnknownStockCode]
+  );
+
+  /** 從首頁文字層解析日期 / 代號 / 券商並追加為 textlayer 候選（不需 AI，分析略過或失敗時仍能預填） */
+  const prefillMetadataFromTextLayer = useCallback(
+    async (targetFileId: string, doc: pdfjs.PDFDocumentProxy) => {
+      const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+      try {
+        const text = await readPageText(await doc.getPage(1));
+        if (!filesRef.current.some((f) => f.id === targetFileId)) return;
+        const found = extractMetadataFromText(
+          text, Object.keys(brokerSkipMapRef.current), brokerAliasMapRef.current, securityIndexRef.current,
+        );
+        if (!found.date && !found.code && !found.broker) return;
+        console.log(
+          `[useFileManager][${ts}] 📝 Text-layer metadata for ${targetFileId}: date=${found.date ?? '-'}, code=${found.code ?? '-'}, broker=${found.broker ?? '-'}`
+        );
+        updateFileMetadata(targetFileId, { ...found, source: 'textlayer' });
+      } catch (e) {
+        console.warn(`[useFileManager][${ts}] ⚠️ Text-layer metadata failed for ${targetFileId}:`, e);
+      }
+    },
+    [updateFileMetadata]
+  );
+
+  /** 從文字層偵測末尾樣板頁（免責聲明 / 分析師聲明 / 評等定義），記錄到 skippedPages 並調整已啟動分析的排隊頁面 */
+  const detectSkippedPages = useCallback(
+    async (targetFileId: string, doc: pdfjs.PDFDocumentProxy) => {
+      const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+      try {
+        const pages: { page: number; text: string }[] = [];
+        const first = Math.max(2, doc.numPages - BOILERPLATE_SCAN_MAX_PAGES + 1);
+        for (let p = first; p <= doc.numPages; p++) {
+          pages.push({ page: p, text: await readPageText(await doc.getPage(p)) });
+        }
+        if (!filesRef.current.some((f) => f.id === targetFileId)) return;
+        const skippedPages = detectTrailingBoilerplate(pages);
+        setFiles((prev) => prev.map((f) => (f.id === targetFileId ? { ...f, skippedPages } : f)));
+        if (skippedPages.length === 0) return;
+        console.log(
+          `[useFileManager][${ts}] 🧾 Boilerplate pages for ${targetFileId}: ${skippedPages.map((s) => `p.${s.page}=${s.kind}`).join(', ')}`
+        );
+        adjustTrailingSkip(targetFileId, doc.numPages, skippedPages.length, true);
+      } catch (e) {
+        console.warn(`[useFileManager][${ts}] ⚠️ Boilerplate detection failed for ${targetFileId}:`, e);
+      }
+    },
+    [adjustTrailingSkip]
   );
 
   /** 設定指定欄位為已確認值（僅切換選中狀態，不刪除其他候選值） */
@@ -354,6 +492,7 @@ export default function useFileManager({
           ...f,
           [keys.selected]: field === 'broker' ? normalizeBrokerName(normalized) : normalized,
           ...(field === 'broker' ? { report: normalizeBrokerName(normalized) } : {}),
+          confirmedMetadata: withConfirmed(f.confirmedMetadata, field, true),
         };
       })
     );
@@ -367,21 +506,24 @@ export default function useFileManager({
     setFiles((prev) =>
       prev.map((f) => {
         if (f.id !== fileId) return f;
+        const nextValue = field === 'broker'
+          ? normalizeBrokerName(normalized)
+          : field === 'code' ? normalizeStockCode(normalized) : normalized;
         const nextCandidates = appendMetaCandidate(
           (f as FileEntry)[keys.candidates] as MetadataCandidate[] | undefined,
-          field === 'broker' ? normalizeBrokerName(normalized) : normalized,
+          nextValue,
           'manual',
         );
-        const nextValue = field === 'broker' ? normalizeBrokerName(normalized) : normalized;
         return {
           ...f,
           [keys.candidates]: nextCandidates,
           [keys.selected]: nextValue,
           ...(field === 'broker' ? { report: nextValue } : {}),
+          confirmedMetadata: withConfirmed(f.confirmedMetadata, field, true),
         };
       })
     );
-  }, [normalizeBrokerName]);
+  }, [normalizeBrokerName, normalizeStockCode]);
 
   /** 刪除指定欄位候選值 */
   const removeFileMetadataCandidate = useCallback((fileId: string, field: MetadataField, value: string) => {
@@ -403,6 +545,8 @@ export default function useFileManager({
           [keys.candidates]: nextCandidates,
           [keys.selected]: nextSelected,
           ...(field === 'broker' ? { report: nextSelected || f.report } : {}),
+          // 刪掉已確認的選中值 → 改回未確認（改選的 fallback 不算使用者確認）
+          ...(removedSelected && { confirmedMetadata: withConfirmed(f.confirmedMetadata, field, false) }),
         };
       })
     );
@@ -419,6 +563,7 @@ export default function useFileManager({
           [keys.candidates]: [],
           [keys.selected]: '',
           ...(field === 'broker' ? { report: '' } : {}),
+          confirmedMetadata: withConfirmed(f.confirmedMetadata, field, false),
         };
       })
     );
@@ -442,6 +587,20 @@ export default function useFileManager({
     []
   );
 
+  /** 累加指定檔案指定頁的 token 用量（per-file 合計 + per-page 明細） */
+  const updateFileUsage: FileUsageUpdater = useCallback(
+    (targetFileId, pageNum, modelId, usage) => {
+      setFiles((prev) =>
+        prev.map((f) => {
+          if (f.id !== targetFileId) return f;
+          const pageUsage = { ...f.pageUsage, [pageNum]: addUsage(f.pageUsage?.[pageNum], modelId, usage) };
+          return { ...f, usage: addUsage(f.usage, modelId, usage), pageUsage };
+        })
+      );
+    },
+    []
+  );
+
   /** 更新活躍檔案的 pageRegions（便利函式） */
   const updateActiveFileRegions = useCallback(
     (updater: (prev: Map<number, Region[]>) => Map<number, Region[]>) => {
@@ -463,6 +622,32 @@ export default function useFileManager({
    *  react-pdf 的 <Document> 內部建立的 doc 不在此 set 中，不可由我們 destroy。 */
   const selfLoadedDocIdsRef = useRef<Set<string>>(new Set());
 
+  // === 檔名查詢（隨 API 請求送出，供模擬模型選 fixture）===
+  const getFileName = useCallback(
+    (fileId: string) => filesRef.current.find((f) => f.id === fileId)?.name,
+    [],
+  );
+
+  // === region 排序模式查詢（頁面分析 merge 時套用）===
+  const getRegionOrder = useCallback(
+    (fileId: string): RegionOrderMode => filesRef.current.find((f) => f.id === fileId)?.regionOrder ?? 'ai',
+    [],
+  );
+
+  /** 切換 region 排序模式：記錄到檔案並重排所有頁（切回 ai 依 region id 還原模型回傳順序） */
+  const setFileRegionOrder = useCallback((fileId: string, mode: RegionOrderMode) => {
+    setFiles((prev) =>
+      prev.map((f) => {
+        if (f.id !== fileId) return f;
+        const pageRegions = new Map<number, Region[]>();
+        for (const [page, regions] of f.pageRegions) pageRegions.set(page, applyRegionOrder(regions, mode));
+        return { ...f, regionOrder: mode, pageRegions };
+      })
+    );
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.log(`[useFileManager][${ts}] 🔀 File ${fileId}: region order → ${mode}`);
+  }, []);
+
   // === 按需載入 pdfDoc（快取 miss 時用，如驅逐後切換回該檔案）===
   const loadPdfDocOnDemand = useCallback(async (fileId: string): Promise<pdfjs.PDFDocumentProxy | null> => {
     // 先檢查快取
@@ -509,19 +694,30 @@ export default function useFileManager({
     cancelQueuedPage,
     initialSkipRef,
     addPagesToQueueRef,
+    cacheStats,
+    handleClearAiCache,
+    sessionUsage,
+    serverQueue,
   } = useAnalysis({
     pdfDocRef,
     updateFileRegions,
     updateFileReport,
     updateFileMetadata,
     updateFileProgress,
+    updateFileUsage,
     prompt,
     tablePrompt,
     model,
     batchSize,
     apiKey,
     openRouterApiKey,
+    responseFieldMap,
+    ensembleModel,
+    pdfInputModels,
+    ocrEngine,
     loadPdfDoc: loadPdfDocOnDemand,
+    getFileName,
+    getRegionOrder,
   });
   // 橋接 cancelQueuedPage 到 ref（供 updateFileReport 回呼使用）
   cancelQueuedPageRef.current = cancelQueuedPage;
@@ -596,7 +792,7 @@ export default function useFileManager({
     }
 
     // 若檔案已有券商名且在 brokerSkipMap 中有設定，優先使用券商特定值
-    const effectiveSkip = lookupBrokerSkip(nextQueued, brokerSkipMapRef.current) ?? skipLastPages;
+    const effectiveSkip = lookupFileSkip(nextQueued, brokerSkipMapRef.current) ?? skipLastPages;
     const pagesToAnalyze = Math.max(1, pages - effectiveSkip);
 
     // 收集已完成的頁面（pageRegions 中有 entry 的頁碼，包含空陣列＝AI 判斷無區域）
@@ -880,7 +1076,7 @@ export default function useFileManager({
   // 否則等 handleDocumentLoadForFile 觸發（防止雙重啟動由 analysisFileIdRef 守衛）
   const processNextInQueue = useCallback(() => {
     // 無 API 金鑰時不啟動分析（依模型類型判斷對應的金鑰）
-    const hasKey = model.includes('/') ? !!openRouterApiKey : !!apiKey;
+    const hasKey = modelHasKey(model, apiKey, openRouterApiKey);
     if (!hasKey) {
       processingQueueRef.current = false;
       return;
@@ -918,7 +1114,7 @@ export default function useFileManager({
     if (cachedDoc) {
       const pages = nextQueued.numPages || cachedDoc.numPages;
       // 若檔案已有券商名且在 brokerSkipMap 中有設定，優先使用券商特定值
-      const effectiveSkip2 = lookupBrokerSkip(nextQueued, brokerSkipMapRef.current) ?? skipLastPages;
+      const effectiveSkip2 = lookupFileSkip(nextQueued, brokerSkipMapRef.current) ?? skipLastPages;
       const pagesToAnalyze = Math.max(1, pages - effectiveSkip2);
       const completedPages = buildCompletedPages(nextQueued, pagesToAnalyze);
       const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
@@ -928,7 +1124,7 @@ export default function useFileManager({
       // PDF 不在快取中（檔案可能不在預載視窗內，PdfViewer 未掛載）→ 主動載入 PDF 後啟動分析
       const queuedFileId = nextQueued.id;
       const queuedFileUrl = nextQueued.url;
-      const queuedFileSkip = lookupBrokerSkip(nextQueued, brokerSkipMapRef.current);
+      const queuedFileSkip = lookupFileSkip(nextQueued, brokerSkipMapRef.current);
       const queuedFileNumPages = nextQueued.numPages;
       const queuedFilePageRegions = nextQueued.pageRegions;
       getPdfjs().then((pdfjsLib) => pdfjsLib.getDocument(queuedFileUrl).promise).then((doc) => {
@@ -990,7 +1186,13 @@ export default function useFileManager({
 
       const knownBrokers = Object.keys(brokerSkipMapRef.current);
       const newEntries: FileEntry[] = pdfFiles.map((file) => {
-        const parsed = parseMetadataFromFilename(file.name, knownBrokers, brokerAliasMapRef.current);
+        const parsed = parseMetadataFromFilename(
+          file.name, knownBrokers, brokerAliasMapRef.current, securityIndexRef.current, filenameRulesRef.current,
+        );
+        if (parsed.rule) {
+          const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+          console.log(`[useFileManager][${ts}] 📐 Filename rule "${parsed.rule}" matched: ${file.name}`);
+        }
         const rawBroker = parsed.broker || '';
         const canonicalBroker = normalizeBrokerName(rawBroker) || '';
         if (canonicalBroker) {
@@ -1041,7 +1243,7 @@ export default function useFileManager({
       }
 
       // 立即為所有新檔案非同步載入頁數（只讀 PDF header，不渲染，輕量）
-      // 確保「總頁數」統計從一開始就準確
+      // 確保「總頁數」統計從一開始就準確；順帶從首頁文字層預填 metadata 候選
       for (const entry of newEntries) {
         if (pdfDocCacheRef.current.has(entry.id)) continue; // 已快取的跳過
         getPdfjs().then((pdfjsLib) => pdfjsLib.getDocument(entry.url).promise).then((doc) => {
@@ -1061,6 +1263,9 @@ export default function useFileManager({
           } else {
             doc.destroy();
           }
+          const cachedDoc = pdfDocCacheRef.current.get(entry.id)!;
+          prefillMetadataFromTextLayer(entry.id, cachedDoc);
+          detectSkippedPages(entry.id, cachedDoc);
         }).catch((e) => {
           console.warn(`[useFileManager] ⚠️ Failed to pre-load page count for ${entry.name}:`, e);
         });
@@ -1075,7 +1280,7 @@ export default function useFileManager({
         setTimeout(() => processNextInQueue(), 0);
       }
     },
-    [normalizeBrokerName, processNextInQueue]
+    [normalizeBrokerName, processNextInQueue, prefillMetadataFromTextLayer, detectSkippedPages]
   );
 
   // === PDF Document 載入完成（per-file scoped，由 react-pdf 觸發）===
@@ -1107,7 +1312,7 @@ export default function useFileManager({
       const currentFile = filesRef.current.find((f) => f.id === fileId);
       if (apiKey && currentFile?.status === 'processing' && analysisFileIdRef.current !== fileId) {
         // 若檔案已有券商名且在 brokerSkipMap 中有設定，優先使用券商特定值
-        const effectiveSkipDoc = lookupBrokerSkip(currentFile, brokerSkipMapRef.current) ?? skipLastPages;
+        const effectiveSkipDoc = lookupFileSkip(currentFile, brokerSkipMapRef.current) ?? skipLastPages;
         const pagesToAnalyze = Math.max(1, pdf.numPages - effectiveSkipDoc);
         // 收集已完成的頁面（繼續分析時跳過）
         const completedPages = new Set<number>();
@@ -1303,8 +1508,9 @@ export default function useFileManager({
     handleStop, handleReanalyze, handleReanalyzePage, handleRegionDoubleClick,
     analyzingPagesMap, queuedPagesMap, cancelQueuedPage,
     analysisFileIdRef,
-    handleStopFile, handleReanalyzeFile, triggerQueueProcessing,
+    handleStopFile, handleReanalyzeFile, triggerQueueProcessing, cacheStats, handleClearAiCache, sessionUsage, serverQueue,
     selectFileMetadata, addFileMetadataCandidate, removeFileMetadataCandidate, clearFileMetadataCandidates,
+    setFileRegionOrder,
 
     // Derived
     mountedFileIds,
@@ -1,22 +1,30 @@
 /**
  * 功能：雙擊區域截圖識別 Custom Hook
- * 職責：雙擊 bounding box → 截圖裁切 → 送 AI 識別（表格/圖表），獨立管理識別中狀態
- * 依賴：react、pdfjs、types、analysisHelpers
+ * 職責：雙擊 bounding box → 先從文字層重建表格 → 無法重建才截圖裁切送 AI 識別（表格/圖表），獨立管理識別中狀態
+ * 依賴：react、pdfjs、types、analysisHelpers（含 ocrRegion）
  *
  * 重要設計：
  * - isRecognizing 與批次分析的 isAnalyzing 分離，由主 hook (useAnalysis) 合併
- * - 使用 analysisHelpers 的純函式（cropRegionToBase64、recognizeRegionWithRetry）
+ * - 使用 analysisHelpers 的純函式（rebuildTableFromTextLayer、cropRegionToBase64、recognizeRegionWithRetry）
+ * - 文字層表格重建不需 API 呼叫且數字不會被模型改寫；Shift+雙擊（skipTextLayer）略過此步驟直接送 AI
+ * - 版面分析模式（layout:text）不呼叫 AI：無法重建表格時改用本機 OCR（ocrEngine 有設定時），否則標示失敗
+ * - 識別結果記錄文字來源 textSource（文字層重建 = text-layer、OCR = ocr、AI = ai）
  * - 由呼叫端傳入完整 region 物件 + fileId，不依賴共用 state
+ * - 雙擊是使用者明確要求重新識別，一律略過 AI 回應快取（新結果仍寫回快取）
  */
 
 import { useState, useCallback, useRef } from 'react';
 import type { pdfjs } from 'react-pdf';
 import { Region } from '@/lib/types';
+import { isLayoutModel } from '@/lib/constants';
 import {
   FileRegionsUpdater,
   FileProgressUpdater,
+  UsageRecorder,
   cropRegionToBase64,
+  ocrRegion,
   recognizeRegionWithRetry,
+  rebuildTableFromTextLayer,
 } from './analysisHelpers';
 
 interface UseRegionRecognizeOptions {
@@ -27,10 +35,16 @@ interface UseRegionRecognizeOptions {
   updateFileProgress: FileProgressUpdater;
   tablePrompt: string;
   model: string;
+  /** 本機 OCR 引擎 id（空字串 = 關閉；版面分析模式無法重建表格時使用） */
+  ocrEngine: string;
   /** Gemini API 金鑰（前端使用者輸入） */
   apiKey: string;
   /** OpenRouter API 金鑰（用於 OpenRouter 模型如 Qwen） */
   openRouterApiKey: string;
+  /** 建立指定檔案指定頁的 token 用量回報器（由 useAnalysis 提供） */
+  makeUsageRecorder: (fileId: string, pageNum: number) => UsageRecorder;
+  /** 取得指定檔案的檔名（供模擬模型選 fixture） */
+  getFileName: (fileId: string) => string | undefined;
 }
 
 export default function useRegionRecognize({
@@ -39,18 +53,21 @@ export default function useRegionRecognize({
   updateFileProgress,
   tablePrompt,
   model,
+  ocrEngine,
   apiKey,
   openRouterApiKey,
+  makeUsageRecorder,
+  getFileName,
 }: UseRegionRecognizeOptions) {
   // 獨立的識別中狀態（與批次分析的 isAnalyzing 分離）
   const [isRecognizing, setIsRecognizing] = useState(false);
   // 追蹤 per-file 識別中的數量（多次快速雙擊時，只有最後一個完成才恢復狀態）
   const recognizeCountRef = useRef<Map<string, number>>(new Map());
 
-  // === 雙擊框框 → 截圖該區域 → 送 AI 識別（表格/圖表） ===
+  // === 雙擊框框 → 文字層重建表格 / 截圖該區域送 AI 識別（表格/圖表） ===
   // 由呼叫端傳入完整 region 物件 + fileId，不依賴共用 state
   const handleRegionDoubleClick = useCallback(
-    async (page: number, region: Region, targetFileId: string) => {
+    async (page: number, region: Region, targetFileId: string, skipTextLayer?: boolean) => {
       const pdfDoc = pdfDocRef.current;
       if (!pdfDoc || !targetFileId) return;
       const regionId = region.id;
@@ -70,19 +87,74 @@ export default function useRegionRecognize({
         const rs = updated.get(page);
         if (rs) {
           updated.set(page, rs.map((r) =>
-            r.id === regionId ? { ...r, text: '⏳ AI 識別中...', userModified: true } : r
+            r.id === regionId ? { ...r, text: '⏳ AI 識別中...', markdown: undefined, textSource: undefined, confidence: undefined, userModified: true } : r
           ));
         }
         return updated;
       });
 
       try {
+        // 文字層表格重建（成功就不送 AI）
+        const tableMarkdown = skipTextLayer ? null : await rebuildTableFromTextLayer(pdfDoc, page, region);
+        if (tableMarkdown) {
+          updateFileRegions(targetFileId, (prev) => {
+            const updated = new Map(prev);
+            const rs = updated.get(page);
+            if (rs) {
+              updated.set(page, rs.map((r) =>
+                r.id === regionId ? { ...r, text: tableMarkdown, textSource: 'text-layer', userModified: true } : r
+              ));
+            }
+            return updated;
+          });
+          const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
+          console.log(`[useRegionRecognize][${ts2}] 📊 Region ${regionId} rebuilt from text layer (${tableMarkdown.length} chars)`);
+          return;
+        }
+
+        if (isLayoutModel(model)) {
+          // 版面分析模式：有設定本機 OCR 時以 OCR 識別（純文字，不重建表格）
+          const ocrResult = ocrEngine
+            ? await ocrRegion((await cropRegionToBase64(pdfDoc, page, region)).base64, ocrEngine, page, regionId)
+            : null;
+          if (ocrResult?.success && ocrResult.text) {
+            updateFileRegions(targetFileId, (prev) => {
+              const updated = new Map(prev);
+              const rs = updated.get(page);
+              if (rs) {
+                updated.set(page, rs.map((r) =>
+                  r.id === regionId ? { ...r, text: ocrResult.text!, textSource: 'ocr', userModified: true } : r
+                ));
+              }
+              return updated;
+            });
+            const ts2 = new Date().toLocaleTimeString('en-US', { hour12: false });
+            console.log(`[useRegionRecognize][${ts2}] 🔤 Region ${regionId} recognized by OCR: ${ocrResult.text.length} chars`);
+            return;
+          }
+          const reason = ocrResult ? `OCR ${ocrResult.error}` : '文字層無法重建表格（版面分析模式不呼叫 AI）';
+          updateFileRegions(targetFileId, (prev) => {
+            const updated = new Map(prev);
+            const rs = updated.get(page);
+            if (rs) {
+              updated.set(page, rs.map((r) =>
+                r.id === regionId ? { ...r, text: `❌ 識別失敗: ${reason}` } : r
+              ));
+            }
+            return updated;
+          });
+          return;
+        }
+
         // 截圖裁切
         const { base64, width, height, sizeKB } = await cropRegionToBase64(pdfDoc, page, region);
         console.log(`[useRegionRecognize][${ts}] 📐 Cropped region: ${width}x${height}px, ${sizeKB} KB`);
 
         // 送 API（含重試）
-        const result = await recognizeRegionWithRetry(base64, tablePrompt, model, page, regionId, apiKey, openRouterApiKey);
+        const result = await recognizeRegionWithRetry(
+          base64, tablePrompt, model, page, regionId, apiKey, openRouterApiKey,
+          { bypass: true }, makeUsageRecorder(targetFileId, page), getFileName(targetFileId),
+        );
 
         if (result.success && result.text) {
           updateFileRegions(targetFileId, (prev) => {
@@ -90,7 +162,7 @@ export default function useRegionRecognize({
             const rs = updated.get(page);
             if (rs) {
               updated.set(page, rs.map((r) =>
-                r.id === regionId ? { ...r, text: result.text!, userModified: true } : r
+                r.id === regionId ? { ...r, text: result.text!, textSource: 'ai', userModified: true } : r
               ));
             }
             return updated;
@@ -139,7 +211,7 @@ export default function useRegionRecognize({
         setIsRecognizing(false);
       }
     },
-    [pdfDocRef, tablePrompt, model, apiKey, openRouterApiKey, updateFileRegions, updateFileProgress]
+    [pdfDocRef, tablePrompt, model, ocrEngine, apiKey, openRouterApiKey, updateFileRegions, updateFileProgress, makeUsageRecorder, getFileName]
   );
 
   return {
@@ -0,0 +1,101 @@
+/**
+ * 功能：AI 回應快取（client-side）
+ * 職責：以 sha256(kind + 模型 + prompt + 圖片 base64 + 附加參數) 為 key，快取 /api/analyze 與 /api/recognize 的成功結果；
+ *       先查 IndexedDB，miss 再查伺服器端快取（/api/ai-cache，需設 AI_CACHE_SERVER 啟用），伺服器命中則回填 IndexedDB；
+ *       寫入伺服器端需上傳密碼（開發模式免），密碼於本分頁上傳設定成功後記住（rememberAiCacheWritePassword）
+ * 依賴：Web Crypto（crypto.subtle.digest）、persistence.ts（IndexedDB ai-cache store；每次載入後第一次寫入時清理過期 / 過多條目）
+ *
+ * 快取是內容定址：同一張圖 + 同一段 prompt + 同一個模型 → 同一個 key，與檔案 / session 無關。
+ * 所有失敗（無 crypto.subtle、IndexedDB 錯誤、伺服器不可達）一律視為 miss，不中斷分析流程。
+ */
+
+import { getAiCacheEntry, putAiCacheEntry, trimAiCache } from './persistence';
+
+/** 快取種類：頁面分析 / 區域識別（納入 key，避免同圖同 prompt 的兩種呼叫互相命中） */
+export type AiCacheKind = 'analyze' | 'recognize';
+
+/** 呼叫端傳入的快取選項 */
+export interface AiCacheOptions {
+  /** 略過查詢（強制重新呼叫 AI），結果仍會寫回快取覆蓋舊值 */
+  bypass?: boolean;
+  /** 每次查詢後回報命中與否（供進度 UI 統計）；bypass 時不回報 */
+  onResult?: (hit: boolean) => void;
+}
+
+/** 計算快取 key 的輸入 */
+export interface AiCacheKeyInput {
+  image: string;
+  prompt: string;
+  model: string;
+  /** 其他影響輸出的參數（如 responseFieldMap），會以 JSON 序列化納入 key */
+  extra?: unknown;
+}
+
+/** 計算快取 key（sha256 hex）；環境不支援 crypto.subtle（如非 HTTPS 的區網 IP）時回傳 null */
+export async function computeAiCacheKey(kind: AiCacheKind, input: AiCacheKeyInput): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  // 以 \u0000 分隔各欄位，避免 prompt 結尾與圖片開頭拼接後碰撞
+  const material = [kind, input.model, input.prompt, JSON.stringify(input.extra ?? null), input.image].join('\u0000');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 伺服器端快取是否啟用（模組級記憶：第一次回應 enabled:false 後不再查詢）
+let _serverCacheEnabled: boolean | null = null;
+// 伺服器端快取是否可寫入（GET 回應的 writable；未確認前不 POST）
+let _serverCacheWritable = false;
+// 伺服器端快取寫入密碼（僅存於記憶體，重新整理即清除）
+let _writePassword: string | null = null;
+// 本次載入是否已清理過 IndexedDB 快取
+let _trimmed = false;
+
+/** 記住伺服器端快取寫入密碼（上傳設定成功後呼叫）；下一次查詢會重新確認是否可寫入 */
+export function rememberAiCacheWritePassword(password: string): void {
+  _writePassword = password;
+}
+
+function passwordHeaders(): Record<string, string> {
+  return _writePassword ? { 'x-settings-password': _writePassword } : {};
+}
+
+/** 查詢伺服器端快取（未啟用或失敗回傳 null） */
+async function fetchServerCache(key: string): Promise<unknown | null> {
+  if (_serverCacheEnabled === false) return null;
+  try {
+    const res = await fetch(`/api/ai-cache?key=${key}`, { headers: passwordHeaders() });
+    if (!res.ok) return null;
+    const json = await res.json();
+    _serverCacheEnabled = Boolean(json.enabled);
+    _serverCacheWritable = Boolean(json.writable);
+    return json.hit ? json.value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 查詢快取：IndexedDB → 伺服器端（命中則回填 IndexedDB） */
+export async function lookupAiCache<T>(key: string): Promise<T | null> {
+  const local = await getAiCacheEntry(key);
+  if (local !== null) return local as T;
+  const remote = await fetchServerCache(key);
+  if (remote !== null) {
+    void putAiCacheEntry(key, remote);
+    return remote as T;
+  }
+  return null;
+}
+
+/** 寫入快取（IndexedDB + 伺服器端；伺服器端需可寫入，不等待伺服器回應） */
+export async function storeAiCache(kind: AiCacheKind, key: string, value: unknown): Promise<void> {
+  await putAiCacheEntry(key, value);
+  if (!_trimmed) {
+    _trimmed = true;
+    void trimAiCache();
+  }
+  if (!_serverCacheEnabled || !_serverCacheWritable) return;
+  fetch('/api/ai-cache', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...passwordHeaders() },
+    body: JSON.stringify({ key, kind, value }),
+  }).catch(() => { /* 伺服器端快取為選用，失敗不影響 */ });
+}
@@ -0,0 +1,317 @@
+/**
+ * 功能：AI Provider 註冊表（server-only）
+ * 職責：統一 /api/analyze 與 /api/recognize 的模型呼叫介面——送出 prompt + 圖片、取回文字、回報 429 與 token 用量；
+ *       依 model ID 前綴解析出對應 provider（新增後端只需實作 AIProvider 並 registerProvider）
+ * 依賴：@google/generative-ai（Gemini）、fetch（OpenRouter / 本機 OpenAI 相容 Chat Completions）、
+ *       serverSettings.ts（本機端點 base URL 的 settings fallback）、mockAi.ts（離線模擬模型的 fixture 與情境）
+ * 推理：Gemini Flash 用 thinkingBudget: 0；Pro 系列用最小值 128；OpenRouter 可選 reasoning.effort = 'minimal'
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LOCAL_MODEL_PREFIX, isLocalModel, isMockModel } from '@/lib/constants';
+import { readServerSettings } from '@/lib/serverSettings';
+import { MockCallContext, isMockAiEnabled, planMockCall, buildMockAnalyzeText, buildMockRecognizeText } from '@/lib/mockAi';
+import type { TokenUsage } from '@/lib/types';
+
+// === 型別 ===
+
+/** 前端傳入的金鑰（皆可省略，由各 provider fallback 到環境變數） */
+export interface ProviderKeys {
+  apiKey?: string;
+  openRouterApiKey?: string;
+}
+
+/** 單次呼叫的 token 用量（各 provider 回傳格式不同，統一成此結構；與前端共用 TokenUsage） */
+export type ProviderUsage = TokenUsage;
+
+export interface ProviderRequest {
+  modelId: string;
+  /** 已解析的金鑰（resolveApiKey 回傳值） */
+  apiKey: string;
+  prompt: string;
+  /** base64（不含 data: 前綴） */
+  imageBase64: string;
+  /** 預設 image/jpeg（Gemini 另接受 application/pdf 單頁 PDF） */
+  mimeType?: string;
+  /** 要求最低推理程度（OpenRouter reasoning.effort = 'minimal'；Gemini 一律走 thinkingBudget） */
+  minimalReasoning?: boolean;
+  /** 呼叫種類（僅模擬模型用來決定回應格式；預設 analyze） */
+  kind?: 'analyze' | 'recognize';
+  /** 呼叫情境（檔名 / 頁碼 / 區域；僅模擬模型用來選 fixture，真實 provider 忽略） */
+  context?: MockCallContext;
+}
+
+export interface ProviderResult {
+  text: string;
+  usage?: ProviderUsage;
+}
+
+export interface AIProvider {
+  /** provider 識別碼（log / 回應用） */
+  id: string;
+  /** log 顯示名稱（如 "via OpenRouter"） */
+  label: string;
+  /** 此 provider 是否處理該 model ID */
+  matches(modelId: string): boolean;
+  /** 解析金鑰：前端值優先，fallback 環境變數；無可用金鑰回傳 undefined */
+  resolveApiKey(keys: ProviderKeys): string | undefined;
+  /** 缺金鑰時回傳前端的錯誤訊息 */
+  missingKeyMessage: string;
+  /** 呼叫模型；429 一律以 isRateLimitError 可辨識的錯誤拋出 */
+  generate(req: ProviderRequest): Promise<ProviderResult>;
+}
+
+// === 429 辨識 ===
+
+/** 建立統一格式的 429 錯誤 */
+export function createRateLimitError(): Error {
+  return Object.assign(new Error('Rate limit exceeded'), { status: 429 });
+}
+
+/** 判斷錯誤是否為 429（provider 統一拋出或 SDK 訊息含 429） */
+export function isRateLimitError(err: unknown): boolean {
+  const errObj = err as { status?: number; message?: string } | null;
+  if (!errObj) return false;
+  return errObj.status === 429 || (errObj.message ?? '').includes('429');
+}
+
+// === Gemini ===
+
+/** Pro 系列模型強制 thinking（無法設 thinkingBudget: 0）—— 用名稱 pattern 判斷，避免硬編碼 Set 與動態探測漂移 */
+function needsThinking(modelId: string): boolean {
+  return /pro/i.test(modelId);
+}
+
+type GenConfig = Parameters<InstanceType<typeof GoogleGenerativeAI>['getGenerativeModel']>[0]['generationConfig'];
+
+/** 依模型回傳最低推理程度：Pro 系列用 128，其餘用 0（關閉） */
+function getThinkingConfigMinimal(modelId: string): NonNullable<GenConfig> {
+  const budget = needsThinking(modelId) ? 128 : 0;
+  return { thinkingConfig: { thinkingBudget: budget } } as NonNullable<GenConfig>;
+}
+
+const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  // 預設 provider：無其他前綴匹配時皆視為 Gemini model ID
+  matches: () => true,
+  resolveApiKey(keys) {
+    const key = keys.apiKey || process.env.GEMINI_API_KEY;
+    if (!key || key === 'YOUR_GEMINI_API_KEY_HERE') return undefined;
+    return key;
+  },
+  missingKeyMessage: '請先設定 Gemini API 金鑰',
+  async generate({ modelId, apiKey, prompt, imageBase64, mimeType = 'image/jpeg' }) {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const modelObj = genAI.getGenerativeModel({
+      model: modelId,
+      generationConfig: getThinkingConfigMinimal(modelId),
+    });
+    try {
+      const result = await modelObj.generateContent([
+        prompt,
+        { inlineData: { mimeType, data: imageBase64 } },
+      ]);
+      // thinking 模型的思考 token 另列於 thoughtsTokenCount（同樣以輸出單價計費；SDK 型別尚未收錄）
+      const meta = result.response.usageMetadata as
+        | (NonNullable<typeof result.response.usageMetadata> & { thoughtsTokenCount?: number })
+        | undefined;
+      return {
+        text: result.response.text(),
+        usage: meta
+          ? {
+              inputTokens: meta.promptTokenCount ?? 0,
+              outputTokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+            }
+          : undefined,
+      };
+    } catch (err) {
+      if (isRateLimitError(err)) throw createRateLimitError();
+      throw err;
+    }
+  },
+};
+
+// === OpenAI 相容 Chat Completions（OpenRouter 與本機端點共用）===
+
+interface ChatCompletionsCall {
+  url: string;
+  /** 本機端點可能不需金鑰 */
+  apiKey?: string;
+  model: string;
+  prompt: string;
+  imageBase64: string;
+  mimeType: string;
+  /** 額外 body 欄位（如 OpenRouter 的 reasoning） */
+  extraBody?: Record<string, unknown>;
+  /** 錯誤訊息前綴 */
+  errorLabel: string;
+}
+
+/** 呼叫 OpenAI 相容 chat/completions，回傳文字 + usage */
+async function callChatCompletions(call: ChatCompletionsCall): Promise<ProviderResult> {
+  const response = await fetch(call.url, {
+    method: 'POST',
+    headers: {
+      ...(call.apiKey ? { 'Authorization': `Bearer ${call.apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: call.model,
+      ...call.extraBody,
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: call.prompt },
+          { type: 'image_url', image_url: { url: `data:${call.mimeType};base64,${call.imageBase64}` } },
+        ],
+      }],
+    }),
+  });
+
+  if (response.status === 429) {
+    throw createRateLimitError();
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`${call.errorLabel} API error ${response.status}: ${errorText}`);
+  }
+
+  const data = await response.json();
+  const usage: ProviderUsage | undefined = data.usage
+    ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 }
+    : undefined;
+  // choices[0].message.content 可能是字串或陣列（部分模型）
+  const content = data.choices?.[0]?.message?.content;
+  if (typeof content === 'string') return { text: content, usage };
+  if (Array.isArray(content)) {
+    const text = content
+      .filter((c: { type: string }) => c.type === 'text')
+      .map((c: { text: string }) => c.text)
+      .join('');
+    return { text, usage };
+  }
+  throw new Error(`${call.errorLabel}: unexpected response format`);
+}
+
+// === OpenRouter ===
+
+const openRouterProvider: AIProvider = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  // model ID 含 "/" 即為 OpenRouter 格式（如 qwen/qwen3.5-9b）
+  matches: (modelId) => modelId.includes('/'),
+  resolveApiKey: (keys) => keys.openRouterApiKey || process.env.OPENROUTER_API_KEY || undefined,
+  missingKeyMessage: '請先設定 OpenRouter API 金鑰',
+  generate: ({ modelId, apiKey, prompt, imageBase64, mimeType = 'image/jpeg', minimalReasoning }) =>
+    callChatCompletions({
+      url: 'https://openrouter.ai/api/v1/chat/completions',
+      apiKey,
+      model: modelId,
+      prompt,
+      imageBase64,
+      mimeType,
+      extraBody: minimalReasoning ? { reasoning: { effort: 'minimal' } } : undefined,
+      errorLabel: 'OpenRouter',
+    }),
+};
+
+// === 本機 OpenAI 相容端點（Ollama / vLLM / LM Studio）===
+
+/**
+ * 解析本機端點 base URL：環境變數 LOCAL_LLM_BASE_URL > 共享設定 localBaseUrl。
+ * 刻意不接受前端逐次傳入：端點由管理者設定，避免任意 URL 被當成伺服器端請求目標。
+ * 回傳值已去除尾端斜線，如 http://localhost:11434/v1
+ */
+export function resolveLocalBaseUrl(): string | undefined {
+  const fromEnv = process.env.LOCAL_LLM_BASE_URL?.trim();
+  const fromSettings = readServerSettings()?.localBaseUrl;
+  const raw = fromEnv || (typeof fromSettings === 'string' ? fromSettings.trim() : '');
+  return raw ? raw.replace(/\/+$/, '') : undefined;
+}
+
+/** 本機端點未設 LOCAL_LLM_API_KEY 時的佔位金鑰（route 以金鑰有無判斷可用性；送出時不帶 Authorization） */
+const LOCAL_KEYLESS = 'keyless';
+
+const localProvider: AIProvider = {
+  id: 'local',
+  label: 'Local',
+  matches: isLocalModel,
+  // 本機端點多數不驗證金鑰；LOCAL_LLM_API_KEY 供需要 Bearer 的 vLLM 部署使用。以 base URL 是否存在判斷可用性
+  resolveApiKey: () => (resolveLocalBaseUrl() ? process.env.LOCAL_LLM_API_KEY || LOCAL_KEYLESS : undefined),
+  missingKeyMessage: '請先設定本機模型端點（LOCAL_LLM_BASE_URL 或共享設定 localBaseUrl）',
+  generate({ modelId, apiKey, prompt, imageBase64, mimeType = 'image/jpeg' }) {
+    const baseUrl = resolveLocalBaseUrl();
+    if (!baseUrl) throw new Error('Local endpoint not configured');
+    return callChatCompletions({
+      url: `${baseUrl}/chat/completions`,
+      apiKey: apiKey === LOCAL_KEYLESS ? undefined : apiKey,
+      model: modelId.slice(LOCAL_MODEL_PREFIX.length),
+      prompt,
+      imageBase64,
+      mimeType,
+      errorLabel: 'Local',
+    });
+  },
+};
+
+// === 離線模擬（E2E 測試 / 展示，MOCK_AI=1 啟用）===
+
+/** 模擬模型的佔位金鑰（route 以金鑰有無判斷可用性） */
+const MOCK_KEY = 'mock';
+
+const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock',
+  matches: isMockModel,
+  resolveApiKey: () => (isMockAiEnabled() ? MOCK_KEY : undefined),
+  missingKeyMessage: '模擬模型未啟用（伺服器需設定 MOCK_AI=1）',
+  async generate({ modelId, prompt, kind = 'analyze', context = {} }) {
+    const plan = planMockCall(modelId, context);
+    if (plan.latencyMs > 0) await new Promise((r) => setTimeout(r, plan.latencyMs));
+    if (plan.rateLimited) throw createRateLimitError();
+    if (plan.failed) throw new Error('Mock provider simulated error');
+
+    const text = kind === 'recognize' ? buildMockRecognizeText(context) : buildMockAnalyzeText(context, plan);
+    // 確定性的假用量（圖片以 Gemini 單張 258 tokens 計），讓費用 / 用量 UI 有資料可顯示
+    return {
+      text,
+      usage: { inputTokens: 258 + Math.ceil(prompt.length / 2), outputTokens: Math.ceil(text.length / 4) },
+    };
+  },
+};
+
+/**
+ * 探測本機端點可用模型（GET {baseUrl}/models，OpenAI 格式 { data: [{ id }] }）。
+ * 回傳的 id 已加上 LOCAL_MODEL_PREFIX；失敗時拋出，由呼叫端決定是否容錯。
+ */
+export async function discoverLocalModels(baseUrl: string): Promise<{ id: string; label: string }[]> {
+  const res = await fetch(`${baseUrl}/models`, {
+    headers: process.env.LOCAL_LLM_API_KEY ? { 'Authorization': `Bearer ${process.env.LOCAL_LLM_API_KEY}` } : {},
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!res.ok) throw new Error(`Local models API ${res.status}`);
+  const json = await res.json();
+  const data: Array<{ id?: unknown }> = Array.isArray(json?.data) ? json.data : [];
+  return data
+    .map((m) => String(m.id ?? ''))
+    .filter(Boolean)
+    .map((id) => ({ id: `${LOCAL_MODEL_PREFIX}${id}`, label: `${id} (本機)` }));
+}
+
+// === 註冊表 ===
+
+/** 依序比對；Gemini 為預設 provider，固定放最後（local: / mock: 前綴須先於 OpenRouter 的 "/" 判斷） */
+const providers: AIProvider[] = [mockProvider, localProvider, openRouterProvider];
+
+/** 註冊新 provider（插在最前面：專屬前綴如 "local:" 須優先於 OpenRouter 的 "/" 判斷） */
+export function registerProvider(provider: AIProvider): void {
+  if (providers.some((p) => p.id === provider.id)) return;
+  providers.unshift(provider);
+}
+
+/** 依 model ID 解析 provider（無匹配時回傳 Gemini） */
+export function resolveProvider(modelId: string): AIProvider {
+  return providers.find((p) => p.matches(modelId)) ?? geminiProvider;
+}
@@ -0,0 +1,394 @@
+/**
+ * 功能：AI 頁面分析回應的 JSON 修復 + schema 驗證
+ * 職責：將模型輸出的原始文字（可能含 ```json 包裹、尾逗號、單引號、截斷）修復成可 parse 的 JSON，
+ *       再依 PageAnalysis 結構驗證（hasAnalysis / regions[].bbox 4 個 0~1000 數字 / date / code / report），
+ *       驗證失敗回傳結構化錯誤清單，讓前端區分「模型輸出垃圾」與「網路失敗」；
+ *       單一 region 的 bbox 超出範圍時夾回 0~1000、無法修正時丟棄該 region（記入 repairs / issues），其餘 region 照常回傳
+ *       回應欄位映射（如 stock → code、provider → report）在驗證前套用，讓 Prompt 作者可自訂輸出 key
+ * 依賴：types.ts（AnalysisValidationIssue）、constants.ts（NORMALIZED_MAX、DEFAULT_RESPONSE_FIELD_MAP）
+ *
+ * 純函式模組（零 IO），server route 與離線腳本皆可引用。
+ * 注意：bbox 驗證只檢查數值與範圍，不轉換座標順序（Gemini 原生 [y1,x1,y2,x2] 由 route 轉換）
+ */
+
+import { AnalysisValidationIssue } from './types';
+import { NORMALIZED_MAX, DEFAULT_RESPONSE_FIELD_MAP } from './constants';
+
+// === JSON 修復 ===
+
+/** 修復動作種類（供 log 觀察模型常見的輸出毛病） */
+export type JsonRepairKind =
+  | 'fence' | 'extract' | 'single-quote' | 'trailing-comma' | 'truncated'
+  | 'clamp-bbox' | 'drop-region';
+
+/** 移除 markdown code block 包裹（截斷輸出可能缺結尾 ```），並從第一個 { 起擷取 JSON 主體 */
+function stripWrapper(raw: string, repairs: JsonRepairKind[]): string {
+  let text = raw.trim();
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/);
+  if (fenced) {
+    text = fenced[1].trim();
+    repairs.push('fence');
+  }
+  const start = text.indexOf('{');
+  if (start > 0) {
+    text = text.slice(start);
+    repairs.push('extract');
+  }
+  return text;
+}
+
+/**
+ * 容錯修復：單引號字串 → 雙引號、移除 } ] 前的尾逗號、截斷輸出補齊括號。
+ * 截斷時回退到最後一個「完整值」的位置（任意層的 } ] 收尾，或根物件的 , 之後），
+ * 避免半個 region（如 bbox 只有 2 個數字）被補括號後變成看似合法的資料。
+ */
+function repairJsonText(text: string, repairs: JsonRepairKind[]): string {
+  let out = '';
+  const stack: ('{' | '[')[] = [];
+  let inString = false;
+  let quote: '"' | "'" = '"';
+  let escaped = false;
+  /** 最後一個安全截斷點：輸出長度 + 當時的括號堆疊 */
+  let safePoint: { length: number; stack: ('{' | '[')[] } | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        // 單引號字串內的 \' 在 JSON 中不是合法跳脫，還原成 '
+        out += quote === "'" && ch === "'" ? "'" : `\\${ch}`;
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === quote) {
+        out += '"';
+        inString = false;
+      } else if (ch === '"') {
+        out += '\\"'; // 單引號字串內的雙引號需跳脫
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      if (ch === "'" && !repairs.includes('single-quote')) repairs.push('single-quote');
+      inString = true;
+      quote = ch;
+      out += '"';
+      continue;
+    }
+
+    if (ch === '{' || ch === '[') {
+      stack.push(ch);
+      out += ch;
+      continue;
+    }
+
+    if (ch === '}' || ch === ']') {
+      const trimmed = out.replace(/,\s*$/, '');
+      if (trimmed !== out) {
+        out = trimmed;
+        if (!repairs.includes('trailing-comma')) repairs.push('trailing-comma');
+      }
+      stack.pop();
+      out += ch;
+      safePoint = { length: out.length, stack: [...stack] };
+      continue;
+    }
+
+    if (ch === ',' && stack.length === 1 && stack[0] === '{') {
+      out += ch;
+      safePoint = { length: out.length, stack: [...stack] };
+      continue;
+    }
+
+    out += ch;
+  }
+
+  // 輸出完整（括號已閉合且不在字串中）
+  if (stack.length === 0 && !inString) return out;
+
+  repairs.push('truncated');
+  if (!safePoint) return out;
+  let cut = out.slice(0, safePoint.length).replace(/,\s*$/, '');
+  for (let i = safePoint.stack.length - 1; i >= 0; i--) {
+    cut += safePoint.stack[i] === '{' ? '}' : ']';
+  }
+  return cut;
+}
+
+/** 第一個根物件（括號平衡、略過字串內容）的結尾 index；未閉合回傳 -1 */
+function findRootObjectEnd(text: string): number {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') depth++;
+    else if (ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 解析模型輸出文字為 JSON：先嘗試原樣 parse，失敗才跑修復。
+ * 回傳 parse 結果與實際套用的修復動作；仍無法 parse 時 value 為 undefined。
+ */
+export function parseJsonTolerant(raw: string): { value: unknown; repairs: JsonRepairKind[]; error?: string } {
+  const repairs: JsonRepairKind[] = [];
+  const text = stripWrapper(raw, repairs);
+  try {
+    return { value: JSON.parse(text), repairs };
+  } catch { /* 進入修復 */ }
+
+  // 物件後方夾帶說明文字（說明中可能也有 { }）：截到第一個根物件結尾
+  const end = findRootObjectEnd(text);
+  if (end >= 0 && end < text.length - 1) {
+    try {
+      const value = JSON.parse(text.slice(0, end + 1));
+      return { value, repairs: repairs.includes('extract') ? repairs : [...repairs, 'extract'] };
+    } catch { /* 進入修復 */ }
+  }
+
+  const repaired = repairJsonText(text, repairs);
+  try {
+    return { value: JSON.parse(repaired), repairs };
+  } catch (e) {
+    return { value: undefined, repairs, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// === PageAnalysis 驗證 ===
+
+/** 驗證通過的模型輸出（bbox 仍為模型原生順序） */
+export interface ValidatedPageAnalysis {
+  hasAnalysis: boolean;
+  date?: string;
+  code?: string;
+  report?: string;
+  regions: { id?: number; bbox: [number, number, number, number]; label?: string }[];
+}
+
+export type PageAnalysisParseResult =
+  /** issues：被夾回 / 丟棄的 region（不影響其餘結果） */
+  | { ok: true; value: ValidatedPageAnalysis; repairs: JsonRepairKind[]; issues: AnalysisValidationIssue[] }
+  | { ok: false; issues: AnalysisValidationIssue[]; repairs: JsonRepairKind[] };
+
+/** 字串欄位：接受字串 / 數字（如 code: 2330）；null / 空字串視為未提供 */
+function readOptionalString(
+  obj: Record<string, unknown>,
+  key: string,
+  issues: AnalysisValidationIssue[],
+): string | undefined {
+  const v = obj[key];
+  if (v === undefined || v === null) return undefined;
+  if (typeof v === 'number' && Number.isFinite(v)) return String(v);
+  if (typeof v !== 'string') {
+    issues.push({ path: key, message: `需為字串，收到 ${typeof v}` });
+    return undefined;
+  }
+  return v.trim() || undefined;
+}
+
+/** 數字（接受數字字串，如 "120"） */
+function toNumber(v: unknown): number {
+  if (typeof v === 'number') return v;
+  if (typeof v === 'string' && v.trim() !== '') return Number(v);
+  return NaN;
+}
+
+/** region 層級修正結果 */
+export interface RegionRepairs {
+  /** 被夾回或丟棄的 region 說明 */
+  issues: AnalysisValidationIssue[];
+  clamped: number;
+  dropped: number;
+}
+
+/**
+ * 驗證已 parse 的物件是否符合 PageAnalysis 結構
+ * 根節點 / 頂層欄位錯誤 → 整頁失敗；單一 region 錯誤 → 夾回或丟棄該 region（regionRepairs），
+ * 僅在所有 region 都被丟棄時整頁失敗（避免回傳空結果卻不重試）
+ */
+export function validatePageAnalysis(value: unknown): {
+  value?: ValidatedPageAnalysis;
+  issues: AnalysisValidationIssue[];
+  regionRepairs: RegionRepairs;
+} {
+  const issues: AnalysisValidationIssue[] = [];
+  const regionRepairs: RegionRepairs = { issues: [], clamped: 0, dropped: 0 };
+  const drop = (issue: AnalysisValidationIssue) => {
+    regionRepairs.issues.push(issue);
+    regionRepairs.dropped++;
+  };
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path: '', message: '根節點需為 JSON 物件' });
+    return { issues, regionRepairs };
+  }
+  const obj = value as Record<string, unknown>;
+
+  // hasAnalysis：缺省視為 false；接受 "true"/"false" 字串
+  let hasAnalysis = false;
+  const rawHas = obj.hasAnalysis;
+  if (typeof rawHas === 'boolean') hasAnalysis = rawHas;
+  else if (rawHas === 'true' || rawHas === 'false') hasAnalysis = rawHas === 'true';
+  else if (rawHas !== undefined && rawHas !== null) {
+    issues.push({ path: 'hasAnalysis', message: `需為布林值，收到 ${JSON.stringify(rawHas)}` });
+  }
+
+  const date = readOptionalString(obj, 'date', issues);
+  const code = readOptionalString(obj, 'code', issues);
+  const report = readOptionalString(obj, 'report', issues);
+
+  const regions: ValidatedPageAnalysis['regions'] = [];
+  const rawRegions = obj.regions;
+  if (rawRegions !== undefined && rawRegions !== null && !Array.isArray(rawRegions)) {
+    issues.push({ path: 'regions', message: '需為陣列' });
+  } else if (Array.isArray(rawRegions)) {
+    rawRegions.forEach((r, i) => {
+      const path = `regions[${i}]`;
+      if (!r || typeof r !== 'object' || Array.isArray(r)) {
+        drop({ path, message: '需為物件' });
+        return;
+      }
+      const region = r as Record<string, unknown>;
+      const rawBbox = region.bbox;
+      if (!Array.isArray(rawBbox) || rawBbox.length !== 4) {
+        drop({
+          path: `${path}.bbox`,
+          message: Array.isArray(rawBbox) ? `需為 4 個數字，收到 ${rawBbox.length} 個` : '缺少 bbox 陣列',
+        });
+        return;
+      }
+      const nums = rawBbox.map(toNumber);
+      const nanIdx = nums.findIndex((n) => !Number.isFinite(n));
+      if (nanIdx >= 0) {
+        drop({ path: `${path}.bbox[${nanIdx}]`, message: `需為數字，收到 ${JSON.stringify(rawBbox[nanIdx])}` });
+        return;
+      }
+      // 超出 0~1000：夾回範圍；夾回後寬或高為 0（整個框落在頁面外）則丟棄
+      const outIdx = nums.findIndex((n) => n < 0 || n > NORMALIZED_MAX);
+      if (outIdx >= 0) {
+        const clamped = nums.map((n) => Math.min(NORMALIZED_MAX, Math.max(0, n)));
+        if (clamped[0] === clamped[2] || clamped[1] === clamped[3]) {
+          drop({ path: `${path}.bbox`, message: `超出 0~${NORMALIZED_MAX} 且夾回後面積為 0，已丟棄（${JSON.stringify(rawBbox)}）` });
+          return;
+        }
+        regionRepairs.issues.push({
+          path: `${path}.bbox[${outIdx}]`,
+          message: `超出 0~${NORMALIZED_MAX}（${JSON.stringify(rawBbox[outIdx])}），已夾回範圍`,
+        });
+        regionRepairs.clamped++;
+        nums.splice(0, 4, ...clamped);
+      }
+      const id = toNumber(region.id);
+      regions.push({
+        id: Number.isFinite(id) ? id : undefined,
+        bbox: nums as [number, number, number, number],
+        label: typeof region.label === 'string' && region.label.trim() ? region.label : undefined,
+      });
+    });
+  }
+
+  if (regions.length === 0 && regionRepairs.dropped > 0) {
+    issues.push(...regionRepairs.issues);
+  }
+  if (issues.length > 0) return { issues, regionRepairs };
+  return { value: { hasAnalysis, date, code, report, regions }, issues, regionRepairs };
+}
+
+// === 回應欄位映射 ===
+
+/** 可作為映射目標的 PageAnalysis 欄位（regions. 前綴 = 每個 region 物件內的欄位） */
+export const RESPONSE_FIELD_TARGETS = [
+  'hasAnalysis', 'date', 'code', 'report', 'regions',
+  'regions.id', 'regions.bbox', 'regions.label',
+] as const;
+
+/** 過濾映射表：只保留目標合法、別名非空且不等於目標的項目 */
+export function sanitizeResponseFieldMap(map: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!map || typeof map !== 'object' || Array.isArray(map)) return result;
+  for (const [alias, target] of Object.entries(map as Record<string, unknown>)) {
+    const key = alias.trim();
+    if (!key || typeof target !== 'string') continue;
+    if (!(RESPONSE_FIELD_TARGETS as readonly string[]).includes(target)) continue;
+    // 別名與目標須同層（頂層對頂層、regions. 對 regions.）
+    if (key.startsWith('regions.') !== target.startsWith('regions.')) continue;
+    if (key === target) continue;
+    result[key] = target;
+  }
+  return result;
+}
+
+/** 將別名 key 搬到目標欄位（目標已有值時以目標為準，不覆蓋） */
+function renameKeys(obj: Record<string, unknown>, map: [string, string][]): Record<string, unknown> {
+  const out = { ...obj };
+  for (const [alias, target] of map) {
+    if (!(alias in out)) continue;
+    if (out[target] === undefined || out[target] === null) out[target] = out[alias];
+    delete out[alias];
+  }
+  return out;
+}
+
+/** 套用回應欄位映射（頂層 + regions[] 內層） */
+export function applyResponseFieldMap(value: unknown, fieldMap: Record<string, string>): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  const entries = Object.entries(fieldMap);
+  const top = entries.filter(([alias]) => !alias.startsWith('regions.'));
+  const inner = entries
+    .filter(([alias]) => alias.startsWith('regions.'))
+    .map(([alias, target]) => [alias.slice('regions.'.length), target.slice('regions.'.length)] as [string, string]);
+
+  const mapped = renameKeys(value as Record<string, unknown>, top);
+  if (inner.length > 0 && Array.isArray(mapped.regions)) {
+    mapped.regions = mapped.regions.map((r) =>
+      r && typeof r === 'object' && !Array.isArray(r) ? renameKeys(r as Record<string, unknown>, inner) : r
+    );
+  }
+  return mapped;
+}
+
+/** 設定面板文字格式（每行「別名 = 目標」）→ 映射表；無法辨識的行略過 */
+export function parseResponseFieldMapText(text: string): Record<string, string> {
+  const raw: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(/^\s*([^=→:]+?)\s*(?:=|→|:)\s*(\S+)\s*$/);
+    if (m) raw[m[1]] = m[2];
+  }
+  return sanitizeResponseFieldMap(raw);
+}
+
+/** 映射表 → 設定面板文字格式 */
+export function formatResponseFieldMap(map: Record<string, string>): string {
+  return Object.entries(map).map(([alias, target]) => `${alias} = ${target}`).join('\n');
+}
+
+/** 模型原始輸出 → 修復 → 欄位映射 → 驗證（一次完成；route 只需判斷 ok） */
+export function parsePageAnalysis(
+  raw: string,
+  fieldMap: Record<string, string> = DEFAULT_RESPONSE_FIELD_MAP,
+): PageAnalysisParseResult {
+  const { value, repairs, error } = parseJsonTolerant(raw);
+  if (value === undefined) {
+    return { ok: false, issues: [{ path: '', message: `JSON 無法解析：${error ?? '未知錯誤'}` }], repairs };
+  }
+  const { value: validated, issues, regionRepairs } = validatePageAnalysis(applyResponseFieldMap(value, fieldMap));
+  if (regionRepairs.clamped > 0) repairs.push('clamp-bbox');
+  if (regionRepairs.dropped > 0) repairs.push('drop-region');
+  if (!validated) return { ok: false, issues, repairs };
+  return { ok: true, value: validated, repairs, issues: regionRepairs.issues };
+}
@@ -0,0 +1,173 @@
+/**
+ * 功能：末尾樣板頁偵測（免責聲明 / 分析師聲明 / 評等定義）
+ * 職責：依文字層的關鍵字覆蓋率與已知樣板指紋（僅計標題位置；引用其他頁的行不計）判斷單頁是否為樣板頁；從最後一頁往前找出連續的樣板頁，
+ *       決定每份檔案要略過的末尾頁（取代固定的券商忽略頁數）；lookupFileSkip 統一計算檔案的有效忽略頁數
+ *       （偵測結果優先，未偵測到時退回券商忽略頁數映射）
+ * 依賴：types.ts（FileEntry、SkippedPage）；文字由 pdfTextExtract.readPageText 讀取，useFileManager 上傳時呼叫
+ */
+
+import { BoilerplateKind, FileEntry, SkippedPage } from './types';
+
+/** 最多往前掃描的末尾頁數 */
+export const BOILERPLATE_SCAN_MAX_PAGES = 12;
+/** 文字少於此字數視為空白頁 / 圖片頁（不判斷內容） */
+const MIN_TEXT_LENGTH = 80;
+/** 關鍵字覆蓋率（關鍵字字數 / 頁面字數）達此值即為樣板頁 */
+const COVERAGE_THRESHOLD = 0.04;
+/** 有標題位置的樣板指紋時覆蓋率門檻放寬 */
+const FINGERPRINT_COVERAGE_THRESHOLD = 0.015;
+/** 指紋前方允許的行首裝飾（空白、編號、括號、Markdown 標記） */
+const HEADING_PREFIX = /^[\s\d.、:：()（）【】[\]「」#*•·-]*$/;
+/** 含這些字的行是引用其他頁（內文頁尾「請參閱後頁之免責聲明」），不計入關鍵字與指紋 */
+const REFERENCE_WORDS = /請參閱|請參考|參閱|詳見|見後|see |refer to/;
+/** 數字占比超過此值視為數據表 / 附錄財報，不略過 */
+const MAX_DIGIT_RATIO = 0.25;
+
+export const BOILERPLATE_KIND_LABELS: Record<BoilerplateKind, string> = {
+  disclaimer: '免責聲明',
+  certification: '分析師聲明',
+  ratingDefinition: '評等定義',
+  blank: '空白 / 封底',
+};
+
+type TextKind = Exclude<BoilerplateKind, 'blank'>;
+
+/** 各類樣板頁關鍵字（英文一律小寫比對） */
+const KEYWORDS: Record<TextKind, string[]> = {
+  disclaimer: [
+    '免責聲明', '僅供參考', '不保證', '法律責任', '自行承擔', '自行判斷', '不得轉載', '不得複製', '不得以任何形式',
+    '利益衝突', '投資人應', '並非投資建議', '不代表', '準確性', '完整性', '本報告', '授權',
+    'disclaimer', 'important disclosures', 'information purposes only', 'does not constitute', 'solicitation',
+    'offer to buy or sell', 'conflicts of interest', 'reproduced', 'redistributed', 'no representation',
+    'accuracy or completeness', 'investment banking', 'regulated by', 'past performance', 'without notice',
+    'affiliates', 'jurisdiction',
+  ],
+  certification: [
+    '分析師聲明', '分析師保證', '研究分析師', '個人觀點', '未曾收受', '直接或間接',
+    'analyst certification', 'research analyst', 'personal views', 'no part of', 'compensation',
+    'directly or indirectly', 'specific recommendations',
+  ],
+  ratingDefinition: [
+    '評等定義', '投資評等', '評等說明', '評等標準', '買進', '中立', '賣出', '增加持股', '減少持股', '個月內', '報酬率',
+    'rating definitions', 'rating system', 'stock ratings', 'overweight', 'underweight', 'equal-weight',
+    'outperform', 'underperform', 'expected total return', '12-month', 'benchmark', 'ratings distribution',
+  ],
+};
+
+/** 已知樣板指紋（標題 / 固定段落開頭；出現即強烈暗示樣板頁） */
+const FINGERPRINTS: { text: string; kind: TextKind }[] = [
+  { text: '免責聲明', kind: 'disclaimer' },
+  { text: '本報告僅供參考', kind: 'disclaimer' },
+  { text: '重要聲明', kind: 'disclaimer' },
+  { text: 'important disclosures', kind: 'disclaimer' },
+  { text: 'disclosure appendix', kind: 'disclaimer' },
+  { text: 'general disclaimer', kind: 'disclaimer' },
+  { text: '分析師聲明', kind: 'certification' },
+  { text: 'analyst certification', kind: 'certification' },
+  { text: '評等定義', kind: 'ratingDefinition' },
+  { text: '投資評等說明', kind: 'ratingDefinition' },
+  { text: 'rating definitions', kind: 'ratingDefinition' },
+  { text: 'explanation of ratings', kind: 'ratingDefinition' },
+];
+
+/** 單頁判斷結果 */
+export interface BoilerplateVerdict {
+  kind: TextKind;
+  /** 關鍵字覆蓋率（0~1） */
+  coverage: number;
+  reasons: string[];
+}
+
+function countOccurrences(text: string, keyword: string): number {
+  let count = 0;
+  for (let at = text.indexOf(keyword); at >= 0; at = text.indexOf(keyword, at + keyword.length)) count++;
+  return count;
+}
+
+/** 去除空白後的字數（中英文混排時以字元計） */
+function textLength(text: string): number {
+  return text.replace(/\s+/g, '').length;
+}
+
+/** 指紋是否出現在標題位置（行首，前方只有裝飾字元）；內文中提到「免責聲明」不算 */
+function hasHeadingFingerprint(lower: string, fingerprint: string): boolean {
+  for (let at = lower.indexOf(fingerprint); at >= 0; at = lower.indexOf(fingerprint, at + fingerprint.length)) {
+    const lineStart = lower.lastIndexOf('\n', at - 1) + 1;
+    if (HEADING_PREFIX.test(lower.slice(lineStart, at))) return true;
+  }
+  return false;
+}
+
+/** 判斷單頁是否為樣板頁；非樣板頁或文字過少回傳 null */
+export function classifyBoilerplatePage(text: string): BoilerplateVerdict | null {
+  const length = textLength(text);
+  if (length < MIN_TEXT_LENGTH) return null;
+  const digits = (text.match(/\d/g) ?? []).length;
+  if (digits / length > MAX_DIGIT_RATIO) return null;
+
+  // 引用行不計：內容頁頁尾的「請參閱後頁之免責聲明」「See important disclosures…」會讓覆蓋率越過門檻
+  const lower = text.toLowerCase().split('\n').filter((line) => !REFERENCE_WORDS.test(line)).join('\n');
+  const covered: Record<TextKind, number> = { disclaimer: 0, certification: 0, ratingDefinition: 0 };
+  const hits: { keyword: string; count: number }[] = [];
+  for (const kind of Object.keys(KEYWORDS) as TextKind[]) {
+    for (const keyword of KEYWORDS[kind]) {
+      const count = countOccurrences(lower, keyword);
+      if (count === 0) continue;
+      covered[kind] += count * keyword.replace(/\s+/g, '').length;
+      hits.push({ keyword, count });
+    }
+  }
+  const coverage = (covered.disclaimer + covered.certification + covered.ratingDefinition) / length;
+  const fingerprints = FINGERPRINTS.filter((f) => hasHeadingFingerprint(lower, f.text));
+  const threshold = fingerprints.length > 0 ? FINGERPRINT_COVERAGE_THRESHOLD : COVERAGE_THRESHOLD;
+  if (coverage < threshold) return null;
+
+  // 類型：指紋優先（標題最能代表頁面），否則取覆蓋字數最多的類型
+  const kind = fingerprints[0]?.kind
+    ?? (Object.keys(covered) as TextKind[]).reduce((a, b) => (covered[b] > covered[a] ? b : a));
+  const topHits = hits.sort((a, b) => b.count - a.count).slice(0, 3);
+  const reasons = [
+    ...(fingerprints.length > 0 ? [`樣板指紋：${fingerprints.map((f) => `「${f.text}」`).join('')}`] : []),
+    `關鍵字覆蓋 ${(coverage * 100).toFixed(1)}%（${topHits.map((h) => `${h.keyword}×${h.count}`).join('、')}）`,
+  ];
+  return { kind, coverage, reasons };
+}
+
+/**
+ * 從最後一頁往前找出連續的樣板頁（第 1 頁一律不略過）
+ * 空白 / 圖片頁（封底）夾在樣板頁之後才一併略過；遇到內容頁即停止
+ * @param pages 末尾頁面文字（頁碼遞增，最多 BOILERPLATE_SCAN_MAX_PAGES 頁）
+ * @returns 要略過的頁面（頁碼遞增；空陣列 = 未偵測到樣板頁）
+ */
+export function detectTrailingBoilerplate(pages: { page: number; text: string }[]): SkippedPage[] {
+  const skipped: SkippedPage[] = [];
+  let pendingBlank: SkippedPage[] = [];
+  for (let i = pages.length - 1; i >= 0; i--) {
+    const { page, text } = pages[i];
+    if (page <= 1) break;
+    if (textLength(text) < MIN_TEXT_LENGTH) {
+      pendingBlank.push({ page, kind: 'blank', reasons: ['文字層幾乎沒有文字'] });
+      continue;
+    }
+    const verdict = classifyBoilerplatePage(text);
+    if (!verdict) break;
+    skipped.push(...pendingBlank, { page, kind: verdict.kind, reasons: verdict.reasons });
+    pendingBlank = [];
+  }
+  return skipped.sort((a, b) => a.page - b.page);
+}
+
+/**
+ * 檔案的有效忽略末尾頁數：樣板頁偵測結果優先；未偵測到時查券商忽略頁數
+ * （優先用原始名稱如「凱基(一般報告)」，找不到才用已映射名稱）；皆無回傳 undefined（呼叫端用全域預設值）
+ */
+export function lookupFileSkip(
+  entry: Pick<FileEntry, 'report' | 'selectedBroker' | 'skippedPages'> | null | undefined,
+  skipMap: Record<string, number>,
+): number | undefined {
+  if (!entry) return undefined;
+  if (entry.skippedPages && entry.skippedPages.length > 0) return entry.skippedPages.length;
+  if (entry.report && skipMap[entry.report] !== undefined) return skipMap[entry.report];
+  if (entry.selectedBroker && skipMap[entry.selectedBroker] !== undefined) return skipMap[entry.selectedBroker];
+  return undefined;
+}
@@ -1,9 +1,12 @@
 /**
  * 功能：券商名稱與檔名解析工具
  * 職責：從 PDF 檔名中解析日期（一律輸出西元 YYYY/MM/DD）/股票代號/券商名稱，提供券商忽略頁數預設值與券商映射工具
- * 依賴：無（純函式模組）
+ * 依賴：securities.ts（證券主檔：代號驗證、公司名稱反查代號）、filenameRules.ts（使用者自訂檔名規則，先於內建規則套用）
  */
 
+import { SecurityIndex, findSecurityInText, lookupSecurity } from './securities';
+import { FilenameRule, matchFilenameRules } from './filenameRules';
+
 /** 預設券商忽略末尾頁數映射（使用者可自行調整） */
 export const DEFAULT_BROKER_SKIP_MAP: Record<string, number> = {
   'Daiwa': 6, 'JPM': 4, 'HSBC': 4, 'GS': 4, 'MS': 7, 'Citi': 8,
@@ -186,29 +189,38 @@ function yearFromParsedDate(parsed: string | undefined): number | undefined {
   return m ? parseInt(m[1], 10) : undefined;
 }
 
-/** 從檔名擷取股票代號（4 碼台股 / AAPL / TSLA / MSFTUS 類型） */
+/**
+ * 從檔名擷取股票代號（4 碼台股 / AAPL / TSLA / MSFTUS 類型）
+ * 檔名有形似代號的 token 時一律採用（完整主檔時優先取主檔中存在者），不以公司名稱覆蓋明寫的代號；
+ * 沒有代號 token 時才以主檔反查檔名中的公司名稱（聯發科 → 2454，需為完整詞，見 findSecurityInText）
+ * @param brokerNames 券商名稱（公司名稱反查時略過，避免「統一」「元大」被當成公司）
+ */
 export function parseCodeFromFilename(
   filename: string,
   aliasMap: Record<string, string> = {},
   parsedDate?: string,
+  securities?: SecurityIndex,
+  brokerNames: string[] = [],
 ): string | undefined {
   const tokens = getFilenameTokens(filename);
   const dateYear = yearFromParsedDate(parsedDate);
   const isLikelyYear = (val: string): boolean =>
     dateYear != null && /^(19|20)\d{2}$/.test(val) && Math.abs(parseInt(val, 10) - dateYear) <= 5;
 
+  const candidates: string[] = [];
   for (let i = 0; i < tokens.length; i++) {
     const token = tokens[i];
     if (/^\d{4}$/.test(token)) {
       if (tokens[i + 1]?.startsWith('年')) continue;
       if (isLikelyYear(token)) continue;
-      return token;
+      candidates.push(token);
+      continue;
     }
     const fourDigit = token.match(/^(\d{4})/);
     if (!fourDigit) continue;
     if (/^\d{6,8}/.test(token) || /^\d{4}年/.test(token) || tokens[i + 1]?.startsWith('年')) continue;
     if (isLikelyYear(fourDigit[1])) continue;
-    return fourDigit[1];
+    candidates.push(fourDigit[1]);
   }
 
   for (const token of tokens) {
@@ -216,11 +228,18 @@ export function parseCodeFromFilename(
     if (/^[A-Z]{2,8}$/.test(cleaned)) {
       if (aliasMap[cleaned.toLowerCase()]) continue;
       if (cleaned === 'PDF' || cleaned === 'KY') continue;
-      return cleaned;
+      candidates.push(cleaned);
     }
   }
 
-  return undefined;
+  if (!securities || securities.byCode.size === 0) return candidates[0];
+
+  if (candidates.length > 0) {
+    const known = securities.complete ? candidates.map((c) => lookupSecurity(securities, c)).find(Boolean) : undefined;
+    return known?.code ?? candidates[0];
+  }
+  const excluded = new Set([...Object.keys(aliasMap), ...brokerNames.map((b) => b.toLowerCase())]);
+  return findSecurityInText(securities, normalizeFilenameForTokens(filename), excluded)?.code;
 }
 
 /**
@@ -342,14 +361,20 @@ export function parseBrokerFromFilename(
   return undefined;
 }
 
-/** 從檔名一次解析日期、股票代號、券商名 */
+/**
+ * 從檔名一次解析日期、股票代號、券商名
+ * 使用者自訂規則優先：第一條符合的規則擷取到的欄位直接採用，未擷取的欄位再交給內建規則；rule = 生效的自訂規則名稱
+ */
 export function parseMetadataFromFilename(
   filename: string,
   knownBrokers: string[],
   aliasMap: Record<string, string> = {},
-): { date?: string; code?: string; broker?: string } {
-  const date = parseDateFromFilename(filename);
-  const code = parseCodeFromFilename(filename, aliasMap, date);
-  const broker = parseBrokerFromFilename(filename, knownBrokers, aliasMap);
-  return { date, code, broker };
+  securities?: SecurityIndex,
+  rules: FilenameRule[] = [],
+): { date?: string; code?: string; broker?: string; rule?: string } {
+  const matched = matchFilenameRules(filename, rules);
+  const date = matched?.date ?? parseDateFromFilename(filename);
+  const code = matched?.code ?? parseCodeFromFilename(filename, aliasMap, date, securities, knownBrokers);
+  const broker = matched?.broker ?? parseBrokerFromFilename(filename, knownBrokers, aliasMap);
+  return { date, code, broker, ...(matched && { rule: matched.rule }) };
 }
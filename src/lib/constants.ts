@@ -54,6 +54,16 @@ export const DEFAULT_TABLE_PROMPT = `將這張圖片中的表格或圖表內容
 - 如果圖片中沒有表格或圖表，直接輸出圖片中的所有文字
 - 只回傳 Markdown 內容，不加任何額外說明`;
 
+/**
+ * 預設 AI 回應欄位映射（模型 JSON key → PageAnalysis 欄位）。
+ * Prompt 作者改了輸出 key（如要求回傳 "stock"）時，在設定中加映射即可，不需改程式。
+ * 目標欄位見 analysisSchema.ts RESPONSE_FIELD_TARGETS；regions. 前綴表示 region 物件內的欄位。
+ */
+export const DEFAULT_RESPONSE_FIELD_MAP: Record<string, string> = {
+  stock: 'code',
+  provider: 'report',
+};
+
 /** Bounding Box 顏色配色表 — 按 index 循環使用 */
 export const BOX_COLORS: BoxColor[] = [
   { border: '#3B82F6', bg: 'rgba(59, 130, 246, 0.12)', hoverBg: 'rgba(59, 130, 246, 0.28)', textBg: 'rgba(59, 130, 246, 0.08)' },
@@ -87,3 +97,48 @@ export const RENDER_SCALE = 2;
 
 /** JPEG 壓縮品質（0.55 兼顧清晰度與 token 節省，比 0.85 省約 37%） */
 export const JPEG_QUALITY = 0.55;
+
+/** 本機 OpenAI 相容端點（Ollama / vLLM / LM Studio）的 model ID 前綴，如 local:qwen2.5vl:7b */
+export const LOCAL_MODEL_PREFIX = 'local:';
+
+/** 判斷是否為本機端點模型 */
+export function isLocalModel(modelId: string): boolean {
+  return modelId.startsWith(LOCAL_MODEL_PREFIX);
+}
+
+/** 離線模擬模型的 model ID 前綴（需伺服器設 MOCK_AI=1），如 mock:fixture+429=1 */
+export const MOCK_MODEL_PREFIX = 'mock:';
+
+/** 判斷是否為離線模擬模型 */
+export function isMockModel(modelId: string): boolean {
+  return modelId.startsWith(MOCK_MODEL_PREFIX);
+}
+
+/** 模擬模型預設不走 AI 回應快取；model ID 帶 +cache 旗標時照常查詢 / 寫入（驗證快取相關流程） */
+export function isCacheableModel(modelId: string): boolean {
+  return !isMockModel(modelId) || modelId.slice(MOCK_MODEL_PREFIX.length).split('+').includes('cache');
+}
+
+/** 文字層版面分析的虛擬 model ID：不呼叫 AI，由前端從 PDF 文字層提出段落區域（無 AI 分析模式 / 交叉比對檢查 AI 框） */
+export const LAYOUT_MODEL_ID = 'layout:text';
+
+/** 模型選單中版面分析的顯示名稱 */
+export const LAYOUT_MODEL_LABEL = '文字層版面分析（不呼叫 AI）';
+
+/** 判斷是否為文字層版面分析 */
+export function isLayoutModel(modelId: string): boolean {
+  return modelId === LAYOUT_MODEL_ID;
+}
+
+/** 模型是否可直接接收單頁 PDF（application/pdf inline data）：Gemini 原生與模擬模型；OpenRouter / 本機端點僅支援圖片 */
+export function modelSupportsPdfInput(modelId: string): boolean {
+  if (isMockModel(modelId)) return true;
+  if (isLayoutModel(modelId)) return false;
+  return !isLocalModel(modelId) && !modelId.includes('/');
+}
+
+/** 依模型類型判斷前端是否已備妥金鑰（本機端點由伺服器端設定 base URL、模擬模型由伺服器端啟用、版面分析不呼叫 AI，皆不需前端金鑰） */
+export function modelHasKey(modelId: string, apiKey: string, openRouterApiKey: string): boolean {
+  if (isLocalModel(modelId) || isMockModel(modelId) || isLayoutModel(modelId)) return true;
+  return modelId.includes('/') ? !!openRouterApiKey : !!apiKey;
+}
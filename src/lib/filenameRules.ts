@@ -0,0 +1,139 @@
+/**
+ * 功能：使用者自訂的檔名解析規則（宣告式 pattern）
+ * 職責：規則型別、設定值驗證、設定面板文字格式互轉、依序比對檔名取出日期 / 股票代號 / 券商（具名群組），
+ *       日期依規則指定格式（西元 / 民國 / YYMMDD / MMDDYYYY）轉為 YYYY/MM/DD
+ * 依賴：無（純函式模組；brokerUtils.parseMetadataFromFilename 在內建規則之前套用）
+ *
+ * 設定面板文字格式（每行一條規則，依序比對，第一條符合者生效；# 開頭為註解）：
+ *   名稱 | 日期格式 | 正則
+ *   台新 | ROC | ^(?<code>\d{4})[^_]*_(?<date>\d{7})_(?<broker>台新)$
+ * 正則比對去除 .pdf 的檔名（不分大小寫）；具名群組 date / code / broker 皆可省略，缺少的欄位交回內建規則解析
+ */
+
+export type FilenameDateFormat = 'AD' | 'ROC' | 'YYMMDD' | 'MMDDYYYY';
+
+export const FILENAME_DATE_FORMATS: FilenameDateFormat[] = ['AD', 'ROC', 'YYMMDD', 'MMDDYYYY'];
+
+/** 單一檔名規則 */
+export interface FilenameRule {
+  /** 規則名稱（預覽顯示哪條規則生效） */
+  name: string;
+  /** 正則（具名群組 date / code / broker） */
+  pattern: string;
+  /** date 群組的日期格式 */
+  dateFormat: FilenameDateFormat;
+}
+
+/** 規則比對結果（欄位為已正規化值；未擷取的欄位省略） */
+export interface FilenameRuleMatch {
+  rule: string;
+  date?: string;
+  code?: string;
+  broker?: string;
+}
+
+const CAPTURE_GROUPS = ['date', 'code', 'broker'] as const;
+const ROC_OFFSET = 1911;
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/** 過濾規則：名稱非空、正則合法且至少含一個 date / code / broker 具名群組；未知日期格式視為 AD */
+export function sanitizeFilenameRules(raw: unknown): FilenameRule[] {
+  if (!Array.isArray(raw)) return [];
+  const rules: FilenameRule[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+    const { name, pattern, dateFormat } = item as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim() || typeof pattern !== 'string' || !pattern.trim()) continue;
+    if (!compilePattern(pattern.trim())) continue;
+    if (!CAPTURE_GROUPS.some((g) => pattern.includes(`(?<${g}>`))) continue;
+    rules.push({
+      name: name.trim(),
+      pattern: pattern.trim(),
+      dateFormat: FILENAME_DATE_FORMATS.includes(dateFormat as FilenameDateFormat) ? dateFormat as FilenameDateFormat : 'AD',
+    });
+  }
+  return rules;
+}
+
+/** 設定面板文字格式 → 規則；無法辨識的行略過（正則本身可含 |，只切前兩個分隔符） */
+export function parseFilenameRulesText(text: string): FilenameRule[] {
+  const rules: Partial<FilenameRule>[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const m = trimmed.match(/^([^|]+)\|([^|]*)\|(.+)$/);
+    if (!m) continue;
+    rules.push({ name: m[1].trim(), dateFormat: m[2].trim().toUpperCase() as FilenameDateFormat, pattern: m[3].trim() });
+  }
+  return sanitizeFilenameRules(rules);
+}
+
+/** 規則 → 設定面板文字格式 */
+export function formatFilenameRules(rules: FilenameRule[]): string {
+  return rules.map((r) => `${r.name} | ${r.dateFormat} | ${r.pattern}`).join('\n');
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  return year >= 1900 && year <= 2100 && month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+/**
+ * 依日期格式把擷取到的日期字串轉為 YYYY/MM/DD：
+ * 連續數字（20250318 / 1140318 / 250318 / 03182025）或以任意非數字分隔的三段（2025-3-18、114.3.18、03/18/2025）
+ */
+export function normalizeRuleDate(raw: string, format: FilenameDateFormat): string | undefined {
+  const parts = raw.split(/\D+/).filter(Boolean);
+  let y: string;
+  let m: string;
+  let d: string;
+  if (parts.length === 3) {
+    [y, m, d] = format === 'MMDDYYYY' ? [parts[2], parts[0], parts[1]] : parts;
+  } else {
+    const digits = parts.join('');
+    const layout: Record<FilenameDateFormat, [number, number, number, number]> = {
+      // [年長度, 年起點, 月起點, 日起點]
+      AD: [4, 0, 4, 6],
+      ROC: [3, 0, 3, 5],
+      YYMMDD: [2, 0, 2, 4],
+      MMDDYYYY: [4, 4, 0, 2],
+    };
+    const [yLen, yAt, mAt, dAt] = layout[format];
+    if (digits.length !== yLen + 4) return undefined;
+    y = digits.slice(yAt, yAt + yLen);
+    m = digits.slice(mAt, mAt + 2);
+    d = digits.slice(dAt, dAt + 2);
+  }
+  const year = format === 'ROC' ? parseInt(y, 10) + ROC_OFFSET
+    : format === 'YYMMDD' && y.length <= 2 ? 2000 + parseInt(y, 10)
+    : parseInt(y, 10);
+  const month = parseInt(m, 10);
+  const day = parseInt(d, 10);
+  if (!isValidDate(year, month, day)) return undefined;
+  return `${year}/${String(month).padStart(2, '0')}/${String(day).padStart(2, '0')}`;
+}
+
+/** 依序比對規則，回傳第一條符合者擷取的欄位（日期無法轉換時該欄位省略）；皆不符合回傳 undefined */
+export function matchFilenameRules(filename: string, rules: FilenameRule[]): FilenameRuleMatch | undefined {
+  const name = filename.replace(/\.pdf$/i, '');
+  for (const rule of rules) {
+    const groups = compilePattern(rule.pattern)?.exec(name)?.groups;
+    if (!groups) continue;
+    const date = groups.date?.trim() ? normalizeRuleDate(groups.date, rule.dateFormat) : undefined;
+    const code = groups.code?.trim().toUpperCase();
+    const broker = groups.broker?.trim();
+    return {
+      rule: rule.name,
+      ...(date && { date }),
+      ...(code && { code }),
+      ...(broker && { broker }),
+    };
+  }
+  return undefined;
+}
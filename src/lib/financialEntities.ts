@@ -0,0 +1,247 @@
+/**
+ * 功能：從 region 文字擷取財務數據（營收、利潤率、EPS、目標價、投資評等、QoQ / YoY）
+ * 職責：逐句比對指標關鍵字與數值，附上期間標籤（4Q25、1H26、2026F…）與增減率描述的指標，
+ *       依頁碼 / 右欄順序輸出單一檔案的結構化數據（右欄「數據」面板顯示、匯出時可附上）
+ * 依賴：types.ts（Region、FinancialEntity）
+ *
+ * 期間歸屬：同句中位於數值前最近的期間 → 同句第一個期間 → 同 region 前文最後出現的期間
+ * 期間標籤先以等長遮罩蓋掉再比對指標，避免「營收於 4Q25 達 112.97 億元」把 4 或 25 當成數值
+ * 英文指標名稱一律加 \b 字界（比對不分大小寫，否則 segment 內的 gm、wholesales 內的 sales 都會命中）；
+ * 中文名稱不加（\b 只認 ASCII 字元，加在中文前後反而永遠比對不到）
+ */
+
+import type { FinancialEntity, FinancialEntityKind, Region } from './types';
+
+/** 數據面板 / 匯出的種類名稱（同時決定面板分組順序） */
+export const FINANCIAL_ENTITY_KIND_LABELS: Record<FinancialEntityKind, string> = {
+  revenue: '營收',
+  margin: '利潤率',
+  eps: 'EPS',
+  targetPrice: '目標價',
+  rating: '評等',
+  qoq: 'QoQ',
+  yoy: 'YoY',
+};
+
+// === 期間標籤 ===
+
+/** 期間格式與正規化（依序比對，同一位置先比對到者優先） */
+const PERIOD_PATTERNS: { regex: RegExp; normalize: (m: RegExpExecArray) => string }[] = [
+  // 4Q25、4Q2025、4Q 25
+  { regex: /(?<![\dA-Za-z])([1-4])\s?Q\s?(?:20)?(\d{2})(?!\d)/gi, normalize: (m) => `${m[1]}Q${m[2]}` },
+  // Q4'25、Q4 2025
+  { regex: /(?<![A-Za-z])Q([1-4])\s?['’]?\s?(?:20)?(\d{2})(?!\d)/gi, normalize: (m) => `${m[1]}Q${m[2]}` },
+  // 2025 年第四季、25年第4季
+  {
+    regex: /(?<!\d)(?:20)?(\d{2})\s*年\s*第?\s*([一二三四1-4])\s*季/g,
+    normalize: (m) => `${'一二三四'.includes(m[2]) ? '一二三四'.indexOf(m[2]) + 1 : m[2]}Q${m[1]}`,
+  },
+  // 1H26、2H2025
+  { regex: /(?<![\dA-Za-z])([12])\s?H\s?(?:20)?(\d{2})(?!\d)/gi, normalize: (m) => `${m[1]}H${m[2]}` },
+  // FY26、FY2026
+  { regex: /(?<![A-Za-z])FY\s?(?:20)?(\d{2})(?!\d)/gi, normalize: (m) => `FY${m[1]}` },
+  // 2026F、26E
+  { regex: /(?<![\d.])(?:20)?(\d{2})\s?([FE])(?![A-Za-z])/g, normalize: (m) => `20${m[1]}${m[2]}` },
+  // 2025 年（排除「2025 年第四季」與日期「2025 年 3 月」）
+  { regex: /(?<!\d)(20\d{2})\s*年(?!\s*第?\s*[一二三四1-4]\s*季)(?!\s*\d{1,2}\s*月)/g, normalize: (m) => m[1] },
+];
+
+interface PeriodMatch {
+  period: string;
+  start: number;
+  end: number;
+}
+
+/** 找出句中所有期間標籤（依位置排序，重疊時保留先出現者） */
+function findPeriods(sentence: string): PeriodMatch[] {
+  const found: PeriodMatch[] = [];
+  for (const { regex, normalize } of PERIOD_PATTERNS) {
+    regex.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(sentence)) !== null) {
+      found.push({ period: normalize(m), start: m.index, end: m.index + m[0].length });
+    }
+  }
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const result: PeriodMatch[] = [];
+  for (const p of found) {
+    if (result.length > 0 && p.start < result[result.length - 1].end) continue;
+    result.push(p);
+  }
+  return result;
+}
+
+/** 以等長遮罩蓋掉期間標籤（保留索引位置，供原文片段與期間歸屬對照） */
+function maskPeriods(sentence: string, periods: PeriodMatch[]): string {
+  let out = sentence;
+  for (const p of periods) {
+    out = out.slice(0, p.start) + '·'.repeat(p.end - p.start) + out.slice(p.end);
+  }
+  return out;
+}
+
+// === 指標比對 ===
+
+/** 數值：可帶正負號、千分位、小數；之後不可緊接數字（避免回溯截斷 112.97 → 112.9） */
+const NUM = String.raw`([+\-−－]?\s?\d+(?:,\d{3})*(?:\.\d+)?)(?!\d|\.\d|,\d{3})`;
+/** 指標名稱與數值之間的文字：不跨越數字、百分比與增減字（「營收年增 10%」不是營收金額） */
+const GAP = String.raw`[^\d%。；;\n增減]{0,15}?`;
+/** 數值前的幣別（NT$850）；單位統一以數值後的寫法表示 */
+const CURRENCY_PREFIX = String.raw`(NT\$|US\$|\$)?\s?`;
+const CURRENCY_PREFIX_UNITS: Record<string, string> = { 'NT$': '元', 'US$': '美元', '$': '美元' };
+
+/** 增減率關鍵字（增減率比對與利潤率「季減 2.1 個百分點至 40.1%」的變動子句共用） */
+const CHANGE_KEYWORDS = 'QoQ|YoY|季增|季減|年增|年減|季成長|年成長|季衰退|年衰退|較上季|較去年同期';
+/** 利潤率名稱後的變動子句：數值取「至」之後的水準，而非變動幅度 */
+const MARGIN_CHANGE_CLAUSE = String.raw`(?:(?:${CHANGE_KEYWORDS})率?[^\d%。；;\n]{0,6}?[+\-−－]?\s?\d+(?:\.\d+)?\s*(?:%|個百分點|ppts?|pp)\s*至\s*)?`;
+
+function currencyUnit(prefix: string | undefined): string | undefined {
+  return prefix ? CURRENCY_PREFIX_UNITS[prefix.toUpperCase()] : undefined;
+}
+
+interface MetricPattern {
+  kind: FinancialEntityKind;
+  /** 群組 1 = 指標名稱、2 = 幣別前綴、3 = 數值 */
+  regex: RegExp;
+  /** 由比對結果取得單位（省略 = 無單位） */
+  unit?: (m: RegExpExecArray) => string | undefined;
+}
+
+const METRIC_PATTERNS: MetricPattern[] = [
+  {
+    kind: 'revenue',
+    regex: new RegExp(String.raw`(合併營收|營業收入|營收|\b(?:revenue|sales)\b)${GAP}${CURRENCY_PREFIX}${NUM}(?!\s*%)\s*(兆|億|千萬|百萬|萬|[bm]n)?\s*(元|美元|台幣|新台幣)?`, 'gi'),
+    unit: (m) => (m[4] ?? '') + (m[5] ?? currencyUnit(m[2]) ?? '') || undefined,
+  },
+  {
+    kind: 'margin',
+    regex: new RegExp(String.raw`(毛利率|營業利益率|營益率|營業淨利率|稅前淨利率|稅後淨利率|淨利率|\b(?:gross margin|operating margin|net margin|GM|OPM)\b)${GAP}${MARGIN_CHANGE_CLAUSE}()${NUM}\s*%`, 'gi'), // 空群組佔位幣別前綴
+    unit: () => '%',
+  },
+  {
+    kind: 'eps',
+    regex: new RegExp(String.raw`(\bEPS\b|每股稅後盈餘|每股盈餘|每股純益)${GAP}${CURRENCY_PREFIX}${NUM}(?!\s*%)\s*(元|美元)?`, 'gi'),
+    unit: (m) => m[4] ?? currencyUnit(m[2]),
+  },
+  {
+    kind: 'targetPrice',
+    regex: new RegExp(String.raw`(目標價|\b(?:target price|TP)\b)${GAP}${CURRENCY_PREFIX}${NUM}(?!\s*%)\s*(元|美元)?`, 'gi'),
+    unit: (m) => m[4] ?? currencyUnit(m[2]),
+  },
+];
+
+const RATING_REGEX = /(?:投資評等|評等|投資建議|建議|維持|調升至?|調降至?|上調至?|下調至?|給予|重申|\b(?:rating|maintain|reiterate|upgrade to|downgrade to|rated?))\s*[：:為]?\s*[「『"“]?\s*(強力買進|買進|增加持股|優於大盤|中立|持有|減碼|劣於大盤|賣出|strong buy|buy|outperform|overweight|neutral|hold|underperform|underweight|sell)(?![A-Za-z])/gi;
+
+/**
+ * 增減率：QoQ+13.56%、季增 13.56%、YoY -5%、年減 3.2%、較去年同期成長 8%、季減 2.1 個百分點（利潤率變動）、
+ * 年增率 13%、年增率達 13%（「率」不計入標籤）
+ */
+const CHANGE_REGEX = new RegExp(
+  String.raw`(${CHANGE_KEYWORDS})率?\s*[：:]?\s*(?:達|為|至)?\s*(增加|減少|成長|衰退)?\s*${NUM}\s*(%|個百分點|ppts?|pp)`,
+  'gi',
+);
+
+/** 增減率描述的指標（取數值前最後一個出現者） */
+const SUBJECT_REGEX = /合併營收|營業收入|營收|毛利率|毛利|營業利益|營益率|稅後淨利|淨利|\bEPS\b|出貨量?|獲利|\b(?:revenue|sales)\b/gi;
+
+function parseNumber(raw: string): number {
+  return Number(raw.replace(/[−－]/g, '-').replace(/[\s,]/g, ''));
+}
+
+/** 數值的期間：前方最近 → 同句第一個 → 前文延續 */
+function periodAt(periods: PeriodMatch[], index: number, carried: string | undefined): string | undefined {
+  let before: string | undefined;
+  for (const p of periods) {
+    if (p.start < index) before = p.period;
+  }
+  return before ?? periods[0]?.period ?? carried;
+}
+
+/** 擷取單一 region 文字中的財務數據 */
+export function extractEntitiesFromText(text: string, page: number, regionId: number): FinancialEntity[] {
+  const entities: FinancialEntity[] = [];
+  let carried: string | undefined;
+
+  for (const sentence of text.split(/[。；;\n！？!?]/)) {
+    if (!sentence.trim()) continue;
+    const periods = findPeriods(sentence);
+    const masked = maskPeriods(sentence, periods);
+    const push = (entity: Omit<FinancialEntity, 'period' | 'page' | 'regionId'>, index: number) => {
+      const period = periodAt(periods, index, carried);
+      entities.push({ ...entity, ...(period && { period }), page, regionId });
+    };
+
+    for (const { kind, regex, unit } of METRIC_PATTERNS) {
+      regex.lastIndex = 0;
+      let m: RegExpExecArray | null;
+      while ((m = regex.exec(masked)) !== null) {
+        const u = unit?.(m);
+        push({
+          kind,
+          label: m[1],
+          value: parseNumber(m[3]),
+          ...(u && { unit: u }),
+          raw: sentence.slice(m.index, m.index + m[0].length).trim(),
+        }, m.index);
+      }
+    }
+
+    RATING_REGEX.lastIndex = 0;
+    let r: RegExpExecArray | null;
+    while ((r = RATING_REGEX.exec(masked)) !== null) {
+      push({ kind: 'rating', label: '評等', value: r[1], raw: sentence.slice(r.index, r.index + r[0].length).trim() }, r.index);
+    }
+
+    CHANGE_REGEX.lastIndex = 0;
+    let c: RegExpExecArray | null;
+    while ((c = CHANGE_REGEX.exec(masked)) !== null) {
+      const keyword = c[1];
+      const value = parseNumber(c[3]);
+      const negative = /減|衰退/.test(keyword + (c[2] ?? ''));
+      let subject: string | undefined;
+      SUBJECT_REGEX.lastIndex = 0;
+      let s: RegExpExecArray | null;
+      while ((s = SUBJECT_REGEX.exec(masked)) !== null && s.index < c.index) subject = s[0];
+      push({
+        kind: /QoQ|季/i.test(keyword) ? 'qoq' : 'yoy',
+        label: keyword,
+        value: negative ? -Math.abs(value) : value,
+        unit: c[4] === '%' ? '%' : 'pp',
+        ...(subject && { subject }),
+        raw: sentence.slice(c.index, c.index + c[0].length).trim(),
+      }, c.index);
+    }
+
+    if (periods.length > 0) carried = periods[periods.length - 1].period;
+  }
+
+  return entities;
+}
+
+/**
+ * 擷取整個檔案的財務數據：頁碼遞增、頁內依右欄順序；
+ * 同一指標 / 期間 / 數值重複出現（摘要與內文重述）只保留第一筆
+ */
+export function extractFinancialEntities(pageRegions: Map<number, Region[]>): FinancialEntity[] {
+  const seen = new Set<string>();
+  const result: FinancialEntity[] = [];
+  for (const [page, regions] of Array.from(pageRegions.entries()).sort(([a], [b]) => a - b)) {
+    for (const region of regions) {
+      if (!region.text?.trim()) continue;
+      for (const entity of extractEntitiesFromText(region.text, page, region.id)) {
+        const key = [entity.kind, entity.label.toLowerCase(), entity.value, entity.period ?? '', entity.subject ?? ''].join('|');
+        if (seen.has(key)) continue;
+        seen.add(key);
+        result.push(entity);
+      }
+    }
+  }
+  return result;
+}
+
+/** 顯示用數值：增減率帶正負號，其餘數值加單位 */
+export function formatFinancialEntityValue(entity: FinancialEntity): string {
+  if (typeof entity.value === 'string') return entity.value;
+  const sign = (entity.kind === 'qoq' || entity.kind === 'yoy') && entity.value > 0 ? '+' : '';
+  return `${sign}${entity.value}${entity.unit ?? ''}`;
+}
@@ -0,0 +1,221 @@
+/**
+ * 功能：符號字型 / PUA 字元替換規則（使用者可編輯的字型字元映射表）
+ * 職責：規則型別與預設規則（取自 pdfTextExtractCore 的 WINGDINGS_CHAR_MAP / PUA_CHAR_MAP）、
+ *       設定值驗證、設定面板文字格式互轉、依字型名稱挑選規則並逐字替換、未對應符號判斷與加入規則
+ * 依賴：pdfTextExtractCore.ts（內建映射表）
+ *
+ * 設定面板文字格式：
+ *   [wingdings|webdings|zapfdingbats] fallback=■   ← 字型名稱正則（不分大小寫），fallback 為未列出字元的替換值（可省略）
+ *   U+006E = ■                                      ← 碼位 = 替換字串（碼位也可寫 0x6E 或直接寫字元）
+ *   [*]                                             ← 所有字型（PUA 字元等與字型無關的替換）
+ *   U+F06E = ■
+ */
+
+import { PUA_CHAR_MAP, WINGDINGS_CHAR_MAP } from './pdfTextExtractCore';
+
+/** fontPattern 萬用值：套用到所有字型 */
+export const ANY_FONT_PATTERN = '*';
+
+/** 非規則指定、但名稱看起來是符號字型（掃描未對應符號時一併列出） */
+const SYMBOL_FONT_REGEX = /symbol|dingbat|wingding|webding|marlett|bullet|mt\s?extra/i;
+/** Private Use Area（未登錄時由 pdfTextExtractCore.sanitizePuaChars 以 ● 代替） */
+const PUA_REGEX = /[\uE000-\uF8FF]/;
+
+/** 單一字型的字元替換規則 */
+export interface GlyphMapRule {
+  /** 字型名稱正則（不分大小寫，比對真實字型名稱與 fontFamily）；'*' = 所有字型 */
+  fontPattern: string;
+  /** 碼位（"U+F06E"）→ 替換字串（空字串 = 刪除該字元） */
+  map: Record<string, string>;
+  /** 未列於 map 的非空白字元替換為此值（省略 = 保留原字元） */
+  fallback?: string;
+}
+
+/** 編譯後的規則（pdfTextExtract.ts 每頁套用） */
+export interface CompiledGlyphRule {
+  /** null = 所有字型 */
+  regex: RegExp | null;
+  map: Map<number, string>;
+  fallback?: string;
+}
+
+/** 碼位 → 設定用 key（"U+F06E"） */
+export function toCodepointKey(code: number): string {
+  return `U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+/** 解析碼位 key：U+F06E、0xF06E 或單一字元；無法辨識回傳 null */
+export function parseCodepointKey(raw: string): number | null {
+  const key = raw.trim();
+  const hex = key.match(/^(?:U\+|0x)([0-9a-f]{1,6})$/i);
+  if (hex) {
+    const code = parseInt(hex[1], 16);
+    return code <= 0x10FFFF ? code : null;
+  }
+  const chars = Array.from(key);
+  return chars.length === 1 ? chars[0].codePointAt(0)! : null;
+}
+
+function charMapToRuleMap(entries: [number, string][]): Record<string, string> {
+  return Object.fromEntries(entries.map(([code, rep]) => [toCodepointKey(code), rep]));
+}
+
+/** 預設規則：Wingdings 系列字型的 ASCII 字元碼 + 與字型無關的 PUA 字元（與原本內建行為相同） */
+export const DEFAULT_GLYPH_MAP_RULES: GlyphMapRule[] = [
+  {
+    fontPattern: 'wingdings|webdings|zapfdingbats',
+    map: charMapToRuleMap(Object.entries(WINGDINGS_CHAR_MAP).map(([ch, rep]) => [ch.codePointAt(0)!, rep])),
+    fallback: '■',
+  },
+  {
+    fontPattern: ANY_FONT_PATTERN,
+    map: charMapToRuleMap(Object.entries(PUA_CHAR_MAP).map(([code, rep]) => [Number(code), rep])),
+  },
+];
+
+function isValidPattern(pattern: string): boolean {
+  if (pattern === ANY_FONT_PATTERN) return true;
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** 過濾規則：字型樣式須為合法正則（或 *），碼位 key 正規化為 U+XXXX，替換值須為字串 */
+export function sanitizeGlyphMapRules(raw: unknown): GlyphMapRule[] {
+  if (!Array.isArray(raw)) return [];
+  const rules: GlyphMapRule[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+    const { fontPattern, map, fallback } = item as Record<string, unknown>;
+    if (typeof fontPattern !== 'string' || !fontPattern.trim() || !isValidPattern(fontPattern.trim())) continue;
+    const cleanMap: Record<string, string> = {};
+    if (map && typeof map === 'object' && !Array.isArray(map)) {
+      for (const [key, value] of Object.entries(map as Record<string, unknown>)) {
+        const code = parseCodepointKey(key);
+        if (code === null || typeof value !== 'string') continue;
+        cleanMap[toCodepointKey(code)] = value;
+      }
+    }
+    rules.push({
+      fontPattern: fontPattern.trim(),
+      map: cleanMap,
+      // 萬用規則不接受 fallback（否則所有字型的每個字元都會被替換）
+      ...(typeof fallback === 'string' && fallback && fontPattern.trim() !== ANY_FONT_PATTERN && { fallback }),
+    });
+  }
+  return rules;
+}
+
+/** 設定面板文字格式 → 規則；無法辨識的行略過 */
+export function parseGlyphMapText(text: string): GlyphMapRule[] {
+  const rules: GlyphMapRule[] = [];
+  let current: GlyphMapRule | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const header = trimmed.match(/^\[(.+)\](?:\s+fallback\s*=\s*(\S+))?$/);
+    if (header) {
+      current = { fontPattern: header[1].trim(), map: {}, ...(header[2] && { fallback: header[2] }) };
+      rules.push(current);
+      continue;
+    }
+    const entry = trimmed.match(/^(\S+)\s*(?:=|→)\s*(.*)$/);
+    if (entry && current) current.map[entry[1]] = entry[2].trim();
+  }
+  return sanitizeGlyphMapRules(rules);
+}
+
+/** 規則 → 設定面板文字格式 */
+export function formatGlyphMapRules(rules: GlyphMapRule[]): string {
+  return rules.map((rule) => [
+    `[${rule.fontPattern}]${rule.fallback ? ` fallback=${rule.fallback}` : ''}`,
+    ...Object.entries(rule.map).map(([key, value]) => `${key} = ${value}`),
+  ].join('\n')).join('\n\n');
+}
+
+/**
+ * 新增一筆碼位對應（設定面板「加入」未對應符號用）：加到第一個符合此字型的字型專屬規則；
+ * 沒有時以字型名稱（去除子集前綴 ABCDEF+）新增一條規則；PUA 字元且非符號字型時加到萬用規則
+ */
+export function addGlyphMapEntry(
+  rules: GlyphMapRule[],
+  font: string,
+  codepoint: string,
+  replacement: string,
+): GlyphMapRule[] {
+  const code = parseCodepointKey(codepoint);
+  if (code === null) return rules;
+  const key = toCodepointKey(code);
+  const compiled = compileGlyphMapRules(rules);
+  let idx = compiled.findIndex(r => r.regex && r.regex.test(font));
+  if (idx < 0 && PUA_REGEX.test(String.fromCodePoint(code)) && !SYMBOL_FONT_REGEX.test(font)) {
+    idx = rules.findIndex(r => r.fontPattern === ANY_FONT_PATTERN);
+  }
+  if (idx >= 0) {
+    return rules.map((rule, i) => (i === idx ? { ...rule, map: { ...rule.map, [key]: replacement } } : rule));
+  }
+  const baseName = font.replace(/^[A-Z]{6}\+/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return [...rules, { fontPattern: baseName, map: { [key]: replacement } }];
+}
+
+export function compileGlyphMapRules(rules: GlyphMapRule[]): CompiledGlyphRule[] {
+  return rules.map((rule) => ({
+    regex: rule.fontPattern === ANY_FONT_PATTERN ? null : new RegExp(rule.fontPattern, 'i'),
+    map: new Map(Object.entries(rule.map).map(([key, value]) => [parseCodepointKey(key)!, value])),
+    fallback: rule.fallback,
+  }));
+}
+
+/** 挑出套用到此字型的規則（任一名稱符合即可；字型專屬規則在前，萬用規則在後） */
+export function rulesForFont(rules: CompiledGlyphRule[], fontNames: string[]): CompiledGlyphRule[] {
+  const names = fontNames.filter(Boolean);
+  const specific = rules.filter(r => r.regex && names.some(n => r.regex!.test(n)));
+  return [...specific, ...rules.filter(r => !r.regex)];
+}
+
+/** 字型是否有專屬規則（符號字型） */
+export function hasFontSpecificRule(rules: CompiledGlyphRule[]): boolean {
+  return rules.some(r => r.regex !== null);
+}
+
+/** 逐字替換：依規則順序找第一個 map 命中；都未命中時用第一個有 fallback 的規則（空白字元不套用 fallback） */
+export function applyGlyphMap(str: string, rules: CompiledGlyphRule[]): string {
+  if (rules.length === 0) return str;
+  let out = '';
+  for (const ch of str) {
+    out += lookupGlyph(ch, rules) ?? ch;
+  }
+  return out;
+}
+
+function lookupGlyph(ch: string, rules: CompiledGlyphRule[]): string | undefined {
+  const code = ch.codePointAt(0)!;
+  for (const rule of rules) {
+    const mapped = rule.map.get(code);
+    if (mapped !== undefined) return mapped;
+  }
+  if (/\s/.test(ch)) return undefined;
+  return rules.find(r => r.fallback !== undefined)?.fallback;
+}
+
+/**
+ * 未對應符號判斷：符號字型（有專屬規則或名稱像符號字型）的字元、或任何字型的 PUA 字元，
+ * 且沒有任何規則的 map 命中 → 回傳目前的替換結果（fallback / PUA 預設 ●）或原字元；已對應回傳 null
+ */
+export function describeUnmappedGlyph(
+  ch: string,
+  rules: CompiledGlyphRule[],
+  fontNames: string[],
+): { replacement: string } | null {
+  if (/\s/.test(ch)) return null;
+  const symbolic = hasFontSpecificRule(rules) || fontNames.some(n => SYMBOL_FONT_REGEX.test(n));
+  const pua = PUA_REGEX.test(ch);
+  if (!symbolic && !pua) return null;
+  const code = ch.codePointAt(0)!;
+  if (rules.some(r => r.map.has(code))) return null;
+  const fallback = rules.find(r => r.fallback !== undefined)?.fallback;
+  return { replacement: fallback ?? (pua ? '●' : ch) };
+}
@@ -0,0 +1,152 @@
+/**
+ * 功能：metadata 候選值跨來源 / 跨頁共識計分與衝突偵測
+ * 職責：依來源權重（檔名 / 首頁文字層 / 手動）加上 AI 同值頁數為每個候選值計分，算出共識值與信心（最高分 / 總分）；
+ *       信心達門檻時自動選取，未達門檻且有多個候選值即為衝突（列出各候選的來源與頁碼）；
+ *       使用者手動確認過的欄位視為已解決
+ * 依賴：types.ts（MetadataCandidate、FileEntry）、securities.ts（主檔查無的代號降權）
+ */
+
+import { FileEntry, MetadataCandidate, MetadataField } from './types';
+import { SecurityIndex, isUnknownSecurityCode } from './securities';
+
+/** 來源基礎權重（AI 不計基礎分，改以回傳該值的頁數計分） */
+export const METADATA_SOURCE_WEIGHTS: Record<MetadataCandidate['source'], number> = {
+  manual: 5,
+  filename: 3,
+  textlayer: 2,
+  ai: 0,
+};
+/** 每一頁 AI 回傳同值的分數 */
+const AI_PAGE_WEIGHT = 1;
+/** 主檔查無的股票代號分數打折 */
+const UNKNOWN_CODE_FACTOR = 0.5;
+/** 共識信心達此值即自動選取；未達且有多個候選值視為衝突 */
+export const CONSENSUS_AUTO_SELECT_THRESHOLD = 0.6;
+
+export const METADATA_SOURCE_LABELS: Record<MetadataCandidate['source'], string> = {
+  filename: '檔名',
+  textlayer: '首頁文字',
+  ai: 'AI',
+  manual: '手動',
+};
+
+export const METADATA_FIELD_LABELS: Record<MetadataField, string> = {
+  date: '日期',
+  code: '股票代號',
+  broker: '券商名',
+};
+
+/** 單一候選值的計分 */
+export interface ConsensusContender {
+  value: string;
+  score: number;
+  source: MetadataCandidate['source'];
+  pages: number[];
+}
+
+/** 單一欄位的共識結果 */
+export interface FieldConsensus {
+  /** 最高分候選值（無候選時 undefined） */
+  value?: string;
+  /** 最高分 / 總分（0~1；單一候選為 1） */
+  confidence: number;
+  /** 有多個候選值且信心未達門檻 */
+  conflict: boolean;
+  /** 依分數遞減 */
+  contenders: ConsensusContender[];
+}
+
+/** 單一候選值分數：來源基礎權重 + AI 同值頁數（舊資料沒有頁碼的 AI 候選視為 1 頁） */
+export function scoreMetadataCandidate(candidate: MetadataCandidate): number {
+  const aiPages = candidate.pages?.length ?? (candidate.source === 'ai' ? 1 : 0);
+  return METADATA_SOURCE_WEIGHTS[candidate.source] + aiPages * AI_PAGE_WEIGHT;
+}
+
+/**
+ * 計算欄位共識
+ * @param isUnknown 判斷候選值是否可疑（股票代號：主檔查無），可疑者分數打折
+ */
+export function computeFieldConsensus(
+  candidates: MetadataCandidate[],
+  isUnknown?: (value: string) => boolean,
+): FieldConsensus {
+  const contenders = candidates
+    .map((c) => ({
+      value: c.value,
+      score: scoreMetadataCandidate(c) * (isUnknown?.(c.value) ? UNKNOWN_CODE_FACTOR : 1),
+      source: c.source,
+      pages: c.pages ?? [],
+    }))
+    .filter((c) => c.score > 0)
+    // 同分維持候選值原順序（檔名 → 首頁文字 → AI）
+    .sort((a, b) => b.score - a.score);
+  if (contenders.length === 0) return { confidence: 0, conflict: false, contenders };
+
+  const total = contenders.reduce((sum, c) => sum + c.score, 0);
+  const confidence = contenders[0].score / total;
+  return {
+    value: contenders[0].value,
+    confidence,
+    conflict: contenders.length > 1 && confidence < CONSENSUS_AUTO_SELECT_THRESHOLD,
+    contenders,
+  };
+}
+
+const CANDIDATE_KEYS: Record<MetadataField, 'dateCandidates' | 'codeCandidates' | 'brokerCandidates'> = {
+  date: 'dateCandidates',
+  code: 'codeCandidates',
+  broker: 'brokerCandidates',
+};
+
+type ConsensusFile = Pick<FileEntry, 'dateCandidates' | 'codeCandidates' | 'brokerCandidates' | 'confirmedMetadata'>;
+
+/** 檔案單一欄位的共識（股票代號依主檔降權） */
+export function computeFileFieldConsensus(
+  file: ConsensusFile,
+  field: MetadataField,
+  securities?: SecurityIndex,
+): FieldConsensus {
+  const isUnknown = field === 'code' && securities
+    ? (value: string) => isUnknownSecurityCode(securities, value)
+    : undefined;
+  return computeFieldConsensus(file[CANDIDATE_KEYS[field]] ?? [], isUnknown);
+}
+
+/** 未解決的衝突：有衝突且使用者尚未手動確認的欄位 */
+export function findUnresolvedConflicts(
+  file: ConsensusFile,
+  securities?: SecurityIndex,
+): { field: MetadataField; consensus: FieldConsensus }[] {
+  const confirmed = file.confirmedMetadata ?? [];
+  return (Object.keys(CANDIDATE_KEYS) as MetadataField[])
+    .filter((field) => !confirmed.includes(field))
+    .map((field) => ({ field, consensus: computeFileFieldConsensus(file, field, securities) }))
+    .filter(({ consensus }) => consensus.conflict);
+}
+
+/** 頁碼清單 → 「1–3, 7」 */
+export function formatPageList(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    parts.push(j > i ? `${sorted[i]}–${sorted[j]}` : `${sorted[i]}`);
+    i = j;
+  }
+  return parts.join(', ');
+}
+
+/** 候選值來源說明：「國票（檔名、AI p.1–6）」 */
+export function describeContender(contender: ConsensusContender): string {
+  const parts: string[] = [];
+  if (contender.source !== 'ai') parts.push(METADATA_SOURCE_LABELS[contender.source]);
+  if (contender.pages.length > 0) parts.push(`AI p.${formatPageList(contender.pages)}`);
+  else if (contender.source === 'ai') parts.push('AI');
+  return `${contender.value}（${parts.join('、')}）`;
+}
+
+/** 衝突說明：「券商名衝突：國票（AI p.1）/ Citi（AI p.7）」 */
+export function describeConflict(field: MetadataField, consensus: FieldConsensus): string {
+  return `${METADATA_FIELD_LABELS[field]}衝突：${consensus.contenders.map(describeContender).join(' / ')}`;
+}
@@ -0,0 +1,207 @@
+/**
+ * 功能：離線模擬 AI（mock provider 的 fixture 與情境解析，server-only）
+ * 職責：依「檔名 + 頁碼」從 fixture JSON（格式同 pdf/test-cases.json）產生確定性的模型回應文字；
+ *       解析 model ID 中的模擬情境（429、畸形 bbox、NaN bbox、一般錯誤、延遲），供 E2E 測試與展示在無金鑰環境跑完整流程
+ * 依賴：Node.js fs、環境變數 MOCK_AI（設為 1 啟用）、MOCK_AI_FIXTURES（fixture 路徑，預設 pdf/test-cases.json）
+ *
+ * model ID 格式：mock:<名稱>[+旗標...]，旗標：
+ *   429[=N]       前 N 次呼叫回 429（省略 N = 每次）
+ *   error[=N]     前 N 次呼叫回一般錯誤（500）
+ *   bad-bbox[=N]  前 N 次回應的第一個框座標反轉（通過 schema，由前端畸形 bbox 偵測重跑）
+ *   nan-bbox[=N]  前 N 次回應的第一個框含 NaN（schema 驗證失敗 → 422）
+ *   latency=MS    每次呼叫延遲 MS 毫秒
+ *   cache         照常走前端 AI 回應快取（預設模擬模型不走快取；由 constants.isCacheableModel 判斷，本模組不處理）
+ * 呼叫序號以 (model ID, 檔名, 頁碼, 區域) 分別計數，伺服器重啟後歸零；fixture case 可加 simulate 欄位（同旗標語法）指定單頁情境。
+ * 名稱部分不影響行為（如 mock:gemini-3-flash-preview 為 429 退回模型的模擬版）。
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MOCK_MODEL_PREFIX } from '@/lib/constants';
+
+/** 呼叫情境（前端傳入的檔名 / 頁碼 / 區域 ID，用於選 fixture 與計數） */
+export interface MockCallContext {
+  fileName?: string;
+  page?: number;
+  regionId?: number;
+}
+
+/** 模擬情境（次數欄位：前 N 次呼叫生效，Infinity = 每次） */
+export interface MockScenario {
+  rateLimit: number;
+  error: number;
+  badBbox: number;
+  nanBbox: number;
+  latencyMs: number;
+}
+
+/** 單次呼叫實際生效的模擬結果 */
+export interface MockCallPlan {
+  latencyMs: number;
+  rateLimited: boolean;
+  failed: boolean;
+  badBbox: boolean;
+  nanBbox: boolean;
+}
+
+interface FixtureRegion {
+  regionId?: number;
+  label?: string;
+  /** 前端格式 [x1, y1, x2, y2]，0~1000 */
+  inputBbox: [number, number, number, number];
+  expectedText?: string;
+}
+
+interface FixtureCase {
+  pdfFile: string;
+  page: number;
+  hasAnalysis?: boolean;
+  date?: string;
+  code?: string;
+  report?: string;
+  /** 單頁模擬情境（同 model ID 旗標語法，與 model ID 旗標合併） */
+  simulate?: string;
+  regions: FixtureRegion[];
+}
+
+/** 是否啟用模擬模型（MOCK_AI=1 / true） */
+export function isMockAiEnabled(): boolean {
+  const flag = process.env.MOCK_AI;
+  return flag === '1' || flag === 'true';
+}
+
+/** 模型選單中的預設模擬情境（僅 MOCK_AI 啟用時由 /api/models 回傳） */
+export function listMockModels(): { id: string; label: string }[] {
+  return [
+    { id: `${MOCK_MODEL_PREFIX}fixture`, label: '模擬：fixture' },
+    { id: `${MOCK_MODEL_PREFIX}fixture+latency=1500`, label: '模擬：延遲 1.5s' },
+    { id: `${MOCK_MODEL_PREFIX}fixture+429=1`, label: '模擬：首次 429 後成功' },
+    { id: `${MOCK_MODEL_PREFIX}fixture+429`, label: '模擬：持續 429（退回備援模型）' },
+    { id: `${MOCK_MODEL_PREFIX}fixture+error=2`, label: '模擬：前 2 次錯誤後成功' },
+    { id: `${MOCK_MODEL_PREFIX}fixture+bad-bbox=1`, label: '模擬：首次畸形 bbox' },
+    { id: `${MOCK_MODEL_PREFIX}fixture+nan-bbox=1`, label: '模擬：首次 NaN bbox' },
+    { id: `${MOCK_MODEL_PREFIX}fixture+bad-bbox=1+cache`, label: '模擬：首次畸形 bbox（走快取）' },
+  ];
+}
+
+// === 情境解析 ===
+
+/** 解析旗標字串（以 + 分隔；未知旗標視為名稱忽略） */
+export function parseMockScenario(spec: string): MockScenario {
+  const scenario: MockScenario = { rateLimit: 0, error: 0, badBbox: 0, nanBbox: 0, latencyMs: 0 };
+  for (const token of spec.split('+')) {
+    const [name, rawValue] = token.trim().split('=');
+    const n = rawValue === undefined ? Infinity : Math.max(0, Number(rawValue) || 0);
+    switch (name) {
+      case '429': scenario.rateLimit = n; break;
+      case 'error': scenario.error = n; break;
+      case 'bad-bbox': scenario.badBbox = n; break;
+      case 'nan-bbox': scenario.nanBbox = n; break;
+      case 'latency': scenario.latencyMs = Number.isFinite(n) ? n : 0; break;
+    }
+  }
+  return scenario;
+}
+
+/** 合併兩個情境（次數與延遲取大者） */
+function mergeScenario(a: MockScenario, b: MockScenario): MockScenario {
+  return {
+    rateLimit: Math.max(a.rateLimit, b.rateLimit),
+    error: Math.max(a.error, b.error),
+    badBbox: Math.max(a.badBbox, b.badBbox),
+    nanBbox: Math.max(a.nanBbox, b.nanBbox),
+    latencyMs: Math.max(a.latencyMs, b.latencyMs),
+  };
+}
+
+// 呼叫序號（模組級：同一伺服器行程內累計）
+const _callCounts = new Map<string, number>();
+
+/** 取得本次呼叫的模擬計畫（遞增呼叫序號；所有旗標以同一序號判斷） */
+export function planMockCall(modelId: string, ctx: MockCallContext): MockCallPlan {
+  const fixture = findFixture(ctx);
+  let scenario = parseMockScenario(modelId.slice(MOCK_MODEL_PREFIX.length));
+  if (fixture?.simulate) scenario = mergeScenario(scenario, parseMockScenario(fixture.simulate));
+
+  const key = [modelId, ctx.fileName ?? '', ctx.page ?? '', ctx.regionId ?? ''].join('|');
+  const idx = _callCounts.get(key) ?? 0;
+  _callCounts.set(key, idx + 1);
+
+  return {
+    latencyMs: scenario.latencyMs,
+    rateLimited: idx < scenario.rateLimit,
+    failed: idx < scenario.error,
+    badBbox: idx < scenario.badBbox,
+    nanBbox: idx < scenario.nanBbox,
+  };
+}
+
+// === Fixture ===
+
+/** 檔名正規化：去副檔名與 _pageN 後綴（test-cases 的單頁 PDF 與原始檔名都能命中） */
+function normalizeFileName(name: string): string {
+  return path.basename(name).replace(/\.pdf$/i, '').replace(/_page\d+$/i, '');
+}
+
+/** 讀取 fixture（每次讀檔：修改 fixture 不需重啟伺服器；讀取失敗視為無 fixture） */
+function loadFixtures(): FixtureCase[] {
+  const filePath = path.resolve(process.env.MOCK_AI_FIXTURES || './pdf/test-cases.json');
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return Array.isArray(data?.cases) ? data.cases : [];
+  } catch {
+    return [];
+  }
+}
+
+function findFixture(ctx: MockCallContext): FixtureCase | undefined {
+  if (!ctx.fileName || ctx.page === undefined) return undefined;
+  const name = normalizeFileName(ctx.fileName);
+  return loadFixtures().find((c) => c.page === ctx.page && normalizeFileName(c.pdfFile) === name);
+}
+
+/** 字串雜湊（無 fixture 時產生確定性區域） */
+function hashString(s: string): number {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) h = (h * 31 + s.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+/** 無 fixture 時的確定性區域：第 1 頁固定 3 個，其餘頁 0~3 個，沿內文欄由上而下排列 */
+function syntheticRegions(ctx: MockCallContext): FixtureRegion[] {
+  const page = ctx.page ?? 1;
+  const count = page === 1 ? 3 : hashString(`${ctx.fileName ?? ''}#${page}`) % 4;
+  const top = 120;
+  const span = Math.floor(760 / Math.max(count, 1));
+  return Array.from({ length: count }, (_, i) => ({
+    label: `模擬區域 ${i + 1}`,
+    inputBbox: [80, top + i * span, 920, top + (i + 1) * span - 20] as [number, number, number, number],
+  }));
+}
+
+/** 產生 /api/analyze 的模型回應文字（Gemini 原生 bbox 格式 [y1, x1, y2, x2]） */
+export function buildMockAnalyzeText(ctx: MockCallContext, plan: MockCallPlan): string {
+  const fixture = findFixture(ctx);
+  const regions = fixture?.regions ?? syntheticRegions(ctx);
+  const items = regions.map((r, i) => {
+    const [x1, y1, x2, y2] = r.inputBbox;
+    let bbox = `[${y1}, ${x1}, ${y2}, ${x2}]`;
+    if (i === 0 && plan.nanBbox) bbox = `[NaN, ${x1}, ${y2}, ${x2}]`;
+    else if (i === 0 && plan.badBbox) bbox = `[${y2}, ${x2}, ${y1}, ${x1}]`; // 座標反轉
+    return `    {"id": ${r.regionId ?? i + 1}, "bbox": ${bbox}, "label": ${JSON.stringify(r.label ?? `區域 ${i + 1}`)}}`;
+  });
+  const meta = [
+    `  "hasAnalysis": ${fixture?.hasAnalysis ?? regions.length > 0}`,
+    ...(fixture?.date ? [`  "date": ${JSON.stringify(fixture.date)}`] : []),
+    ...(fixture?.code ? [`  "code": ${JSON.stringify(fixture.code)}`] : []),
+    ...(fixture?.report ? [`  "report": ${JSON.stringify(fixture.report)}`] : []),
+  ];
+  return `{\n${meta.join(',\n')},\n  "regions": [\n${items.join(',\n')}\n  ]\n}`;
+}
+
+/** 產生 /api/recognize 的回應文字（fixture 有該區域 expectedText 則回傳，否則回傳固定 Markdown 表格） */
+export function buildMockRecognizeText(ctx: MockCallContext): string {
+  const region = findFixture(ctx)?.regions.find((r) => r.regionId === ctx.regionId);
+  if (region?.expectedText) return region.expectedText;
+  return `| 項目 | 內容 |\n| --- | --- |\n| 頁碼 | ${ctx.page ?? '-'} |\n| 區域 | ${ctx.regionId ?? '-'} |`;
+}
@@ -0,0 +1,122 @@
+/**
+ * 功能：本機 OCR 引擎註冊表（server-only）
+ * 職責：統一 /api/ocr 的 OCR 呼叫介面——送入裁切圖片、取回純文字；回報引擎是否可用（供設定面板列出）；
+ *       新增引擎只需實作 OcrEngine 並 registerOcrEngine
+ * 依賴：Node.js child_process（Tesseract 命令列）
+ *
+ * Tesseract：執行檔路徑取環境變數 TESSERACT_PATH（預設 PATH 上的 tesseract），
+ *            語言取 TESSERACT_LANGS（預設 chi_tra+eng，需安裝對應 traineddata）
+ */
+
+import { execFile } from 'child_process';
+
+// === 型別 ===
+
+export interface OcrRequest {
+  /** base64（不含 data: 前綴），JPEG / PNG */
+  imageBase64: string;
+}
+
+export interface OcrEngine {
+  /** 引擎識別碼（設定值 ocrEngine、/api/ocr 請求用） */
+  id: string;
+  /** 設定面板顯示名稱 */
+  label: string;
+  /** 引擎在此伺服器是否可用（如執行檔存在） */
+  isAvailable(): Promise<boolean>;
+  /** 識別圖片文字；失敗時拋出 */
+  recognize(req: OcrRequest): Promise<string>;
+}
+
+/** 前端消費的引擎資訊（GET /api/ocr） */
+export interface OcrEngineChoice {
+  id: string;
+  label: string;
+  available: boolean;
+}
+
+// === 輸出整理 ===
+
+/** CJK 字元（含全形標點）：Tesseract 常在字與字之間插入空白 */
+const CJK_CHAR = '[\\u3000-\\u303F\\u3400-\\u9FFF\\uF900-\\uFAFF\\uFF00-\\uFFEF]';
+const CJK_GAP_REGEX = new RegExp(`(${CJK_CHAR}) +(?=${CJK_CHAR})`, 'g');
+
+/** 整理 OCR 輸出：去除換頁字元與行尾空白、CJK 字間空白，連續空行壓成一行 */
+export function cleanOcrText(raw: string): string {
+  return raw
+    .replace(/\f/g, '')
+    .split('\n')
+    .map((line) => line.replace(CJK_GAP_REGEX, '$1').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// === Tesseract ===
+
+/** 單次識別逾時（大區域 + chi_tra 在低階機器上可能數秒） */
+const TESSERACT_TIMEOUT_MS = 60_000;
+
+function tesseractPath(): string {
+  return process.env.TESSERACT_PATH?.trim() || 'tesseract';
+}
+
+function tesseractLangs(): string {
+  return process.env.TESSERACT_LANGS?.trim() || 'chi_tra+eng';
+}
+
+/** 執行 tesseract，stdin 送入圖片、stdout 取回文字 */
+function runTesseract(args: string[], input?: Buffer): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      tesseractPath(), args,
+      { timeout: TESSERACT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024, encoding: 'utf8' },
+      (err, stdout, stderr) => {
+        if (err) reject(new Error(`Tesseract 執行失敗: ${stderr.trim() || err.message}`));
+        else resolve(stdout);
+      },
+    );
+    child.stdin?.on('error', () => { /* 程序提早結束時寫入 stdin 會 EPIPE，錯誤由 callback 回報 */ });
+    child.stdin?.end(input);
+  });
+}
+
+// 可用性只探測一次（安裝 tesseract 後需重啟伺服器）
+let tesseractAvailable: Promise<boolean> | null = null;
+
+const tesseractEngine: OcrEngine = {
+  id: 'tesseract',
+  label: 'Tesseract',
+  isAvailable() {
+    tesseractAvailable ??= runTesseract(['--version']).then(() => true, () => false);
+    return tesseractAvailable;
+  },
+  async recognize({ imageBase64 }) {
+    // --psm 6：單一文字區塊（區域截圖，不需整頁版面分析）
+    const stdout = await runTesseract(
+      ['stdin', 'stdout', '-l', tesseractLangs(), '--psm', '6'],
+      Buffer.from(imageBase64, 'base64'),
+    );
+    return cleanOcrText(stdout);
+  },
+};
+
+// === 註冊表 ===
+
+const engines: OcrEngine[] = [tesseractEngine];
+
+/** 註冊新 OCR 引擎（同 id 不重複註冊） */
+export function registerOcrEngine(engine: OcrEngine): void {
+  if (engines.some((e) => e.id === engine.id)) return;
+  engines.push(engine);
+}
+
+/** 依 id 取得引擎（未註冊回傳 undefined） */
+export function resolveOcrEngine(id: string): OcrEngine | undefined {
+  return engines.find((e) => e.id === id);
+}
+
+/** 列出所有引擎與可用狀態 */
+export async function listOcrEngines(): Promise<OcrEngineChoice[]> {
+  return Promise.all(engines.map(async (e) => ({ id: e.id, label: e.label, available: await e.isAvailable() })));
+}
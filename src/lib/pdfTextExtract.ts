@@ -4,7 +4,14 @@
  *       呼叫 pdfTextExtractCore 的純函式完成 containment 去重 → snap → resolveXOverlaps → enforce → descender → extract 流程，
  *       並在各 phase 間快照 bbox 供 debug 診斷
  *       本檔案僅負責 pdfjs 的 IO 層（getTextContent + 座標轉換），所有演算法在 core 中
- * 依賴：pdfjs-dist (PDFPageProxy)、pdfTextExtractCore（純演算法）、types.ts（RegionDebugInfo）
+ *       文件層級的 detectRunningLines 抽樣前 / 中 / 後段頁面找出跨頁重複行（頁首 / 頁尾 / 聲明），結果傳入 extractTextForRegions 排除
+ *       另提供 extractTableGrid：以同一份文字層重建區域內的表格格線（區域雙擊識別優先使用）、
+ *       extractLayoutBlocks：整頁版面分析提出段落區塊（無 AI 分析模式）
+ *       提取時依頁面字級統計與粗體字型另產生 Markdown（標題 / 項目符號 / 強調），存於 Region.markdown
+ *       每個 region 依校正 / 分欄 / 亂碼訊號計算提取信心分數（Region.confidence）
+ *       符號字型 / PUA 字元依 glyphMap 規則（設定面板可編輯）替換；scanUnmappedGlyphs 列出頁面上未對應的符號字元
+ *       readPageText 讀取整頁純文字（上傳時解析首頁日期 / 代號 / 券商）
+ * 依賴：pdfjs-dist (PDFPageProxy / PDFDocumentProxy)、pdfTextExtractCore（純演算法）、glyphMap（字元替換規則）、cidDetect（CID 亂碼）、types.ts（RegionDebugInfo）
  */
 
 import type { pdfjs } from 'react-pdf';
@@ -21,9 +28,36 @@ import {
   extractTextFromBbox,
   ExtractDebugCollector,
   SnapDebugCollector,
-  isWingdingsFont,
-  sanitizeWingdings,
+  MarkdownCollector,
+  computeFontStats,
+  isBoldFontName,
+  computeExtractionConfidence,
+  TableGrid,
+  buildTableGrid,
+  LayoutBlock,
+  proposeLayoutBlocks,
+  RunningLine,
+  findRunningLines,
+  matchRunningItems,
 } from './pdfTextExtractCore';
+import {
+  GlyphMapRule,
+  CompiledGlyphRule,
+  DEFAULT_GLYPH_MAP_RULES,
+  compileGlyphMapRules,
+  rulesForFont,
+  hasFontSpecificRule,
+  applyGlyphMap,
+  describeUnmappedGlyph,
+  toCodepointKey,
+} from './glyphMap';
+import { isCidPassthrough } from './cidDetect';
+
+/** 跨頁重複行偵測於前、中、後段各抽樣的頁數（最多 9 頁：首頁分析的等待時間不隨文件長度增加） */
+const RUNNING_SAMPLE_PAGES_PER_SECTION = 3;
+
+/** 每份文件只掃描一次（同一文件的各頁分析共用同一個 Promise） */
+let _runningLinesCache = new WeakMap<pdfjs.PDFDocumentProxy, Promise<RunningLine[]>>();
 
 /** pdfjs TextItem（有 transform 的文字項） */
 interface PdfTextItem {
@@ -35,78 +69,79 @@ interface PdfTextItem {
 }
 
 /**
- * 從 PDF 頁面提取文字並填入各 Region 的 text 欄位
- * 流程：snap（水平+Y半行補足+退一半佔比歸屬）→ enforce → descender → 提取文字
- * @param page - pdfjs PDFPageProxy
- * @param regions - AI 回傳的 Region[]（text 為空）
- * @returns 填入 text 的 Region[]（bbox 可能被校正）
+ * 字型字元替換規則（設定面板可編輯，經 /api/settings 同步）
+ * 由 PDFExtractApp 於設定變更時呼叫 setGlyphMapRules 更新；各提取入口共用同一份
  */
-export async function extractTextForRegions(
-  page: pdfjs.PDFPageProxy,
-  regions: Region[]
-): Promise<Region[]> {
-  if (regions.length === 0) return regions;
+let _glyphRules: CompiledGlyphRule[] = compileGlyphMapRules(DEFAULT_GLYPH_MAP_RULES);
 
-  // === Phase 0: 去除被包含的框（面積交集 ≥ 95%）===
-  if (regions.length >= 2) {
-    const containedIndices = findContainedBboxes(regions.map(r => r.bbox));
-    if (containedIndices.size > 0) {
-      const removed = [...containedIndices].map(i => `"${regions[i].label}"`).join(', ');
-      console.log(`[pdfTextExtract][${_ts()}] 🗑️ Phase 0: 移除被包含的框: ${removed}`);
-      regions = regions.filter((_, i) => !containedIndices.has(i));
-      if (regions.length === 0) return regions;
+/** 更新字型字元替換規則（清除跨頁重複行快取，下次提取以新規則重新掃描） */
+export function setGlyphMapRules(rules: GlyphMapRule[]): void {
+  _glyphRules = compileGlyphMapRules(rules);
+  _runningLinesCache = new WeakMap();
+}
+
+/**
+ * 取得各字型的真實名稱（fontName → 名稱候選：commonObjs 真實名稱 + styles fontFamily）
+ * 問題：pdfjs 將符號字型的字元碼映射為普通 ASCII（如 ■ → 'n'），
+ *       但 textContent.styles 的 fontFamily 常被抹平為 "sans-serif"，無法直接判斷字型。
+ * 解法：呼叫 getOperatorList() 觸發字型物件載入，再從 commonObjs.get(fontName).name
+ *       取得真實字型名稱（如 "XRJBSJ+Wingdings-Regular"）；符號字型規則與粗體判斷共用
+ */
+async function resolveFontNames(
+  page: pdfjs.PDFPageProxy,
+  styles: Record<string, { fontFamily: string }>,
+): Promise<Map<string, string[]>> {
+  const names = new Map<string, string[]>();
+  for (const [fontName, style] of Object.entries(styles)) {
+    names.set(fontName, style.fontFamily ? [style.fontFamily] : []);
+  }
+  try {
+    await page.getOperatorList(); // 觸發字型物件 resolve（副作用）
+    for (const fontName of Object.keys(styles)) {
+      try {
+        const fontObj = (page as any).commonObjs.get(fontName);
+        if (fontObj?.name) names.get(fontName)!.unshift(fontObj.name);
+      } catch {
+        // 個別字型可能尚未 resolve，安全跳過
+      }
     }
+  } catch {
+    // getOperatorList 失敗時靜默降級（只用 fontFamily 比對規則，沒有粗體資訊）
   }
+  return names;
+}
 
+/**
+ * 取得頁面文字層並轉為歸一化座標文字項（含字型字元替換規則、粗體字型標記）
+ * extractTextForRegions、extractTableGrid、extractLayoutBlocks 共用
+ * @returns symbolFonts：有字型專屬替換規則的字型（fontName → 真實名稱，debug 用）
+ */
+async function loadNormTextItems(page: pdfjs.PDFPageProxy): Promise<{
+  textItems: NormTextItem[];
+  symbolFonts: Map<string, string>;
+}> {
   const viewport = page.getViewport({ scale: 1 });
   const { width: vw, height: vh } = viewport;
 
   const textContent = await page.getTextContent();
-
-  // === 符號字型偵測（Wingdings/Webdings/ZapfDingbats 等） ===
-  // 問題：pdfjs 將這些字型的字元碼映射為普通 ASCII（如 ■ → 'n'），
-  //        但 textContent.styles 的 fontFamily 常被抹平為 "sans-serif"，無法直接偵測。
-  // 解法：先嘗試 fontFamily 快速路徑；若失敗，呼叫 getOperatorList() 觸發字型物件載入，
-  //        再從 commonObjs.get(fontName).name 取得真實字型名稱（如 "XRJBSJ+Wingdings-Regular"）。
   const styles = textContent.styles as Record<string, { fontFamily: string }>;
-  const wingdingsFonts = new Set<string>();
+  const fontNames = await resolveFontNames(page, styles);
 
-  // 路徑 1: fontFamily 快速掃描（某些 PDF 的 fontFamily 可直接偵測）
-  for (const [fontName, style] of Object.entries(styles)) {
-    if (style.fontFamily && isWingdingsFont(style.fontFamily)) {
-      wingdingsFonts.add(fontName);
-    }
+  // 每個字型套用的替換規則（字型專屬規則在前，萬用規則如 PUA 替換在後）與粗體判斷
+  const fontRules = new Map<string, CompiledGlyphRule[]>();
+  const symbolFonts = new Map<string, string>();
+  const boldFonts = new Set<string>();
+  for (const [fontName, names] of fontNames) {
+    const rules = rulesForFont(_glyphRules, names);
+    fontRules.set(fontName, rules);
+    if (hasFontSpecificRule(rules)) symbolFonts.set(fontName, names[0] ?? '?');
+    else if (names.length > 0 && isBoldFontName(names[0])) boldFonts.add(fontName);
   }
+  const anyFontRules = rulesForFont(_glyphRules, []);
 
-  // 路徑 2: 若 fontFamily 偵測不到，透過 getOperatorList → commonObjs 取得真實字型名稱
-  if (wingdingsFonts.size === 0) {
-    try {
-      await page.getOperatorList(); // 觸發字型物件 resolve（副作用）
-      for (const fontName of Object.keys(styles)) {
-        try {
-          const fontObj = (page as any).commonObjs.get(fontName);
-          if (fontObj?.name && isWingdingsFont(fontObj.name)) {
-            wingdingsFonts.add(fontName);
-          }
-        } catch {
-          // 個別字型可能尚未 resolve，安全跳過
-        }
-      }
-    } catch {
-      // getOperatorList 失敗時靜默降級（不影響文字提取）
-    }
-  }
-
-  if (wingdingsFonts.size > 0) {
+  if (symbolFonts.size > 0) {
     // 印出偵測來源，方便 debug
-    const details = [...wingdingsFonts].map(fn => {
-      try {
-        const fontObj = (page as any).commonObjs.get(fn);
-        return `${fn}→${fontObj?.name || styles[fn]?.fontFamily || '?'}`;
-      } catch {
-        return `${fn}→${styles[fn]?.fontFamily || '?'}`;
-      }
-    }).join(', ');
+    const details = [...symbolFonts].map(([fn, name]) => `${fn}→${name}`).join(', ');
     console.log(`[pdfTextExtract][${_ts()}] 🔤 偵測到符號字型: ${details}`);
   }
 
@@ -119,12 +154,8 @@ export async function extractTextForRegions(
     const ti = item as unknown as PdfTextItem;
     if (!ti.str.trim()) continue; // 跳過空白
 
-    // Wingdings 字型替換：字型的 fontFamily 含 Wingdings/Webdings/ZapfDingbats 時，
-    // 字元碼為普通 ASCII（不在 PUA 範圍），需在此處提前替換
-    let str = ti.str;
-    if (ti.fontName && wingdingsFonts.has(ti.fontName)) {
-      str = sanitizeWingdings(str);
-    }
+    // 字型字元替換：符號字型的字元碼為普通 ASCII（不在 PUA 範圍），需依字型規則在此處提前替換
+    const str = applyGlyphMap(ti.str, (ti.fontName && fontRules.get(ti.fontName)) || anyFontRules);
     if (!str.trim()) continue; // 替換後可能變空白
 
     const tx = ti.transform[4]; // x 座標（PDF 座標系，左下原點）
@@ -138,9 +169,152 @@ export async function extractTextForRegions(
     const normW = (w / vw) * NORMALIZED_MAX;
     const normH = (h / vh) * NORMALIZED_MAX;
 
-    textItems.push({ str, normX, normY, normW, normH, normBaseline: normY + normH });
+    const bold = !!ti.fontName && boldFonts.has(ti.fontName);
+    textItems.push({ str, normX, normY, normW, normH, normBaseline: normY + normH, ...(bold && { bold }) });
+  }
+
+  return { textItems, symbolFonts };
+}
+
+/** 頁面上未被替換規則對應的符號字元（設定面板 debug 清單） */
+export interface UnmappedGlyph {
+  /** 字型真實名稱（無法取得時為 fontFamily / pdfjs 內部名稱） */
+  font: string;
+  /** 碼位（"U+F06E"，可直接貼入規則） */
+  codepoint: string;
+  /** 原始字元 */
+  char: string;
+  /** 目前的替換結果（fallback / PUA 預設 ●；未替換時為原字元） */
+  replacement: string;
+  /** 出現次數 */
+  count: number;
+  /** 第一次出現所在文字項（前後文） */
+  sample: string;
+}
+
+/**
+ * 掃描頁面文字層，列出符號字型 / PUA 字元中沒有任何規則對應的字元（依字型 + 碼位彙總）
+ * 供設定面板新增規則時參考；使用目前套用中的規則
+ */
+export async function scanUnmappedGlyphs(page: pdfjs.PDFPageProxy): Promise<UnmappedGlyph[]> {
+  const textContent = await page.getTextContent();
+  const styles = textContent.styles as Record<string, { fontFamily: string }>;
+  const fontNames = await resolveFontNames(page, styles);
+
+  const found = new Map<string, UnmappedGlyph>();
+  for (const item of textContent.items) {
+    if (!('transform' in item) || !('str' in item)) continue;
+    const ti = item as unknown as PdfTextItem;
+    const names = (ti.fontName && fontNames.get(ti.fontName)) || [];
+    const rules = rulesForFont(_glyphRules, names);
+    for (const ch of ti.str) {
+      const unmapped = describeUnmappedGlyph(ch, rules, names);
+      if (!unmapped) continue;
+      const font = names[0] ?? ti.fontName ?? '?';
+      const codepoint = toCodepointKey(ch.codePointAt(0)!);
+      const key = `${font}|${codepoint}`;
+      const entry = found.get(key);
+      if (entry) entry.count++;
+      else found.set(key, { font, codepoint, char: ch, replacement: unmapped.replacement, count: 1, sample: ti.str.trim().slice(0, 40) });
+    }
+  }
+
+  const glyphs = [...found.values()].sort((a, b) => b.count - a.count);
+  console.log(`[pdfTextExtract][${_ts()}] 🔣 未對應符號掃描: ${glyphs.length} 種（第 ${page.pageNumber} 頁）`);
+  return glyphs;
+}
+
+/**
+ * 讀取整頁純文字（依文字層順序，換行或基線改變時斷行；不做座標歸一化 / 字型替換，供首頁 metadata 解析）
+ */
+export async function readPageText(page: pdfjs.PDFPageProxy): Promise<string> {
+  const textContent = await page.getTextContent();
+  let text = '';
+  let prevY: number | undefined;
+  for (const item of textContent.items) {
+    if (!('transform' in item) || !('str' in item)) continue;
+    const ti = item as unknown as PdfTextItem & { hasEOL?: boolean };
+    const y = ti.transform[5];
+    if (prevY !== undefined && Math.abs(y - prevY) > Math.max(ti.height, 1) / 2 && !text.endsWith('\n')) text += '\n';
+    text += ti.str + (ti.hasEOL ? '\n' : ti.str.trim() ? ' ' : '');
+    prevY = y;
+  }
+  return text;
+}
+
+/**
+ * 文件層級：找出跨頁重複的行（頁首、頁尾、頁碼、合規聲明），結果依文件快取
+ * 掃描失敗時回傳空陣列（不排除任何文字，不影響提取）
+ */
+export function detectRunningLines(pdfDoc: pdfjs.PDFDocumentProxy): Promise<RunningLine[]> {
+  let cached = _runningLinesCache.get(pdfDoc);
+  if (!cached) {
+    cached = scanRunningLines(pdfDoc).catch((e) => {
+      console.warn(`[pdfTextExtract][${_ts()}] ⚠️ 跨頁重複行偵測失敗，略過`, e);
+      return [];
+    });
+    _runningLinesCache.set(pdfDoc, cached);
+  }
+  return cached;
+}
+
+/** 抽樣頁碼（遞增、不重複）：前 / 中 / 後段各取 RUNNING_SAMPLE_PAGES_PER_SECTION 頁，頁數少時即全部頁面 */
+function sampleRunningScanPages(numPages: number): number[] {
+  const n = RUNNING_SAMPLE_PAGES_PER_SECTION;
+  const middleStart = Math.max(1, Math.floor((numPages - n) / 2) + 1);
+  const starts = [1, middleStart, numPages - n + 1];
+  const pages = new Set<number>();
+  for (const start of starts) {
+    for (let p = Math.max(1, start); p < start + n && p <= numPages; p++) pages.add(p);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+async function scanRunningLines(pdfDoc: pdfjs.PDFDocumentProxy): Promise<RunningLine[]> {
+  const sampled = sampleRunningScanPages(pdfDoc.numPages);
+  const pages: NormTextItem[][] = [];
+  for (const p of sampled) {
+    const { textItems } = await loadNormTextItems(await pdfDoc.getPage(p));
+    pages.push(textItems);
+  }
+  const lines = findRunningLines(pages);
+  if (lines.length > 0) {
+    console.log(
+      `[pdfTextExtract][${_ts()}] 📑 偵測到 ${lines.length} 個跨頁重複行（抽樣 ${sampled.length} 頁：${sampled.join(', ')}）: ` +
+      lines.map(l => `"${l.text}"@${Math.round(l.baseline)}×${l.pageCount}`).join(', ')
+    );
+  }
+  return lines;
+}
+
+/**
+ * 從 PDF 頁面提取文字並填入各 Region 的 text 欄位
+ * 流程：snap（水平+Y半行補足+退一半佔比歸屬）→ enforce → descender → 提取文字（排除跨頁重複行）
+ * @param page - pdfjs PDFPageProxy
+ * @param regions - AI 回傳的 Region[]（text 為空）
+ * @param runningLines - detectRunningLines 的結果（省略時不排除）
+ * @returns 填入 text（及與 text 不同時的 markdown）的 Region[]（bbox 可能被校正）
+ */
+export async function extractTextForRegions(
+  page: pdfjs.PDFPageProxy,
+  regions: Region[],
+  runningLines: RunningLine[] = []
+): Promise<Region[]> {
+  if (regions.length === 0) return regions;
+
+  // === Phase 0: 去除被包含的框（面積交集 ≥ 95%）===
+  if (regions.length >= 2) {
+    const containedIndices = findContainedBboxes(regions.map(r => r.bbox));
+    if (containedIndices.size > 0) {
+      const removed = [...containedIndices].map(i => `"${regions[i].label}"`).join(', ');
+      console.log(`[pdfTextExtract][${_ts()}] 🗑️ Phase 0: 移除被包含的框: ${removed}`);
+      regions = regions.filter((_, i) => !containedIndices.has(i));
+      if (regions.length === 0) return regions;
+    }
   }
 
+  const { textItems, symbolFonts } = await loadNormTextItems(page);
+
   // === Phase 1: Snap — 水平校正 + Y 軸半行補足 + 退一半佔比歸屬 ===
   // 用原始 bbox 位置做退一半佔比歸屬判斷（不受 snap 順序影響）
   // 佔比歸屬同時控制擴展和退縮，取代了原本的 resolve（行距歸屬）
@@ -178,6 +352,11 @@ export async function extractTextForRegions(
   // === Phase 2.75: 降部補償（在 enforce 之後，避免汙染前面的座標判斷） ===
   applyDescenderCompensation(snappedBboxes, textItems);
 
+  // 本頁屬於跨頁重複行的文字項（提取時排除）
+  const runningItems = matchRunningItems(textItems, runningLines);
+  // 本頁字級統計（Markdown 標題 / 強調判斷以整頁內文為基準，而非單一框）
+  const fontStats = computeFontStats(textItems);
+
   // === Phase 3: 提取文字 + 組裝結果（含 debug 收集） ===
   return regions.map((region, i) => {
     const finalBbox = snappedBboxes[i];
@@ -192,7 +371,12 @@ export async function extractTextForRegions(
       lineGaps: [],
       medianLineGap: 0,
     };
-    const text = extractTextFromBbox(finalBbox, textItems, debugCollector);
+    const markdownCollector: MarkdownCollector = { fontStats };
+    const text = extractTextFromBbox(finalBbox, textItems, debugCollector, runningItems, markdownCollector);
+    // 無標題 / 項目符號 / 強調時 Markdown 與純文字相同，不另存
+    const markdown = markdownCollector.markdown && markdownCollector.markdown !== text
+      ? markdownCollector.markdown
+      : undefined;
 
     // 組裝完整 debug 資訊
     const rnd = (b: [number, number, number, number]): [number, number, number, number] =>
@@ -221,6 +405,7 @@ export async function extractTextForRegions(
       yOverlapMerges: debugCollector.yOverlapMerges,
       fragmentMerges: debugCollector.fragmentMerges,
       adaptiveDetail: debugCollector.adaptiveDetail,
+      runningLinesRemoved: debugCollector.runningLinesRemoved,
     };
 
     // 各階段校正過程詳情
@@ -266,17 +451,8 @@ export async function extractTextForRegions(
     };
 
     // 符號字型偵測結果（fontName → 真實字型名稱）
-    if (wingdingsFonts.size > 0) {
-      const map: Record<string, string> = {};
-      for (const fn of wingdingsFonts) {
-        try {
-          const fontObj = (page as any).commonObjs.get(fn);
-          map[fn] = fontObj?.name || styles[fn]?.fontFamily || '?';
-        } catch {
-          map[fn] = styles[fn]?.fontFamily || '?';
-        }
-      }
-      _debug.symbolicFonts = map;
+    if (symbolFonts.size > 0) {
+      _debug.symbolicFonts = Object.fromEntries(symbolFonts);
     }
 
     // Debug log：若 bbox 被校正，印出校正前後的差異
@@ -294,6 +470,40 @@ export async function extractTextForRegions(
       console.log(`[pdfTextExtract][${_ts()}] 🔧 Region "${region.label}" bbox adjusted: ${parts.join(' | ')}`);
     }
 
-    return { ...region, bbox: finalBbox, originalBbox: region.bbox, text, _debug };
+    const confidence = computeExtractionConfidence({
+      text,
+      originalBbox: region.bbox,
+      snapDelta: _debug.corrections.snap.delta,
+      resolveXTriggered: resolveXDebug[i].triggered,
+      columns: debugCollector.columns,
+      columnExclusiveRatio: debugCollector.columnExclusiveRatio,
+      columnSource: debugCollector.columnSource,
+      adaptivePath: debugCollector.adaptiveDetail?.path,
+      cidPassthrough: isCidPassthrough(text.trim()),
+    });
+
+    const textSource = text.trim() ? 'text-layer' as const : undefined;
+    return { ...region, bbox: finalBbox, originalBbox: region.bbox, text, markdown, textSource, confidence, _debug };
   });
 }
+
+/**
+ * 從 PDF 頁面文字層重建 bbox 內的表格（不呼叫 AI）
+ * @returns 表格格線；文字層無法組成格線時回傳 null
+ */
+export async function extractTableGrid(
+  page: pdfjs.PDFPageProxy,
+  bbox: [number, number, number, number]
+): Promise<TableGrid | null> {
+  const { textItems } = await loadNormTextItems(page);
+  return buildTableGrid(bbox, textItems);
+}
+
+/**
+ * 版面分析：從 PDF 頁面文字層提出段落區塊（不呼叫 AI）
+ * @returns 閱讀順序的段落區塊（歸一化 bbox）
+ */
+export async function extractLayoutBlocks(page: pdfjs.PDFPageProxy): Promise<LayoutBlock[]> {
+  const { textItems } = await loadNormTextItems(page);
+  return proposeLayoutBlocks(textItems);
+}
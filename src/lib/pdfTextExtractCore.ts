@@ -28,6 +28,21 @@
  *                    ├─ Step 3.5: 行碎片重組（超連結 baseline 偏移修復）
  *                    ├─ Step 4: 計算行距（局部自適應段落間距偵測）
  *                    └─ Step 5: 逐行拼接文字（行間換行/空行 + 行內 TAB/空格/回彈）
+ * Phase 3 選用輸出：MarkdownCollector      — 依頁面字級統計（computeFontStats）把行分類為標題 / 項目符號 / 內文，
+ *                                          粗體片段加 **強調**，輸出 Markdown
+ * Phase 3.5：computeExtractionConfidence    — 依 snap 校正幅度、左右歸屬、分欄邊緣、行距 fallback、不可讀字元 / CID 亂碼
+ *                                          算出 0~100 的信心分數與扣分原因（低分 region 供使用者優先檢查）
+ * Phase 4（選用，匯出時套用）：reflowText — 段落重排：合併軟換行（CJK 直接相接、英文補空格、英文斷字去連字號），
+ *                               保留項目符號 / 編號項 / 段落空行 / 表格列
+ * 表格重建（獨立於主 pipeline，供區域雙擊識別優先使用，成功時不需送 AI）：
+ *   buildTableGrid        — 按 baseline 分列 → 投影法找所有列共同留白的欄分界 → 依中心點分格 → 格線有效性檢查
+ *   tableGridToMarkdown   — 格線轉 Markdown 表格（開頭單格列為標題，首個多格列為表頭）
+ * 跨頁重複行（文件層級，結果傳入 extractTextFromBbox 排除）：
+ *   findRunningLines      — 各頁按 baseline 分行並依水平間距切段 → 正規化內容（數字→#）+ baseline 位置跨頁比對
+ *   matchRunningItems     — 標出單頁中屬於重複行的文字項
+ * 版面分析（獨立於主 pipeline，無 AI 分析模式與 AI 框交叉比對用）：
+ *   proposeLayoutBlocks   — 整頁多欄切分 → 按 baseline 分行 → 依字級 / 縮排 / 行距（PARA_GAP_RATIO）聚成段落區塊
+ *                            → 單行標題併入下一段 → 濾除頁首尾、過短、數字為主、表格區塊
  * 注意：resolveOverlappingLines / groupIntoLines 函式仍保留，供 debug-pdf.ts 使用
  */
 
@@ -43,6 +58,7 @@ export interface NormTextItem {
   normW: number;
   normH: number;
   normBaseline: number; // baseline 座標 = normY + normH（同一行不同字體大小 baseline 一致）
+  bold?: boolean;       // 粗體字型（IO 層依真實字型名稱判斷；無法取得字型名稱時省略）
 }
 
 /** 文字行（多個 baseline 相近的 textItem 組成） */
@@ -75,6 +91,7 @@ export interface Hit {
   normBaseline: number;
   normRight: number;
   normY: number;        // top 座標（用於 Y 重疊行分組，處理粗體 baseline 偏移）
+  bold?: boolean;       // 粗體（Markdown 輸出用）
 }
 
 // ============================================================
@@ -140,6 +157,74 @@ export const COLUMN_CUT_GAP_MIN_STRICT = 15;
 export const COLUMN_BAD_CUT_MAX_RATIO = 0.2;
 /** 文字內容比例下限——較少一邊的字元數 / 總字元數 < 此值 → 不是真正的多欄（避免把 bullet list 的 • 誤判為左欄） */
 export const COLUMN_MIN_CHAR_RATIO = 0.05;
+/** 投影法嚴格 fallback 判定多欄時記錄的 columnSource（信心分數視為分欄邊緣） */
+export const COLUMN_STRICT_FALLBACK_SOURCE = '投影法 strict fallback';
+
+// === 表格重建常數 ===
+/** 表格最少欄數（少於此值不視為表格，交由 AI 識別） */
+export const TABLE_MIN_COLS = 2;
+/** 表格最少列數 */
+export const TABLE_MIN_ROWS = 2;
+/** 欄分界空白帶最小寬度（歸一化單位，約頁寬 1%）——須所有列在同一位置留白，字間空白不會對齊成帶 */
+export const TABLE_GUTTER_MIN_WIDTH = 10;
+/** 跨欄列容許比例：空白帶被 ≤ 此比例的列覆蓋仍視為欄分界（表格標題、合併儲存格） */
+export const TABLE_SPAN_ROW_RATIO = 0.2;
+/** 至少此比例的列須填入 ≥ 2 格，否則視為一般段落 */
+export const TABLE_MULTI_CELL_ROW_RATIO = 0.5;
+/** 非空格字元數中位數上限——超過視為多欄排版的段落文字而非表格 */
+export const TABLE_MAX_MEDIAN_CELL_CHARS = 20;
+
+// === 版面分析常數 ===
+/** 整頁多欄切分遞迴深度（splitIntoColumns 一次切 2 欄，深度 2 最多 4 欄） */
+export const LAYOUT_MAX_COLUMN_DEPTH = 2;
+/** 字級差異比例——行高與區塊字級相差超過此比例 → 新區塊（標題 / 註腳） */
+export const LAYOUT_FONT_SIZE_RATIO = 0.2;
+/** 區塊只有一行時無行距基準：行距 > 字級 × 此倍數 → 新區塊 */
+export const LAYOUT_FIRST_GAP_RATIO = 2.0;
+/** 縮排門檻（歸一化單位）——與上一行左緣相差超過此值 → 新段落（首行縮排 / 懸掛縮排的下一項） */
+export const LAYOUT_INDENT_MIN = 12;
+/** 區塊最少字元數（不含空白），過短視為頁碼、圖表標示等 */
+export const LAYOUT_MIN_CHARS = 20;
+/** 頁首 / 頁尾帶（歸一化單位）——整個區塊落在此帶內即略過 */
+export const LAYOUT_MARGIN_BAND = 40;
+/** 數字字元比例上限——超過視為圖表軸標或數據表 */
+export const LAYOUT_MAX_DIGIT_RATIO = 0.5;
+
+// === 跨頁重複行（頁首 / 頁尾 / 頁碼 / 合規聲明）常數 ===
+/** 至少出現在此頁數才視為重複行 */
+export const RUNNING_MIN_PAGES = 2;
+/** 至少出現在此比例的頁面（與 RUNNING_MIN_PAGES 取大者） */
+export const RUNNING_MIN_PAGE_RATIO = 0.5;
+/** 同一重複行在各頁的 baseline 容許差（歸一化單位） */
+export const RUNNING_Y_TOLERANCE = 8;
+/** 頁首 / 頁尾帶（歸一化單位）——帶內的短字串（頁碼、日期）也可視為重複行 */
+export const RUNNING_MARGIN_BAND = 100;
+/** 頁首尾帶以外的重複行最少字元數（正規化後）——避免內文偶然重複的短字串（表頭、單位）被移除 */
+export const RUNNING_MIN_BODY_CHARS = 12;
+
+// === 段落重排（Phase 4）常數 ===
+/** 以句末標點結尾且顯示寬度 < 段落最寬行 × 此比例的行視為段落結尾（無空行分隔的段落），不與下一行合併 */
+export const REFLOW_SHORT_LINE_RATIO = 0.8;
+
+// === 提取信心分數（Phase 3.5）常數 ===
+/** 信心分數低於此值視為需人工檢查（框與右欄標示、「下一個低信心框」跳轉） */
+export const CONFIDENCE_LOW_THRESHOLD = 60;
+/** snap 單邊位移佔原框寬 / 高超過此比例開始扣分（AI 框與文字層落差大，歸屬可能有誤） */
+export const CONFIDENCE_SNAP_RATIO = 0.15;
+/** 判定為多欄但 exclusiveRatio 低於此值 → 分欄邊緣（剛越過 COLUMN_EXCLUSIVE_RATIO 門檻） */
+export const CONFIDENCE_COLUMN_MARGIN_RATIO = 0.45;
+/** 可讀字元比例低於此值開始扣分 */
+export const CONFIDENCE_READABLE_RATIO = 0.9;
+
+// === Markdown 標題 / 強調偵測常數 ===
+/** 行字級 ≥ 頁面內文字級 × 此比例 → 標題候選 */
+export const HEADING_SIZE_RATIO = 1.15;
+/** 行字級 ≥ 頁面內文字級 × 此比例 → 大標題（##），否則小標題（###） */
+export const HEADING_LARGE_RATIO = 1.5;
+/** 粗體字元佔比 ≥ 此值的短行 → 標題候選（頁面內文本身為粗體時不適用） */
+export const HEADING_BOLD_RATIO = 0.8;
+/** 標題最大顯示寬度（全形 2、半形 1）；超過視為內文 */
+export const HEADING_MAX_WIDTH = 80;
 
 // === PUA 字元替換映射 ===
 // PDF 常用 Wingdings/Symbol 等自訂字型，文字層存為 Private Use Area (U+E000-U+F8FF) 字元
@@ -174,6 +259,11 @@ export const WINGDINGS_CHAR_MAP: Record<string, string> = {
   'à': '🖊', // 0xE0: 筆（近似）
 };
 
+/** 偵測真實字型名稱是否為粗體（如 "ABCDEF+MicrosoftJhengHei-Bold"、"Arial,Bold"、"DFKaiShu-SB-W8"） */
+export function isBoldFontName(fontName: string): boolean {
+  return /bold|black|heavy|semibold|demi|[-,_]W[6-9]\b|粗/i.test(fontName);
+}
+
 /** 偵測 fontName 是否為 Wingdings 系列字型 */
 export function isWingdingsFont(fontName: string): boolean {
   return /wingdings|webdings|zapfdingbats/i.test(fontName);
@@ -1464,7 +1554,7 @@ export function splitIntoColumns(hits: Hit[], debug?: ExtractDebugCollector): Hi
           `[pdfTextExtract][${_ts()}] 📊 偵測到 2 欄佈局（投影法 strict fallback）：${fallbackResult.detail}`
         );
         if (debug) {
-          debug.columnSource = '投影法 strict fallback';
+          debug.columnSource = COLUMN_STRICT_FALLBACK_SOURCE;
           debug.columnExclusiveRatio = Math.round(fallbackResult.exclusiveRatio * 100) / 100;
         }
         return [fallbackResult.leftHits, fallbackResult.rightHits];
@@ -1520,6 +1610,18 @@ export interface ExtractDebugCollector {
     microClusterCount?: number;
     medianMicroSpacing?: number;
   };
+  /** 因跨頁重複（頁首 / 頁尾 / 聲明）而排除的行 */
+  runningLinesRemoved?: { text: string; baseline: number }[];
+}
+
+/**
+ * extractTextFromBbox 的 Markdown 輸出收集器
+ * 由呼叫端傳入頁面字級統計（computeFontStats），提取完成後寫入 markdown
+ */
+export interface MarkdownCollector {
+  fontStats: FontStats;
+  /** 標題 / 項目符號 / 粗體強調的 Markdown 呈現 */
+  markdown?: string;
 }
 
 /**
@@ -1530,8 +1632,9 @@ export interface ExtractDebugCollector {
  * 同一行內若偵測到明顯水平間距（表格不同欄），自動插入 TAB
  * 行距突然變大時（段落間距 > 正常行距 × 1.4）自動插入空行
  * @param debug 可選 debug 收集器 — 傳入時會寫入行分組相關資訊
+ * @param styledLines 可選 — 傳入時逐行寫入片段（含字級、粗體），供 renderStyledMarkdown 產生 Markdown
  */
-export function formatColumnText(hits: Hit[], debug?: ExtractDebugCollector): string {
+export function formatColumnText(hits: Hit[], debug?: ExtractDebugCollector, styledLines?: StyledLine[]): string {
   if (hits.length === 0) return '';
 
   // === Step 1: 按 baseline 排序 ===
@@ -1775,6 +1878,7 @@ export function formatColumnText(hits: Hit[], debug?: ExtractDebugCollector): st
 
   for (let li = 0; li < lines.length; li++) {
     // 行間分隔
+    let paraBreak = false;
     if (li > 0) {
       const gapIdx = li - 1;
       const lineGap = lineGaps[gapIdx];
@@ -1793,6 +1897,7 @@ export function formatColumnText(hits: Hit[], debug?: ExtractDebugCollector): st
 
       if (paraRef > 0 && lineGap > paraRef * PARA_GAP_RATIO) {
         text += '\n\n'; // 段落分隔
+        paraBreak = true;
       } else {
         text += '\n';
       }
@@ -1800,46 +1905,88 @@ export function formatColumnText(hits: Hit[], debug?: ExtractDebugCollector): st
 
     // 行內拼接
     const line = lines[li];
+    const segments: StyledSegment[] = [];
     for (let hi = 0; hi < line.length; hi++) {
+      let sep = '';
       if (hi > 0) {
         const gap = line[hi].normX - line[hi - 1].normRight;
         if (gap > COL_GAP_THRESHOLD) {
-          text += '\t';
+          sep = '\t';
         } else if (gap > SPACE_GAP_THRESHOLD) {
-          text += ' ';
+          sep = ' ';
         } else if (gap < WRAPAROUND_THRESHOLD) {
           // 回彈偵測：前一個 item 在行尾（normRight 很大），當前 item 回到行首（normX 很小）
           // 表示不同視覺行被誤歸為同一行（行距 < lineThreshold 時發生）
           // 插入換行作為安全網
-          text += '\n';
+          sep = '\n';
         }
       }
-      text += line[hi].str;
+      text += sep + line[hi].str;
+      if (styledLines) {
+        segments.push({
+          sep, str: line[hi].str, size: line[hi].normBaseline - line[hi].normY, bold: !!line[hi].bold,
+        });
+      }
     }
+    if (styledLines) styledLines.push({ paraBreak, segments });
   }
 
   return sanitizePuaChars(text);
 }
 
+/**
+ * 收集與 bbox 有交集的文字項（含右邊緣座標與 baseline，用於排序和欄間距計算）
+ * extractTextFromBbox 與 buildTableGrid 共用
+ */
+export function collectBboxHits(
+  bbox: [number, number, number, number],
+  textItems: NormTextItem[],
+): Hit[] {
+  const [x1, y1, x2, y2] = bbox;
+  const hits: Hit[] = [];
+  for (const ti of textItems) {
+    const tiRight = ti.normX + ti.normW;
+    if (ti.normX < x2 && tiRight > x1 && ti.normY < y2 && ti.normBaseline > y1) {
+      hits.push({
+        str: ti.str, normX: ti.normX, normBaseline: ti.normBaseline, normRight: tiRight, normY: ti.normY, bold: ti.bold,
+      });
+    }
+  }
+  return hits;
+}
+
 /**
  * 從指定 bbox 中提取文字（收集交集文字項 + 多欄偵測 + 按閱讀順序拼接）
  * 若偵測到多欄佈局，先提取左欄全部文字、再提取右欄，避免左右混合
  * @param debug 可選 debug 收集器 — 傳入時會寫入 hits、多欄偵測、行分組等中間資料
+ * @param runningItems 可選跨頁重複行文字項（matchRunningItems 結果）— 排除後再提取；
+ *                     框內只有重複行時（使用者刻意框選頁首 / 頁尾）不排除
+ * @param markdown 可選 Markdown 收集器 — 傳入時依字級 / 粗體另外寫入 Markdown 呈現（回傳的純文字不受影響）
  */
 export function extractTextFromBbox(
   bbox: [number, number, number, number],
   textItems: NormTextItem[],
   debug?: ExtractDebugCollector,
+  runningItems?: Set<NormTextItem>,
+  markdown?: MarkdownCollector,
 ): string {
   const [x1, y1, x2, y2] = bbox;
-
-  // 收集與 bbox 有交集的文字項（含右邊緣座標與 baseline，用於排序和欄間距計算）
-  const hits: Hit[] = [];
-
-  for (const ti of textItems) {
-    const tiRight = ti.normX + ti.normW;
-    if (ti.normX < x2 && tiRight > x1 && ti.normY < y2 && ti.normBaseline > y1) {
-      hits.push({ str: ti.str, normX: ti.normX, normBaseline: ti.normBaseline, normRight: tiRight, normY: ti.normY });
+  let hits = collectBboxHits(bbox, textItems);
+
+  if (runningItems && runningItems.size > 0) {
+    const removed = collectBboxHits(bbox, textItems.filter(ti => runningItems.has(ti)));
+    const kept = collectBboxHits(bbox, textItems.filter(ti => !runningItems.has(ti)));
+    if (removed.length > 0 && kept.length > 0) {
+      hits = kept;
+      const removedLines = groupHitsIntoRows(removed).map(row => ({
+        text: joinCellHits(row),
+        baseline: Math.round(Math.max(...row.map(h => h.normBaseline))),
+      }));
+      console.log(
+        `[pdfTextExtract][${_ts()}] ✂️ extractTextFromBbox: 排除 ${removedLines.length} 行跨頁重複文字: ` +
+        removedLines.map(l => `"${l.text}"`).join(', ')
+      );
+      if (debug) debug.runningLinesRemoved = removedLines;
     }
   }
 
@@ -1881,9 +2028,788 @@ export function extractTextFromBbox(
 
   if (columns.length <= 1) {
     // 單欄：直接排序拼接
-    return formatColumnText(hits, debug);
+    const styledLines: StyledLine[] | undefined = markdown ? [] : undefined;
+    const text = formatColumnText(hits, debug, styledLines);
+    if (markdown && styledLines) markdown.markdown = renderStyledMarkdown(styledLines, markdown.fontStats);
+    return text;
   }
 
   // 多欄：每欄獨立提取，欄間空一行分隔（debug 只寫入第一欄的行分組資訊）
-  return columns.map((col, ci) => formatColumnText(col, ci === 0 ? debug : undefined)).join('\n\n');
+  const columnLines: StyledLine[][] = columns.map(() => []);
+  const text = columns
+    .map((col, ci) => formatColumnText(col, ci === 0 ? debug : undefined, markdown ? columnLines[ci] : undefined))
+    .join('\n\n');
+  if (markdown) {
+    markdown.markdown = columnLines.map(lines => renderStyledMarkdown(lines, markdown.fontStats)).join('\n\n');
+  }
+  return text;
+}
+
+// ============================================================
+// Phase 3 選用輸出：標題 / 項目符號 / 粗體強調 → Markdown
+// ============================================================
+
+/** 頁面字級統計（以字元數加權，出現最多的字級視為內文） */
+export interface FontStats {
+  /** 內文字級（歸一化高度）；頁面無文字時為 0（停用字級判斷） */
+  bodySize: number;
+  /** 內文本身為粗體（此時不以粗體判斷標題 / 強調） */
+  bodyBold: boolean;
+}
+
+/** formatColumnText 逐行輸出的片段（sep = 與前一片段間的 TAB / 空格 / 換行） */
+interface StyledSegment {
+  sep: string;
+  str: string;
+  size: number;
+  bold: boolean;
+}
+
+interface StyledLine {
+  /** 與上一行之間為段落分隔（空行） */
+  paraBreak: boolean;
+  segments: StyledSegment[];
+}
+
+/** 標題開頭的裝飾符號（■4Q25 … → ### 4Q25 …） */
+const HEADING_MARKER_REGEX = /^[■□▪▫●○◆◇◎★☆►▶]\s*/;
+/** 符號型項目符號（轉為 Markdown「- 」）；編號項維持原樣 */
+const BULLET_MARKER_REGEX = /^(?:[■□▪▫●○◆◇◎★☆►▶•‧·※]\s*|[-*–—]\s+)/;
+/** 標題不以這些標點結尾（逗號、句號等結尾的粗體行是內文強調） */
+const HEADING_END_BLOCK_REGEX = /[。，、；,;]$/;
+
+/**
+ * 計算頁面字級統計：字級取 0.5 單位分桶，以字元數加權取眾數
+ * 粗體字元佔內文字級字元一半以上時視為內文本身是粗體
+ */
+export function computeFontStats(textItems: NormTextItem[]): FontStats {
+  const weights = new Map<number, number>();
+  for (const ti of textItems) {
+    const key = Math.round(ti.normH * 2) / 2;
+    weights.set(key, (weights.get(key) ?? 0) + ti.str.trim().length);
+  }
+  let bodySize = 0;
+  let best = 0;
+  for (const [size, weight] of weights) {
+    if (weight > best) { best = weight; bodySize = size; }
+  }
+
+  let bodyChars = 0;
+  let boldChars = 0;
+  for (const ti of textItems) {
+    if (Math.abs(ti.normH - bodySize) > 0.5) continue;
+    const chars = ti.str.trim().length;
+    bodyChars += chars;
+    if (ti.bold) boldChars += chars;
+  }
+  return { bodySize, bodyBold: bodyChars > 0 && boldChars / bodyChars >= 0.5 };
+}
+
+/** 行字級（字元數加權中位數）與粗體字元佔比 */
+function measureStyledLine(segments: StyledSegment[]): { size: number; boldRatio: number } {
+  const weighted = segments
+    .map(s => ({ size: s.size, chars: s.str.trim().length, bold: s.bold }))
+    .filter(s => s.chars > 0)
+    .sort((a, b) => a.size - b.size);
+  const total = weighted.reduce((sum, s) => sum + s.chars, 0);
+  if (total === 0) return { size: 0, boldRatio: 0 };
+
+  let acc = 0;
+  let size = weighted[weighted.length - 1].size;
+  for (const s of weighted) {
+    acc += s.chars;
+    if (acc >= total / 2) { size = s.size; break; }
+  }
+  const boldChars = weighted.reduce((sum, s) => sum + (s.bold ? s.chars : 0), 0);
+  return { size, boldRatio: boldChars / total };
+}
+
+/** 去除第一個片段開頭符合 regex 的標記（項目符號 / 標題裝飾符號） */
+function stripLeadingMarker(segments: StyledSegment[], regex: RegExp): StyledSegment[] {
+  const [first, ...rest] = segments;
+  return [{ ...first, sep: '', str: first.str.trimStart().replace(regex, '') }, ...rest];
+}
+
+/** 片段拼接為純文字 */
+function joinSegments(segments: StyledSegment[]): string {
+  return segments.map((s, i) => (i > 0 ? s.sep : '') + s.str).join('');
+}
+
+/**
+ * 片段拼接為 Markdown：連續粗體片段包成 **…**
+ * 前後空白移到標記外側（「**粗體 **」不是合法強調）
+ */
+function renderEmphasis(segments: StyledSegment[], emphasize: boolean): string {
+  let out = '';
+  let i = 0;
+  while (i < segments.length) {
+    const bold = emphasize && segments[i].bold;
+    let j = i;
+    let run = '';
+    while (j < segments.length && (emphasize && segments[j].bold) === bold) {
+      run += (j > 0 ? segments[j].sep : '') + segments[j].str;
+      j++;
+    }
+    const trimmed = run.trim();
+    if (bold && trimmed) {
+      const lead = run.slice(0, run.length - run.trimStart().length);
+      const trail = run.slice(run.trimEnd().length);
+      out += `${lead}**${trimmed}**${trail}`;
+    } else {
+      out += run;
+    }
+    i = j;
+  }
+  return out;
+}
+
+/**
+ * 逐行分類並輸出 Markdown：
+ * - 標題：非表格列、顯示寬度 ≤ HEADING_MAX_WIDTH、不以逗號 / 句號結尾，且字級明顯大於內文或整行粗體
+ *         → ## / ###（去除開頭裝飾符號）；無段落分隔的連續同級標題行視為折行標題，合併為一行
+ * - 項目符號：■ • ※ 「- 」等符號開頭 → 「- 」；編號項（1. (1) 一、）維持原樣
+ * - 內文：粗體片段加 **強調**；開頭的 # > 加跳脫，避免被誤判為 Markdown 語法
+ * 標題前後空一行，其餘沿用 formatColumnText 的換行 / 段落分隔
+ */
+function renderStyledMarkdown(lines: StyledLine[], stats: FontStats): string {
+  const blocks: { kind: 'heading' | 'line'; level: number; md: string; paraBreak: boolean }[] = [];
+
+  for (const line of lines) {
+    const plain = joinSegments(line.segments).trim();
+    if (!plain) continue;
+    const { size, boldRatio } = measureStyledLine(line.segments);
+    const isTable = plain.includes('\t');
+    const sizeRatio = stats.bodySize > 0 ? size / stats.bodySize : 1;
+
+    const isHeading = !isTable
+      && displayWidth(plain) <= HEADING_MAX_WIDTH
+      && !HEADING_END_BLOCK_REGEX.test(plain)
+      && (sizeRatio >= HEADING_SIZE_RATIO || (!stats.bodyBold && boldRatio >= HEADING_BOLD_RATIO));
+
+    if (isHeading) {
+      const level = sizeRatio >= HEADING_LARGE_RATIO ? 2 : 3;
+      const title = joinSegments(stripLeadingMarker(line.segments, HEADING_MARKER_REGEX)).trim();
+      const prev = blocks[blocks.length - 1];
+      if (prev && prev.kind === 'heading' && prev.level === level && !line.paraBreak) {
+        prev.md = joinWrappedLines(prev.md, title);
+      } else {
+        blocks.push({ kind: 'heading', level, md: title, paraBreak: line.paraBreak });
+      }
+      continue;
+    }
+
+    const emphasize = !stats.bodyBold && !isTable;
+    let md: string;
+    if (BULLET_MARKER_REGEX.test(plain)) {
+      md = `- ${renderEmphasis(stripLeadingMarker(line.segments, BULLET_MARKER_REGEX), emphasize).trim()}`;
+    } else {
+      md = renderEmphasis(line.segments, emphasize).trim();
+      if (/^[#>]/.test(md)) md = `\\${md}`;
+    }
+    blocks.push({ kind: 'line', level: 0, md, paraBreak: line.paraBreak });
+  }
+
+  return sanitizePuaChars(blocks.map((b, i) => {
+    const text = b.kind === 'heading' ? `${'#'.repeat(b.level)} ${b.md}` : b.md;
+    if (i === 0) return text;
+    const prev = blocks[i - 1];
+    const blank = b.paraBreak || b.kind === 'heading' || prev.kind === 'heading';
+    return (blank ? '\n\n' : '\n') + text;
+  }).join(''));
+}
+
+// ============================================================
+// Phase 3.5：提取信心分數
+// ============================================================
+
+/**
+ * 可讀字元比例：CJK、ASCII 可列印、CJK 標點、全形字元、通用標點佔全部字元的比例（空字串回傳 1）
+ * 亂碼判斷（analysisHelpers.isGarbledText）與信心分數共用
+ */
+export function readableCharRatio(str: string): number {
+  if (!str) return 1;
+  let readable = 0;
+  for (let i = 0; i < str.length; i++) {
+    const cp = str.codePointAt(i)!;
+    if (cp >= 0x4e00 && cp <= 0x9fff) readable++;
+    else if (cp >= 0x20 && cp <= 0x7e) readable++;
+    else if (cp >= 0x3000 && cp <= 0x303f) readable++;
+    else if (cp >= 0xff00 && cp <= 0xffef) readable++;
+    else if (cp >= 0x2000 && cp <= 0x206f) readable++; // 通用標點
+  }
+  return readable / str.length;
+}
+
+/** 信心分數的輸入訊號（皆為提取 pipeline 已產生的資訊，見 RegionDebugInfo） */
+export interface ConfidenceSignals {
+  /** 提取出的純文字 */
+  text: string;
+  /** AI 原始 bbox（校正幅度以此框的寬高為基準） */
+  originalBbox: [number, number, number, number];
+  /** Phase 1 snap 校正量 [dx1, dy1, dx2, dy2] */
+  snapDelta: [number, number, number, number];
+  /** Phase 2.25 是否觸發左右歸屬 */
+  resolveXTriggered?: boolean;
+  /** 偵測到的欄數 */
+  columns: number;
+  columnExclusiveRatio?: number;
+  columnSource?: string;
+  /** 自適應行分組閾值的計算路徑 */
+  adaptivePath?: 'stable' | 'fallback' | 'none';
+  /** CID passthrough 亂碼（IO 層以 cidDetect 判斷後傳入，core 不依賴外部模組） */
+  cidPassthrough?: boolean;
+}
+
+/** 提取信心分數：0~100，reasons 為各項扣分原因（滿分時為空陣列） */
+export interface ExtractionConfidence {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * 依提取 pipeline 的訊號計算 region 信心分數（滿分 100 逐項扣分）
+ * 沒有文字直接 0 分（灰框，會送 AI / OCR 識別）
+ */
+export function computeExtractionConfidence(signals: ConfidenceSignals): ExtractionConfidence {
+  const text = signals.text.trim();
+  if (!text) return { score: 0, reasons: ['文字層無文字'] };
+
+  let score = 100;
+  const reasons: string[] = [];
+  const penalize = (points: number, reason: string) => {
+    score -= points;
+    reasons.push(reason);
+  };
+
+  // 文字品質：CID 亂碼 / 不可讀字元
+  if (signals.cidPassthrough) {
+    penalize(60, 'CID 亂碼');
+  } else {
+    const unreadable = 1 - readableCharRatio(text);
+    if (unreadable > 1 - CONFIDENCE_READABLE_RATIO) {
+      penalize(Math.round(unreadable * 80), `不可讀字元 ${Math.round(unreadable * 100)}%`);
+    }
+  }
+
+  // 框校正幅度：單邊位移佔原框寬 / 高的最大比例
+  const [x1, y1, x2, y2] = signals.originalBbox;
+  const w = Math.max(1, x2 - x1);
+  const h = Math.max(1, y2 - y1);
+  const [dx1, dy1, dx2, dy2] = signals.snapDelta;
+  const snapRatio = Math.max(Math.abs(dx1) / w, Math.abs(dx2) / w, Math.abs(dy1) / h, Math.abs(dy2) / h);
+  if (snapRatio > CONFIDENCE_SNAP_RATIO) {
+    penalize(Math.min(25, Math.round(snapRatio * 50)), `框校正幅度 ${Math.round(snapRatio * 100)}%`);
+  }
+
+  if (signals.resolveXTriggered) penalize(15, '與相鄰框左右重疊');
+
+  // 分欄邊緣：投影法 strict fallback 或 exclusiveRatio 剛過門檻
+  if (signals.columns > 1 && (
+    signals.columnSource === COLUMN_STRICT_FALLBACK_SOURCE
+    || (signals.columnExclusiveRatio ?? 1) < CONFIDENCE_COLUMN_MARGIN_RATIO
+  )) {
+    penalize(15, '分欄判定不明確');
+  }
+
+  if (signals.adaptivePath === 'fallback') penalize(10, '行距閾值 fallback');
+
+  return { score: Math.max(0, score), reasons };
+}
+
+/** 是否需人工檢查（未計算分數 = 文字已由 AI / OCR / 手動取代，不列入） */
+export function isLowConfidence(confidence?: ExtractionConfidence): boolean {
+  return confidence !== undefined && confidence.score < CONFIDENCE_LOW_THRESHOLD;
+}
+
+// ============================================================
+// Phase 4（選用）：段落重排（合併軟換行）
+// ============================================================
+
+/** 項目符號 / 編號項開頭（■ • ※ 等符號、「- 」、1. 1) 1、(1) 一、（一） a) 等） */
+const LIST_ITEM_REGEX = /^\s*(?:[■□▪▫●○◆◇◎★☆►▶•‧·※]|[-*–—]\s|\(?[0-9]{1,2}[.)、](?![0-9])|[（(][0-9]{1,2}[)）]|[（(]?[一二三四五六七八九十]{1,3}[、.)）]|[a-zA-Z][.)]\s)/;
+/** 句末標點 */
+const SENTENCE_END_REGEX = /[。！？；：.!?;:]$/;
+/** 全形字元（CJK 文字與全形標點），顯示寬度計 2 */
+const FULLWIDTH_REGEX = /[\u3000-\u303F\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+/** 顯示寬度（全形 2、半形 1），用於判斷行是否提早結束 */
+function displayWidth(line: string): number {
+  let width = 0;
+  for (const ch of line) width += FULLWIDTH_REGEX.test(ch) ? 2 : 1;
+  return width;
+}
+
+/** 表格列（formatColumnText 的 TAB 分欄、Markdown 表格）與前後行皆不合併 */
+function isTableLine(line: string): boolean {
+  return line.includes('\t') || line.trimStart().startsWith('|');
+}
+
+/**
+ * 兩行接合處是否補空格：
+ * - 英文（半形）之間補空格；CJK 之間、任一側為全形標點直接相接
+ * - CJK 與英數相鄰補空格（與報告內文「NB 提前」「112.97 億元」的排版一致），與半形標點相鄰則不補
+ */
+function needsJoinSpace(left: string, right: string): boolean {
+  const leftFull = FULLWIDTH_REGEX.test(left);
+  const rightFull = FULLWIDTH_REGEX.test(right);
+  if (!leftFull && !rightFull) return true;
+  if (leftFull && rightFull) return false;
+  const [full, half] = leftFull ? [left, right] : [right, left];
+  return hasCJK(full) && /[A-Za-z0-9]/.test(half);
+}
+
+/** 兩行接合：英文斷字去連字號，其餘依 needsJoinSpace 決定是否補空格 */
+function joinWrappedLines(prev: string, next: string): string {
+  const head = prev.trimEnd();
+  const tail = next.trimStart();
+  if (/[A-Za-z]-$/.test(head) && /^[a-z]/.test(tail)) return head.slice(0, -1) + tail;
+  return needsJoinSpace(head.slice(-1), tail[0]) ? `${head} ${tail}` : head + tail;
+}
+
+/**
+ * 段落重排：把 formatColumnText 保留的實體換行（排版折行）合併回段落
+ * - 段落以空行分隔，空行保留
+ * - 項目符號 / 編號項開頭的行另起一行；其後的折行併入該項
+ * - 以句末標點結尾且明顯短於段落最寬行 → 視為段落結尾，保留換行
+ * - 表格列（TAB 分欄、Markdown `|`）原樣保留
+ * 匯出時依選項套用，不改動區域原始文字
+ */
+export function reflowText(text: string): string {
+  return text.split(/\n[ \t]*\n/).map((paragraph) => {
+    const lines = paragraph.split('\n').filter(l => l.trim());
+    if (lines.length <= 1) return paragraph.trim();
+    const maxWidth = Math.max(...lines.map(l => displayWidth(l.trim())));
+
+    const out: string[] = [lines[0].trimEnd()];
+    for (let i = 1; i < lines.length; i++) {
+      const prev = lines[i - 1].trim();
+      const line = lines[i];
+      const keepBreak =
+        LIST_ITEM_REGEX.test(line)
+        || isTableLine(prev) || isTableLine(line)
+        || (SENTENCE_END_REGEX.test(prev) && displayWidth(prev) < maxWidth * REFLOW_SHORT_LINE_RATIO);
+      if (keepBreak) out.push(line.trimEnd());
+      else out[out.length - 1] = joinWrappedLines(out[out.length - 1], line);
+    }
+    return out.join('\n');
+  }).join('\n\n');
+}
+
+// ============================================================
+// 表格重建（文字層 → 格線 → Markdown）
+// ============================================================
+
+/** 文字層重建的表格格線（rows[列][欄]，首列視為表頭） */
+export interface TableGrid {
+  /** 表格上方只填一格的列（表格標題、單位說明），輸出為表格前的文字 */
+  caption: string[];
+  rows: string[][];
+  /** 欄分界線 X 座標（歸一化） */
+  separators: number[];
+}
+
+/** 按 baseline 分列（與 splitIntoColumns Step 1 相同：以列首 baseline 為基準聚類） */
+function groupHitsIntoRows(hits: Hit[]): Hit[][] {
+  const sorted = [...hits].sort((a, b) => a.normBaseline - b.normBaseline);
+  const rows: Hit[][] = [[sorted[0]]];
+  for (let i = 1; i < sorted.length; i++) {
+    const lastRow = rows[rows.length - 1];
+    if (Math.abs(sorted[i].normBaseline - lastRow[0].normBaseline) < SAME_LINE_THRESHOLD) {
+      lastRow.push(sorted[i]);
+    } else {
+      rows.push([sorted[i]]);
+    }
+  }
+  return rows;
+}
+
+/**
+ * 投影法找欄分界：X 軸離散化後統計每個桶被幾列覆蓋，
+ * 覆蓋列數 ≤ 跨欄容許值且寬度 ≥ TABLE_GUTTER_MIN_WIDTH 的連續空白帶取中點為分界
+ */
+function findTableGutters(rows: Hit[][]): number[] {
+  const all = rows.flat();
+  const minX = Math.min(...all.map(h => h.normX));
+  const maxX = Math.max(...all.map(h => h.normRight));
+  const bucketCount = Math.ceil((maxX - minX) / COLUMN_BUCKET_WIDTH);
+  if (bucketCount <= 0) return [];
+
+  const coverage: number[] = new Array(bucketCount).fill(0);
+  for (const row of rows) {
+    const covered = new Uint8Array(bucketCount);
+    for (const h of row) {
+      const b1 = Math.max(0, Math.floor((h.normX - minX) / COLUMN_BUCKET_WIDTH));
+      const b2 = Math.min(bucketCount - 1, Math.ceil((h.normRight - minX) / COLUMN_BUCKET_WIDTH) - 1);
+      for (let b = b1; b <= b2; b++) covered[b] = 1;
+    }
+    for (let b = 0; b < bucketCount; b++) coverage[b] += covered[b];
+  }
+
+  const allowance = Math.floor(rows.length * TABLE_SPAN_ROW_RATIO);
+  const separators: number[] = [];
+  let runStart = -1;
+  for (let b = 0; b <= bucketCount; b++) {
+    const open = b < bucketCount && coverage[b] <= allowance;
+    if (open && runStart < 0) {
+      runStart = b;
+    } else if (!open && runStart >= 0) {
+      if ((b - runStart) * COLUMN_BUCKET_WIDTH >= TABLE_GUTTER_MIN_WIDTH) {
+        separators.push(minX + ((runStart + b) / 2) * COLUMN_BUCKET_WIDTH);
+      }
+      runStart = -1;
+    }
+  }
+  return separators;
+}
+
+/** 格內文字項左→右拼接：有間距時補空格（CJK 相鄰不補） */
+function joinCellHits(hits: Hit[]): string {
+  const sorted = [...hits].sort((a, b) => a.normX - b.normX);
+  let text = '';
+  let lastRight = -Infinity;
+  for (const h of sorted) {
+    const str = h.str.trim();
+    if (!str) continue;
+    if (text && h.normX - lastRight > SPACE_GAP_THRESHOLD && !(hasCJK(text.slice(-1)) && hasCJK(str[0]))) {
+      text += ' ';
+    }
+    text += str;
+    lastRight = Math.max(lastRight, h.normRight);
+  }
+  return sanitizePuaChars(text);
+}
+
+/**
+ * 從 bbox 內的文字層建立表格格線
+ * 流程：按 baseline 分列 → 投影法找欄分界 → 文字項依中心點落格 → 有效性檢查
+ * 以下情況回傳 null（呼叫端改送 AI 識別）：
+ * - 少於 TABLE_MIN_ROWS 列或 TABLE_MIN_COLS 欄（整列是單一文字項、欄間沒有對齊的留白）
+ * - 填入 ≥ 2 格的列不足 TABLE_MULTI_CELL_ROW_RATIO（欄位對不齊）
+ * - 格內字數中位數 > TABLE_MAX_MEDIAN_CELL_CHARS（多欄排版的段落）
+ */
+export function buildTableGrid(
+  bbox: [number, number, number, number],
+  textItems: NormTextItem[],
+): TableGrid | null {
+  const hits = collectBboxHits(bbox, textItems).filter(h => h.str.trim());
+  if (hits.length < TABLE_MIN_ROWS * TABLE_MIN_COLS) return null;
+
+  const rowHits = groupHitsIntoRows(hits);
+  if (rowHits.length < TABLE_MIN_ROWS) return null;
+
+  const separators = findTableGutters(rowHits);
+  if (separators.length + 1 < TABLE_MIN_COLS) return null;
+
+  const allRows = rowHits.map(row => {
+    const cells: Hit[][] = Array.from({ length: separators.length + 1 }, () => []);
+    for (const h of row) {
+      const centerX = (h.normX + h.normRight) / 2;
+      let col = 0;
+      while (col < separators.length && centerX > separators[col]) col++;
+      cells[col].push(h);
+    }
+    return cells.map(joinCellHits);
+  });
+
+  // 開頭只填一格的列視為標題，不放進表頭
+  let captionCount = 0;
+  while (captionCount < allRows.length && allRows[captionCount].filter(Boolean).length < 2) captionCount++;
+  const caption = allRows.slice(0, captionCount).map(r => r.filter(Boolean).join(' '));
+  const rows = allRows.slice(captionCount);
+  if (rows.length < TABLE_MIN_ROWS) return null;
+
+  const multiCellRows = rows.filter(r => r.filter(Boolean).length >= 2).length;
+  if (multiCellRows / rows.length < TABLE_MULTI_CELL_ROW_RATIO) return null;
+
+  const cellLengths = rows.flat().filter(Boolean).map(c => c.replace(/\s/g, '').length).sort((a, b) => a - b);
+  const medianLength = cellLengths[Math.floor(cellLengths.length / 2)];
+  if (medianLength > TABLE_MAX_MEDIAN_CELL_CHARS) return null;
+
+  console.log(
+    `[pdfTextExtract][${_ts()}] 📊 buildTableGrid: ${rows.length} rows × ${separators.length + 1} cols` +
+    `, separators=[${separators.map(Math.round).join(',')}], multiCellRows=${multiCellRows}/${rows.length}`
+  );
+  return { caption, rows, separators };
+}
+
+/** 表格格線轉 Markdown（標題列在前、空一行後接表格；首列為表頭；格內的 | 換成全形避免破壞欄位） */
+export function tableGridToMarkdown(grid: TableGrid): string {
+  const line = (cells: string[]) => `| ${cells.map(c => c.replace(/\|/g, '｜')).join(' | ')} |`;
+  const [header, ...body] = grid.rows;
+  const table = [line(header), line(header.map(() => '---')), ...body.map(line)].join('\n');
+  return grid.caption.length > 0 ? `${grid.caption.join('\n')}\n\n${table}` : table;
+}
+
+// ============================================================
+// 跨頁重複行（頁首 / 頁尾 / 頁碼 / 合規聲明）
+// ============================================================
+
+/** 跨頁重複出現的行（同一正規化內容、相近 baseline） */
+export interface RunningLine {
+  /** 正規化內容（去空白、全半形統一、數字→#、小寫），頁碼 / 日期不同的頁也視為同一行 */
+  key: string;
+  /** 首次出現的原文（log / debug 顯示用） */
+  text: string;
+  /** 各頁 baseline 中位數（歸一化座標） */
+  baseline: number;
+  /** 出現頁數 */
+  pageCount: number;
+}
+
+/** 行內片段：同一行中水平間距 ≤ COL_GAP_THRESHOLD 的相鄰文字項（頁首左側券商名與右側日期各自成段） */
+interface RunningSegment {
+  items: NormTextItem[];
+  key: string;
+  text: string;
+  top: number;
+  baseline: number;
+}
+
+function normalizeRunningKey(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, '').replace(/[0-9]+/g, '#').toLowerCase();
+}
+
+function toRunningSegment(items: NormTextItem[]): RunningSegment {
+  const text = joinCellHits(items.map(ti => ({
+    str: ti.str, normX: ti.normX, normBaseline: ti.normBaseline, normRight: ti.normX + ti.normW, normY: ti.normY,
+  })));
+  return {
+    items,
+    key: normalizeRunningKey(text),
+    text,
+    top: Math.min(...items.map(ti => ti.normY)),
+    baseline: Math.max(...items.map(ti => ti.normBaseline)),
+  };
+}
+
+/** 整頁按 baseline 分行（同 groupHitsIntoRows），行內依水平間距切段 */
+function splitRunningSegments(textItems: NormTextItem[]): RunningSegment[] {
+  const sorted = textItems.filter(ti => ti.str.trim()).sort((a, b) => a.normBaseline - b.normBaseline);
+  if (sorted.length === 0) return [];
+
+  const rows: NormTextItem[][] = [[sorted[0]]];
+  for (let i = 1; i < sorted.length; i++) {
+    const lastRow = rows[rows.length - 1];
+    if (Math.abs(sorted[i].normBaseline - lastRow[0].normBaseline) < SAME_LINE_THRESHOLD) {
+      lastRow.push(sorted[i]);
+    } else {
+      rows.push([sorted[i]]);
+    }
+  }
+
+  const segments: RunningSegment[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.normX - b.normX);
+    let current: NormTextItem[] = [row[0]];
+    let right = row[0].normX + row[0].normW;
+    for (let i = 1; i < row.length; i++) {
+      const ti = row[i];
+      if (ti.normX - right > COL_GAP_THRESHOLD) {
+        segments.push(toRunningSegment(current));
+        current = [];
+      }
+      current.push(ti);
+      right = Math.max(right, ti.normX + ti.normW);
+    }
+    segments.push(toRunningSegment(current));
+  }
+  return segments;
+}
+
+/** 頁首尾帶內的片段一律可比對；帶外的片段須夠長（合規聲明），避免移除內文偶然重複的短字串 */
+function isRunningCandidate(seg: RunningSegment): boolean {
+  if (!seg.key) return false;
+  const inMargin = seg.baseline <= RUNNING_MARGIN_BAND || seg.top >= NORMALIZED_MAX - RUNNING_MARGIN_BAND;
+  return inMargin || seg.key.length >= RUNNING_MIN_BODY_CHARS;
+}
+
+/**
+ * 文件層級：找出跨頁重複的行（頁首、頁尾、頁碼、每頁重複的合規聲明）
+ * 流程：各頁切段 → 依正規化內容分組 → 組內依 baseline 聚類（RUNNING_Y_TOLERANCE）
+ *       → 出現頁數 ≥ max(RUNNING_MIN_PAGES, 總頁數 × RUNNING_MIN_PAGE_RATIO) 的聚類視為重複行
+ * @param pages 各頁的文字項（索引 = 頁序）
+ */
+export function findRunningLines(pages: NormTextItem[][]): RunningLine[] {
+  const minPages = Math.max(RUNNING_MIN_PAGES, Math.ceil(pages.length * RUNNING_MIN_PAGE_RATIO));
+  if (pages.length < minPages) return [];
+
+  const occurrences = new Map<string, { page: number; baseline: number; text: string }[]>();
+  pages.forEach((textItems, page) => {
+    for (const seg of splitRunningSegments(textItems)) {
+      if (!isRunningCandidate(seg)) continue;
+      const list = occurrences.get(seg.key) ?? [];
+      list.push({ page, baseline: seg.baseline, text: seg.text });
+      occurrences.set(seg.key, list);
+    }
+  });
+
+  const lines: RunningLine[] = [];
+  for (const [key, list] of occurrences) {
+    list.sort((a, b) => a.baseline - b.baseline);
+    let cluster = [list[0]];
+    for (let i = 1; i <= list.length; i++) {
+      if (i < list.length && list[i].baseline - cluster[0].baseline <= RUNNING_Y_TOLERANCE) {
+        cluster.push(list[i]);
+        continue;
+      }
+      const pageCount = new Set(cluster.map(o => o.page)).size;
+      if (pageCount >= minPages) {
+        const first = cluster.reduce((a, b) => (b.page < a.page ? b : a));
+        lines.push({ key, text: first.text, baseline: median(cluster.map(o => o.baseline)), pageCount });
+      }
+      if (i < list.length) cluster = [list[i]];
+    }
+  }
+  return lines.sort((a, b) => a.baseline - b.baseline);
+}
+
+/** 單頁：標出屬於重複行的文字項（片段內容與 baseline 皆須吻合） */
+export function matchRunningItems(textItems: NormTextItem[], runningLines: RunningLine[]): Set<NormTextItem> {
+  const matched = new Set<NormTextItem>();
+  if (runningLines.length === 0) return matched;
+  for (const seg of splitRunningSegments(textItems)) {
+    if (runningLines.some(l => l.key === seg.key && Math.abs(l.baseline - seg.baseline) <= RUNNING_Y_TOLERANCE)) {
+      for (const ti of seg.items) matched.add(ti);
+    }
+  }
+  return matched;
+}
+
+// ============================================================
+// 版面分析（文字層 → 段落區塊提案，不呼叫 AI）
+// ============================================================
+
+/** 版面分析提出的段落區塊 */
+export interface LayoutBlock {
+  /** 歸一化座標 [x1, y1, x2, y2]（0~1000） */
+  bbox: [number, number, number, number];
+  lineCount: number;
+  /** 字級（行高中位數，歸一化單位） */
+  fontSize: number;
+  /** 區塊文字（行以換行分隔，供標籤與亂碼判斷） */
+  text: string;
+}
+
+interface LayoutLine {
+  hits: Hit[];
+  left: number;
+  right: number;
+  top: number;
+  baseline: number;
+  fontSize: number;
+  text: string;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** 整頁多欄切分：splitIntoColumns 遞迴到 LAYOUT_MAX_COLUMN_DEPTH，回傳由左到右的欄 */
+function splitPageColumns(hits: Hit[], depth: number): Hit[][] {
+  if (depth >= LAYOUT_MAX_COLUMN_DEPTH) return [hits];
+  const columns = splitIntoColumns(hits);
+  if (columns.length <= 1) return [hits];
+  return columns.flatMap(col => splitPageColumns(col, depth + 1));
+}
+
+function toLayoutLine(hits: Hit[]): LayoutLine {
+  return {
+    hits,
+    left: Math.min(...hits.map(h => h.normX)),
+    right: Math.max(...hits.map(h => h.normRight)),
+    top: Math.min(...hits.map(h => h.normY)),
+    baseline: Math.max(...hits.map(h => h.normBaseline)),
+    fontSize: median(hits.map(h => h.normBaseline - h.normY)),
+    text: joinCellHits(hits),
+  };
+}
+
+/** 判斷下一行是否另起區塊：字級變化、行距過大（PARA_GAP_RATIO）、縮排改變、水平不重疊 */
+function startsNewBlock(block: LayoutLine[], line: LayoutLine): boolean {
+  const prev = block[block.length - 1];
+  const blockFontSize = median(block.map(l => l.fontSize));
+  if (Math.abs(line.fontSize - blockFontSize) > blockFontSize * LAYOUT_FONT_SIZE_RATIO) return true;
+
+  const spacing = line.baseline - prev.baseline;
+  if (block.length === 1) {
+    if (spacing > prev.fontSize * LAYOUT_FIRST_GAP_RATIO) return true;
+  } else {
+    const typical = median(block.slice(1).map((l, i) => l.baseline - block[i].baseline));
+    if (spacing > typical * PARA_GAP_RATIO) return true;
+    if (Math.abs(line.left - prev.left) > LAYOUT_INDENT_MIN) return true;
+  }
+
+  const blockLeft = Math.min(...block.map(l => l.left));
+  const blockRight = Math.max(...block.map(l => l.right));
+  return line.right <= blockLeft || line.left >= blockRight;
+}
+
+function toLayoutBlock(lines: LayoutLine[]): LayoutBlock {
+  return {
+    bbox: [
+      Math.min(...lines.map(l => l.left)),
+      Math.min(...lines.map(l => l.top)),
+      Math.max(...lines.map(l => l.right)),
+      Math.max(...lines.map(l => l.baseline)),
+    ],
+    lineCount: lines.length,
+    fontSize: median(lines.map(l => l.fontSize)),
+    text: lines.map(l => l.text).join('\n'),
+  };
+}
+
+/**
+ * 版面分析：從整頁文字層提出段落區塊（閱讀順序：欄由左到右、欄內由上到下）
+ * 流程：
+ *   1. 整頁多欄切分（splitIntoColumns 遞迴）
+ *   2. 欄內按 baseline 分行，依字級 / 行距 / 縮排 / 水平重疊聚成段落
+ *   3. 單行區塊（小標題）與下一段距離在一般行距內 → 併入下一段
+ *   4. 濾除：頁首尾帶、字數 < LAYOUT_MIN_CHARS、數字比例過高、可重建為表格格線的區塊
+ */
+export function proposeLayoutBlocks(textItems: NormTextItem[]): LayoutBlock[] {
+  const hits = collectBboxHits([0, 0, NORMALIZED_MAX, NORMALIZED_MAX], textItems).filter(h => h.str.trim());
+  if (hits.length === 0) return [];
+
+  const blocks: LayoutBlock[] = [];
+  for (const column of splitPageColumns(hits, 0)) {
+    const lines = groupHitsIntoRows(column).map(toLayoutLine);
+
+    // 行 → 段落
+    const groups: LayoutLine[][] = [];
+    for (const line of lines) {
+      const current = groups[groups.length - 1];
+      if (current && !startsNewBlock(current, line)) current.push(line);
+      else groups.push([line]);
+    }
+
+    // 單行小標題併入下一段
+    const merged: LayoutLine[][] = [];
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i];
+      const next = groups[i + 1];
+      if (group.length === 1 && next && next[0].top - group[0].baseline <= group[0].fontSize * LAYOUT_FIRST_GAP_RATIO) {
+        groups[i + 1] = [...group, ...next];
+        continue;
+      }
+      merged.push(group);
+    }
+
+    for (const group of merged) {
+      const block = toLayoutBlock(group);
+      const [, y1, , y2] = block.bbox;
+      const compact = block.text.replace(/\s/g, '');
+      if (y2 <= LAYOUT_MARGIN_BAND || y1 >= NORMALIZED_MAX - LAYOUT_MARGIN_BAND) continue;
+      if (compact.length < LAYOUT_MIN_CHARS) continue;
+      if ((compact.match(/[0-9]/g)?.length ?? 0) / compact.length > LAYOUT_MAX_DIGIT_RATIO) continue;
+      if (buildTableGrid(block.bbox, textItems)) continue;
+      blocks.push(block);
+    }
+  }
+
+  console.log(
+    `[pdfTextExtract][${_ts()}] 🧱 proposeLayoutBlocks: ${blocks.length} block(s)` +
+    (blocks.length > 0 ? `: ${blocks.map(b => `[${b.bbox.map(Math.round).join(',')}]×${b.lineCount}`).join(' ')}` : '')
+  );
+  return blocks;
 }
@@ -7,17 +7,22 @@
  * - Database: pdfextract-ai-db (version 1)
  * - Object Store "session": key='state' → { activeFileId, files: SerializedFileEntry[] }
  * - Object Store "pdf-files": key=fileId → ArrayBuffer (PDF binary)
+ * - Object Store "ai-cache": key=sha256(圖片+prompt+model) → AI 回應（內容定址，與 session 無關；createdAt 索引供清理過期條目）
  */
 
 import { Region, FileEntry } from '@/lib/types';
 
 // === 常數 ===
 const DB_NAME = 'pdfextract-ai-db';
-const DB_VERSION = 2; // v2：新增 handles store（存 File System Access 資料夾 handle）
+const DB_VERSION = 4; // v2：新增 handles store（存 File System Access 資料夾 handle）；v3：新增 ai-cache store；v4：ai-cache 加 createdAt 索引
 const STORE_SESSION = 'session';
 const STORE_PDF_FILES = 'pdf-files';
 const STORE_HANDLES = 'handles'; // 本機資料夾 handle（持久設定，非 session；clearAll 不清）
 const KEY_DIR_HANDLE = 'dir';
+const STORE_AI_CACHE = 'ai-cache'; // AI 回應快取（內容定址，clearAll 不清：同圖同 prompt 同模型的結果與檔案列表無關；另由 clearAiCache 清除）
+const INDEX_CREATED_AT = 'createdAt';
+const AI_CACHE_MAX_ENTRIES = 3000; // 超過時刪除最舊的條目（單頁分析結果約數 KB）
+const AI_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 超過 30 天的條目視為過期（prompt / 模型多半已更新）
 
 // === 序列化格式（僅內部使用）===
 
@@ -39,7 +44,12 @@ interface SerializedFileEntry {
   selectedDate?: string;
   selectedCode?: string;
   selectedBroker?: string;
+  confirmedMetadata?: FileEntry['confirmedMetadata'];
+  skippedPages?: FileEntry['skippedPages'];
   report?: string;
+  usage?: FileEntry['usage'];
+  pageUsage?: FileEntry['pageUsage'];
+  regionOrder?: FileEntry['regionOrder'];
 }
 
 /** 完整 session 存檔格式 */
@@ -72,6 +82,12 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_HANDLES)) {
         db.createObjectStore(STORE_HANDLES);
       }
+      const aiCache = db.objectStoreNames.contains(STORE_AI_CACHE)
+        ? request.transaction!.objectStore(STORE_AI_CACHE)
+        : db.createObjectStore(STORE_AI_CACHE);
+      if (!aiCache.indexNames.contains(INDEX_CREATED_AT)) {
+        aiCache.createIndex(INDEX_CREATED_AT, 'createdAt');
+      }
     };
 
     request.onsuccess = () => resolve(request.result);
@@ -114,7 +130,12 @@ function serializeFiles(files: FileEntry[]): SerializedFileEntry[] {
     selectedDate: f.selectedDate ?? '',
     selectedCode: f.selectedCode ?? '',
     selectedBroker: f.selectedBroker ?? '',
+    confirmedMetadata: f.confirmedMetadata ?? [],
+    skippedPages: f.skippedPages ?? [],
     report: f.report,
+    usage: f.usage,
+    pageUsage: f.pageUsage,
+    regionOrder: f.regionOrder,
   }));
 }
 
@@ -222,7 +243,12 @@ export async function loadSession(): Promise<RestoredSession | null> {
         selectedDate: sf.selectedDate ?? '',
         selectedCode: sf.selectedCode ?? '',
         selectedBroker: sf.selectedBroker ?? '',
+        confirmedMetadata: sf.confirmedMetadata ?? [],
+        skippedPages: sf.skippedPages ?? [],
         report: sf.report,
+        usage: sf.usage,
+        pageUsage: sf.pageUsage,
+        regionOrder: sf.regionOrder,
       });
     }
 
@@ -357,3 +383,114 @@ export async function clearDirHandle(): Promise<void> {
     console.warn(`[persistence][${ts}] ⚠️ Failed to clear dir handle:`, e);
   }
 }
+
+// === AI 回應快取（內容定址）===
+// key 由 aiCache.ts 計算（sha256 hex），value 為 /api/analyze 的 data 或 /api/recognize 的 text。
+// 失敗一律視為 miss / 略過寫入，不影響分析流程。
+
+/** AI 快取條目（createdAt 供 trimAiCache 清理過期 / 過多條目） */
+interface AiCacheRecord {
+  value: unknown;
+  createdAt: number;
+}
+
+/** 讀取 AI 快取（無則回 null） */
+export async function getAiCacheEntry(key: string): Promise<unknown | null> {
+  try {
+    const db = await openDB();
+    const record = await new Promise<AiCacheRecord | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE_AI_CACHE, 'readonly');
+      const req = tx.objectStore(STORE_AI_CACHE).get(key);
+      req.onsuccess = () => resolve(req.result as AiCacheRecord | undefined);
+      req.onerror = () => reject(req.error);
+    });
+    db.close();
+    return record?.value ?? null;
+  } catch (e) {
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.warn(`[persistence][${ts}] ⚠️ Failed to read AI cache:`, e);
+    return null;
+  }
+}
+
+/** 寫入 AI 快取 */
+export async function putAiCacheEntry(key: string, value: unknown): Promise<void> {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(STORE_AI_CACHE, 'readwrite');
+    const record: AiCacheRecord = { value, createdAt: Date.now() };
+    tx.objectStore(STORE_AI_CACHE).put(record, key);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (e) {
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.warn(`[persistence][${ts}] ⚠️ Failed to write AI cache:`, e);
+  }
+}
+
+/**
+ * 清理 AI 快取：刪除超過 AI_CACHE_MAX_AGE_MS 的條目，剩餘條目超過 AI_CACHE_MAX_ENTRIES 時由最舊的開始刪除
+ * @returns 刪除的條目數
+ */
+export async function trimAiCache(): Promise<number> {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(STORE_AI_CACHE, 'readwrite');
+    const store = tx.objectStore(STORE_AI_CACHE);
+    const index = store.index(INDEX_CREATED_AT);
+    let deleted = 0;
+    const countReq = store.count();
+    countReq.onsuccess = () => {
+      let excess = countReq.result - AI_CACHE_MAX_ENTRIES;
+      const expiredBefore = Date.now() - AI_CACHE_MAX_AGE_MS;
+      // 依 createdAt 由舊到新走訪：過期或仍超量就刪，兩者皆否即可停止
+      const cursorReq = index.openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        const record = cursor.value as AiCacheRecord;
+        if (record.createdAt >= expiredBefore && excess <= 0) return;
+        cursor.delete();
+        deleted++;
+        excess--;
+        cursor.continue();
+      };
+    };
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+    if (deleted > 0) {
+      const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+      console.log(`[persistence][${ts}] 🧹 Trimmed ${deleted} AI cache entries`);
+    }
+    return deleted;
+  } catch (e) {
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.warn(`[persistence][${ts}] ⚠️ Failed to trim AI cache:`, e);
+    return 0;
+  }
+}
+
+/** 清空 AI 快取（使用者手動清除；不影響 session 與 PDF） */
+export async function clearAiCache(): Promise<void> {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(STORE_AI_CACHE, 'readwrite');
+    tx.objectStore(STORE_AI_CACHE).clear();
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.log(`[persistence][${ts}] 🗑️ Cleared AI cache`);
+  } catch (e) {
+    const ts = new Date().toLocaleTimeString('en-US', { hour12: false });
+    console.warn(`[persistence][${ts}] ⚠️ Failed to clear AI cache:`, e);
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * 功能：伺服器端 AI 呼叫限流（server-only）
+ * 職責：依「解析後的金鑰 + 模型」分組，限制每分鐘請求數（token bucket）與同時進行的請求數；超出預算的請求排隊等待而非失敗，
+ *       回傳排隊深度與等待時間供前端顯示；上游回 429 時暫停該組（多位使用者共用 GEMINI_API_KEY 時不再各分頁各自撞牆）
+ * 依賴：Node.js crypto（金鑰雜湊：Map key 與 log 不保留明文金鑰）、types.ts（ServerQueueInfo）、constants.ts（本機 / 模擬模型判斷）
+ *
+ * 設定（環境變數，未設或 0 = 不限；限流為選用，未設定時只保留上游 429 後的暫停）：
+ *   AI_RPM_LIMIT          每組每分鐘請求數
+ *   AI_CONCURRENCY_LIMIT  每組同時請求數
+ *   AI_RATE_LIMITS        per-model 覆寫 JSON，如 {"gemini-3-pro-preview":{"rpm":10,"concurrency":2}}
+ *   AI_QUEUE_TIMEOUT_MS   排隊上限（預設 120000），逾時回 503 queueTimeout（與上游 429 區分，前端直接重新排隊）
+ * 本機端點（local:）與模擬模型（mock:）不套用全域限制，僅 AI_RATE_LIMITS 明確列出時才限流。
+ * 狀態為模組級（單一 Node 行程內共享）；多實例部署時各實例分別計算。
+ */
+
+import { createHash } from 'crypto';
+import type { ServerQueueInfo } from '@/lib/types';
+import { isLocalModel, isMockModel } from '@/lib/constants';
+
+/** 單組限流預算 */
+export interface RateLimitBudget {
+  /** 每分鐘請求數（0 = 不限） */
+  rpm: number;
+  /** 同時請求數（0 = 不限） */
+  concurrency: number;
+}
+
+/** 取得的執行名額：完成後必須呼叫 release（含失敗），否則該組同時請求數不會歸還 */
+export interface LimiterTicket {
+  queue: ServerQueueInfo;
+  release: () => void;
+}
+
+/** 上游 429 後該組暫停時間（與前端 RATE_LIMIT_DELAY_MS 一致） */
+const UPSTREAM_429_PAUSE_MS = 10_000;
+const DEFAULT_QUEUE_TIMEOUT_MS = 120_000;
+
+interface Waiter {
+  enqueuedAt: number;
+  depth: number;
+  grant: () => void;
+}
+
+interface Bucket {
+  budget: RateLimitBudget;
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  pausedUntil: number;
+  waiters: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const _buckets = new Map<string, Bucket>();
+
+function readLimit(raw: string | undefined, fallback: number): number {
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+/** 解析某模型的預算：per-model 覆寫 > 全域環境變數 > 不限（本機 / 模擬模型不套用全域環境變數） */
+export function resolveBudget(modelId: string): RateLimitBudget {
+  const exempt = isLocalModel(modelId) || isMockModel(modelId);
+  const base: RateLimitBudget = exempt ? { rpm: 0, concurrency: 0 } : {
+    rpm: readLimit(process.env.AI_RPM_LIMIT, 0),
+    concurrency: readLimit(process.env.AI_CONCURRENCY_LIMIT, 0),
+  };
+  try {
+    const overrides = JSON.parse(process.env.AI_RATE_LIMITS || '{}');
+    const o = overrides?.[modelId];
+    if (o && typeof o === 'object') {
+      return {
+        rpm: readLimit(o.rpm === undefined ? undefined : String(o.rpm), base.rpm),
+        concurrency: readLimit(o.concurrency === undefined ? undefined : String(o.concurrency), base.concurrency),
+      };
+    }
+  } catch { /* 覆寫 JSON 格式錯誤 → 用全域預算 */ }
+  return base;
+}
+
+/** 分組 key：金鑰雜湊前 12 碼 + 模型 */
+function bucketKey(apiKey: string, modelId: string): string {
+  return `${createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}|${modelId}`;
+}
+
+function getBucket(apiKey: string, modelId: string): Bucket {
+  const key = bucketKey(apiKey, modelId);
+  const budget = resolveBudget(modelId);
+  let bucket = _buckets.get(key);
+  if (!bucket) {
+    bucket = { budget, tokens: budget.rpm, lastRefill: Date.now(), active: 0, pausedUntil: 0, waiters: [], timer: null };
+    _buckets.set(key, bucket);
+  } else {
+    // 環境變數可能於執行期調整（測試），每次取用時同步預算
+    bucket.budget = budget;
+  }
+  return bucket;
+}
+
+/** 依經過時間補充 token（容量 = rpm，即最多一分鐘的量可瞬間用完） */
+function refill(bucket: Bucket, now: number) {
+  const { rpm } = bucket.budget;
+  if (rpm <= 0) return;
+  bucket.tokens = Math.min(rpm, bucket.tokens + ((now - bucket.lastRefill) * rpm) / 60_000);
+  bucket.lastRefill = now;
+}
+
+/** 依序放行排隊中的請求；名額不足時排程到下一個 token 產生或暫停結束時再試 */
+function pump(bucket: Bucket) {
+  if (bucket.timer) {
+    clearTimeout(bucket.timer);
+    bucket.timer = null;
+  }
+  const { rpm, concurrency } = bucket.budget;
+  while (bucket.waiters.length > 0) {
+    const now = Date.now();
+    if (now < bucket.pausedUntil) {
+      bucket.timer = setTimeout(() => pump(bucket), bucket.pausedUntil - now);
+      return;
+    }
+    if (concurrency > 0 && bucket.active >= concurrency) return; // 等 release 觸發
+    refill(bucket, now);
+    if (rpm > 0 && bucket.tokens < 1) {
+      const waitMs = Math.ceil(((1 - bucket.tokens) * 60_000) / rpm);
+      bucket.timer = setTimeout(() => pump(bucket), waitMs);
+      return;
+    }
+    if (rpm > 0) bucket.tokens -= 1;
+    bucket.active++;
+    bucket.waiters.shift()!.grant();
+  }
+}
+
+/**
+ * 取得執行名額（依序排隊）。逾時或 signal 中止（使用者關閉分頁）時回傳 null，呼叫端應回 503 queueTimeout。
+ * queue.depth 為進入佇列時前方等待的請求數，queue.waitMs 為實際等待時間
+ */
+export function acquireSlot(apiKey: string, modelId: string, signal?: AbortSignal): Promise<LimiterTicket | null> {
+  const bucket = getBucket(apiKey, modelId);
+  const timeoutMs = readLimit(process.env.AI_QUEUE_TIMEOUT_MS, DEFAULT_QUEUE_TIMEOUT_MS);
+
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(null);
+      return;
+    }
+    const waiter: Waiter = {
+      enqueuedAt: Date.now(),
+      depth: bucket.waiters.length,
+      grant: () => {
+        cleanup();
+        let released = false;
+        resolve({
+          queue: { waitMs: Date.now() - waiter.enqueuedAt, depth: waiter.depth },
+          release: () => {
+            if (released) return;
+            released = true;
+            bucket.active--;
+            pump(bucket);
+          },
+        });
+      },
+    };
+
+    const abandon = () => {
+      cleanup();
+      const idx = bucket.waiters.indexOf(waiter);
+      if (idx >= 0) bucket.waiters.splice(idx, 1);
+      resolve(null);
+    };
+    const timeout = timeoutMs > 0 ? setTimeout(abandon, timeoutMs) : null;
+    const cleanup = () => {
+      if (timeout) clearTimeout(timeout);
+      signal?.removeEventListener('abort', abandon);
+    };
+    signal?.addEventListener('abort', abandon);
+
+    bucket.waiters.push(waiter);
+    pump(bucket);
+  });
+}
+
+/** 上游回 429：清空該組 token 並暫停，排隊中的請求延後放行 */
+export function reportUpstreamRateLimit(apiKey: string, modelId: string) {
+  const bucket = getBucket(apiKey, modelId);
+  bucket.tokens = 0;
+  bucket.lastRefill = Date.now();
+  bucket.pausedUntil = Date.now() + UPSTREAM_429_PAUSE_MS;
+  pump(bucket);
+}
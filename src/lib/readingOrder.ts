@@ -0,0 +1,96 @@
+/**
+ * 功能：頁面內 region 的閱讀順序推斷
+ * 職責：依欄位歸屬（欄由左到右）、欄內由上到下、跨欄標題（橫跨多欄的標題 / 段落將下方多欄內文分段）排出確定性順序；
+ *       另提供 AI 順序（region id 遞增 = 模型回傳順序 + 手動新增順序）供切換回復
+ * 依賴：types.ts（Region、RegionOrderMode）
+ *
+ * 演算法（遞迴 XY-cut，欄優先）：
+ *   1. X 軸投影有留白帶 → 切成多欄，由左到右遞迴
+ *   2. 無法切欄（有跨欄框）→ Y 軸投影切成水平帶；相鄰的「非跨欄帶」合併後再遞迴，
+ *      避免兩欄段落間距剛好對齊時被橫切成「左一段、右一段、左一段…」
+ *   3. 仍無法切（框互相重疊）→ 依 y1 → x1 → id 排序
+ */
+
+import type { Region, RegionOrderMode } from './types';
+
+/** 投影切分的重疊容許值（歸一化單位）——AI 框常略微越過欄間留白 */
+const CUT_OVERLAP_TOLERANCE = 5;
+/** 水平帶寬度 ≥ 群組寬度 × 此比例視為跨欄帶（標題、通欄段落） */
+const SPANNING_WIDTH_RATIO = 0.6;
+
+type Bbox = [number, number, number, number];
+
+/** 依 y1 → x1 → id 排序（確定性 fallback，也是遞迴前的穩定初始順序） */
+function compareTopLeft<T extends { id: number; bbox: Bbox }>(a: T, b: T): number {
+  return a.bbox[1] - b.bbox[1] || a.bbox[0] - b.bbox[0] || a.id - b.id;
+}
+
+/**
+ * 投影切分：依起點排序後，把投影區間互不重疊的框分成群組（群組順序 = 由左到右 / 由上到下）
+ * @param axis 0 = X 軸（切欄），1 = Y 軸（切水平帶）
+ */
+function projectionCut<T extends { bbox: Bbox }>(items: T[], axis: 0 | 1): T[][] {
+  const sorted = [...items].sort((a, b) => a.bbox[axis] - b.bbox[axis]);
+  const groups: T[][] = [];
+  let end = -Infinity;
+  for (const item of sorted) {
+    const start = item.bbox[axis];
+    if (groups.length > 0 && start < end - CUT_OVERLAP_TOLERANCE) {
+      groups[groups.length - 1].push(item);
+      end = Math.max(end, item.bbox[axis + 2]);
+    } else {
+      groups.push([item]);
+      end = item.bbox[axis + 2];
+    }
+  }
+  return groups;
+}
+
+function orderGroup<T extends { id: number; bbox: Bbox }>(items: T[]): T[] {
+  if (items.length <= 1) return items;
+
+  const columns = projectionCut(items, 0);
+  if (columns.length > 1) return columns.flatMap(orderGroup);
+
+  const bands = projectionCut(items, 1);
+  if (bands.length <= 1) return [...items].sort(compareTopLeft);
+
+  // 相鄰的非跨欄帶合併（多欄內文），跨欄帶單獨成段
+  const left = Math.min(...items.map(r => r.bbox[0]));
+  const width = Math.max(...items.map(r => r.bbox[2])) - left;
+  const isSpanning = (band: T[]) =>
+    Math.max(...band.map(r => r.bbox[2])) - Math.min(...band.map(r => r.bbox[0])) >= width * SPANNING_WIDTH_RATIO
+    && projectionCut(band, 0).length === 1;
+
+  const sections: T[][] = [];
+  let body: T[] = [];
+  for (const band of bands) {
+    if (isSpanning(band)) {
+      if (body.length > 0) sections.push(body);
+      sections.push(band);
+      body = [];
+    } else {
+      body.push(...band);
+    }
+  }
+  if (body.length > 0) sections.push(body);
+
+  // 合併後仍是同一群（全部為非跨欄帶，但整體又切不出欄）→ 逐帶由上到下排序，避免無限遞迴
+  if (sections.length === 1) return bands.flatMap(band => [...band].sort(compareTopLeft));
+  return sections.flatMap(orderGroup);
+}
+
+/** 版面閱讀順序：欄由左到右、欄內由上到下，跨欄標題分隔上下兩段多欄內文 */
+export function sortRegionsByReadingOrder<T extends { id: number; bbox: Bbox }>(regions: T[]): T[] {
+  return orderGroup([...regions].sort(compareTopLeft));
+}
+
+/** AI 順序：region id 遞增（模型回傳順序；手動新增的框 id 較大排在後） */
+export function sortRegionsByAiOrder<T extends { id: number }>(regions: T[]): T[] {
+  return [...regions].sort((a, b) => a.id - b.id);
+}
+
+/** 依模式排序一頁的 regions */
+export function applyRegionOrder(regions: Region[], mode: RegionOrderMode): Region[] {
+  return mode === 'layout' ? sortRegionsByReadingOrder(regions) : sortRegionsByAiOrder(regions);
+}
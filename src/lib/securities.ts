@@ -0,0 +1,212 @@
+/**
+ * 功能：證券主檔（台股上市 / 上櫃、美股代號與中英文名稱）
+ * 職責：CSV 解析 / 輸出、設定值驗證、代號與名稱索引；供檔名解析、AI 代號候選驗證與設定面板標示未知代號
+ * 依賴：無（純函式模組；內建種子表見 securitiesSeed.ts，完整主檔經 /api/settings/securities 上傳）
+ * 內建種子表只收常用代號：以 complete = false 建索引，僅供名稱 → 代號反查，不據以標示未知代號或降權
+ *
+ * CSV 格式（第一列為標題，欄位順序不限；無標題時依 code,name_zh,name_en,market 解讀）：
+ *   code,market,name_zh,name_en
+ *   2454,TWSE,聯發科,MediaTek
+ *   AAPL,US,蘋果,Apple
+ */
+
+export type SecurityMarket = 'TWSE' | 'TPEx' | 'US';
+
+/** 證券主檔單筆 */
+export interface SecurityEntry {
+  /** 代號（台股 4~6 碼數字、美股英文 ticker，一律大寫） */
+  code: string;
+  market: SecurityMarket;
+  /** 中文簡稱（聯發科） */
+  nameZh?: string;
+  /** 英文名稱（MediaTek） */
+  nameEn?: string;
+}
+
+/** 查詢索引（buildSecurityIndex 建立） */
+export interface SecurityIndex {
+  byCode: Map<string, SecurityEntry>;
+  /** 名稱 → 證券（小寫；依名稱長度遞減，文字比對時長名稱優先） */
+  names: { name: string; entry: SecurityEntry }[];
+  /** 是否為完整主檔（伺服器上傳）；false = 內建種子表，主檔查無不代表代號未知 */
+  complete: boolean;
+}
+
+/** 中文名稱至少 2 字、英文名稱至少 4 字才用於文字比對（避免單字 / 短縮寫誤判） */
+const MIN_ZH_NAME_LENGTH = 2;
+const MIN_EN_NAME_LENGTH = 4;
+
+const HEADER_ALIASES: Record<keyof SecurityEntry, string[]> = {
+  code: ['code', 'ticker', 'symbol', '代號', '證券代號', '股票代號'],
+  market: ['market', 'exchange', '市場', '市場別'],
+  nameZh: ['name_zh', 'namezh', 'zh', '名稱', '中文名稱', '公司簡稱', '證券名稱'],
+  nameEn: ['name_en', 'nameen', 'en', 'name', '英文名稱', '英文簡稱'],
+};
+
+const MARKET_ALIASES: Record<string, SecurityMarket> = {
+  twse: 'TWSE', '上市': 'TWSE', tse: 'TWSE',
+  tpex: 'TPEx', '上櫃': 'TPEx', otc: 'TPEx', gtsm: 'TPEx',
+  us: 'US', nasdaq: 'US', nyse: 'US', amex: 'US', '美股': 'US',
+};
+
+/** 代號正規化：大寫、去除交易所後綴（2454.TW、6488.TWO、AAPL US） */
+export function normalizeSecurityCode(raw: string): string {
+  return raw.trim().toUpperCase().replace(/(?:\.TWO?|\s+(?:TT|US))$/, '');
+}
+
+function normalizeMarket(raw: string | undefined, code: string): SecurityMarket {
+  const market = raw ? MARKET_ALIASES[raw.trim().toLowerCase()] : undefined;
+  return market ?? (/^\d/.test(code) ? 'TWSE' : 'US');
+}
+
+/** 單列 CSV 切欄（支援雙引號包住含逗號的欄位、"" 跳脫） */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cur += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',' || ch === '\t') {
+      cells.push(cur.trim());
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  cells.push(cur.trim());
+  return cells;
+}
+
+function toEntry(code: string, market?: string, nameZh?: string, nameEn?: string): SecurityEntry | null {
+  const normalized = normalizeSecurityCode(code);
+  if (!/^(?:\d{4,6}[A-Z]?|[A-Z][A-Z0-9.]{0,9})$/.test(normalized)) return null;
+  return {
+    code: normalized,
+    market: normalizeMarket(market, normalized),
+    ...(nameZh?.trim() && { nameZh: nameZh.trim() }),
+    ...(nameEn?.trim() && { nameEn: nameEn.trim() }),
+  };
+}
+
+/** CSV → 主檔；無法辨識的列略過，同代號以後出現者為準 */
+export function parseSecuritiesCsv(text: string): SecurityEntry[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((l) => l.trim() && !l.trim().startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const column = (key: keyof SecurityEntry) => header.findIndex((h) => HEADER_ALIASES[key].includes(h));
+  const hasHeader = column('code') >= 0;
+  const cols = hasHeader
+    ? { code: column('code'), market: column('market'), nameZh: column('nameZh'), nameEn: column('nameEn') }
+    : { code: 0, nameZh: 1, nameEn: 2, market: 3 };
+
+  const byCode = new Map<string, SecurityEntry>();
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cells = splitCsvLine(line);
+    const cell = (i: number) => (i >= 0 ? cells[i] : undefined);
+    const entry = toEntry(cells[cols.code] ?? '', cell(cols.market), cell(cols.nameZh), cell(cols.nameEn));
+    if (entry) byCode.set(entry.code, entry);
+  }
+  return Array.from(byCode.values());
+}
+
+function csvCell(value: string | undefined): string {
+  if (!value) return '';
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** 主檔 → CSV（伺服器儲存與下載用） */
+export function formatSecuritiesCsv(entries: SecurityEntry[]): string {
+  return [
+    'code,market,name_zh,name_en',
+    ...entries.map((e) => [e.code, e.market, csvCell(e.nameZh), csvCell(e.nameEn)].join(',')),
+  ].join('\n');
+}
+
+/** 過濾 API 回傳 / localStorage 的主檔資料 */
+export function sanitizeSecurities(raw: unknown): SecurityEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const entries: SecurityEntry[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const { code, market, nameZh, nameEn } = item as Record<string, unknown>;
+    if (typeof code !== 'string') continue;
+    const entry = toEntry(
+      code,
+      typeof market === 'string' ? market : undefined,
+      typeof nameZh === 'string' ? nameZh : undefined,
+      typeof nameEn === 'string' ? nameEn : undefined,
+    );
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+/** 建立查詢索引；complete = false（內建種子表）時不判斷未知代號 */
+export function buildSecurityIndex(entries: SecurityEntry[], complete = true): SecurityIndex {
+  const byCode = new Map(entries.map((e) => [e.code, e]));
+  const names: SecurityIndex['names'] = [];
+  for (const entry of byCode.values()) {
+    if (entry.nameZh && entry.nameZh.length >= MIN_ZH_NAME_LENGTH) names.push({ name: entry.nameZh.toLowerCase(), entry });
+    if (entry.nameEn && entry.nameEn.length >= MIN_EN_NAME_LENGTH) names.push({ name: entry.nameEn.toLowerCase(), entry });
+  }
+  names.sort((a, b) => b.name.length - a.name.length);
+  return { byCode, names, complete };
+}
+
+/** 依代號查詢（容許交易所後綴與 MSFTUS 類寫法） */
+export function lookupSecurity(index: SecurityIndex, code: string): SecurityEntry | undefined {
+  const normalized = normalizeSecurityCode(code);
+  return index.byCode.get(normalized)
+    ?? (/^[A-Z]{2,}US$/.test(normalized) ? index.byCode.get(normalized.slice(0, -2)) : undefined);
+}
+
+/** 代號是否為主檔查無的未知代號（主檔為空或僅有內建種子表時一律視為已知） */
+export function isUnknownSecurityCode(index: SecurityIndex, code: string | undefined): boolean {
+  return !!code && index.complete && index.byCode.size > 0 && !lookupSecurity(index, code);
+}
+
+/**
+ * 在文字（檔名）中找出最長的證券名稱；名稱前後需為分隔字元（空白、-、數字或字串邊界），
+ * 不比對詞中子字串（「東南亞」中的「南亞」、「長榮航」中的「長榮」）；英文名稱前後也不可為數字
+ * @param excludeNames 不視為證券名稱的字串（小寫），如與券商同名的「統一」「元大」
+ */
+export function findSecurityInText(
+  index: SecurityIndex,
+  text: string,
+  excludeNames: Set<string> = new Set(),
+): SecurityEntry | undefined {
+  const lower = text.toLowerCase();
+  for (const { name, entry } of index.names) {
+    if (excludeNames.has(name)) continue;
+    const inWord = /^[a-z]/.test(name) ? /[a-z0-9]/ : /[a-z\u3400-\u9fff]/;
+    for (let at = lower.indexOf(name); at >= 0; at = lower.indexOf(name, at + 1)) {
+      const before = lower[at - 1];
+      const after = lower[at + name.length];
+      if ((before && inWord.test(before)) || (after && inWord.test(after))) continue;
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+/** 代號或完整名稱（AI 有時回傳公司名）→ 主檔中的證券；查無回傳 undefined */
+export function resolveSecurity(index: SecurityIndex, raw: string): SecurityEntry | undefined {
+  const value = raw.trim();
+  if (!value) return undefined;
+  const byCode = lookupSecurity(index, value);
+  if (byCode) return byCode;
+  const lower = value.toLowerCase();
+  return index.names.find((n) => n.name === lower)?.entry;
+}
+
+/** 顯示用名稱：中文優先 */
+export function securityDisplayName(entry: SecurityEntry): string {
+  return entry.nameZh ?? entry.nameEn ?? entry.code;
+}
@@ -0,0 +1,94 @@
+/**
+ * 功能：內建證券主檔種子表（CSV）
+ * 職責：伺服器尚未上傳完整主檔時的預設值——僅收錄研究報告常見的權值股與美股大型股；
+ *       完整上市 / 上櫃 / 美股清單請於設定面板上傳 CSV（/api/settings/securities），不需重新部署
+ * 依賴：無（格式見 securities.ts）
+ */
+
+export const BUNDLED_SECURITIES_CSV = `code,market,name_zh,name_en
+1101,TWSE,台泥,
+1301,TWSE,台塑,
+1303,TWSE,南亞,
+1326,TWSE,台化,
+2002,TWSE,中鋼,
+2059,TWSE,川湖,
+2207,TWSE,和泰車,
+2301,TWSE,光寶科,
+2303,TWSE,聯電,UMC
+2308,TWSE,台達電,Delta Electronics
+2313,TWSE,華通,
+2317,TWSE,鴻海,Hon Hai
+2327,TWSE,國巨,Yageo
+2330,TWSE,台積電,TSMC
+2345,TWSE,智邦,Accton
+2353,TWSE,宏碁,Acer
+2356,TWSE,英業達,Inventec
+2357,TWSE,華碩,ASUS
+2376,TWSE,技嘉,Gigabyte
+2377,TWSE,微星,MSI
+2379,TWSE,瑞昱,Realtek
+2382,TWSE,廣達,Quanta
+2383,TWSE,台光電,
+2395,TWSE,研華,Advantech
+2408,TWSE,南亞科,Nanya Technology
+2409,TWSE,友達,AUO
+2412,TWSE,中華電,Chunghwa Telecom
+2449,TWSE,京元電子,
+2454,TWSE,聯發科,MediaTek
+2474,TWSE,可成,
+2603,TWSE,長榮,Evergreen Marine
+2609,TWSE,陽明,
+2615,TWSE,萬海,
+2881,TWSE,富邦金,
+2882,TWSE,國泰金,
+2884,TWSE,玉山金,
+2886,TWSE,兆豐金,
+2891,TWSE,中信金,
+2892,TWSE,第一金,
+3008,TWSE,大立光,Largan
+3017,TWSE,奇鋐,
+3034,TWSE,聯詠,Novatek
+3037,TWSE,欣興,Unimicron
+3045,TWSE,台灣大,
+3231,TWSE,緯創,Wistron
+3443,TWSE,創意,
+3533,TWSE,嘉澤,
+3653,TWSE,健策,
+3661,TWSE,世芯-KY,Alchip
+3711,TWSE,日月光投控,ASE Technology
+4904,TWSE,遠傳,
+4938,TWSE,和碩,Pegatron
+5871,TWSE,中租-KY,
+6505,TWSE,台塑化,
+6669,TWSE,緯穎,Wiwynn
+3105,TPEx,穩懋,WIN Semiconductors
+3217,TPEx,優群,
+3293,TPEx,鈊象,
+3363,TPEx,上詮,
+3529,TPEx,力旺,eMemory
+5274,TPEx,信驊,ASPEED
+5483,TPEx,中美晶,
+6147,TPEx,頎邦,
+6274,TPEx,台燿,
+6488,TPEx,環球晶,GlobalWafers
+8069,TPEx,元太,E Ink
+8299,TPEx,群聯,Phison
+AAPL,US,蘋果,Apple
+AMD,US,超微,Advanced Micro Devices
+AMZN,US,亞馬遜,Amazon
+ARM,US,安謀,Arm Holdings
+ASML,US,艾司摩爾,ASML Holding
+AVGO,US,博通,Broadcom
+DELL,US,戴爾,Dell Technologies
+GOOGL,US,谷歌,Alphabet
+INTC,US,英特爾,Intel
+META,US,,Meta Platforms
+MRVL,US,邁威爾,Marvell Technology
+MSFT,US,微軟,Microsoft
+MU,US,美光,Micron Technology
+NVDA,US,輝達,NVIDIA
+QCOM,US,高通,Qualcomm
+SMCI,US,美超微,Super Micro Computer
+TSLA,US,特斯拉,Tesla
+TSM,US,台積電ADR,TSMC ADR
+`;
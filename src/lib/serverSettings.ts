@@ -0,0 +1,44 @@
+/**
+ * 功能：伺服器端共享設定檔讀取（server-only）
+ * 職責：提供 settings.json 路徑與唯讀存取，供 /api/settings 與其他 server 模組（如本機模型端點）共用；
+ *       設定上傳的密碼驗證（/api/settings、/api/settings/securities 共用）
+ * 依賴：Node.js fs、環境變數 SETTINGS_DIR、SETTINGS_PASSWORD
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/** 取得設定檔案完整路徑 */
+export function getSettingsPath(): string {
+  return getSettingsFilePath('settings.json');
+}
+
+/** 讀取共享設定（檔案不存在或格式錯誤回傳 null） */
+export function readServerSettings(): Record<string, unknown> | null {
+  try {
+    const filePath = getSettingsPath();
+    if (!fs.existsSync(filePath)) return null;
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 取得設定目錄下其他檔案的完整路徑（如 securities.csv） */
+export function getSettingsFilePath(fileName: string): string {
+  return path.resolve(process.env.SETTINGS_DIR || './data', fileName);
+}
+
+/**
+ * 驗證設定上傳密碼（開發模式免密碼）；通過回傳 null，失敗回傳 HTTP 狀態碼與錯誤訊息
+ * SETTINGS_PASSWORD 未設定 → 503（上傳功能未啟用）；密碼錯誤 → 401
+ */
+export function verifySettingsPassword(password: unknown): { status: number; error: string } | null {
+  // next dev 自動設定 NODE_ENV=development
+  if (process.env.NODE_ENV === 'development') return null;
+  const serverPassword = process.env.SETTINGS_PASSWORD;
+  if (!serverPassword) return { status: 503, error: '伺服器未設定 SETTINGS_PASSWORD，上傳功能未啟用' };
+  if (!password || password !== serverPassword) return { status: 401, error: '密碼錯誤' };
+  return null;
+}
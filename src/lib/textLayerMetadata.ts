@@ -0,0 +1,178 @@
+/**
+ * 功能：從 PDF 首頁文字層解析報告 metadata（日期 / 股票代號 / 券商）
+ * 職責：在封面文字中找出第一個完整日期（西元 / 民國 / 英文月份，一律輸出 YYYY/MM/DD）、
+ *       「5371 中光電」「聯發科 (2454 TT)」類代號（主檔中的代號優先）、信頭券商名（已知券商 + 別名 + 英文全名）
+ * 依賴：securities.ts（代號驗證）；文字由 pdfTextExtract.readPageText 讀取，useFileManager 上傳時於 AI 分析前呼叫
+ */
+
+import { SecurityIndex, lookupSecurity, normalizeSecurityCode } from './securities';
+
+/** 文字層解析結果（找不到的欄位省略） */
+export interface TextLayerMetadata {
+  date?: string;
+  code?: string;
+  broker?: string;
+}
+
+const ROC_OFFSET = 1911;
+const MIN_YEAR = 1990;
+const MAX_YEAR = 2100;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+const MONTH_PATTERN = '(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\\.?';
+
+/** 日期樣式（group 順序由 toDate 轉為年月日；年份 < 1000 視為民國） */
+const DATE_PATTERNS: { regex: RegExp; toDate: (m: RegExpExecArray) => [number, number, number] }[] = [
+  // 2026年2月11日、民國115年2月11日
+  { regex: /(\d{2,4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/g, toDate: (m) => [+m[1], +m[2], +m[3]] },
+  // 2026/02/11、2026-2-11、2026.02.11、115/02/11
+  { regex: /(?<!\d)((?:19|20)\d{2}|1[01]\d)[/.\-](\d{1,2})[/.\-](\d{1,2})(?!\d)/g, toDate: (m) => [+m[1], +m[2], +m[3]] },
+  // 11 February 2026、11 Feb, 2026
+  {
+    regex: new RegExp(`(?<![\\dA-Za-z])(\\d{1,2})\\s+${MONTH_PATTERN},?\\s+(\\d{4})(?!\\d)`, 'gi'),
+    toDate: (m) => [+m[3], MONTHS[m[2].toLowerCase()], +m[1]],
+  },
+  // February 11, 2026
+  {
+    regex: new RegExp(`(?<![A-Za-z])${MONTH_PATTERN}\\s+(\\d{1,2}),?\\s+(\\d{4})(?!\\d)`, 'gi'),
+    toDate: (m) => [+m[3], MONTHS[m[1].toLowerCase()], +m[2]],
+  },
+];
+
+/** 代號後接的名稱若以單位 / 日期字開頭則不是公司名（「2026 年度」「3000 億元」） */
+const NON_NAME_PREFIX = /^[年月日元萬億千百張股頁季週點檔家人名倍成]/;
+
+/** 英文信頭全名 → 常見券商簡稱（簡稱需存在於已知券商清單才採用） */
+const BROKER_LETTERHEAD_NAMES: Record<string, string> = {
+  'J.P. Morgan': 'JPM',
+  'JPMorgan': 'JPM',
+  'Goldman Sachs': 'GS',
+  'Morgan Stanley': 'MS',
+  'Citigroup': 'Citi',
+  'Citi Research': 'Citi',
+  'BofA Securities': 'BofA',
+  'Bank of America': 'BofA',
+  'Macquarie': 'MQ',
+  'Nomura': 'Nomura',
+  'Daiwa': 'Daiwa',
+  'HSBC': 'HSBC',
+  'CLSA': 'CLSA',
+};
+
+/** 中文券商名需接這些字才視為信頭（避免「統一企業」「國泰金」等公司名誤判） */
+const BROKER_SUFFIX = '(?:投顧|投資顧問|證券|投信|期貨)';
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toPaddedDate(year: number, month: number, day: number): string | undefined {
+  const y = year < 1000 ? year + ROC_OFFSET : year;
+  if (y < MIN_YEAR || y > MAX_YEAR || month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  return `${y}/${String(month).padStart(2, '0')}/${String(day).padStart(2, '0')}`;
+}
+
+/** 文字中最早出現的完整日期 */
+export function findDateInText(text: string): string | undefined {
+  let best: { at: number; date: string } | undefined;
+  for (const { regex, toDate } of DATE_PATTERNS) {
+    regex.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(text)) !== null) {
+      if (best && m.index >= best.at) break;
+      const date = toPaddedDate(...toDate(m));
+      if (date) {
+        best = { at: m.index, date };
+        break;
+      }
+    }
+  }
+  return best?.date;
+}
+
+/**
+ * 文字中的股票代號：依出現順序收集
+ *   ① 名稱後括號代號「聯發科 (2454 TT)」「NVIDIA (NVDA US)」② 行首代號後接中文名「5371 中光電」（行中的「目標價 1200 維持買進」不算）
+ * 完整主檔中的代號優先（內建種子表不據以挑選）；否則取第一個台股數字代號（英文代號須在主檔中或帶交易所後綴，避免 EPS / YoY 等縮寫）
+ */
+export function findCodeInText(text: string, securities?: SecurityIndex): string | undefined {
+  const found: { at: number; code: string; strong: boolean }[] = [];
+
+  const parenRegex = /[(（]\s*(\d{4,6}[A-Z]?|[A-Z]{1,5})((?:\s+(?:TT|US)|\.TWO?|\.[OKN]))?\s*[)）]/g;
+  let m: RegExpExecArray | null;
+  while ((m = parenRegex.exec(text)) !== null) {
+    const code = normalizeSecurityCode(m[1]);
+    const isTicker = /^[A-Z]/.test(code);
+    if (isTicker && !m[2] && !(securities && lookupSecurity(securities, code))) continue;
+    found.push({ at: m.index, code, strong: true });
+  }
+
+  const prefixRegex = /^\s*(\d{4,6})(?:\s*(?:TT|\.TWO?))?\s*([\u4e00-\u9fff][\u4e00-\u9fffA-Za-z\-]{1,7})/gm;
+  while ((m = prefixRegex.exec(text)) !== null) {
+    if (NON_NAME_PREFIX.test(m[2])) continue;
+    found.push({ at: m.index, code: m[1], strong: false });
+  }
+
+  found.sort((a, b) => a.at - b.at);
+  if (securities?.complete && securities.byCode.size > 0) {
+    const known = found.find((f) => lookupSecurity(securities, f.code));
+    if (known) return lookupSecurity(securities, known.code)!.code;
+  }
+  return (found.find((f) => f.strong) ?? found[0])?.code;
+}
+
+/**
+ * 文字中最早出現的信頭券商名（回傳 canonical 名稱）
+ * 中文名需接「投顧 / 證券 / 投信」等字；英文名需大寫開頭且前後非英數（略過 memo 等一般字詞）
+ */
+export function findBrokerInText(
+  text: string,
+  knownBrokers: string[],
+  aliasMap: Record<string, string> = {},
+): string | undefined {
+  const names: { name: string; canonical: string }[] = [
+    ...knownBrokers.map((b) => ({ name: b, canonical: b })),
+    // aliasMap 的 key 為小寫，英文別名還原為大寫（kgi → KGI）
+    ...Object.keys(aliasMap).map((k) => ({ name: /^[a-z]+$/.test(k) ? k.toUpperCase() : k, canonical: aliasMap[k] })),
+    ...Object.entries(BROKER_LETTERHEAD_NAMES)
+      .filter(([, short]) => knownBrokers.includes(short))
+      .map(([name, short]) => ({ name, canonical: short })),
+  ];
+
+  let best: { at: number; length: number; canonical: string } | undefined;
+  for (const { name, canonical } of names) {
+    if (!name || !canonical || /[()（）]/.test(name)) continue;
+    let regex: RegExp;
+    if (/^[A-Za-z]/.test(name)) {
+      if (!/^[A-Z]/.test(name)) continue;
+      regex = new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(name)}(?![A-Za-z0-9])`);
+    } else {
+      regex = new RegExp(`${escapeRegExp(name)}${BROKER_SUFFIX}`);
+    }
+    const m = regex.exec(text);
+    if (!m) continue;
+    if (!best || m.index < best.at || (m.index === best.at && name.length > best.length)) {
+      best = { at: m.index, length: name.length, canonical };
+    }
+  }
+  return best?.canonical;
+}
+
+/** 從首頁文字解析日期、股票代號、券商名 */
+export function extractMetadataFromText(
+  text: string,
+  knownBrokers: string[],
+  aliasMap: Record<string, string> = {},
+  securities?: SecurityIndex,
+): TextLayerMetadata {
+  const date = findDateInText(text);
+  const code = findCodeInText(text, securities);
+  const broker = findBrokerInText(text, knownBrokers, aliasMap);
+  return {
+    ...(date && { date }),
+    ...(code && { code }),
+    ...(broker && { broker }),
+  };
+}
@@ -61,6 +61,8 @@ export interface RegionDebugInfo {
     /** 微聚類間距中位數 */
     medianMicroSpacing?: number;
   };
+  /** 因跨頁重複而排除的行（頁首 / 頁尾 / 頁碼 / 合規聲明；text 為原文，baseline 為歸一化座標） */
+  runningLinesRemoved?: { text: string; baseline: number }[];
   /** 各階段校正過程詳情（bbox 如何從 original 變成 final） */
   corrections?: {
     /** Phase 1 snap 校正 */
@@ -110,6 +112,16 @@ export interface RegionDebugInfo {
   };
 }
 
+/** 雙模型交叉比對（ensemble）的區域一致性 */
+export interface RegionAgreement {
+  /** agreed = 兩個模型都偵測到（IoU 配對成功）；single = 只有一個模型偵測到（低信心） */
+  level: 'agreed' | 'single';
+  /** 偵測到此區域的模型 ID */
+  models: string[];
+  /** agreed 時兩框的 IoU（0~1） */
+  iou?: number;
+}
+
 /** 單一標註區域 */
 export interface Region {
   id: number;
@@ -119,20 +131,75 @@ export interface Region {
   label: string;
   /** 框內的完整文字內容（由前端從 PDF 文字層提取） */
   text: string;
+  /** 文字層提取時依字級 / 粗體推斷的 Markdown（標題、項目符號、強調）；與 text 相同時省略，文字被改寫時清除 */
+  markdown?: string;
+  /** 文字來源（PDF 文字層 / 本機 OCR / AI 識別）；使用者手動編輯或尚無文字時省略 */
+  textSource?: RegionTextSource;
+  /** 文字層提取信心分數（pdfTextExtractCore.computeExtractionConfidence；文字被 AI / OCR / 手動改寫時清除） */
+  confidence?: RegionConfidence;
   /** 是否被使用者手動修改/新增（API 回傳時不覆蓋） */
   userModified?: boolean;
   /** AI 原始 bbox（校正前），用於切換比較 */
   originalBbox?: [number, number, number, number];
+  /** 雙模型交叉比對結果（僅 ensemble 模式產生） */
+  agreement?: RegionAgreement;
   /** 文字提取 debug 診斷資料（各 phase bbox 快照 + 提取參數） */
   _debug?: RegionDebugInfo;
 }
 
-/** 單一欄位候選值（來源：檔名 / AI / 手動） */
+/** 文字層提取信心分數：score 0~100（低於 CONFIDENCE_LOW_THRESHOLD 需人工檢查），reasons 為扣分原因 */
+export interface RegionConfidence {
+  score: number;
+  reasons: string[];
+}
+
+/** region 文字來源：text-layer = PDF 文字層提取 / 重建表格；ocr = 本機 OCR 引擎；ai = 截圖送模型識別 */
+export type RegionTextSource = 'text-layer' | 'ocr' | 'ai';
+
+/** 財務數據種類：營收 / 利潤率 / EPS / 目標價 / 投資評等 / 季增率 / 年增率 */
+export type FinancialEntityKind = 'revenue' | 'margin' | 'eps' | 'targetPrice' | 'rating' | 'qoq' | 'yoy';
+
+/** 從 region 文字擷取的單筆財務數據（financialEntities.ts） */
+export interface FinancialEntity {
+  kind: FinancialEntityKind;
+  /** 原文指標名稱（營收、毛利率、EPS、目標價、評等、QoQ…） */
+  label: string;
+  /** 數值（評等為文字，如「買進」） */
+  value: number | string;
+  /** 單位（億元、%、元）；評等省略 */
+  unit?: string;
+  /** 期間標籤（正規化為 4Q25 / 1H26 / 2026F / FY26 / 2025）；原文未標示時省略 */
+  period?: string;
+  /** QoQ / YoY 描述的指標（同句前一個指標名稱，如「營收」） */
+  subject?: string;
+  /** 原文片段 */
+  raw: string;
+  page: number;
+  regionId: number;
+}
+
+/** 單一欄位候選值（來源：檔名 / 首頁文字層 / AI / 手動） */
 export interface MetadataCandidate {
   value: string;
-  source: 'filename' | 'ai' | 'manual';
+  source: 'filename' | 'textlayer' | 'ai' | 'manual';
+  /** AI 回傳此值的頁碼（跨頁共識計分；來源為檔名等時也會累計 AI 同值頁碼） */
+  pages?: number[];
+}
+
+/** 末尾樣板頁類型（免責聲明 / 分析師聲明 / 評等定義 / 空白或封底） */
+export type BoilerplateKind = 'disclaimer' | 'certification' | 'ratingDefinition' | 'blank';
+
+/** 文字層偵測為樣板頁而略過分析的末尾頁 */
+export interface SkippedPage {
+  page: number;
+  kind: BoilerplateKind;
+  /** 判斷依據（樣板指紋、關鍵字覆蓋率） */
+  reasons: string[];
 }
 
+/** metadata 欄位（日期 / 股票代號 / 券商名） */
+export type MetadataField = 'date' | 'code' | 'broker';
+
 /** 單頁分析結果 */
 export interface PageAnalysis {
   page: number;
@@ -154,17 +221,64 @@ export interface AnalyzeRequest {
   prompt: string;
   /** 頁碼 */
   page: number;
+  /** 回應欄位映射（模型 JSON key → PageAnalysis 欄位，如 { stock: 'code' }）；省略時用預設映射 */
+  responseFieldMap?: Record<string, string>;
+}
+
+/** 單次 AI 呼叫的 token 用量（Gemini usageMetadata / OpenAI 相容 usage 統一成此格式） */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** 單一模型的累計用量 */
+export interface ModelUsage extends TokenUsage {
+  /** 有回報用量的呼叫次數（含格式錯誤重試，快取命中不計） */
+  calls: number;
+}
+
+/** 依模型 ID 分組的累計用量（同一檔案可能混用模型：429 退回、中途切換模型），估算費用時逐模型套用定價 */
+export type UsageByModel = Record<string, ModelUsage>;
+
+/** 模型輸出驗證錯誤（path 如 regions[2].bbox；根節點為空字串） */
+export interface AnalysisValidationIssue {
+  path: string;
+  message: string;
 }
 
 /** /api/analyze 的回應格式 */
+/** 伺服器端限流排隊資訊（/api/analyze、/api/recognize 回應） */
+export interface ServerQueueInfo {
+  /** 在伺服器排隊等待的時間（毫秒） */
+  waitMs: number;
+  /** 進入佇列時前方等待的請求數（同金鑰 + 同模型） */
+  depth: number;
+}
+
 export interface AnalyzeResponse {
   success: boolean;
   data?: PageAnalysis;
   error?: string;
   /** 429 速率限制標記：前端據此決定延遲重試或退回模型 */
   rateLimited?: boolean;
+  /** 伺服器端限流排隊逾時（503，非上游 429）：前端直接重新排隊，不觸發全域暫停與模型退回 */
+  queueTimeout?: boolean;
+  /** 模型輸出無法修復/驗證（非網路錯誤）：前端據此立即重試，不做退避等待 */
+  invalidOutput?: boolean;
+  /** invalidOutput 時的結構化驗證錯誤 */
+  validationErrors?: AnalysisValidationIssue[];
+  /** 本次呼叫的 token 用量（成功與 invalidOutput 皆回傳：格式錯誤的輸出同樣計費） */
+  usage?: TokenUsage;
+  /** 伺服器端限流排隊資訊（取得執行名額後的回應皆附上） */
+  queue?: ServerQueueInfo;
 }
 
+/** 頁面內 region 排序模式：ai = 模型回傳順序；layout = 依欄位 / 由上到下 / 跨欄標題推斷的閱讀順序 */
+export type RegionOrderMode = 'ai' | 'layout';
+
+/** 右欄顯示 / 匯出的文字格式：plain = 原始提取文字；markdown = 含標題 / 項目符號 / 強調的 Markdown（Region.markdown） */
+export type TextFormat = 'plain' | 'markdown';
+
 /** 多檔案管理：單一檔案條目 */
 export interface FileEntry {
   /** 唯一識別碼 */
@@ -185,11 +299,11 @@ export interface FileEntry {
   analysisPages: number;
   /** 已完成分析的頁數（per-file 追蹤，不論是否有 regions） */
   completedPages: number;
-  /** 日期候選值（檔名解析 + AI 回傳 + 手動輸入） */
+  /** 日期候選值（檔名解析 + 首頁文字層 + AI 回傳 + 手動輸入） */
   dateCandidates?: MetadataCandidate[];
-  /** 股票代號候選值（檔名解析 + AI 回傳 + 手動輸入） */
+  /** 股票代號候選值（檔名解析 + 首頁文字層 + AI 回傳 + 手動輸入） */
   codeCandidates?: MetadataCandidate[];
-  /** 券商名候選值（檔名解析 + AI 回傳 + 手動輸入） */
+  /** 券商名候選值（檔名解析 + 首頁文字層 + AI 回傳 + 手動輸入） */
   brokerCandidates?: MetadataCandidate[];
   /** 使用者已確認日期 */
   selectedDate?: string;
@@ -199,6 +313,16 @@ export interface FileEntry {
   selectedBroker?: string;
   /** 券商名（從 AI 分析結果取得） */
   report?: string;
+  /** 累計 token 用量（頁面分析 + 區域識別，依模型分組） */
+  usage?: UsageByModel;
+  /** 各頁累計 token 用量（key = 頁碼；區域識別計入所屬頁） */
+  pageUsage?: Record<number, UsageByModel>;
+  /** 頁面內 region 排序模式（未設定 = ai） */
+  regionOrder?: RegionOrderMode;
+  /** 使用者手動點選 / 輸入確認過的欄位（共識不再自動改選，衝突視為已解決） */
+  confirmedMetadata?: MetadataField[];
+  /** 文字層偵測到的末尾樣板頁（有值時取代券商忽略頁數；未偵測到為空陣列） */
+  skippedPages?: SkippedPage[];
 }
 
 /** Bounding Box 顏色定義 */
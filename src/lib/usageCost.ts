@@ -0,0 +1,110 @@
+/**
+ * 功能：token 用量累計與費用估算
+ * 職責：累加 AI 呼叫回報的 token 用量（依模型分組）、合併多檔用量、依 /api/models 的定價（USD / 1M tokens）估算費用、格式化顯示
+ * 依賴：types.ts（TokenUsage / UsageByModel）、constants.ts（本機 / 模擬模型判斷）
+ *
+ * 定價來源為 OpenRouter pricing API，只涵蓋部分模型；查無定價的模型費用不計入，並在結果標記 unpriced，
+ * 避免把「未知」顯示成 $0。本機端點與離線模擬模型不計費，視為 $0。
+ */
+
+import { TokenUsage, UsageByModel } from '@/lib/types';
+import { isLocalModel, isMockModel } from '@/lib/constants';
+import type { ModelChoice } from '@/app/api/models/route';
+
+/** 模型定價（USD / 1M tokens） */
+export type ModelPricing = Record<string, { priceInput: number; priceOutput: number }>;
+
+/** 費用估算結果 */
+export interface CostEstimate {
+  /** 有定價部分的估算費用（USD） */
+  usd: number;
+  /** 是否有模型查無定價（費用為下限） */
+  unpriced: boolean;
+}
+
+/** 累加一次呼叫的用量（回傳新物件，供 React state 使用） */
+export function addUsage(prev: UsageByModel | undefined, modelId: string, usage: TokenUsage): UsageByModel {
+  const cur = prev?.[modelId];
+  return {
+    ...prev,
+    [modelId]: {
+      inputTokens: (cur?.inputTokens ?? 0) + usage.inputTokens,
+      outputTokens: (cur?.outputTokens ?? 0) + usage.outputTokens,
+      calls: (cur?.calls ?? 0) + 1,
+    },
+  };
+}
+
+/** 合併多份用量（如所有檔案的合計） */
+export function mergeUsage(list: (UsageByModel | undefined)[]): UsageByModel {
+  const merged: UsageByModel = {};
+  for (const usage of list) {
+    if (!usage) continue;
+    for (const [modelId, u] of Object.entries(usage)) {
+      const cur = merged[modelId];
+      merged[modelId] = {
+        inputTokens: (cur?.inputTokens ?? 0) + u.inputTokens,
+        outputTokens: (cur?.outputTokens ?? 0) + u.outputTokens,
+        calls: (cur?.calls ?? 0) + u.calls,
+      };
+    }
+  }
+  return merged;
+}
+
+/** 所有模型的 token 合計 */
+export function totalTokens(usage: UsageByModel | undefined): TokenUsage {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (const u of Object.values(usage ?? {})) {
+    inputTokens += u.inputTokens;
+    outputTokens += u.outputTokens;
+  }
+  return { inputTokens, outputTokens };
+}
+
+/** 由模型列表建立定價表（只收有定價的模型） */
+export function buildModelPricing(choices: ModelChoice[]): ModelPricing {
+  const pricing: ModelPricing = {};
+  for (const m of choices) {
+    if (m.priceInput != null && m.priceOutput != null) {
+      pricing[m.id] = { priceInput: m.priceInput, priceOutput: m.priceOutput };
+    }
+  }
+  return pricing;
+}
+
+/** 依定價估算費用 */
+export function estimateCost(usage: UsageByModel | undefined, pricing: ModelPricing): CostEstimate {
+  let usd = 0;
+  let unpriced = false;
+  for (const [modelId, u] of Object.entries(usage ?? {})) {
+    if (isLocalModel(modelId) || isMockModel(modelId)) continue;
+    const p = pricing[modelId];
+    if (!p) {
+      unpriced = true;
+      continue;
+    }
+    usd += (u.inputTokens * p.priceInput + u.outputTokens * p.priceOutput) / 1_000_000;
+  }
+  return { usd, unpriced };
+}
+
+/** 格式化 token 數（1234 → 1.2k、1234567 → 1.23M） */
+export function formatTokenCount(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+/** 格式化費用（小額保留 4 位小數；有未定價模型加 + 表示下限） */
+export function formatCost({ usd, unpriced }: CostEstimate): string {
+  const digits = usd > 0 && usd < 0.01 ? 4 : 2;
+  return `$${usd.toFixed(digits)}${unpriced ? '+' : ''}`;
+}
+
+/** 一行摘要：「輸入 12.3k / 輸出 1.2k tokens ≈ $0.0123」 */
+export function formatUsageSummary(usage: UsageByModel | undefined, pricing: ModelPricing): string {
+  const { inputTokens, outputTokens } = totalTokens(usage);
+  return `輸入 ${formatTokenCount(inputTokens)} / 輸出 ${formatTokenCount(outputTokens)} tokens ≈ ${formatCost(estimateCost(usage, pricing))}`;
+}